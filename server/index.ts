@@ -18,6 +18,14 @@ import { revenueRouter, expenseRouter } from './routes/financials';
 import adminRoutes from './routes/admin';
 import forecastRoutes from './routes/forecast';
 import recommendationsRoutes from './routes/recommendations';
+import payrollRoutes from './routes/payroll';
+import assetsRoutes from './routes/assets';
+import scenariosRoutes from './routes/scenarios';
+import whtCreditsRoutes from './routes/whtCredits';
+import ediCertificatesRoutes from './routes/ediCertificates';
+import taxHolidaysRoutes from './routes/taxHolidays';
+import instalmentsRoutes from './routes/instalments';
+import shareDisposalsRoutes from './routes/shareDisposals';
 
 const app = express();
 const PORT = process.env.SERVER_PORT || 5002;
@@ -62,6 +70,14 @@ app.use('/api/expenses', expenseRouter);
 app.use('/api/admin', adminRoutes);
 app.use('/api/forecast', forecastRoutes);
 app.use('/api/recommendations', recommendationsRoutes);
+app.use('/api/payroll', payrollRoutes);
+app.use('/api/assets', assetsRoutes);
+app.use('/api/scenarios', scenariosRoutes);
+app.use('/api/wht-credits', whtCreditsRoutes);
+app.use('/api/edi-certificates', ediCertificatesRoutes);
+app.use('/api/tax-holidays', taxHolidaysRoutes);
+app.use('/api/instalments', instalmentsRoutes);
+app.use('/api/share-disposals', shareDisposalsRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -69,7 +85,7 @@ app.get('/', (req, res) => {
     name: 'WittyTax API',
     version: '1.0.0',
     status: 'running',
-    endpoints: ['/api/auth', '/api/documents', '/api/calculations', '/api/revenue', '/api/expenses', '/api/health']
+    endpoints: ['/api/auth', '/api/documents', '/api/calculations', '/api/revenue', '/api/expenses', '/api/payroll', '/api/assets', '/api/scenarios', '/api/wht-credits', '/api/edi-certificates', '/api/tax-holidays', '/api/instalments', '/api/share-disposals', '/api/health']
   });
 });
 
@@ -0,0 +1,125 @@
+import { Router, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../db';
+import { validateString, validateAmount, validateDate, validateEnum, validateId, collectErrors } from '../utils/validate';
+import { ASSET_CLASSES } from '../../src/utils/capitalAllowances';
+
+const router = Router();
+const JWT_SECRET = process.env.JWT_SECRET!;
+const ASSET_CLASS_IDS = ASSET_CLASSES.map((c) => c.id);
+
+const authenticate = (req: Request, res: Response, next: Function) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const token = authHeader.substring(7);
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    (req as any).userId = decoded.userId;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const assets = await prisma.fixedAsset.findMany({
+      where: { userId },
+      orderBy: { acquisitionDate: 'asc' },
+    });
+    res.json({ assets });
+  } catch (error) {
+    console.error('Get assets error:', error);
+    res.status(500).json({ error: 'Failed to fetch assets' });
+  }
+});
+
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { description, assetClass, cost, acquisitionDate } = req.body;
+
+    const errors = collectErrors(
+      validateString(description, 'description', { maxLength: 200 }),
+      validateEnum(assetClass, 'assetClass', ASSET_CLASS_IDS),
+      validateAmount(cost, 'cost'),
+      validateDate(acquisitionDate, 'acquisitionDate'),
+    );
+    if (errors.length) return res.status(400).json({ errors });
+
+    const asset = await prisma.fixedAsset.create({
+      data: {
+        description: (description as string).trim(),
+        assetClass,
+        cost: parseFloat(cost),
+        acquisitionDate: new Date(acquisitionDate),
+        userId,
+      },
+    });
+
+    res.status(201).json({ asset });
+  } catch (error) {
+    console.error('Create asset error:', error);
+    res.status(500).json({ error: 'Failed to create asset' });
+  }
+});
+
+// Record (or clear, with disposalDate null) the disposal of an asset
+router.patch('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id, disposalDate, disposalProceeds } = req.body;
+
+    const idError = validateId(id);
+    if (idError) return res.status(400).json({ errors: [idError] });
+
+    const existing = await prisma.fixedAsset.findFirst({ where: { id, userId } });
+    if (!existing) return res.status(404).json({ error: 'Asset not found' });
+
+    if (disposalDate !== null) {
+      const errors = collectErrors(
+        validateDate(disposalDate, 'disposalDate'),
+        validateAmount(disposalProceeds, 'disposalProceeds'),
+      );
+      if (!errors.length && new Date(disposalDate) < existing.acquisitionDate) {
+        errors.push({ field: 'disposalDate', message: 'disposalDate cannot be before the acquisition date' });
+      }
+      if (errors.length) return res.status(400).json({ errors });
+    }
+
+    const asset = await prisma.fixedAsset.update({
+      where: { id },
+      data: disposalDate === null
+        ? { disposalDate: null, disposalProceeds: null }
+        : { disposalDate: new Date(disposalDate), disposalProceeds: parseFloat(disposalProceeds) },
+    });
+    res.json({ asset });
+  } catch (error) {
+    console.error('Update asset error:', error);
+    res.status(500).json({ error: 'Failed to update asset' });
+  }
+});
+
+router.delete('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.body;
+
+    const idError = validateId(id);
+    if (idError) return res.status(400).json({ errors: [idError] });
+
+    const asset = await prisma.fixedAsset.findFirst({ where: { id, userId } });
+    if (!asset) return res.status(404).json({ error: 'Asset not found' });
+
+    await prisma.fixedAsset.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete asset error:', error);
+    res.status(500).json({ error: 'Failed to delete asset' });
+  }
+});
+
+export default router;
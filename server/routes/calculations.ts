@@ -1,7 +1,29 @@
 import { Router, Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../db';
-import { validateEnum, collectErrors } from '../utils/validate';
+import { validateTaxYear, ValidationError } from '../utils/validate';
+import {
+  Body,
+  COMPANY_FIELDS,
+  isObject,
+  PERSONAL_FIELDS,
+  pick,
+  validateCompanyInput,
+  validatePersonalInput,
+} from '../utils/taxInputs';
+import { reconcileInstalmentSchedule } from '../../src/utils/instalments';
+import {
+  calculateCompanyTax,
+  calculatePersonalTax,
+  CompanyTaxInput,
+  PersonalTaxInput,
+} from '../../src/utils/taxCalculations';
+import { currentTaxYear } from '../../src/utils/taxRules';
+import { LossLedgerEntry } from '../../src/utils/lossRelief';
+import { buildWhtCreditLedger, WhtCreditEntry } from '../../src/utils/whtCredits';
+import { buildEdiCreditLedger, EdiCreditEntry, EdiExpenditure } from '../../src/utils/ediCredits';
+import { taxHolidayStatus } from '../../src/utils/taxHolidays';
+import { BusinessSector } from '../../src/utils/businessTypes';
 
 const router = Router();
 const JWT_SECRET = process.env.JWT_SECRET!;
@@ -30,6 +52,7 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
     });
     const parsed = calculations.map((calc) => ({
       ...calc,
+      input: calc.input ? JSON.parse(calc.input) : null,
       result: typeof calc.result === 'string' ? JSON.parse(calc.result) : calc.result,
     }));
     res.json({ calculations: parsed });
@@ -39,40 +62,175 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
   }
 });
 
-router.post('/', authenticate, async (req: Request, res: Response) => {
-  try {
-    const userId = (req as any).userId;
-    const { type, result } = req.body;
+// ─── Balances carried forward ─────────────────────────────────────────────
 
-    const errors = collectErrors(
-      validateEnum(type, 'type', ['personal', 'company']),
-    );
-    if (errors.length) return res.status(400).json({ errors });
-
-    if (result === undefined || result === null) {
-      return res.status(400).json({ errors: [{ field: 'result', message: 'result is required' }] });
-    }
+// The latest saved company computation for an earlier tax year, by tax year
+// and then by when it was saved. Its closing ledgers open the next year.
+async function priorCompanyResult(userId: string, taxYear: number) {
+  const prior = await prisma.taxCalculation.findFirst({
+    where: { userId, type: 'company', taxYear: { lt: taxYear } },
+    orderBy: [{ taxYear: 'desc' }, { createdAt: 'desc' }],
+  });
+  return prior ? { fromYear: prior.taxYear as number, result: JSON.parse(prior.result) } : null;
+}
 
-    const calculation = await prisma.taxCalculation.create({
-      data: {
-        type,
-        result: typeof result === 'string' ? result : JSON.stringify(result),
-        userId,
-      },
-    });
+// Looked up here rather than in the browser, which only holds the latest few
+// calculations
+router.get('/company/carried-forward', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const taxYear = Number(req.query.taxYear);
+    const yearError = validateTaxYear(taxYear);
+    if (yearError) return res.status(400).json({ errors: [yearError] });
 
-    res.status(201).json({
-      calculation: {
-        ...calculation,
-        result: typeof calculation.result === 'string' ? JSON.parse(calculation.result) : calculation.result,
+    const prior = await priorCompanyResult(userId, taxYear);
+    res.json({
+      carriedForward: prior && {
+        fromYear: prior.fromYear,
+        lossLedger: prior.result.lossLedger ?? [],
+        // Absent from results saved before credits were tracked
+        whtCreditLedger: prior.result.whtCreditLedger ?? null,
+        ediCreditLedger: prior.result.ediCreditLedger ?? [],
       },
     });
   } catch (error) {
-    console.error('Create calculation error:', error);
-    res.status(500).json({ error: 'Failed to save calculation' });
+    console.error('Get carried-forward balances error:', error);
+    res.status(500).json({ error: 'Failed to fetch carried-forward balances' });
   }
 });
 
+// ─── Server-held records ──────────────────────────────────────────────────
+
+// The opening loss, WHT credit and EDI credit ledgers and the tax holiday
+// come from what the server holds — the saved closing ledgers of the latest
+// earlier-year calculation and the registers — never from the browser
+async function withCompanyRecords(userId: string, input: CompanyTaxInput, request: Body): Promise<CompanyTaxInput> {
+  const taxYear = input.taxYear ?? currentTaxYear();
+  const prior = await priorCompanyResult(userId, taxYear);
+  const [notes, certificates, holidays] = await Promise.all([
+    request.applyWhtCredits ? prisma.whtCreditNote.findMany({ where: { userId }, orderBy: { date: 'asc' } }) : [],
+    request.applyEdiCredits ? prisma.ediCertificate.findMany({ where: { userId }, orderBy: { approvalDate: 'asc' } }) : [],
+    input.businessSector ? prisma.taxHoliday.findMany({ where: { userId, sector: input.businessSector } }) : [],
+  ]);
+
+  // Losses entered by hand count only for years the saved ledger doesn't cover
+  const manualLosses = ((request.manualLosses ?? []) as { taxYear: number; amount: number }[])
+    .filter((loss) => loss.amount > 0 && (!prior || loss.taxYear > prior.fromYear))
+    .map((loss) => ({ taxYear: loss.taxYear, originalLoss: loss.amount, remaining: loss.amount }));
+
+  const whtCarried: WhtCreditEntry[] | undefined = prior?.result.whtCreditLedger;
+  const whtCredits = buildWhtCreditLedger(
+    notes.map((note) => ({ ...note, date: note.date.toISOString() })),
+    prior && whtCarried ? { fromYear: prior.fromYear, ledger: whtCarried } : null,
+  );
+  const ediCredits = buildEdiCreditLedger(
+    certificates.map((certificate) => ({
+      certificateNumber: certificate.certificateNumber,
+      approvalDate: certificate.approvalDate.toISOString().slice(0, 10),
+      expenditure: JSON.parse(certificate.expenditure) as EdiExpenditure[],
+    })),
+    (prior?.result.ediCreditLedger ?? []) as EdiCreditEntry[],
+  );
+
+  // The registered holiday covering the most of the year
+  const holiday = holidays
+    .map((h) => taxHolidayStatus({ ...h, sector: h.sector as BusinessSector, startDate: h.startDate.toISOString() }, taxYear))
+    .sort((a, b) => b.share - a.share)[0];
+
+  return {
+    ...input,
+    lossLedger: [...((prior?.result.lossLedger ?? []) as LossLedgerEntry[]), ...manualLosses],
+    whtCredits,
+    ediCredits,
+    isTaxHolidayActive: !!holiday?.applies,
+    taxHolidayShare: holiday?.share ?? 0,
+  };
+}
+
+// ─── Saving ───────────────────────────────────────────────────────────────
+
+async function saveCalculation(userId: string, type: 'personal' | 'company', input: object, result: any) {
+  // Record which year and rule set the figures were computed under so
+  // history stays explainable after the law changes
+  const calculation = await prisma.taxCalculation.create({
+    data: {
+      type,
+      input: JSON.stringify(input),
+      result: JSON.stringify(result),
+      taxYear: result.taxYear,
+      ruleSetId: result.ruleSetId,
+      userId,
+    },
+  });
+
+  // A company computation saved after the year's instalment schedule was
+  // set up is the final figure: rebalance the instalments still unpaid
+  if (type === 'company') {
+    const instalments = await prisma.instalmentSchedule.findFirst({ where: { userId, taxYear: result.taxYear } });
+    if (instalments) {
+      const schedule = reconcileInstalmentSchedule(JSON.parse(instalments.schedule), result);
+      await prisma.instalmentSchedule.update({
+        where: { id: instalments.id },
+        data: { schedule: JSON.stringify(schedule) },
+      });
+    }
+  }
+
+  return { ...calculation, input, result };
+}
+
+// Computes the result from the submitted inputs with the shared engine and
+// saves both. Whatever result the browser holds is never trusted.
+function calculationRoute<T extends object>(
+  type: 'personal' | 'company',
+  fields: (keyof T)[],
+  validate: (input: Body) => ValidationError[],
+  calculate: (input: T) => object,
+  // Adds what the server reads from its own records for the user
+  withRecords: (userId: string, input: T, request: Body) => Promise<T> = async (_userId, input) => input,
+) {
+  return async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).userId;
+      const { input } = req.body;
+
+      if (!isObject(input)) {
+        return res.status(400).json({ errors: [{ field: 'input', message: 'input is required' }] });
+      }
+      const errors = validate(input);
+      if (errors.length) return res.status(400).json({ errors });
+
+      const cleanInput = await withRecords(userId, pick<T>(input, fields), input);
+      let result: object;
+      try {
+        result = calculate(cleanInput);
+      } catch (error) {
+        return res.status(400).json({
+          errors: [{ field: 'input', message: error instanceof Error ? error.message : 'input could not be calculated' }],
+        });
+      }
+
+      const calculation = await saveCalculation(userId, type, cleanInput, result);
+      res.status(201).json({ calculation });
+    } catch (error) {
+      console.error(`Create ${type} calculation error:`, error);
+      res.status(500).json({ error: 'Failed to save calculation' });
+    }
+  };
+}
+
+router.post(
+  '/personal',
+  authenticate,
+  calculationRoute<PersonalTaxInput>('personal', PERSONAL_FIELDS, validatePersonalInput, calculatePersonalTax),
+);
+
+router.post(
+  '/company',
+  authenticate,
+  calculationRoute<CompanyTaxInput>('company', COMPANY_FIELDS, validateCompanyInput, calculateCompanyTax, withCompanyRecords),
+);
+
 router.delete('/', authenticate, async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
@@ -0,0 +1,115 @@
+import { Router, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../db';
+import {
+  validateString,
+  validateDate,
+  validateId,
+  validateYearAmounts,
+  collectErrors,
+} from '../utils/validate';
+
+const router = Router();
+const JWT_SECRET = process.env.JWT_SECRET!;
+
+const authenticate = (req: Request, res: Response, next: Function) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const token = authHeader.substring(7);
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    (req as any).userId = decoded.userId;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+const serialize = (certificate: { approvalDate: Date; expenditure: string }) => ({
+  ...certificate,
+  approvalDate: certificate.approvalDate.toISOString().slice(0, 10),
+  expenditure: JSON.parse(certificate.expenditure),
+});
+
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const certificates = await prisma.ediCertificate.findMany({
+      where: { userId },
+      orderBy: { approvalDate: 'asc' },
+    });
+    res.json({ certificates: certificates.map(serialize) });
+  } catch (error) {
+    console.error('Get EDI certificates error:', error);
+    res.status(500).json({ error: 'Failed to fetch EDI certificates' });
+  }
+});
+
+// Creates a certificate, or updates an existing one (e.g. a new year's QCE)
+// when its id is given
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id, certificateNumber, approvalDate, expenditure } = req.body;
+
+    const errors = collectErrors(
+      validateString(certificateNumber, 'certificateNumber', { maxLength: 100 }),
+      validateDate(approvalDate, 'approvalDate'),
+      validateYearAmounts(expenditure, 'expenditure'),
+    );
+    if (errors.length) return res.status(400).json({ errors });
+
+    // Claims are matched across years by certificate number, so it must be unique
+    const number = (certificateNumber as string).trim();
+    const duplicate = await prisma.ediCertificate.findFirst({ where: { userId, certificateNumber: number } });
+    if (duplicate && duplicate.id !== id) {
+      return res.status(400).json({ errors: [{ field: 'certificateNumber', message: `Certificate ${number} is already recorded` }] });
+    }
+
+    const data = {
+      certificateNumber: number,
+      approvalDate: new Date(approvalDate),
+      expenditure: JSON.stringify(
+        (expenditure as { taxYear: number; amount: number }[])
+          .map(({ taxYear, amount }) => ({ taxYear, amount: Number(amount) }))
+          .sort((a, b) => a.taxYear - b.taxYear)
+      ),
+    };
+
+    if (id !== undefined) {
+      const existing = await prisma.ediCertificate.findFirst({ where: { id, userId } });
+      if (!existing) return res.status(404).json({ error: 'EDI certificate not found' });
+      const certificate = await prisma.ediCertificate.update({ where: { id }, data });
+      return res.json({ certificate: serialize(certificate) });
+    }
+
+    const certificate = await prisma.ediCertificate.create({ data: { ...data, userId } });
+    res.status(201).json({ certificate: serialize(certificate) });
+  } catch (error) {
+    console.error('Save EDI certificate error:', error);
+    res.status(500).json({ error: 'Failed to save EDI certificate' });
+  }
+});
+
+router.delete('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.body;
+
+    const idError = validateId(id);
+    if (idError) return res.status(400).json({ errors: [idError] });
+
+    const existing = await prisma.ediCertificate.findFirst({ where: { id, userId } });
+    if (!existing) return res.status(404).json({ error: 'EDI certificate not found' });
+
+    await prisma.ediCertificate.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete EDI certificate error:', error);
+    res.status(500).json({ error: 'Failed to delete EDI certificate' });
+  }
+});
+
+export default router;
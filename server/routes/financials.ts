@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../db';
-import { validateString, validateAmount, validateDate, validateId, collectErrors } from '../utils/validate';
+import { validateString, validateAmount, validateDate, validateEnum, validateId, collectErrors } from '../utils/validate';
+import { CURRENCIES } from '../../src/utils/fx';
 
 const JWT_SECRET = process.env.JWT_SECRET!;
 
@@ -20,6 +21,26 @@ const authenticate = (req: Request, res: Response, next: Function) => {
   }
 };
 
+// Entries in another currency carry the original amount and the rate used on
+// the transaction date; the naira amount is derived from them so all three agree
+const parseLedgerAmount = (body: any) => {
+  const { amount, currency = 'NGN', originalAmount, fxRate } = body;
+  const isNaira = currency === 'NGN';
+  const errors = collectErrors(
+    validateEnum(currency, 'currency', CURRENCIES.map((c) => c.code)),
+    ...(isNaira
+      ? [validateAmount(amount)]
+      : [
+          validateAmount(originalAmount, 'originalAmount'),
+          validateAmount(fxRate, 'fxRate') ?? (parseFloat(fxRate) > 0 ? null : { field: 'fxRate', message: 'fxRate must be greater than zero' }),
+        ]),
+  );
+  const data = isNaira
+    ? { amount: parseFloat(amount), currency, originalAmount: null, fxRate: null }
+    : { amount: parseFloat(originalAmount) * parseFloat(fxRate), currency, originalAmount: parseFloat(originalAmount), fxRate: parseFloat(fxRate) };
+  return { errors, data };
+};
+
 // ─── Revenue ───────────────────────────────────────────────────────────────
 
 export const revenueRouter = Router();
@@ -41,11 +62,12 @@ revenueRouter.get('/', authenticate, async (req: Request, res: Response) => {
 revenueRouter.post('/', authenticate, async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
-    const { description, amount, category, date, reference, notes } = req.body;
+    const { description, category, date, reference, notes } = req.body;
 
+    const ledgerAmount = parseLedgerAmount(req.body);
     const errors = collectErrors(
       validateString(description, 'description', { maxLength: 500 }),
-      validateAmount(amount),
+      ...ledgerAmount.errors,
       validateString(category, 'category', { maxLength: 100 }),
       validateDate(date),
       validateString(reference, 'reference', { required: false, maxLength: 200 }),
@@ -56,7 +78,7 @@ revenueRouter.post('/', authenticate, async (req: Request, res: Response) => {
     const revenue = await prisma.revenue.create({
       data: {
         description: (description as string).trim(),
-        amount: parseFloat(amount),
+        ...ledgerAmount.data,
         category: (category as string).trim(),
         date: new Date(date),
         reference: reference ? (reference as string).trim() : null,
@@ -112,11 +134,12 @@ expenseRouter.get('/', authenticate, async (req: Request, res: Response) => {
 expenseRouter.post('/', authenticate, async (req: Request, res: Response) => {
   try {
     const userId = (req as any).userId;
-    const { description, amount, category, date, reference, notes } = req.body;
+    const { description, category, date, reference, notes } = req.body;
 
+    const ledgerAmount = parseLedgerAmount(req.body);
     const errors = collectErrors(
       validateString(description, 'description', { maxLength: 500 }),
-      validateAmount(amount),
+      ...ledgerAmount.errors,
       validateString(category, 'category', { maxLength: 100 }),
       validateDate(date),
       validateString(reference, 'reference', { required: false, maxLength: 200 }),
@@ -127,7 +150,7 @@ expenseRouter.post('/', authenticate, async (req: Request, res: Response) => {
     const expense = await prisma.expense.create({
       data: {
         description: (description as string).trim(),
-        amount: parseFloat(amount),
+        ...ledgerAmount.data,
         category: (category as string).trim(),
         date: new Date(date),
         reference: reference ? (reference as string).trim() : null,
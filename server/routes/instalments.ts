@@ -0,0 +1,147 @@
+import { Router, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../db';
+import { validateAmount, validateDate, validateId, collectErrors } from '../utils/validate';
+import {
+  generateInstalmentSchedule,
+  recordInstalmentPayment,
+  MAX_INSTALMENTS,
+  InstalmentSchedule,
+} from '../../src/utils/instalments';
+
+const router = Router();
+const JWT_SECRET = process.env.JWT_SECRET!;
+
+const authenticate = (req: Request, res: Response, next: Function) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const token = authHeader.substring(7);
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    (req as any).userId = decoded.userId;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+const serialize = (record: { schedule: string }) => ({
+  ...record,
+  schedule: JSON.parse(record.schedule) as InstalmentSchedule,
+});
+
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const schedules = await prisma.instalmentSchedule.findMany({
+      where: { userId },
+      orderBy: { taxYear: 'desc' },
+    });
+    res.json({ schedules: schedules.map(serialize) });
+  } catch (error) {
+    console.error('Get instalment schedules error:', error);
+    res.status(500).json({ error: 'Failed to fetch instalment schedules' });
+  }
+});
+
+// Generate a schedule for a tax year from the estimated tax payable
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { taxYear, yearEnd, estimatedTax, count } = req.body;
+
+    const errors = collectErrors(
+      validateDate(yearEnd, 'yearEnd'),
+      validateAmount(estimatedTax, 'estimatedTax'),
+    );
+    if (!Number.isInteger(taxYear)) {
+      errors.push({ field: 'taxYear', message: 'taxYear must be a whole year' });
+    }
+    if (count !== undefined && (!Number.isInteger(count) || count < 1 || count > MAX_INSTALMENTS)) {
+      errors.push({ field: 'count', message: `count must be between 1 and ${MAX_INSTALMENTS}` });
+    }
+    if (errors.length) return res.status(400).json({ errors });
+
+    const existing = await prisma.instalmentSchedule.findFirst({ where: { userId, taxYear } });
+    if (existing) {
+      return res.status(400).json({
+        errors: [{ field: 'taxYear', message: `An instalment schedule for ${taxYear} already exists` }],
+      });
+    }
+
+    const schedule = generateInstalmentSchedule(
+      { taxYear, taxPayable: parseFloat(estimatedTax) },
+      yearEnd,
+      count ?? MAX_INSTALMENTS
+    );
+    const record = await prisma.instalmentSchedule.create({
+      data: { taxYear, schedule: JSON.stringify(schedule), userId },
+    });
+    res.status(201).json({ schedule: serialize(record) });
+  } catch (error) {
+    console.error('Create instalment schedule error:', error);
+    res.status(500).json({ error: 'Failed to create instalment schedule' });
+  }
+});
+
+// Record (or clear, with paidDate null) payment of an instalment
+router.patch('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id, number, paidDate, paidAmount } = req.body;
+
+    const idError = validateId(id);
+    if (idError) return res.status(400).json({ errors: [idError] });
+
+    const existing = await prisma.instalmentSchedule.findFirst({ where: { id, userId } });
+    if (!existing) return res.status(404).json({ error: 'Instalment schedule not found' });
+
+    const current = JSON.parse(existing.schedule) as InstalmentSchedule;
+    const errors = collectErrors(
+      paidDate === null ? null : validateDate(paidDate, 'paidDate'),
+      paidDate === null || paidAmount === undefined ? null : validateAmount(paidAmount, 'paidAmount'),
+    );
+    if (!current.instalments.some((i) => i.number === number)) {
+      errors.push({ field: 'number', message: 'number must match an instalment in the schedule' });
+    }
+    if (errors.length) return res.status(400).json({ errors });
+
+    const schedule = recordInstalmentPayment(
+      current,
+      number,
+      paidDate,
+      paidAmount === undefined ? undefined : parseFloat(paidAmount)
+    );
+    const record = await prisma.instalmentSchedule.update({
+      where: { id },
+      data: { schedule: JSON.stringify(schedule) },
+    });
+    res.json({ schedule: serialize(record) });
+  } catch (error) {
+    console.error('Update instalment schedule error:', error);
+    res.status(500).json({ error: 'Failed to update instalment schedule' });
+  }
+});
+
+router.delete('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.body;
+
+    const idError = validateId(id);
+    if (idError) return res.status(400).json({ errors: [idError] });
+
+    const existing = await prisma.instalmentSchedule.findFirst({ where: { id, userId } });
+    if (!existing) return res.status(404).json({ error: 'Instalment schedule not found' });
+
+    await prisma.instalmentSchedule.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete instalment schedule error:', error);
+    res.status(500).json({ error: 'Failed to delete instalment schedule' });
+  }
+});
+
+export default router;
@@ -0,0 +1,132 @@
+import { Router, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../db';
+import { validateString, validateId, validateTaxYear, collectErrors, ValidationError } from '../utils/validate';
+import { parseEmployeeCsv, runPayroll } from '../../src/utils/payroll';
+import { currentTaxYear } from '../../src/utils/taxRules';
+
+const router = Router();
+const JWT_SECRET = process.env.JWT_SECRET!;
+
+// Keeps uploads under express.json's default 100kb body limit (a 60-person
+// register is around 5kb)
+const MAX_CSV_LENGTH = 90000;
+
+const authenticate = (req: Request, res: Response, next: Function) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const token = authHeader.substring(7);
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    (req as any).userId = decoded.userId;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+function validateMonth(value: unknown, field = 'month'): ValidationError | null {
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > 12) {
+    return { field, message: `${field} must be a month number from 1 to 12` };
+  }
+  return null;
+}
+
+// ─── Employee register ─────────────────────────────────────────────────────
+
+router.get('/employees', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const employees = await prisma.employee.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+    res.json({ employees });
+  } catch (error) {
+    console.error('Get employees error:', error);
+    res.status(500).json({ error: 'Failed to fetch employees' });
+  }
+});
+
+// Bulk import from CSV. With replace=true the upload becomes the whole
+// register; otherwise rows are added to the existing staff.
+router.post('/employees/import', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { csv, replace } = req.body;
+
+    const errors = collectErrors(validateString(csv, 'csv', { maxLength: MAX_CSV_LENGTH }));
+    if (errors.length) return res.status(400).json({ errors });
+
+    const parsed = parseEmployeeCsv(csv);
+    if (parsed.errors.length) {
+      return res.status(400).json({
+        errors: parsed.errors.map((e) => ({ field: `line ${e.line}`, message: e.message })),
+      });
+    }
+
+    const data = parsed.employees.map((employee) => ({ ...employee, userId }));
+    await prisma.$transaction([
+      ...(replace === true ? [prisma.employee.deleteMany({ where: { userId } })] : []),
+      prisma.employee.createMany({ data }),
+    ]);
+
+    const employees = await prisma.employee.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+    res.status(201).json({ imported: data.length, employees });
+  } catch (error) {
+    console.error('Import employees error:', error);
+    res.status(500).json({ error: 'Failed to import employees' });
+  }
+});
+
+router.delete('/employees', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.body;
+
+    const idError = validateId(id);
+    if (idError) return res.status(400).json({ errors: [idError] });
+
+    const employee = await prisma.employee.findFirst({ where: { id, userId } });
+    if (!employee) return res.status(404).json({ error: 'Employee not found' });
+
+    await prisma.employee.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete employee error:', error);
+    res.status(500).json({ error: 'Failed to delete employee' });
+  }
+});
+
+// ─── Payroll run ───────────────────────────────────────────────────────────
+
+// PAYE, pension, NHF and net pay for every employee for one month
+router.post('/run', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { taxYear = currentTaxYear(), month } = req.body;
+
+    const errors = collectErrors(validateTaxYear(taxYear), validateMonth(month));
+    if (errors.length) return res.status(400).json({ errors });
+
+    const employees = await prisma.employee.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+    if (employees.length === 0) {
+      return res.status(400).json({ error: 'No employees on the payroll register' });
+    }
+
+    res.json({ run: runPayroll(employees, taxYear, month) });
+  } catch (error) {
+    console.error('Payroll run error:', error);
+    res.status(500).json({ error: 'Failed to run payroll' });
+  }
+});
+
+export default router;
@@ -0,0 +1,158 @@
+import { Router, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../db';
+import { validateString, validateEnum, validateBoolean, validateId, collectErrors, ValidationError } from '../utils/validate';
+import {
+  Body,
+  COMPANY_FIELDS,
+  isObject,
+  PERSONAL_FIELDS,
+  pick,
+  validateCompanyInput,
+  validatePersonalInput,
+} from '../utils/taxInputs';
+import { compareScenarios, MAX_SCENARIOS, ScenarioSet } from '../../src/utils/scenarios';
+import { CompanyTaxInput, PersonalTaxInput } from '../../src/utils/taxCalculations';
+
+const router = Router();
+const JWT_SECRET = process.env.JWT_SECRET!;
+
+const authenticate = (req: Request, res: Response, next: Function) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const token = authHeader.substring(7);
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    (req as any).userId = decoded.userId;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+type ScenarioInput = PersonalTaxInput | CompanyTaxInput;
+
+// Scenarios are what-ifs, so a company scenario may switch a tax holiday on
+// without one being on record
+const SCENARIO_FIELDS = {
+  personal: PERSONAL_FIELDS,
+  company: [...COMPANY_FIELDS, 'isTaxHolidayActive'] as (keyof CompanyTaxInput)[],
+};
+
+function validateScenarioInput(kind: 'personal' | 'company', input: Body): ValidationError[] {
+  return kind === 'personal'
+    ? validatePersonalInput(input)
+    : [...validateCompanyInput(input), ...collectErrors(validateBoolean(input.isTaxHolidayActive, 'isTaxHolidayActive', { required: false }))];
+}
+
+// Keeps only the fields the engine reads
+const cleanScenarios = (kind: 'personal' | 'company', scenarios: Body[]) =>
+  scenarios.map((scenario) => ({
+    id: scenario.id as string,
+    name: (scenario.name as string).trim(),
+    input: pick<ScenarioInput>(scenario.input as Body, SCENARIO_FIELDS[kind] as (keyof ScenarioInput)[]),
+  }));
+
+// Each scenario needs a name and an input the calculations route would
+// accept; running the comparison on the inputs as they will be stored
+// catches those the engine would reject
+function validateScenarios(kind: 'personal' | 'company', scenarios: unknown): ValidationError[] {
+  const field = 'scenarios';
+  if (!Array.isArray(scenarios) || scenarios.length === 0) {
+    return [{ field, message: `${field} must be a non-empty list` }];
+  }
+  if (scenarios.length > MAX_SCENARIOS) {
+    return [{ field, message: `${field} can hold at most ${MAX_SCENARIOS} entries` }];
+  }
+  const errors = scenarios.flatMap((scenario, i): ValidationError[] => {
+    const prefix = `${field}[${i}]`;
+    if (!isObject(scenario) || typeof scenario.id !== 'string') {
+      return [{ field: prefix, message: 'each scenario needs an id, name and input' }];
+    }
+    if (!isObject(scenario.input)) return [{ field: `${prefix}.input`, message: 'input is required' }];
+    return [
+      ...collectErrors(validateString(scenario.name, `${prefix}.name`, { maxLength: 100 })),
+      ...validateScenarioInput(kind, scenario.input).map((e) => ({ ...e, field: `${prefix}.input.${e.field}` })),
+    ];
+  });
+  if (errors.length) return errors;
+  try {
+    compareScenarios({ name: '', kind, scenarios: cleanScenarios(kind, scenarios) } as ScenarioSet);
+  } catch (error) {
+    return [{ field, message: error instanceof Error ? error.message : 'scenarios could not be calculated' }];
+  }
+  return [];
+}
+
+const serialize = (set: { scenarios: string }) => ({
+  ...set,
+  scenarios: JSON.parse(set.scenarios),
+});
+
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const sets = await prisma.scenarioSet.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+    });
+    res.json({ scenarioSets: sets.map(serialize) });
+  } catch (error) {
+    console.error('Get scenario sets error:', error);
+    res.status(500).json({ error: 'Failed to fetch scenario sets' });
+  }
+});
+
+// Creates a set, or overwrites an existing one when its id is given
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id, name, kind, scenarios } = req.body;
+
+    const errors = collectErrors(
+      validateString(name, 'name', { maxLength: 100 }),
+      validateEnum(kind, 'kind', ['personal', 'company']),
+    );
+    if (errors.length) return res.status(400).json({ errors });
+    const scenarioErrors = validateScenarios(kind, scenarios);
+    if (scenarioErrors.length) return res.status(400).json({ errors: scenarioErrors });
+
+    const data = { name: (name as string).trim(), kind, scenarios: JSON.stringify(cleanScenarios(kind, scenarios)) };
+
+    if (id !== undefined) {
+      const existing = await prisma.scenarioSet.findFirst({ where: { id, userId } });
+      if (!existing) return res.status(404).json({ error: 'Scenario set not found' });
+      const scenarioSet = await prisma.scenarioSet.update({ where: { id }, data });
+      return res.json({ scenarioSet: serialize(scenarioSet) });
+    }
+
+    const scenarioSet = await prisma.scenarioSet.create({ data: { ...data, userId } });
+    res.status(201).json({ scenarioSet: serialize(scenarioSet) });
+  } catch (error) {
+    console.error('Save scenario set error:', error);
+    res.status(500).json({ error: 'Failed to save scenario set' });
+  }
+});
+
+router.delete('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.body;
+
+    const idError = validateId(id);
+    if (idError) return res.status(400).json({ errors: [idError] });
+
+    const existing = await prisma.scenarioSet.findFirst({ where: { id, userId } });
+    if (!existing) return res.status(404).json({ error: 'Scenario set not found' });
+
+    await prisma.scenarioSet.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete scenario set error:', error);
+    res.status(500).json({ error: 'Failed to delete scenario set' });
+  }
+});
+
+export default router;
@@ -0,0 +1,135 @@
+import { Router, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../db';
+import {
+  validateString,
+  validateAmount,
+  validateDate,
+  validateId,
+  collectErrors,
+  ValidationError,
+} from '../utils/validate';
+import { ShareReinvestment } from '../../src/utils/shareDisposals';
+
+const router = Router();
+const JWT_SECRET = process.env.JWT_SECRET!;
+
+const MAX_REINVESTMENTS = 50;
+
+const authenticate = (req: Request, res: Response, next: Function) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const token = authHeader.substring(7);
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    (req as any).userId = decoded.userId;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Reinvestments against a disposal: dated amounts in named companies, none
+// before the disposal itself
+function validateReinvestments(value: unknown, disposalDate: unknown): ValidationError | null {
+  const field = 'reinvestments';
+  if (!Array.isArray(value)) return { field, message: `${field} must be a list` };
+  if (value.length > MAX_REINVESTMENTS) return { field, message: `${field} can hold at most ${MAX_REINVESTMENTS} entries` };
+  for (const [i, row] of value.entries()) {
+    if (!row || typeof row !== 'object') return { field: `${field}[${i}]`, message: 'Each reinvestment must be an object' };
+    const error = validateDate(row.date, `${field}[${i}].date`)
+      ?? validateAmount(row.amount, `${field}[${i}].amount`)
+      ?? validateString(row.company, `${field}[${i}].company`, { maxLength: 200 });
+    if (error) return error;
+    if (typeof disposalDate === 'string' && String(row.date).slice(0, 10) < disposalDate.slice(0, 10)) {
+      return { field: `${field}[${i}].date`, message: 'A reinvestment cannot be dated before the disposal' };
+    }
+  }
+  return null;
+}
+
+const serialize = (disposal: { disposalDate: Date; reinvestments: string }) => ({
+  ...disposal,
+  disposalDate: disposal.disposalDate.toISOString().slice(0, 10),
+  reinvestments: JSON.parse(disposal.reinvestments) as ShareReinvestment[],
+});
+
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const disposals = await prisma.shareDisposal.findMany({
+      where: { userId },
+      orderBy: { disposalDate: 'asc' },
+    });
+    res.json({ disposals: disposals.map(serialize) });
+  } catch (error) {
+    console.error('Get share disposals error:', error);
+    res.status(500).json({ error: 'Failed to fetch share disposals' });
+  }
+});
+
+// Records a disposal, or updates one (e.g. to add a reinvestment) when its id
+// is given
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id, company, disposalDate, proceeds, costBasis, reinvestments = [] } = req.body;
+
+    const errors = collectErrors(
+      validateString(company, 'company', { maxLength: 200 }),
+      validateDate(disposalDate, 'disposalDate'),
+      validateAmount(proceeds, 'proceeds'),
+      validateAmount(costBasis, 'costBasis'),
+      validateReinvestments(reinvestments, disposalDate),
+    );
+    if (errors.length) return res.status(400).json({ errors });
+
+    const data = {
+      company: (company as string).trim(),
+      disposalDate: new Date(disposalDate),
+      proceeds: parseFloat(proceeds),
+      costBasis: parseFloat(costBasis),
+      reinvestments: JSON.stringify((reinvestments as ShareReinvestment[]).map((r) => ({
+        date: String(r.date).slice(0, 10),
+        amount: Number(r.amount),
+        company: r.company.trim(),
+      }))),
+    };
+
+    if (id !== undefined) {
+      const existing = await prisma.shareDisposal.findFirst({ where: { id, userId } });
+      if (!existing) return res.status(404).json({ error: 'Share disposal not found' });
+      const disposal = await prisma.shareDisposal.update({ where: { id }, data });
+      return res.json({ disposal: serialize(disposal) });
+    }
+
+    const disposal = await prisma.shareDisposal.create({ data: { ...data, userId } });
+    res.status(201).json({ disposal: serialize(disposal) });
+  } catch (error) {
+    console.error('Save share disposal error:', error);
+    res.status(500).json({ error: 'Failed to save share disposal' });
+  }
+});
+
+router.delete('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.body;
+
+    const idError = validateId(id);
+    if (idError) return res.status(400).json({ errors: [idError] });
+
+    const existing = await prisma.shareDisposal.findFirst({ where: { id, userId } });
+    if (!existing) return res.status(404).json({ error: 'Share disposal not found' });
+
+    await prisma.shareDisposal.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete share disposal error:', error);
+    res.status(500).json({ error: 'Failed to delete share disposal' });
+  }
+});
+
+export default router;
@@ -0,0 +1,128 @@
+import { Router, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../db';
+import {
+  validateString,
+  validateDate,
+  validateEnum,
+  validateBoolean,
+  validateId,
+  collectErrors,
+  ValidationError,
+} from '../utils/validate';
+import { getTaxHolidayTerm, TAX_HOLIDAY_SECTORS } from '../../src/utils/taxHolidays';
+import { BusinessSector } from '../../src/utils/businessTypes';
+
+const router = Router();
+const JWT_SECRET = process.env.JWT_SECRET!;
+
+const authenticate = (req: Request, res: Response, next: Function) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const token = authHeader.substring(7);
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    (req as any).userId = decoded.userId;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// An approval can't grant more than the sector's initial term; extensions
+// are claimed separately
+function validateInitialYears(value: unknown, sector: unknown, field = 'initialYears'): ValidationError | null {
+  const maxYears = getTaxHolidayTerm(sector as BusinessSector)?.initialYears;
+  if (!maxYears) return null; // the sector is reported instead
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > maxYears) {
+    return { field, message: `${field} must be a whole number of years from 1 to ${maxYears}` };
+  }
+  return null;
+}
+
+const serialize = (holiday: { startDate: Date }) => ({
+  ...holiday,
+  startDate: holiday.startDate.toISOString().slice(0, 10),
+});
+
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const holidays = await prisma.taxHoliday.findMany({
+      where: { userId },
+      orderBy: { startDate: 'asc' },
+    });
+    res.json({ holidays: holidays.map(serialize) });
+  } catch (error) {
+    console.error('Get tax holidays error:', error);
+    res.status(500).json({ error: 'Failed to fetch tax holidays' });
+  }
+});
+
+// Registers a holiday, or updates one (e.g. once the extension condition is
+// met) when its id is given
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id, sector, approvalReference, startDate, initialYears, extensionConditionsMet = false } = req.body;
+
+    const errors = collectErrors(
+      validateEnum(sector, 'sector', TAX_HOLIDAY_SECTORS),
+      validateString(approvalReference, 'approvalReference', { maxLength: 100 }),
+      validateDate(startDate, 'startDate'),
+      validateInitialYears(initialYears, sector),
+      validateBoolean(extensionConditionsMet, 'extensionConditionsMet'),
+    );
+    if (errors.length) return res.status(400).json({ errors });
+
+    const reference = (approvalReference as string).trim();
+    const duplicate = await prisma.taxHoliday.findFirst({ where: { userId, approvalReference: reference } });
+    if (duplicate && duplicate.id !== id) {
+      return res.status(400).json({ errors: [{ field: 'approvalReference', message: `Approval ${reference} is already recorded` }] });
+    }
+
+    const data = {
+      sector,
+      approvalReference: reference,
+      startDate: new Date(startDate),
+      initialYears,
+      extensionConditionsMet,
+    };
+
+    if (id !== undefined) {
+      const existing = await prisma.taxHoliday.findFirst({ where: { id, userId } });
+      if (!existing) return res.status(404).json({ error: 'Tax holiday not found' });
+      const holiday = await prisma.taxHoliday.update({ where: { id }, data });
+      return res.json({ holiday: serialize(holiday) });
+    }
+
+    const holiday = await prisma.taxHoliday.create({ data: { ...data, userId } });
+    res.status(201).json({ holiday: serialize(holiday) });
+  } catch (error) {
+    console.error('Save tax holiday error:', error);
+    res.status(500).json({ error: 'Failed to save tax holiday' });
+  }
+});
+
+router.delete('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.body;
+
+    const idError = validateId(id);
+    if (idError) return res.status(400).json({ errors: [idError] });
+
+    const existing = await prisma.taxHoliday.findFirst({ where: { id, userId } });
+    if (!existing) return res.status(404).json({ error: 'Tax holiday not found' });
+
+    await prisma.taxHoliday.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete tax holiday error:', error);
+    res.status(500).json({ error: 'Failed to delete tax holiday' });
+  }
+});
+
+export default router;
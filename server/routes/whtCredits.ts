@@ -0,0 +1,94 @@
+import { Router, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../db';
+import { validateString, validateAmount, validateDate, validateId, collectErrors } from '../utils/validate';
+
+const router = Router();
+const JWT_SECRET = process.env.JWT_SECRET!;
+
+const authenticate = (req: Request, res: Response, next: Function) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+    const token = authHeader.substring(7);
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    (req as any).userId = decoded.userId;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const creditNotes = await prisma.whtCreditNote.findMany({
+      where: { userId },
+      orderBy: { date: 'asc' },
+    });
+    res.json({ creditNotes });
+  } catch (error) {
+    console.error('Get WHT credit notes error:', error);
+    res.status(500).json({ error: 'Failed to fetch WHT credit notes' });
+  }
+});
+
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { payerName, creditNoteNumber, amount, date } = req.body;
+
+    const errors = collectErrors(
+      validateString(payerName, 'payerName', { maxLength: 200 }),
+      validateString(creditNoteNumber, 'creditNoteNumber', { maxLength: 100 }),
+      validateAmount(amount, 'amount'),
+      validateDate(date, 'date'),
+    );
+    if (errors.length) return res.status(400).json({ errors });
+
+    // Credit notes are matched across years by number, so it must be unique
+    const number = (creditNoteNumber as string).trim();
+    const existing = await prisma.whtCreditNote.findFirst({ where: { userId, creditNoteNumber: number } });
+    if (existing) {
+      return res.status(400).json({ errors: [{ field: 'creditNoteNumber', message: `Credit note ${number} is already recorded` }] });
+    }
+
+    const creditNote = await prisma.whtCreditNote.create({
+      data: {
+        payerName: (payerName as string).trim(),
+        creditNoteNumber: number,
+        amount: parseFloat(amount),
+        date: new Date(date),
+        userId,
+      },
+    });
+
+    res.status(201).json({ creditNote });
+  } catch (error) {
+    console.error('Create WHT credit note error:', error);
+    res.status(500).json({ error: 'Failed to create WHT credit note' });
+  }
+});
+
+router.delete('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).userId;
+    const { id } = req.body;
+
+    const idError = validateId(id);
+    if (idError) return res.status(400).json({ errors: [idError] });
+
+    const existing = await prisma.whtCreditNote.findFirst({ where: { id, userId } });
+    if (!existing) return res.status(404).json({ error: 'WHT credit note not found' });
+
+    await prisma.whtCreditNote.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete WHT credit note error:', error);
+    res.status(500).json({ error: 'Failed to delete WHT credit note' });
+  }
+});
+
+export default router;
@@ -0,0 +1,211 @@
+// Tax calculation inputs sent by the browser
+// The server computes every saved result from these inputs, so anything the
+// engine reads is checked here and unknown fields are dropped before saving.
+
+import {
+  validateAmount,
+  validateBoolean,
+  validateString,
+  validateTaxYear,
+  collectErrors,
+  ValidationError,
+} from './validate';
+import { CompanyTaxInput, PersonalTaxInput } from '../../src/utils/taxCalculations';
+import { EMPLOYMENT_LOCATIONS } from '../../src/utils/residency';
+import { FOREIGN_INCOME_TYPES } from '../../src/utils/foreignTaxCredit';
+import { isCurrencyCode } from '../../src/utils/fx';
+import { INCENTIVE_CLAIM_LABELS } from '../../src/utils/incentives';
+import { INCOME_SOURCE_TYPES } from '../../src/utils/incomeSources';
+import { currentTaxYear } from '../../src/utils/taxRules';
+
+// Deductions, foreign income and ledger lines per calculation
+const MAX_LINES = 200;
+
+export type Body = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Body =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The engine adds these up as they are, so a numeric string is refused here
+// rather than parsed
+function validateInputAmount(value: unknown, field: string): ValidationError | null {
+  return typeof value === 'string' ? { field, message: `${field} must be a number` } : validateAmount(value, field);
+}
+
+function validateOptionalAmount(value: unknown, field: string): ValidationError | null {
+  return value === undefined || value === null ? null : validateInputAmount(value, field);
+}
+
+// Figures that may be negative, e.g. GloBE adjustments
+function validateOptionalNumber(value: unknown, field: string): ValidationError | null {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'number' && isFinite(value) ? null : { field, message: `${field} must be a valid number` };
+}
+
+// Profit is negative in a loss year
+function validateProfit(value: unknown, field: string): ValidationError | null {
+  return value === undefined || value === null ? { field, message: `${field} is required` } : validateOptionalNumber(value, field);
+}
+
+// Fractions such as the share of turnover exported
+function validateShare(value: unknown, field: string): ValidationError | null {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'number' && value >= 0 && value <= 1 ? null : { field, message: `${field} must be between 0 and 1` };
+}
+
+// An optional list of objects whose named fields are non-negative amounts
+function validateLines(
+  value: unknown,
+  field: string,
+  amountFields: string[],
+  check: (line: Body, prefix: string) => (ValidationError | null)[] = () => [],
+): ValidationError[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return [{ field, message: `${field} must be a list` }];
+  if (value.length > MAX_LINES) return [{ field, message: `${field} can hold at most ${MAX_LINES} entries` }];
+  return value.flatMap((line, i) => {
+    const prefix = `${field}[${i}]`;
+    if (!isObject(line)) return [{ field: prefix, message: 'each entry must be an object' }];
+    return collectErrors(...amountFields.map((f) => validateInputAmount(line[f], `${prefix}.${f}`)), ...check(line, prefix));
+  });
+}
+
+const validateForeignIncome = (value: unknown) =>
+  validateLines(value, 'foreignIncome', ['amount', 'foreignTaxPaid'], (line, prefix) => [
+    validateString(line.country, `${prefix}.country`, { maxLength: 10 }),
+    FOREIGN_INCOME_TYPES.some((t) => t.id === line.incomeType)
+      ? null
+      : { field: `${prefix}.incomeType`, message: `${prefix}.incomeType is not a recognised income type` },
+  ]);
+
+const validateIncomeSources = (value: unknown) =>
+  validateLines(value, 'incomeSources', ['grossAmount', 'expenses', 'whtDeducted'], (line, prefix) => [
+    INCOME_SOURCE_TYPES.some((t) => t.id === line.type)
+      ? null
+      : { field: `${prefix}.type`, message: `${prefix}.type is not a recognised income source` },
+    validateString(line.description, `${prefix}.description`, { required: false, maxLength: 200 }),
+    validateBoolean(line.finalWht, `${prefix}.finalWht`, { required: false }),
+  ]);
+
+const validateFxConversions = (value: unknown) =>
+  validateLines(value, 'fxConversions', ['amount', 'naira', 'rate'], (line, prefix) => [
+    isCurrencyCode(line.currency) ? null : { field: `${prefix}.currency`, message: `${prefix}.currency is not supported` },
+  ]);
+
+function validateResidency(value: unknown): ValidationError[] {
+  if (value === undefined || value === null) return [];
+  if (!isObject(value)) return [{ field: 'residency', message: 'residency must be an object' }];
+  return collectErrors(
+    validateInputAmount(value.daysPresent, 'residency.daysPresent'),
+    validateBoolean(value.hasPlaceOfAbode, 'residency.hasPlaceOfAbode'),
+    EMPLOYMENT_LOCATIONS.some((l) => l.id === value.employmentLocation)
+      ? null
+      : { field: 'residency.employmentLocation', message: 'residency.employmentLocation is not recognised' },
+    validateOptionalAmount(value.daysWorkedInNigeria, 'residency.daysWorkedInNigeria'),
+    validateBoolean(value.paidByForeignEmployer, 'residency.paidByForeignEmployer', { required: false }),
+  );
+}
+
+function validateFinalWhtIncome(value: unknown): ValidationError[] {
+  if (value === undefined || value === null) return [];
+  if (!isObject(value)) return [{ field: 'finalWhtIncome', message: 'finalWhtIncome must be an object' }];
+  return Object.entries(value).map(([type, amount]) =>
+    ['dividends', 'interest', 'royalties', 'rent'].includes(type)
+      ? validateInputAmount(amount, `finalWhtIncome.${type}`)
+      : { field: `finalWhtIncome.${type}`, message: `${type} is not a final WHT income type` }
+  ).filter((e): e is ValidationError => e !== null);
+}
+
+function validateIncentiveClaims(value: unknown): ValidationError[] {
+  if (value === undefined || value === null) return [];
+  if (!isObject(value)) return [{ field: 'incentiveClaims', message: 'incentiveClaims must be an object' }];
+  return Object.entries(value).map(([claim, amount]) =>
+    claim in INCENTIVE_CLAIM_LABELS
+      ? validateInputAmount(amount, `incentiveClaims.${claim}`)
+      : { field: `incentiveClaims.${claim}`, message: `${claim} is not an incentive claim` }
+  ).filter((e): e is ValidationError => e !== null);
+}
+
+function validateGlobe(value: unknown): ValidationError[] {
+  if (value === undefined || value === null) return [];
+  if (!isObject(value)) return [{ field: 'globe', message: 'globe must be an object' }];
+  return collectErrors(...Object.entries(value).map(([key, amount]) => validateOptionalNumber(amount, `globe.${key}`)));
+}
+
+export const PERSONAL_FIELDS: (keyof PersonalTaxInput)[] = [
+  'taxYear', 'annualIncome', 'applyPension', 'applyNHF', 'annualRent', 'additionalDeductions', 'ocrDeductions',
+  'voluntaryPensionContribution', 'pensionFundInvestmentIncome', 'retirementWithdrawalIncome', 'digitalAssetProfit',
+  'residency', 'directorsFees', 'finalWhtIncome', 'foreignIncome', 'fxConversions', 'incomeSources',
+];
+
+export const COMPANY_FIELDS: (keyof CompanyTaxInput)[] = [
+  'taxYear', 'annualTurnover', 'fixedAssets', 'assessableProfit', 'isProfessionalService', 'isNonResident',
+  'capitalAllowances', 'otherDeductions', 'assetDisposalProceeds', 'assetTaxWrittenDownValue', 'isLargeCompany',
+  'isMNE', 'businessSector', 'qualifyingCapitalExpenditure', 'exportShare', 'inFreeZone',
+  'incentiveClaims', 'employerPensionContribution',
+  'ownsDigitalAsset', 'digitalAssetProfit', 'globe', 'foreignIncome',
+];
+
+// Keeps only the fields the engine reads
+export const pick = <T>(input: Body, fields: (keyof T)[]): T =>
+  Object.fromEntries(fields.filter((f) => input[f as string] !== undefined).map((f) => [f, input[f as string]])) as T;
+
+export function validatePersonalInput(input: Body): ValidationError[] {
+  return [
+    ...collectErrors(
+      validateTaxYear(input.taxYear),
+      validateInputAmount(input.annualIncome, 'annualIncome'),
+      validateBoolean(input.applyPension, 'applyPension'),
+      validateBoolean(input.applyNHF, 'applyNHF'),
+      validateInputAmount(input.annualRent, 'annualRent'),
+      validateInputAmount(input.ocrDeductions, 'ocrDeductions'),
+      validateOptionalAmount(input.voluntaryPensionContribution, 'voluntaryPensionContribution'),
+      validateOptionalAmount(input.pensionFundInvestmentIncome, 'pensionFundInvestmentIncome'),
+      validateOptionalAmount(input.retirementWithdrawalIncome, 'retirementWithdrawalIncome'),
+      validateOptionalAmount(input.digitalAssetProfit, 'digitalAssetProfit'),
+      validateOptionalAmount(input.directorsFees, 'directorsFees'),
+    ),
+    ...validateLines(input.additionalDeductions ?? [], 'additionalDeductions', ['amount']),
+    ...validateResidency(input.residency),
+    ...validateFinalWhtIncome(input.finalWhtIncome),
+    ...validateForeignIncome(input.foreignIncome),
+    ...validateIncomeSources(input.incomeSources),
+    ...validateFxConversions(input.fxConversions),
+  ];
+}
+
+export function validateCompanyInput(input: Body): ValidationError[] {
+  return [
+    ...collectErrors(
+      validateTaxYear(input.taxYear),
+      validateInputAmount(input.annualTurnover, 'annualTurnover'),
+      validateInputAmount(input.fixedAssets, 'fixedAssets'),
+      validateProfit(input.assessableProfit, 'assessableProfit'),
+      validateInputAmount(input.capitalAllowances, 'capitalAllowances'),
+      validateBoolean(input.isProfessionalService, 'isProfessionalService'),
+      validateBoolean(input.isNonResident, 'isNonResident'),
+      validateOptionalAmount(input.assetDisposalProceeds, 'assetDisposalProceeds'),
+      validateOptionalAmount(input.assetTaxWrittenDownValue, 'assetTaxWrittenDownValue'),
+      validateBoolean(input.isLargeCompany, 'isLargeCompany', { required: false }),
+      validateBoolean(input.isMNE, 'isMNE', { required: false }),
+      validateString(input.businessSector, 'businessSector', { required: false, maxLength: 50 }),
+      validateOptionalAmount(input.qualifyingCapitalExpenditure, 'qualifyingCapitalExpenditure'),
+      validateShare(input.exportShare, 'exportShare'),
+      validateBoolean(input.inFreeZone, 'inFreeZone', { required: false }),
+      validateOptionalAmount(input.employerPensionContribution, 'employerPensionContribution'),
+      validateBoolean(input.ownsDigitalAsset, 'ownsDigitalAsset', { required: false }),
+      validateOptionalAmount(input.digitalAssetProfit, 'digitalAssetProfit'),
+      validateBoolean(input.applyWhtCredits, 'applyWhtCredits', { required: false }),
+      validateBoolean(input.applyEdiCredits, 'applyEdiCredits', { required: false }),
+    ),
+    ...validateLines(input.otherDeductions ?? [], 'otherDeductions', ['amount']),
+    ...validateLines(input.manualLosses, 'manualLosses', ['amount'], (line, prefix) => [
+      Number.isInteger(line.taxYear) && (line.taxYear as number) < ((input.taxYear as number | undefined) ?? currentTaxYear())
+        ? null
+        : { field: `${prefix}.taxYear`, message: `${prefix}.taxYear must be an earlier tax year` },
+    ]),
+    ...validateIncentiveClaims(input.incentiveClaims),
+    ...validateGlobe(input.globe),
+    ...validateForeignIncome(input.foreignIncome),
+  ];
+}
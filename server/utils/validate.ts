@@ -1,3 +1,5 @@
+import { getTaxRuleSet } from '../../src/utils/taxRules';
+
 export interface ValidationError {
   field: string;
   message: string;
@@ -33,6 +35,30 @@ export function validateDate(value: unknown, field = 'date'): ValidationError |
   return null;
 }
 
+export function validateBoolean(
+  value: unknown,
+  field: string,
+  { required = true }: { required?: boolean } = {}
+): ValidationError | null {
+  if (value === undefined || value === null) {
+    return required ? { field, message: `${field} is required` } : null;
+  }
+  if (typeof value !== 'boolean') return { field, message: `${field} must be true or false` };
+  return null;
+}
+
+// Omitted years default to the current one; others must have a rule set
+export function validateTaxYear(value: unknown, field = 'taxYear'): ValidationError | null {
+  if (value === undefined || value === null) return null;
+  if (!Number.isInteger(value)) return { field, message: `${field} must be a whole year` };
+  try {
+    getTaxRuleSet(value as number);
+  } catch {
+    return { field, message: `${field} ${value} is not supported` };
+  }
+  return null;
+}
+
 export function validateEnum(
   value: unknown,
   field: string,
@@ -52,6 +78,23 @@ export function validateId(value: unknown, field = 'id'): ValidationError | null
   return null;
 }
 
+// A list of { taxYear, amount } rows, e.g. QCE by year; each year at most once
+export function validateYearAmounts(value: unknown, field: string, maxRows = 50): ValidationError | null {
+  if (!Array.isArray(value)) return { field, message: `${field} must be a list` };
+  if (value.length > maxRows) return { field, message: `${field} can hold at most ${maxRows} entries` };
+  const years = new Set<number>();
+  for (const [i, row] of value.entries()) {
+    if (!row || typeof row !== 'object' || !Number.isInteger(row.taxYear)) {
+      return { field: `${field}[${i}].taxYear`, message: 'taxYear must be a whole year' };
+    }
+    if (years.has(row.taxYear)) return { field: `${field}[${i}].taxYear`, message: `${row.taxYear} is listed twice` };
+    years.add(row.taxYear);
+    const amountError = validateAmount(row.amount, `${field}[${i}].amount`);
+    if (amountError) return amountError;
+  }
+  return null;
+}
+
 export function collectErrors(...errors: (ValidationError | null)[]): ValidationError[] {
   return errors.filter((e): e is ValidationError => e !== null);
 }
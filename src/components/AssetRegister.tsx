@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { apiRequest } from '../context/AuthContext';
+import { formatCurrency } from '../utils/taxCalculations';
+import { BusinessSector } from '../utils/businessTypes';
+import {
+  ASSET_CLASSES,
+  AssetClass,
+  AssetRegisterYear,
+  FixedAsset,
+  calculateAssetRegisterYear,
+  getAllowanceRates,
+  getAssetClass,
+} from '../utils/capitalAllowances';
+
+interface AssetRegisterProps {
+  taxYear: number;
+  sector: BusinessSector;
+  // Called with the year's register totals while "use register" is on, or null
+  onApply: (registerYear: AssetRegisterYear | null) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const parseNumber = (value: string): number => {
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+const formatInputValue = (value: string): string => {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts[0]) {
+    parts[0] = parseInt(parts[0], 10).toLocaleString('en-NG');
+  }
+  return parts.join('.');
+};
+
+const toDateInput = (date: string | null | undefined) => (date ? date.slice(0, 10) : '');
+
+const AssetRegister: React.FC<AssetRegisterProps> = ({ taxYear, sector, onApply }) => {
+  const [assets, setAssets] = useState<FixedAsset[]>([]);
+  const [useRegister, setUseRegister] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({ description: '', assetClass: 'plant_machinery' as AssetClass, cost: '', acquisitionDate: '' });
+  const [disposing, setDisposing] = useState<{ id: string; date: string; proceeds: string } | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const response = await apiRequest<{ assets: FixedAsset[] }>('/assets');
+      if (response.success && response.data) setAssets(response.data.assets);
+    })();
+  }, []);
+
+  const registerYear = useMemo(() => {
+    try {
+      return calculateAssetRegisterYear(assets, taxYear, sector);
+    } catch {
+      return null;
+    }
+  }, [assets, taxYear, sector]);
+
+  useEffect(() => {
+    onApply(useRegister && registerYear && registerYear.assets.length > 0 ? registerYear : null);
+  }, [useRegister, registerYear, onApply]);
+
+  // Hand allowances back to the manual field when the register goes away
+  useEffect(() => () => onApply(null), [onApply]);
+
+  const handleAdd = useCallback(async () => {
+    setError(null);
+    const response = await apiRequest<{ asset: FixedAsset }>('/assets', {
+      method: 'POST',
+      body: JSON.stringify({ ...form, cost: parseNumber(form.cost) }),
+    });
+    if (response.success && response.data) {
+      setAssets((prev) => [...prev, response.data!.asset]);
+      setForm({ description: '', assetClass: form.assetClass, cost: '', acquisitionDate: '' });
+    } else {
+      setError(response.error || 'Failed to add asset');
+    }
+  }, [form]);
+
+  const handleDispose = useCallback(async (id: string, disposalDate: string | null, disposalProceeds: number | null) => {
+    setError(null);
+    const response = await apiRequest<{ asset: FixedAsset }>('/assets', {
+      method: 'PATCH',
+      body: JSON.stringify({ id, disposalDate, disposalProceeds }),
+    });
+    if (response.success && response.data) {
+      setAssets((prev) => prev.map((a) => (a.id === id ? response.data!.asset : a)));
+      setDisposing(null);
+    } else {
+      setError(response.error || 'Failed to record disposal');
+    }
+  }, []);
+
+  const handleRemove = useCallback(async (id: string) => {
+    const response = await apiRequest('/assets', {
+      method: 'DELETE',
+      body: JSON.stringify({ id }),
+    });
+    if (response.success) setAssets((prev) => prev.filter((a) => a.id !== id));
+  }, []);
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-800">Fixed Asset Register</h3>
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={useRegister}
+            onChange={(e) => setUseRegister(e.target.checked)}
+            className="rounded text-primary-600"
+          />
+          Use for capital allowances
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Initial allowance in the year of purchase, annual allowances on the residue, and balancing adjustments on disposal.
+      </p>
+
+      {/* Add asset */}
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <input
+          type="text"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder="Description"
+          className={inputClass}
+        />
+        <select
+          value={form.assetClass}
+          onChange={(e) => setForm({ ...form, assetClass: e.target.value as AssetClass })}
+          className={inputClass}
+        >
+          {ASSET_CLASSES.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={form.cost}
+          onChange={(e) => setForm({ ...form, cost: formatInputValue(e.target.value) })}
+          placeholder="Cost (₦)"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={form.acquisitionDate}
+          onChange={(e) => setForm({ ...form, acquisitionDate: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      {(() => {
+        const rates = getAllowanceRates(form.assetClass, sector);
+        return (
+          <p className="text-xs text-gray-500 mb-2">
+            Initial {rates.initialRate * 100}% · Annual {rates.annualRate * 100}%
+            {rates.accelerated && <span className="ml-1 text-green-700 font-medium">(accelerated for your sector)</span>}
+          </p>
+        );
+      })()}
+      <button
+        onClick={handleAdd}
+        disabled={!form.description || parseNumber(form.cost) <= 0 || !form.acquisitionDate}
+        className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+      >
+        Add asset
+      </button>
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+      {/* Allowances for the selected tax year */}
+      {assets.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-600">
+              <tr>
+                <th className="py-1 text-left">Asset</th>
+                <th className="py-1 text-right">Cost</th>
+                <th className="py-1 text-right">Allowance {taxYear}</th>
+                <th className="py-1 text-right">Balancing</th>
+                <th className="py-1 text-right">TWDV c/f</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {assets.map((asset) => {
+                const row = registerYear?.assets.find((r) => r.asset.id === asset.id)?.year;
+                const pending = disposing && disposing.id === asset.id ? disposing : null;
+                return (
+                  <React.Fragment key={asset.id}>
+                    <tr className="border-t border-gray-200">
+                      <td className="py-1.5">
+                        <div className="text-gray-800">{asset.description}</div>
+                        <div className="text-gray-400">
+                          {getAssetClass(asset.assetClass).name} · {toDateInput(asset.acquisitionDate)}
+                          {asset.disposalDate && ` · sold ${toDateInput(asset.disposalDate)}`}
+                        </div>
+                      </td>
+                      <td className="py-1.5 text-right">{formatCurrency(asset.cost)}</td>
+                      <td className="py-1.5 text-right">
+                        {row ? formatCurrency(row.initialAllowance + row.annualAllowance) : '—'}
+                      </td>
+                      <td className="py-1.5 text-right">
+                        {row && row.balancingAllowance > 0 && <span className="text-green-600">-{formatCurrency(row.balancingAllowance)}</span>}
+                        {row && row.balancingCharge > 0 && <span className="text-red-600">+{formatCurrency(row.balancingCharge)}</span>}
+                        {(!row || (row.balancingAllowance === 0 && row.balancingCharge === 0)) && '—'}
+                      </td>
+                      <td className="py-1.5 text-right">{row ? formatCurrency(row.closingTWDV) : '—'}</td>
+                      <td className="py-1.5 text-right whitespace-nowrap">
+                        {asset.disposalDate ? (
+                          <button onClick={() => asset.id && handleDispose(asset.id, null, null)} className="text-gray-500 hover:text-gray-700 mr-2">
+                            Undo sale
+                          </button>
+                        ) : (
+                          <button onClick={() => asset.id && setDisposing({ id: asset.id, date: '', proceeds: '' })} className="text-primary-600 hover:text-primary-700 mr-2">
+                            Dispose
+                          </button>
+                        )}
+                        <button onClick={() => asset.id && handleRemove(asset.id)} className="text-red-500 hover:text-red-700">
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                    {pending && (
+                      <tr>
+                        <td colSpan={6} className="pb-2">
+                          <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                            <input
+                              type="date"
+                              value={pending.date}
+                              onChange={(e) => setDisposing({ ...pending, date: e.target.value })}
+                              className={inputClass}
+                            />
+                            <input
+                              type="text"
+                              value={pending.proceeds}
+                              onChange={(e) => setDisposing({ ...pending, proceeds: formatInputValue(e.target.value) })}
+                              placeholder="Sale proceeds (₦)"
+                              className={inputClass}
+                            />
+                            <button
+                              onClick={() => handleDispose(pending.id, pending.date, parseNumber(pending.proceeds))}
+                              disabled={!pending.date}
+                              className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+                            >
+                              Save
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {registerYear && registerYear.assets.length > 0 && (
+            <div className="mt-3 pt-2 border-t border-gray-200 text-xs space-y-1">
+              <div className="flex justify-between"><span className="text-gray-600">Initial allowances:</span><span>{formatCurrency(registerYear.initialAllowances)}</span></div>
+              <div className="flex justify-between"><span className="text-gray-600">Annual allowances:</span><span>{formatCurrency(registerYear.annualAllowances)}</span></div>
+              {registerYear.balancingAllowances > 0 && (
+                <div className="flex justify-between"><span className="text-gray-600">Balancing allowances:</span><span>{formatCurrency(registerYear.balancingAllowances)}</span></div>
+              )}
+              {registerYear.balancingCharges > 0 && (
+                <div className="flex justify-between"><span className="text-gray-600">Balancing charges (taxed as disposal gain):</span><span>{formatCurrency(registerYear.balancingCharges)}</span></div>
+              )}
+              {registerYear.chargeableGains > 0 && (
+                <div className="flex justify-between"><span className="text-gray-600">Proceeds above cost (chargeable gain, not a balancing charge):</span><span>{formatCurrency(registerYear.chargeableGains)}</span></div>
+              )}
+              <div className="flex justify-between font-medium text-gray-800">
+                <span>Capital allowances for {taxYear}:</span>
+                <span>{formatCurrency(registerYear.capitalAllowances)}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssetRegister;
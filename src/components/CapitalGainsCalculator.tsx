@@ -0,0 +1,242 @@
+import React, { useState, useMemo } from 'react';
+import { formatCurrency, generateId } from '../utils/taxCalculations';
+import { CompanySize, getTaxRuleSet } from '../utils/taxRules';
+import {
+  AssetDisposal,
+  CGT_EXEMPTIONS,
+  CHARGEABLE_ASSET_TYPES,
+  CgtExemption,
+  ChargeableAssetType,
+  Taxpayer,
+  calculateCapitalGainsTax,
+} from '../utils/capitalGains';
+
+interface CapitalGainsCalculatorProps {
+  taxpayer: Taxpayer;
+  taxYear: number;
+  otherTaxableIncome?: number; // individual's taxable income the gains stack on
+  companySize?: CompanySize;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const parseNumber = (value: string): number => {
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+const formatInputValue = (value: string): string => {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts[0]) {
+    parts[0] = parseInt(parts[0], 10).toLocaleString('en-NG');
+  }
+  return parts.join('.');
+};
+
+const emptyForm = {
+  description: '',
+  assetType: 'land' as ChargeableAssetType,
+  proceeds: '',
+  acquisitionCost: '',
+  improvementCost: '',
+  disposalCosts: '',
+  exemption: '' as CgtExemption | '',
+};
+
+const CapitalGainsCalculator: React.FC<CapitalGainsCalculatorProps> = ({ taxpayer, taxYear, otherTaxableIncome = 0, companySize }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [disposals, setDisposals] = useState<AssetDisposal[]>([]);
+  const [form, setForm] = useState(emptyForm);
+
+  const result = useMemo(
+    () => (disposals.length > 0
+      ? calculateCapitalGainsTax({ taxYear, taxpayer, disposals, otherTaxableIncome, companySize })
+      : null),
+    [taxYear, taxpayer, disposals, otherTaxableIncome, companySize]
+  );
+
+  const availableExemptions = taxpayer === 'individual'
+    ? CGT_EXEMPTIONS.filter((e) => e.assetTypes.includes(form.assetType))
+    : [];
+
+  const amountField = (field: 'proceeds' | 'acquisitionCost' | 'improvementCost' | 'disposalCosts', placeholder: string) => (
+    <input
+      type="text"
+      value={form[field]}
+      onChange={(e) => {
+        const raw = e.target.value.replace(/,/g, '');
+        if (raw === '' || /^\d*\.?\d*$/.test(raw)) setForm({ ...form, [field]: formatInputValue(raw) });
+      }}
+      placeholder={placeholder}
+      className={inputClass}
+    />
+  );
+
+  const handleAdd = () => {
+    setDisposals([
+      ...disposals,
+      {
+        id: generateId(),
+        description: form.description.trim(),
+        assetType: form.assetType,
+        proceeds: parseNumber(form.proceeds),
+        acquisitionCost: parseNumber(form.acquisitionCost),
+        improvementCost: parseNumber(form.improvementCost),
+        disposalCosts: parseNumber(form.disposalCosts),
+        exemption: form.exemption || null,
+      },
+    ]);
+    setForm({ ...emptyForm, assetType: form.assetType });
+  };
+
+  const rules = getTaxRuleSet(taxYear).capitalGains;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 flex items-center justify-between text-left hover:bg-gray-50 transition-colors"
+      >
+        <div className="flex items-center">
+          <svg className="w-5 h-5 text-primary-600 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+          </svg>
+          <div>
+            <h3 className="font-semibold text-gray-800">Capital Gains on Assets</h3>
+            <p className="text-xs text-gray-500">Land, buildings, vehicles and other assets sold in {taxYear}</p>
+          </div>
+        </div>
+        <svg
+          className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div className="px-6 pb-6 border-t border-gray-100">
+          <div className="mt-4 p-3 bg-blue-50 rounded-lg border border-blue-100 text-xs text-blue-700">
+            {rules.rate !== null
+              ? `Gains are charged to Capital Gains Tax at ${rules.rate * 100}%. Capital losses cannot be set against gains.`
+              : 'Gains are taxed as income for the year. Losses on other disposals in the same year reduce the gains.'}
+            {' '}Allowable costs are the purchase price, improvements and the costs of selling.
+          </div>
+
+          {/* Add disposal */}
+          <div className="mt-4 grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Asset description"
+              className={inputClass}
+            />
+            <select
+              value={form.assetType}
+              onChange={(e) => setForm({ ...form, assetType: e.target.value as ChargeableAssetType, exemption: '' })}
+              className={inputClass}
+            >
+              {CHARGEABLE_ASSET_TYPES.map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+            {amountField('proceeds', 'Sale proceeds (₦)')}
+            {amountField('acquisitionCost', 'Purchase cost (₦)')}
+            {amountField('improvementCost', 'Improvement costs (₦)')}
+            {amountField('disposalCosts', 'Selling costs (₦)')}
+            {availableExemptions.length > 0 && (
+              <select
+                value={form.exemption}
+                onChange={(e) => setForm({ ...form, exemption: e.target.value as CgtExemption | '' })}
+                className={`${inputClass} col-span-2`}
+              >
+                <option value="">No exemption claimed</option>
+                {availableExemptions.map((e) => (
+                  <option key={e.id} value={e.id}>{e.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={!form.description.trim() || parseNumber(form.proceeds) <= 0}
+            className="mt-2 px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+          >
+            Add disposal
+          </button>
+
+          {/* Results */}
+          {result && (
+            <div className="mt-6 p-4 bg-gray-50 rounded-lg">
+              <h4 className="font-semibold text-gray-800 mb-3">Disposals in {taxYear}</h4>
+              <div className="space-y-2 text-sm">
+                {result.disposals.map((g) => (
+                  <div key={g.disposal.id} className="py-1 border-b border-gray-200">
+                    <div className="flex justify-between">
+                      <span className="text-gray-700">{g.disposal.description}</span>
+                      <span className={g.gain >= 0 ? 'font-medium' : 'font-medium text-green-600'}>
+                        {g.gain >= 0 ? formatCurrency(g.gain) : `-${formatCurrency(-g.gain)}`}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>
+                        {formatCurrency(g.disposal.proceeds)} less costs {formatCurrency(g.allowableCost)}
+                        {g.exemptionApplied && <span className="text-green-600 ml-1">· exempt</span>}
+                      </span>
+                      <button
+                        onClick={() => setDisposals(disposals.filter((d) => d.id !== g.disposal.id))}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    {g.exemptionRefused && <p className="text-xs text-amber-700">{g.exemptionRefused}</p>}
+                  </div>
+                ))}
+
+                <div className="flex justify-between pt-1">
+                  <span className="text-gray-600">Total chargeable gains:</span>
+                  <span className="font-medium">{formatCurrency(result.totalGains)}</span>
+                </div>
+                {result.exemptGains > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Exempt gains:</span>
+                    <span className="font-medium text-green-600">{formatCurrency(result.exemptGains)}</span>
+                  </div>
+                )}
+                {result.totalLosses > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Capital losses{result.lossesOffset > 0 ? ' offset' : ' (not allowable)'}:</span>
+                    {result.lossesOffset > 0 ? (
+                      <span className="font-medium text-green-600">-{formatCurrency(result.lossesOffset)}</span>
+                    ) : (
+                      <span className="font-medium text-gray-500">{formatCurrency(result.totalLosses)}</span>
+                    )}
+                  </div>
+                )}
+                <div className="flex justify-between py-2 bg-yellow-50 px-3 rounded-lg">
+                  <span className="text-yellow-700 font-semibold">Net Chargeable Gains:</span>
+                  <span className="text-yellow-700 font-bold">{formatCurrency(result.chargeableGains)}</span>
+                </div>
+                <div className="flex justify-between py-2 bg-red-50 px-3 rounded-lg">
+                  <span className="text-red-700 font-semibold">Tax on Gains:</span>
+                  <span className="text-red-700 font-bold">{formatCurrency(result.tax)}</span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {result.rateDescription}
+                  {result.chargeableGains > 0 && ` — effective rate ${result.effectiveRate.toFixed(1)}%`}
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapitalGainsCalculator;
@@ -1,21 +1,59 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { Pie } from 'react-chartjs-2';
 import { Chart as ChartJS, ArcElement, Tooltip, Legend } from 'chart.js';
 import { jsPDF } from 'jspdf';
 import {
   calculateCompanyTax,
+  CompanyCalculationRequest,
   CompanyTaxInput,
   CompanyTaxResult,
   formatCurrency,
-  COMPANY_TAX_RATES,
 } from '../utils/taxCalculations';
-import { useAuth } from '../context/AuthContext';
-import { BUSINESS_TYPES, BusinessSector, getBusinessTypeById, EDI_INFO } from '../utils/businessTypes';
+import { currentTaxYear, getSupportedTaxYears, getTaxRuleSet } from '../utils/taxRules';
+import { apiRequest, useAuth } from '../context/AuthContext';
+import { LossLedgerEntry, totalUnrelievedLoss } from '../utils/lossRelief';
+import { BUSINESS_TYPES, BusinessSector, getBusinessTypeById, EDI_INFO, IncentiveClaimField } from '../utils/businessTypes';
+import { INCENTIVE_CLAIM_LABELS, sectorIncentives } from '../utils/incentives';
+import { AssetRegisterYear } from '../utils/capitalAllowances';
+import AssetRegister from './AssetRegister';
+import { buildWhtCreditLedger, WhtCreditEntry, WhtCreditNote } from '../utils/whtCredits';
+import WhtCreditRegister from './WhtCreditRegister';
+import { buildEdiCreditLedger, EdiCertificate, EdiCreditEntry } from '../utils/ediCredits';
+import EdiCertificateRegister from './EdiCertificateRegister';
+import { TaxHoliday, taxHolidayStatus } from '../utils/taxHolidays';
+import TaxHolidayRegister from './TaxHolidayRegister';
+import CapitalGainsCalculator from './CapitalGainsCalculator';
+import InstalmentTracker from './InstalmentTracker';
+import ForeignIncome from './ForeignIncome';
+import { ForeignIncomeLine } from '../utils/foreignTaxCredit';
+import FxRateTable, { FxConversionList, loadFxRates } from './FxRateTable';
+import WorkingsPanel from './WorkingsPanel';
+import {
+  CURRENCIES,
+  CurrencyCode,
+  FxConversion,
+  FxRate,
+  convertCurrency,
+  convertToNaira,
+  describeFxRate,
+  yearEndDate,
+} from '../utils/fx';
+import { formatMoney } from '../utils/money';
 import DocumentUpload from './DocumentUpload';
 import CompanyFieldGuide from './CompanyFieldGuide';
+import CryptoLedgerImport from './CryptoLedgerImport';
+import { CryptoGainsResult } from '../utils/cryptoLedger';
 
 ChartJS.register(ArcElement, Tooltip, Legend);
 
+// Balances a saved earlier-year calculation carries into this one
+interface CarriedForward {
+  fromYear: number;
+  lossLedger: LossLedgerEntry[];
+  whtCreditLedger: WhtCreditEntry[] | null;
+  ediCreditLedger: EdiCreditEntry[];
+}
+
 interface CompanyTaxCalculatorProps {
   initialAnnualTurnover?: string;
   initialAssessableProfit?: string;
@@ -34,6 +72,7 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
   const [businessSector, setBusinessSector] = useState<BusinessSector>(
     initialIsProfessionalService ? 'professional_services' : 'general'
   );
+  const [taxYear, setTaxYear] = useState<number>(currentTaxYear());
   const [annualTurnover, setAnnualTurnover] = useState<string>(initialAnnualTurnover);
   const [fixedAssets, setFixedAssets] = useState<string>(initialFixedAssets);
   const [assessableProfit, setAssessableProfit] = useState<string>(initialAssessableProfit);
@@ -41,15 +80,38 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
   const [isNonResident, setIsNonResident] = useState<boolean>(false);
   const [ownsDigitalAsset, setOwnsDigitalAsset] = useState<boolean>(false);
   const [digitalAssetProfit, setDigitalAssetProfit] = useState<string>('');
+  const [digitalAssetCurrency, setDigitalAssetCurrency] = useState<CurrencyCode>('NGN');
   const [isLargeCompany, setIsLargeCompany] = useState<boolean>(false);
   const [isMNE, setIsMNE] = useState<boolean>(false);
+  // Consolidated group turnover, tested against the EUR MNE threshold
+  const [groupTurnover, setGroupTurnover] = useState<string>('');
+  const [groupTurnoverCurrency, setGroupTurnoverCurrency] = useState<CurrencyCode>('EUR');
+  const [fxRates, setFxRates] = useState<FxRate[]>(loadFxRates);
+  const [showFxRates, setShowFxRates] = useState<boolean>(false);
+  // Pillar Two GloBE figures (large companies and MNE subsidiaries)
+  const [globeInputs, setGlobeInputs] = useState({
+    eligiblePayrollCosts: '',
+    eligibleTangibleAssets: '',
+    profitBeforeTax: '',
+    excludedDividends: '',
+    policyDisallowedExpenses: '',
+  });
   const [capitalAllowances, setCapitalAllowances] = useState<string>('');
+  // Register totals for the year when the asset register drives allowances
+  const [assetRegisterYear, setAssetRegisterYear] = useState<AssetRegisterYear | null>(null);
+  // WHT credit register while credits are being applied
+  const [whtCreditNotes, setWhtCreditNotes] = useState<WhtCreditNote[] | null>(null);
+  const [ediCertificates, setEdiCertificates] = useState<EdiCertificate[] | null>(null);
+  const [foreignIncome, setForeignIncome] = useState<ForeignIncomeLine[]>([]);
   const [employerPensionContribution, setEmployerPensionContribution] = useState<string>('');
   const [result, setResult] = useState<CompanyTaxResult | null>(null);
   const [showSavingsBreakdown, setShowSavingsBreakdown] = useState<boolean>(false);
   // Tax incentive claims (for logged-in users)
-  const [isTaxHolidayActive, setIsTaxHolidayActive] = useState<boolean>(false);
+  const [taxHolidays, setTaxHolidays] = useState<TaxHoliday[]>([]);
   const [qualifyingCapitalExpenditure, setQualifyingCapitalExpenditure] = useState<string>('');
+  const [exportShare, setExportShare] = useState<string>('');
+  const [inFreeZone, setInFreeZone] = useState<boolean>(false);
+  const [incentiveClaims, setIncentiveClaims] = useState<Partial<Record<IncentiveClaimField, string>>>({});
   const [showFieldGuide, setShowFieldGuide] = useState<boolean>(false);
   // Document upload state
   const [showUploadReceipt, setShowUploadReceipt] = useState<boolean>(false);
@@ -57,6 +119,14 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
   const [ocrDeductions, setOcrDeductions] = useState<number>(0);
 
   const selectedBusinessType = getBusinessTypeById(businessSector);
+  // Inputs the sector's incentive rules check or claim against
+  const { claimFields, asksExportShare } = useMemo(() => {
+    const rules = sectorIncentives(businessSector).map((incentive) => incentive.rule!);
+    return {
+      claimFields: rules.flatMap(({ effect }) => (effect.kind === 'deduction' || effect.kind === 'credit' ? [effect.claim] : [])),
+      asksExportShare: rules.some(({ eligibility }) => eligibility.minExportShare !== undefined || eligibility.inFreeZone !== undefined),
+    };
+  }, [businessSector]);
 
   // If the Wizard already determined this is a professional services firm,
   // that classification drove the tax result the user is carrying over —
@@ -68,11 +138,52 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
   useEffect(() => {
     setIsProfessionalService(businessSector === 'professional_services');
     // Reset incentive claims when sector changes
-    setIsTaxHolidayActive(false);
     setQualifyingCapitalExpenditure('');
   }, [businessSector]);
 
-  const { isAuthenticated, saveTaxCalculation, addDocument } = useAuth();
+  const { isAuthenticated, saveTaxCalculation, addDocument, taxHistory } = useAuth();
+
+  // Closing ledgers of the latest saved company calculation for an earlier
+  // tax year, looked up by the server as the history here is only the latest
+  // few calculations. Fetched again after each save.
+  const [carriedForward, setCarriedForward] = useState<CarriedForward | null>(null);
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setCarriedForward(null);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const response = await apiRequest<{ carriedForward: CarriedForward | null }>(
+        `/calculations/company/carried-forward?taxYear=${taxYear}`
+      );
+      if (!cancelled) setCarriedForward(response.success && response.data ? response.data.carriedForward : null);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, taxYear, taxHistory]);
+
+  // Losses brought forward: the saved closing ledger plus any losses entered
+  // by hand (e.g. years before the company started using WittyTax)
+  const [manualLosses, setManualLosses] = useState<{ taxYear: number; amount: string }[]>([]);
+  const savedLossLedger = useMemo(
+    () => (carriedForward ? { fromYear: carriedForward.fromYear, ledger: carriedForward.lossLedger } : null),
+    [carriedForward]
+  );
+
+  // Years a loss can be entered by hand for: those after the saved calculation
+  const manualLossYears = Array.from({ length: 10 }, (_, k) => taxYear - 1 - k)
+    .filter((year) => !savedLossLedger || year > savedLossLedger.fromYear);
+
+  // Unused WHT credits carried forward by the same calculation
+  const savedWhtLedger = useMemo(
+    () => (carriedForward?.whtCreditLedger ? { fromYear: carriedForward.fromYear, ledger: carriedForward.whtCreditLedger } : null),
+    [carriedForward]
+  );
+
+  // EDI credit already claimed, from the same calculation
+  const savedEdiLedger = useMemo(() => carriedForward?.ediCreditLedger ?? [], [carriedForward]);
 
   const parseNumber = (value: string): number => {
     const cleaned = value.replace(/,/g, '');
@@ -103,10 +214,11 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
     }
   };
 
+  // A loss year is entered as a negative profit
   const handleProfitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const raw = e.target.value.replace(/,/g, '');
-    if (raw === '' || /^\d*\.?\d*$/.test(raw)) {
-      setAssessableProfit(formatInputValue(raw));
+    if (raw === '' || /^-?\d*\.?\d*$/.test(raw)) {
+      setAssessableProfit((raw.startsWith('-') ? '-' : '') + formatInputValue(raw));
     }
   };
 
@@ -124,6 +236,12 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
     }
   };
 
+  // Gains from an imported trade history are already in naira
+  const handleCryptoGains = useCallback((gains: CryptoGainsResult) => {
+    setDigitalAssetCurrency('NGN');
+    setDigitalAssetProfit(gains.profit > 0 ? gains.profit.toLocaleString('en-NG', { maximumFractionDigits: 2 }) : '');
+  }, []);
+
   // OCR Document Upload Handlers
   const handleOCRResult = useCallback((amount: number) => {
     setOcrDeductions((prev) => prev + amount);
@@ -141,39 +259,102 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
     }
   }, [isAuthenticated, addDocument]);
 
+  // Annual figures in another currency convert at the year-end rate
+  const digitalAssetFx = useMemo(
+    () => convertToNaira(fxRates, parseNumber(digitalAssetProfit), digitalAssetCurrency, yearEndDate(taxYear), 'Digital asset profit'),
+    [fxRates, digitalAssetProfit, digitalAssetCurrency, taxYear]
+  );
+  const mneThreshold = getTaxRuleSet(taxYear).company.large?.mneGlobalTurnoverThreshold ?? null;
+  const ediRule = getTaxRuleSet(taxYear).company.edi;
+
+  // The registered holiday for this sector covering the most of the tax year
+  const holidayStatus = useMemo(() => taxHolidays
+    .filter((holiday) => holiday.sector === businessSector)
+    .map((holiday) => taxHolidayStatus(holiday, taxYear))
+    .sort((a, b) => b.share - a.share)[0] ?? null, [taxHolidays, businessSector, taxYear]);
+  const groupTurnoverEur = groupTurnover
+    ? convertCurrency(fxRates, parseNumber(groupTurnover), groupTurnoverCurrency, 'EUR', yearEndDate(taxYear))
+    : null;
+  const exceedsMneThreshold = mneThreshold !== null && groupTurnoverEur !== null && groupTurnoverEur >= mneThreshold;
+
+  // Inputs behind the current result — the server recomputes from these when saving
+  const resultInputRef = useRef<CompanyCalculationRequest | null>(null);
+
   const calculateTax = useCallback(() => {
     const allDeductions = ocrDeductions > 0
       ? [{ id: 'ocr-deductions', description: 'OCR Detected Deductions', amount: ocrDeductions }]
       : [];
+    // Years up to the saved calculation's are already in its ledger
+    const enteredLosses = manualLosses
+      .map((loss) => ({ taxYear: loss.taxYear, amount: parseNumber(loss.amount) }))
+      .filter((loss) => loss.amount > 0 && (!savedLossLedger || loss.taxYear > savedLossLedger.fromYear));
 
     const input: CompanyTaxInput = {
+      taxYear,
       annualTurnover: parseNumber(annualTurnover),
       fixedAssets: parseNumber(fixedAssets),
       assessableProfit: parseNumber(assessableProfit),
       isProfessionalService,
       isNonResident,
-      capitalAllowances: parseNumber(capitalAllowances),
+      capitalAllowances: assetRegisterYear ? assetRegisterYear.capitalAllowances : parseNumber(capitalAllowances),
       otherDeductions: allDeductions,
       employerPensionContribution: parseNumber(employerPensionContribution),
-      assetDisposalProceeds: 0,
-      assetTaxWrittenDownValue: 0,
+      assetDisposalProceeds: assetRegisterYear?.disposalProceeds ?? 0,
+      assetTaxWrittenDownValue: assetRegisterYear?.disposalTWDV ?? 0,
       isLargeCompany,
-      isMNE,
+      isMNE: isMNE || exceedsMneThreshold,
       // Sector-specific incentives (only for authenticated users)
       businessSector: isAuthenticated ? businessSector : 'general',
-      isTaxHolidayActive: isAuthenticated ? isTaxHolidayActive : false,
-      qualifyingCapitalExpenditure: isAuthenticated ? parseNumber(qualifyingCapitalExpenditure) : 0,
+      isTaxHolidayActive: isAuthenticated && !!holidayStatus?.applies,
+      taxHolidayShare: holidayStatus?.share ?? 0,
+      // Recorded certificates replace the one-year QCE estimate
+      qualifyingCapitalExpenditure: isAuthenticated && !ediCertificates ? parseNumber(qualifyingCapitalExpenditure) : 0,
+      exportShare: isAuthenticated && asksExportShare ? Math.min(100, parseNumber(exportShare)) / 100 : 0,
+      inFreeZone: isAuthenticated && asksExportShare && inFreeZone,
+      incentiveClaims: isAuthenticated
+        ? Object.fromEntries(claimFields
+          .map((field) => [field, parseNumber(incentiveClaims[field] ?? '')] as const)
+          .filter(([, amount]) => amount > 0))
+        : {},
       ownsDigitalAsset,
-      digitalAssetProfit: parseNumber(digitalAssetProfit),
+      digitalAssetProfit: digitalAssetFx?.naira ?? 0,
+      lossLedger: [
+        ...(savedLossLedger?.ledger ?? []),
+        ...enteredLosses.map((loss) => ({ taxYear: loss.taxYear, originalLoss: loss.amount, remaining: loss.amount })),
+      ],
+      whtCredits: whtCreditNotes ? buildWhtCreditLedger(whtCreditNotes, savedWhtLedger) : [],
+      ediCredits: isAuthenticated && ediCertificates ? buildEdiCreditLedger(ediCertificates, savedEdiLedger) : [],
+      globe: {
+        eligiblePayrollCosts: parseNumber(globeInputs.eligiblePayrollCosts),
+        eligibleTangibleAssets: parseNumber(globeInputs.eligibleTangibleAssets),
+        profitBeforeTax: globeInputs.profitBeforeTax ? parseNumber(globeInputs.profitBeforeTax) : undefined,
+        excludedDividends: parseNumber(globeInputs.excludedDividends),
+        policyDisallowedExpenses: parseNumber(globeInputs.policyDisallowedExpenses),
+      },
+      foreignIncome,
+      fxConversions: [
+        ...(ownsDigitalAsset && digitalAssetFx && digitalAssetCurrency !== 'NGN' ? [digitalAssetFx] : []),
+        ...foreignIncome.flatMap((line): FxConversion[] => (line.fx ? [line.fx] : [])),
+      ],
     };
 
-    if (input.assessableProfit > 0) {
+    // The server builds the ledgers and holiday from its own records
+    const { lossLedger, whtCredits, ediCredits, isTaxHolidayActive, taxHolidayShare, fxConversions, ...request } = input;
+
+    if (input.assessableProfit !== 0) {
       const taxResult = calculateCompanyTax(input);
+      resultInputRef.current = {
+        ...request,
+        manualLosses: enteredLosses,
+        applyWhtCredits: !!whtCreditNotes,
+        applyEdiCredits: isAuthenticated && !!ediCertificates,
+      };
       setResult(taxResult);
     } else {
+      resultInputRef.current = null;
       setResult(null);
     }
-  }, [annualTurnover, fixedAssets, assessableProfit, isProfessionalService, isNonResident, capitalAllowances, employerPensionContribution, ocrDeductions, isLargeCompany, isMNE, isAuthenticated, businessSector, isTaxHolidayActive, qualifyingCapitalExpenditure, ownsDigitalAsset, digitalAssetProfit]);
+  }, [taxYear, annualTurnover, fixedAssets, assessableProfit, isProfessionalService, isNonResident, capitalAllowances, assetRegisterYear, employerPensionContribution, ocrDeductions, isLargeCompany, isMNE, exceedsMneThreshold, isAuthenticated, businessSector, holidayStatus, qualifyingCapitalExpenditure, asksExportShare, exportShare, inFreeZone, claimFields, incentiveClaims, ownsDigitalAsset, digitalAssetFx, digitalAssetCurrency, savedLossLedger, manualLosses, whtCreditNotes, savedWhtLedger, ediCertificates, savedEdiLedger, globeInputs, foreignIncome]);
 
   useEffect(() => {
     calculateTax();
@@ -183,11 +364,12 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
   // so it appears in the Dashboard Overview without requiring a PDF download.
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   useEffect(() => {
-    if (!isAuthenticated || !result || result.assessableProfit <= 0) return;
+    const input = resultInputRef.current;
+    if (!isAuthenticated || !result || !input) return;
 
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     saveTimeoutRef.current = setTimeout(() => {
-      saveTaxCalculation('company', result);
+      saveTaxCalculation('company', input);
     }, 1500);
 
     return () => {
@@ -201,8 +383,12 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
   const incentiveSavings = {
     taxHolidaySavings: result?.taxHolidaySavings || 0,
     ediCreditSavings: result?.ediCredit || 0,
+    incentiveCreditSavings: result?.incentiveCredits || 0,
     totalSavings: result?.totalIncentiveSavings || 0
   };
+  // The exemption applied, when it was a tax holiday or a free zone exemption
+  const appliedExemption = result?.incentives.find((i) => (i.effect === 'holiday' || i.effect === 'exemption') && i.amount > 0);
+  const holidayExemption = appliedExemption?.effect === 'holiday' && holidayStatus;
 
   // Generate PDF Report with incentives and recommendations
   const generatePDFReport = useCallback(() => {
@@ -240,7 +426,7 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
     doc.text('WittyTax', MARGIN_LEFT, 25);
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
-    doc.text('Company Tax Report - NTA 2025', MARGIN_LEFT, 35);
+    doc.text(`Company Tax Report - ${result.taxYear} Tax Year (${getTaxRuleSet(result.taxYear).name})`, MARGIN_LEFT, 35);
     doc.text(`Generated: ${new Date().toLocaleDateString('en-NG')}`, pageWidth - MARGIN_RIGHT, 25, { align: 'right' });
 
     yPos = 55;
@@ -297,13 +483,28 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
       yPos += 7;
     }
 
+    if (result.lossRelieved > 0) {
+      doc.text('Losses Brought Forward Relieved:', INDENT_X, yPos);
+      doc.text(`-${formatAmount(result.lossRelieved)}`, AMOUNT_X, yPos, { align: 'right' });
+      yPos += 7;
+    }
+
     doc.setDrawColor(200, 200, 200);
     doc.line(MARGIN_LEFT, yPos, pageWidth - MARGIN_RIGHT, yPos);
     yPos += 7;
     doc.setFont('helvetica', 'bold');
     doc.text('Taxable Profit:', MARGIN_LEFT, yPos);
     doc.text(formatAmount(result.taxableProfit), AMOUNT_X, yPos, { align: 'right' });
-    yPos += 15;
+    yPos += 7;
+
+    const lossCarriedForward = totalUnrelievedLoss(result.lossLedger);
+    if (lossCarriedForward > 0) {
+      doc.setFont('helvetica', 'normal');
+      doc.text('Unrelieved Losses Carried Forward:', MARGIN_LEFT, yPos);
+      doc.text(formatAmount(lossCarriedForward), AMOUNT_X, yPos, { align: 'right' });
+      yPos += 7;
+    }
+    yPos += 8;
 
     // Tax Breakdown Section
     doc.setFontSize(14);
@@ -314,13 +515,11 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
     doc.setFont('helvetica', 'normal');
 
     result.taxBreakdown.forEach((item) => {
-      if (item.amount >= 0) {
-        checkNewPage(12);
-        const descLines = doc.splitTextToSize(item.description, AMOUNT_X - INDENT_X - 10);
-        doc.text(descLines, INDENT_X, yPos);
-        doc.text(formatAmount(item.amount), AMOUNT_X, yPos, { align: 'right' });
-        yPos += Math.max(descLines.length * 5, 7);
-      }
+      checkNewPage(12);
+      const descLines = doc.splitTextToSize(item.description, AMOUNT_X - INDENT_X - 10);
+      doc.text(descLines, INDENT_X, yPos);
+      doc.text(item.amount < 0 ? `-${formatAmount(-item.amount)}` : formatAmount(item.amount), AMOUNT_X, yPos, { align: 'right' });
+      yPos += Math.max(descLines.length * 5, 7);
     });
 
     yPos += 5;
@@ -338,6 +537,41 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
     doc.text(formatAmount(result.totalTax), AMOUNT_X, yPos + 5, { align: 'right' });
     yPos += 20;
 
+    if (result.whtCreditApplied > 0 || result.whtCreditCarriedForward > 0) {
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(0, 0, 0);
+      doc.text('Less: WHT Credit Notes Applied:', INDENT_X, yPos);
+      doc.text(`-${formatAmount(result.whtCreditApplied)}`, AMOUNT_X, yPos, { align: 'right' });
+      yPos += 7;
+      doc.setFont('helvetica', 'bold');
+      doc.text('Tax Payable:', INDENT_X, yPos);
+      doc.text(formatAmount(result.taxPayable), AMOUNT_X, yPos, { align: 'right' });
+      yPos += 7;
+      if (result.whtCreditCarriedForward > 0) {
+        doc.setFont('helvetica', 'normal');
+        doc.text('Unused WHT Credit Carried Forward:', INDENT_X, yPos);
+        doc.text(formatAmount(result.whtCreditCarriedForward), AMOUNT_X, yPos, { align: 'right' });
+        yPos += 7;
+      }
+      yPos += 8;
+    }
+
+    if (result.ediCreditCarriedForward > 0 || result.ediCreditLapsed > 0) {
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(0, 0, 0);
+      if (result.ediCreditCarriedForward > 0) {
+        doc.text('Unused EDI Credit Carried Forward:', INDENT_X, yPos);
+        doc.text(formatAmount(result.ediCreditCarriedForward), AMOUNT_X, yPos, { align: 'right' });
+        yPos += 7;
+      }
+      if (result.ediCreditLapsed > 0) {
+        doc.text('EDI Credit Lapsed (certificate expired):', INDENT_X, yPos);
+        doc.text(formatAmount(result.ediCreditLapsed), AMOUNT_X, yPos, { align: 'right' });
+        yPos += 7;
+      }
+      yPos += 8;
+    }
+
     // Net Profit Box
     doc.setFillColor(219, 234, 254);
     doc.rect(MARGIN_LEFT, yPos - 5, pageWidth - MARGIN_LEFT - MARGIN_RIGHT, 15, 'F');
@@ -351,6 +585,47 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
     doc.text(`Effective Tax Rate: ${result.effectiveRate.toFixed(2)}%`, MARGIN_LEFT, yPos);
     yPos += 20;
 
+    // Exchange rates used for foreign currency inputs
+    if (result.fxConversions.length > 0) {
+      checkNewPage(15 + result.fxConversions.length * 7);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Exchange Rates Used', MARGIN_LEFT, yPos);
+      yPos += 8;
+      doc.setFont('helvetica', 'normal');
+      result.fxConversions.forEach((c) => {
+        doc.text(`${c.label}: ${c.currency} ${c.amount.toLocaleString('en-NG')}`, INDENT_X, yPos);
+        doc.text(describeFxRate(c).replace('₦', 'N'), AMOUNT_X, yPos, { align: 'right' });
+        yPos += 7;
+      });
+      yPos += 8;
+    }
+
+    // Workings: each step with its formula, any cap applied and the law cited
+    if (result.workings.length > 0) {
+      checkNewPage(40);
+      doc.setFontSize(12);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Workings', MARGIN_LEFT, yPos);
+      yPos += 8;
+      doc.setFontSize(9);
+      result.workings.forEach((step, index) => {
+        const details = [step.input, step.formula, step.cap, step.reference]
+          .filter((line): line is string => !!line)
+          .flatMap((line) => doc.splitTextToSize(line.replace(/₦/g, 'N'), AMOUNT_X - INDENT_X));
+        checkNewPage(8 + details.length * 5);
+        doc.setFont('helvetica', 'bold');
+        doc.text(`${index + 1}. ${step.label}`, MARGIN_LEFT, yPos);
+        const value = typeof step.value === 'number' ? formatMoney(step.value) : step.value;
+        doc.text(value.replace('₦', 'N'), AMOUNT_X, yPos, { align: 'right' });
+        yPos += 5;
+        doc.setFont('helvetica', 'normal');
+        doc.text(details, INDENT_X, yPos);
+        yPos += details.length * 5 + 3;
+      });
+      doc.setFontSize(10);
+      yPos += 5;
+    }
+
     // Sector-Specific Incentives Section (for authenticated users)
     if (isAuthenticated && selectedBusinessType && selectedBusinessType.taxIncentives.length > 0) {
       checkNewPage(80);
@@ -395,7 +670,19 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
         }
         const descLines = doc.splitTextToSize(incentive.description, pageWidth - 30 - MARGIN_RIGHT);
         doc.text(descLines, 30, yPos);
-        yPos += descLines.length * 5 + 5;
+        yPos += descLines.length * 5;
+        const outcome = result.incentives.find((i) => i.name === incentive.name);
+        if (outcome) {
+          const status = outcome.eligible
+            ? `Applied${outcome.amount > 0 ? `: ${formatAmount(outcome.amount)}${outcome.effect === 'deduction' ? ' deducted' : ' saved'}` : ''}`
+            : 'Not applied';
+          const statusLines = doc.splitTextToSize(`${status}${outcome.note ? ` - ${outcome.note}` : ''}`, pageWidth - 30 - MARGIN_RIGHT);
+          doc.setFont('helvetica', 'italic');
+          doc.text(statusLines, 30, yPos);
+          doc.setFont('helvetica', 'normal');
+          yPos += statusLines.length * 5;
+        }
+        yPos += 5;
       });
 
       // Applied Incentive Savings
@@ -408,11 +695,14 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
         doc.setTextColor(161, 98, 7);
         doc.text('Applied Incentive Savings:', INDENT_X, yPos + 3);
         if (incentiveSavings.taxHolidaySavings > 0) {
-          doc.text(`Tax Holiday Savings: ${formatAmount(incentiveSavings.taxHolidaySavings)}`, INDENT_X, yPos + 10);
+          doc.text(`${appliedExemption?.effect === 'exemption' ? 'Exemption' : 'Tax Holiday'} Savings: ${formatAmount(incentiveSavings.taxHolidaySavings)}`, INDENT_X, yPos + 10);
         }
         if (incentiveSavings.ediCreditSavings > 0) {
           doc.text(`EDI Credit (Annual): ${formatAmount(incentiveSavings.ediCreditSavings)}`, pageWidth / 2, yPos + 10);
         }
+        if (incentiveSavings.incentiveCreditSavings > 0) {
+          doc.text(`Investment Credits: ${formatAmount(incentiveSavings.incentiveCreditSavings)}`, INDENT_X, yPos + 16);
+        }
         yPos += 25;
       }
     }
@@ -511,7 +801,7 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
     }
 
     // Non-Resident Levy Exemption - only if company is non-resident
-    if (result.isNonResident) {
+    if (result.isNonResident && result.assessableProfit > 0) {
       recommendations.push({
         title: `${recNum++}. Non-Resident Levy Exemption`,
         desc: 'As a non-resident company, you are exempt from the 4% Development Levy.',
@@ -557,18 +847,18 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
 
     // Save the PDF
     doc.save(`WittyTax_Company_Report_${new Date().toISOString().split('T')[0]}.pdf`);
-  }, [result, isAuthenticated, selectedBusinessType, incentiveSavings]);
+  }, [result, isAuthenticated, selectedBusinessType, incentiveSavings, appliedExemption]);
 
   const getPieChartData = () => {
     if (!result) return null;
 
-    const isBigOrLarge = result.companySize === 'big' || result.companySize === 'large';
+    const isBigOrLarge = result.companySize !== 'small';
     const data = isBigOrLarge
       ? [result.corporateTax, result.developmentLevy]
       : [result.totalTax - result.digitalAssetTax];
 
     const labels = isBigOrLarge
-      ? ['Corporate Tax (30%)', 'Development Levy (4%)']
+      ? [`Corporate Tax (${result.taxRate}%)`, result.levyName]
       : ['Tax Liability'];
 
     const backgroundColor = isBigOrLarge
@@ -581,7 +871,7 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
 
     if (result.digitalAssetTax > 0) {
       data.push(result.digitalAssetTax);
-      labels.push('Digital Asset Tax (30%)');
+      labels.push(`Digital Asset Tax (${result.taxRate}%)`);
       backgroundColor.push('#a855f7');
       borderColor.push('#9333ea');
     }
@@ -627,25 +917,29 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
   const getCompanySizeInfo = () => {
     const turnover = parseNumber(annualTurnover);
     const assets = parseNumber(fixedAssets);
+    const rules = getTaxRuleSet(taxYear).company;
+    const levyLabel = `${rules.levy.rate * 100}% Levy`;
+    const fullRate = `${rules.big.rate * 100}%`;
 
     // Check for large company first
-    if (isLargeCompany || isMNE || turnover > COMPANY_TAX_RATES.large.turnoverThreshold) {
+    if (rules.large && (isLargeCompany || isMNE || exceedsMneThreshold || turnover > rules.large.turnoverThreshold)) {
+      const etrLabel = `${rules.large.minimumETR * 100}% ETR`;
       return {
         size: 'Large',
-        rate: isNonResident ? '30% + 15% ETR' : '30% + 4% Levy + 15% ETR',
-        description: isMNE
-          ? 'MNE with global turnover >€750M - Subject to 15% minimum ETR'
-          : 'Turnover >₦50B - Subject to 15% minimum ETR (OECD Pillar II)',
+        rate: isNonResident ? `${fullRate} + ${etrLabel}` : `${fullRate} + ${levyLabel} + ${etrLabel}`,
+        description: isMNE || exceedsMneThreshold
+          ? `MNE with global turnover >€750M - Subject to ${rules.large.minimumETR * 100}% minimum ETR`
+          : `Turnover >₦50B - Subject to ${rules.large.minimumETR * 100}% minimum ETR (OECD Pillar II)`,
         color: 'text-purple-600',
         bgColor: 'bg-purple-50',
         borderColor: 'border-purple-200',
       };
     }
 
-    if (isProfessionalService) {
+    if (isProfessionalService && rules.professionalServicesExcludedFromSmall) {
       return {
         size: 'Big (Professional Service)',
-        rate: '30% + 4% Levy',
+        rate: `${fullRate} + ${levyLabel}`,
         description: 'Professional services excluded from small company exemption',
         color: 'text-red-600',
         bgColor: 'bg-red-50',
@@ -653,20 +947,37 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
       };
     }
 
-    if (turnover <= COMPANY_TAX_RATES.small.maxTurnover && assets < COMPANY_TAX_RATES.small.maxFixedAssets) {
+    if (
+      turnover <= rules.small.maxTurnover &&
+      (rules.small.maxFixedAssets === null || assets < rules.small.maxFixedAssets)
+    ) {
       return {
         size: 'Small',
         rate: '0%',
-        description: `Turnover ≤ ${formatCurrency(COMPANY_TAX_RATES.small.maxTurnover)} AND Assets < ${formatCurrency(COMPANY_TAX_RATES.small.maxFixedAssets)}`,
+        description: rules.small.maxFixedAssets === null
+          ? `Turnover ≤ ${formatCurrency(rules.small.maxTurnover)}`
+          : `Turnover ≤ ${formatCurrency(rules.small.maxTurnover)} AND Assets < ${formatCurrency(rules.small.maxFixedAssets)}`,
         color: 'text-green-600',
         bgColor: 'bg-green-50',
         borderColor: 'border-green-200',
       };
     }
 
+    if (rules.medium && turnover <= rules.medium.maxTurnover) {
+      const mediumRate = `${rules.medium.rate * 100}%`;
+      return {
+        size: 'Medium',
+        rate: isNonResident ? mediumRate : `${mediumRate} + ${levyLabel}`,
+        description: `Turnover above ${formatCurrency(rules.small.maxTurnover)} and below ${formatCurrency(rules.medium.maxTurnover + 1)}`,
+        color: 'text-amber-600',
+        bgColor: 'bg-amber-50',
+        borderColor: 'border-amber-200',
+      };
+    }
+
     return {
       size: 'Big',
-      rate: isNonResident ? '30%' : '30% + 4% Levy',
+      rate: isNonResident ? fullRate : `${fullRate} + ${levyLabel}`,
       description: 'Exceeds small company thresholds',
       color: 'text-red-600',
       bgColor: 'bg-red-50',
@@ -684,6 +995,27 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
       <div className={`bg-white rounded-lg shadow-md p-6 ${result ? 'lg:col-span-3' : 'lg:col-span-5'}`}>
         <h2 className="text-xl font-semibold text-gray-800 mb-4">Company Details & Deductions</h2>
 
+        {/* Tax Year */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Tax Year
+          </label>
+          <select
+            value={taxYear}
+            onChange={(e) => setTaxYear(parseInt(e.target.value, 10))}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            {getSupportedTaxYears().map((year) => (
+              <option key={year} value={year}>
+                {year} — {getTaxRuleSet(year).name}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            The accounting year being assessed. Earlier years are computed under the rules in force at the time.
+          </p>
+        </div>
+
         {/* Business Sector Selection */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -760,6 +1092,7 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
         {/* Sector-Specific Incentive Claims - Only visible to logged-in users */}
         {isAuthenticated && selectedBusinessType && (
           selectedBusinessType.taxIncentives.some(i => i.type === 'holiday') || selectedBusinessType.ediEligible
+            || asksExportShare || claimFields.length > 0
         ) && (
           <div className="mb-6 p-4 bg-green-50 rounded-lg border border-green-200">
             <h4 className="text-sm font-semibold text-green-800 flex items-center gap-2 mb-3">
@@ -772,28 +1105,13 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
               Your sector qualifies for special incentives under NTA 2025. Claim applicable incentives below - view details in Tax Savings section.
             </p>
             <div className="space-y-3">
-              {/* Tax Holiday Checkbox */}
+              {/* Tax Holiday — derived from the registered approval */}
               {selectedBusinessType.taxIncentives.some(i => i.type === 'holiday') && (
-                <label className="flex items-start space-x-3 cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={isTaxHolidayActive}
-                    onChange={(e) => setIsTaxHolidayActive(e.target.checked)}
-                    className="mt-1 w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
-                  />
-                  <div>
-                    <span className="text-sm font-medium text-gray-700">
-                      Tax Holiday Active
-                    </span>
-                    <p className="text-xs text-gray-500">
-                      My company is currently within the tax holiday period (approved by NIPC)
-                    </p>
-                  </div>
-                </label>
+                <TaxHolidayRegister sector={businessSector} taxYear={taxYear} onChange={setTaxHolidays} />
               )}
 
               {/* EDI Qualifying Capital Expenditure */}
-              {selectedBusinessType.ediEligible && (
+              {selectedBusinessType.ediEligible && !ediCertificates && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Qualifying Capital Expenditure (QCE) for EDI
@@ -811,10 +1129,68 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   />
                   <p className="text-xs text-gray-500 mt-1">
-                    Investment in qualifying assets (manufacturing facilities, processing equipment, etc.)
+                    Investment in qualifying assets (manufacturing facilities, processing equipment, etc.). Gives this year's credit only — record your EDI certificate below to track the credit across years.
                   </p>
                 </div>
               )}
+              {selectedBusinessType.ediEligible && ediRule && (
+                <EdiCertificateRegister
+                  taxYear={taxYear}
+                  rule={ediRule}
+                  claimed={savedEdiLedger}
+                  onApply={setEdiCertificates}
+                />
+              )}
+
+              {/* Export position — checked by the free zone exemption and export holiday */}
+              {asksExportShare && (
+                <div className="grid grid-cols-2 gap-3 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Exports (% of turnover)
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={exportShare}
+                      onChange={(e) => setExportShare(e.target.value)}
+                      placeholder="e.g. 80"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 pb-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={inFreeZone}
+                      onChange={(e) => setInFreeZone(e.target.checked)}
+                      className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                    />
+                    Located in an EPZ / FTZ
+                  </label>
+                </div>
+              )}
+
+              {/* Amounts claimed under deduction and credit incentives */}
+              {claimFields.map((field) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {INCENTIVE_CLAIM_LABELS[field]}
+                  </label>
+                  <input
+                    type="text"
+                    value={incentiveClaims[field] ?? ''}
+                    onChange={(e) => {
+                      const raw = e.target.value.replace(/,/g, '');
+                      if (raw === '' || /^\d*\.?\d*$/.test(raw)) {
+                        setIncentiveClaims({ ...incentiveClaims, [field]: formatInputValue(raw) });
+                      }
+                    }}
+                    placeholder="Enter amount"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -888,6 +1264,73 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
               </p>
             </div>
           </label>
+
+          {mneThreshold !== null && (
+            <div className="ml-7">
+              <label className="block text-xs text-gray-600 mb-1">Group consolidated turnover (optional)</label>
+              <div className="flex gap-2">
+                <select
+                  value={groupTurnoverCurrency}
+                  onChange={(e) => setGroupTurnoverCurrency(e.target.value as CurrencyCode)}
+                  className="px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  {CURRENCIES.map((c) => (
+                    <option key={c.code} value={c.code}>{c.code}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={groupTurnover}
+                  onChange={(e) => {
+                    const raw = e.target.value.replace(/,/g, '');
+                    if (raw === '' || /^\d*\.?\d*$/.test(raw)) setGroupTurnover(formatInputValue(raw));
+                  }}
+                  placeholder="Worldwide group turnover"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+              {groupTurnover && (
+                <p className={`text-xs mt-1 ${groupTurnoverEur === null ? 'text-amber-600' : exceedsMneThreshold ? 'text-purple-700' : 'text-gray-500'}`}>
+                  {groupTurnoverEur === null
+                    ? `Add ${groupTurnoverCurrency === 'EUR' ? 'a EUR' : `${groupTurnoverCurrency} and EUR`} rate on or before 31 Dec ${taxYear} to test the €${(mneThreshold / 1000000).toLocaleString()}M threshold`
+                    : `€${Math.round(groupTurnoverEur).toLocaleString('en-NG')} at year-end rates — ${exceedsMneThreshold ? 'above' : 'below'} the €${(mneThreshold / 1000000).toLocaleString()}M MNE threshold`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {(isLargeCompany || isMNE || exceedsMneThreshold) && getTaxRuleSet(taxYear).company.large && (
+            <div className="ml-7 p-3 bg-purple-50 rounded-lg border border-purple-100">
+              <p className="text-xs text-purple-700 mb-2">
+                GloBE figures for the Pillar Two top-up. Payroll and tangible assets reduce the profit the top-up is charged on.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  ['eligiblePayrollCosts', 'Eligible payroll costs (₦)'],
+                  ['eligibleTangibleAssets', 'Tangible assets carrying value (₦)'],
+                  ['profitBeforeTax', 'Accounting profit before tax (₦)'],
+                  ['excludedDividends', 'Excluded dividends and equity gains (₦)'],
+                  ['policyDisallowedExpenses', 'Fines, penalties and bribes (₦)'],
+                ] as const).map(([field, label]) => (
+                  <label key={field} className="text-xs text-gray-600">
+                    {label}
+                    <input
+                      type="text"
+                      value={globeInputs[field]}
+                      onChange={(e) => {
+                        const raw = e.target.value.replace(/,/g, '');
+                        if (raw === '' || /^\d*\.?\d*$/.test(raw)) {
+                          setGlobeInputs({ ...globeInputs, [field]: formatInputValue(raw) });
+                        }
+                      }}
+                      placeholder={field === 'profitBeforeTax' ? 'Defaults to assessable profit' : '0'}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* More Details Button */}
@@ -932,7 +1375,7 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
             className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
           />
           <p className="text-xs text-gray-500 mt-1">
-            Your company's profit before deductions and allowances are applied — usually revenue minus the direct cost of running the business.
+            Your company's profit before deductions and allowances are applied — usually revenue minus the direct cost of running the business. Enter a loss with a minus sign; it is carried forward against later profits.
           </p>
         </div>
 
@@ -957,18 +1400,37 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
         {ownsDigitalAsset && (
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Digital Asset Profit (₦)
+              Digital Asset Profit ({digitalAssetCurrency})
             </label>
-            <input
-              type="text"
-              value={digitalAssetProfit}
-              onChange={handleDigitalAssetProfitChange}
-              placeholder="Enter profit earned from digital/virtual assets"
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-            />
+            <div className="flex gap-2">
+              <select
+                value={digitalAssetCurrency}
+                onChange={(e) => setDigitalAssetCurrency(e.target.value as CurrencyCode)}
+                className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {CURRENCIES.map((c) => (
+                  <option key={c.code} value={c.code}>{c.code}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={digitalAssetProfit}
+                onChange={handleDigitalAssetProfitChange}
+                placeholder="Enter profit earned from digital/virtual assets"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            {digitalAssetCurrency !== 'NGN' && digitalAssetProfit && (
+              <p className={`text-xs mt-1 ${digitalAssetFx ? 'text-gray-600' : 'text-amber-600'}`}>
+                {digitalAssetFx
+                  ? `${formatCurrency(digitalAssetFx.naira)} at ${describeFxRate(digitalAssetFx)}`
+                  : `No ${digitalAssetCurrency} rate on or before 31 Dec ${taxYear} — add one under exchange rates`}
+              </p>
+            )}
             <p className="text-xs text-gray-500 mt-1">
               Net profit from cryptocurrency or other virtual asset activity this year — taxed at 30% CIT under NRS guidelines and added to your total tax liability, separate from your regular business profit.
             </p>
+            <CryptoLedgerImport taxYear={taxYear} fxRates={fxRates} onChange={handleCryptoGains} />
           </div>
         )}
 
@@ -979,16 +1441,38 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
           </label>
           <input
             type="text"
-            value={capitalAllowances}
+            value={assetRegisterYear ? assetRegisterYear.capitalAllowances.toLocaleString('en-NG') : capitalAllowances}
             onChange={handleCapitalChange}
+            disabled={assetRegisterYear !== null}
             placeholder="Enter capital allowances"
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-100"
           />
           <p className="text-xs text-gray-500 mt-1">
-            Depreciation on business assets, machinery, equipment, etc.
+            {assetRegisterYear
+              ? 'Calculated from your fixed asset register below.'
+              : 'Depreciation on business assets, machinery, equipment, etc.'}
           </p>
         </div>
 
+        {isAuthenticated && (
+          <AssetRegister taxYear={taxYear} sector={businessSector} onApply={setAssetRegisterYear} />
+        )}
+
+        {isAuthenticated && <WhtCreditRegister onApply={setWhtCreditNotes} />}
+
+        <ForeignIncome taxYear={taxYear} fxRates={fxRates} onChange={setForeignIncome} credit={result?.foreignTaxCredit ?? null} />
+
+        {/* Exchange rates for foreign currency inputs */}
+        <div className="mb-4">
+          <button
+            onClick={() => setShowFxRates(!showFxRates)}
+            className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+          >
+            {showFxRates ? 'Hide' : 'Manage'} exchange rates ({fxRates.length})
+          </button>
+          {showFxRates && <div className="mt-2"><FxRateTable rates={fxRates} onChange={setFxRates} /></div>}
+        </div>
+
         {/* Employer Pension Contribution — PRA 2014 s.11 */}
         <div className="mb-4">
           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1017,6 +1501,72 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
           )}
         </div>
 
+        {/* Losses Brought Forward */}
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-sm font-medium text-gray-700">
+              Unrelieved Losses Brought Forward
+            </label>
+            {manualLossYears.length > 0 && (
+              <button
+                onClick={() => setManualLosses((prev) => [...prev, { taxYear: manualLossYears[0], amount: '' }])}
+                className="text-xs text-primary-600 hover:text-primary-700 font-medium"
+              >
+                + Add prior-year loss
+              </button>
+            )}
+          </div>
+          {savedLossLedger && totalUnrelievedLoss(savedLossLedger.ledger) > 0 ? (
+            <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-xs text-gray-600 mb-2">
+              <div className="font-medium text-gray-700 mb-1">From your saved {savedLossLedger.fromYear} calculation:</div>
+              {savedLossLedger.ledger.map((entry) => (
+                <div key={entry.taxYear} className="flex justify-between">
+                  <span>{entry.taxYear} loss</span>
+                  <span>{formatCurrency(entry.remaining)} unrelieved</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500 mb-2">
+              None on record. Losses are recorded automatically when deductions exceed profit in a saved calculation.
+            </p>
+          )}
+          {manualLosses.map((loss, i) => (
+            <div key={i} className="grid grid-cols-[auto_1fr_auto] gap-2 mb-2">
+              <select
+                value={loss.taxYear}
+                onChange={(e) => {
+                  const year = parseInt(e.target.value, 10);
+                  setManualLosses((prev) => prev.map((l, j) => (j === i ? { ...l, taxYear: year } : l)));
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {manualLossYears.map((year) => (
+                  <option key={year} value={year}>{year}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={loss.amount}
+                onChange={(e) => {
+                  const raw = e.target.value.replace(/,/g, '');
+                  if (raw === '' || /^\d*\.?\d*$/.test(raw)) {
+                    setManualLosses((prev) => prev.map((l, j) => (j === i ? { ...l, amount: formatInputValue(raw) } : l)));
+                  }
+                }}
+                placeholder="Unrelieved loss amount"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+              <button
+                onClick={() => setManualLosses((prev) => prev.filter((_, j) => j !== i))}
+                className="px-2 text-red-500 hover:text-red-700 text-sm"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+
         {/* OCR Deductions Display */}
         {ocrDeductions > 0 && (
           <div className="mb-4 p-3 bg-primary-50 rounded-lg border border-primary-100">
@@ -1129,7 +1679,12 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
             </div>
           )}
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-xl font-semibold text-gray-800">Tax Calculation Results</h2>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-800">Tax Calculation Results</h2>
+              <p className="text-xs text-gray-500">
+                {result.taxYear} tax year — {getTaxRuleSet(result.taxYear).name}
+              </p>
+            </div>
             {isAuthenticated && (
               <button
                 onClick={generatePDFReport}
@@ -1190,20 +1745,75 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
                 </>
               )}
 
+              {result.lossRelieved > 0 && (
+                <div className="flex justify-between py-1 text-sm">
+                  <span className="text-gray-500 pl-4">Losses Brought Forward Relieved:</span>
+                  <span className="text-red-500">-{formatCurrency(result.lossRelieved)}</span>
+                </div>
+              )}
+
               <div className="flex justify-between py-2 border-b border-gray-200 bg-blue-50 px-3 rounded">
                 <span className="text-blue-700 font-medium">Taxable Profit (for CIT):</span>
                 <span className="font-bold text-blue-700">{formatCurrency(result.taxableProfit)}</span>
               </div>
               <p className="text-xs text-gray-500 mb-2">
-                Taxable Profit = Assessable Profit - Allowable Deductions
+                Taxable Profit = Assessable Profit - Allowable Deductions{result.lossRelieved > 0 ? ' - Losses Relieved' : ''}
               </p>
 
+              {(result.lossCreated > 0 || result.lossExpired > 0 || result.lossLedger.length > 0) && (
+                <div className="p-3 bg-amber-50 rounded-lg border border-amber-200 text-sm">
+                  <div className="font-medium text-amber-800 mb-1">Loss Carry-Forward</div>
+                  {result.lossCreated > 0 && (
+                    <div className="flex justify-between text-amber-700">
+                      <span>Loss arising in {result.taxYear}:</span>
+                      <span>{formatCurrency(result.lossCreated)}</span>
+                    </div>
+                  )}
+                  {result.lossExpired > 0 && (
+                    <div className="flex justify-between text-amber-700">
+                      <span>Expired (past the carry-forward period):</span>
+                      <span>{formatCurrency(result.lossExpired)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-amber-800 font-medium">
+                    <span>Carried forward to {result.taxYear + 1}:</span>
+                    <span>{formatCurrency(totalUnrelievedLoss(result.lossLedger))}</span>
+                  </div>
+                </div>
+              )}
+
               {result.minimumETRApplied && (
                 <div className="flex justify-between py-2 px-3 rounded-lg bg-purple-50 mt-2">
                   <span className="text-purple-700 text-sm">15% Minimum ETR Applied (OECD Pillar II)</span>
                 </div>
               )}
 
+              {result.globe && (
+                <div className="mt-2 p-3 bg-purple-50 rounded-lg border border-purple-100 text-xs space-y-1">
+                  <div className="font-medium text-purple-800">GloBE workings</div>
+                  {([
+                    ['Accounting profit before tax', formatCurrency(result.globe.profitBeforeTax)],
+                    ['GloBE income adjustments', formatCurrency(result.globe.incomeAdjustments)],
+                    ['GloBE income', formatCurrency(result.globe.globeIncome)],
+                    ['Adjusted covered taxes', formatCurrency(result.globe.adjustedCoveredTaxes)],
+                    ['GloBE effective tax rate', `${(result.globe.effectiveRate * 100).toFixed(2)}%`],
+                    ['Top-up percentage', `${(result.globe.topUpPercentage * 100).toFixed(2)}%`],
+                    [`Payroll carve-out (${(result.globe.payrollCarveOutRate * 100).toFixed(1)}%)`, formatCurrency(result.globe.payrollCarveOut)],
+                    [`Tangible asset carve-out (${(result.globe.tangibleAssetCarveOutRate * 100).toFixed(1)}%)`, formatCurrency(result.globe.tangibleAssetCarveOut)],
+                    ['Substance-based income exclusion', formatCurrency(result.globe.substanceBasedIncomeExclusion)],
+                    ['Excess profit', formatCurrency(result.globe.excessProfit)],
+                    ['Jurisdictional top-up tax', formatCurrency(result.globe.topUpTax)],
+                  ]).map(([label, value]) => (
+                    <div key={label} className="flex justify-between text-purple-700">
+                      <span>{label}:</span>
+                      <span className="font-medium">{value}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <FxConversionList conversions={result.fxConversions} />
+
               {/* Tax Breakdown */}
               <div className="mt-4 space-y-2">
                 <div className="text-sm font-medium text-gray-700">Tax Breakdown:</div>
@@ -1217,6 +1827,8 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
                 ))}
               </div>
 
+              <WorkingsPanel workings={result.workings} />
+
               {/* Tax Savings Breakdown - Collapsible (Only for authenticated users) */}
               {isAuthenticated && selectedBusinessType && selectedBusinessType.taxIncentives.length > 0 && (
                 <div className="mt-4 border border-green-200 rounded-lg overflow-hidden">
@@ -1305,12 +1917,23 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
                                 Minimum QCE: {formatCurrency(incentive.qceThreshold)}
                               </p>
                             )}
+                            {(() => {
+                              const outcome = result.incentives.find((i) => i.name === incentive.name);
+                              if (!outcome) return null;
+                              return (
+                                <p className={`text-xs mt-1 ${outcome.eligible ? 'text-green-700' : 'text-gray-500'}`}>
+                                  {outcome.eligible ? 'Applied' : 'Not applied'}
+                                  {outcome.amount > 0 && `: ${formatCurrency(outcome.amount)} ${outcome.effect === 'deduction' ? 'deducted' : 'saved'}`}
+                                  {outcome.note && ` — ${outcome.note}`}
+                                </p>
+                              );
+                            })()}
                           </div>
                         ))}
                       </div>
 
                       {/* Applied Savings Section */}
-                      {(result.taxHolidaySavings > 0 || result.ediCredit > 0) && (
+                      {(result.taxHolidaySavings > 0 || result.ediCredit > 0 || result.incentiveCredits > 0) && (
                         <div className="pt-3 border-t border-green-200">
                           <h5 className="text-sm font-semibold text-green-800 mb-3">Applied Incentive Savings</h5>
 
@@ -1319,8 +1942,16 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
                             <div className="p-3 bg-purple-50 rounded-lg mb-2">
                               <div className="flex justify-between items-center">
                                 <div>
-                                  <span className="text-sm font-medium text-purple-800">Tax Holiday Exemption</span>
-                                  <p className="text-xs text-purple-600 mt-1">100% exemption on CIT + Development Levy</p>
+                                  <span className="text-sm font-medium text-purple-800">{appliedExemption?.name ?? 'Tax Holiday Exemption'}</span>
+                                  <p className="text-xs text-purple-600 mt-1">
+                                    {holidayExemption && holidayStatus.share < 1
+                                      ? `Exemption on CIT + Development Levy for ${Math.round(holidayStatus.share * 100)}% of the year`
+                                      : '100% exemption on CIT + Development Levy'}
+                                    {holidayExemption && ` — holiday ends ${holidayStatus.endDate}`}
+                                  </p>
+                                  {holidayExemption && holidayStatus.warning && (
+                                    <p className="text-xs text-amber-700 mt-1">{holidayStatus.warning}</p>
+                                  )}
                                 </div>
                                 <span className="text-lg font-bold text-purple-700">{formatCurrency(result.taxHolidaySavings)}</span>
                               </div>
@@ -1333,7 +1964,10 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
                               <div className="flex justify-between items-center">
                                 <div>
                                   <span className="text-sm font-medium text-orange-800">EDI Tax Credit (Annual)</span>
-                                  <p className="text-xs text-orange-600 mt-1">5% of Qualifying Capital Expenditure</p>
+                                  <p className="text-xs text-orange-600 mt-1">5% a year of Qualifying Capital Expenditure</p>
+                                  {result.ediCreditCarriedForward > 0 && (
+                                    <p className="text-xs text-orange-600">Unused credit carried forward: {formatCurrency(result.ediCreditCarriedForward)}</p>
+                                  )}
                                 </div>
                                 <span className="text-lg font-bold text-orange-700">{formatCurrency(result.ediCredit)}</span>
                               </div>
@@ -1364,7 +1998,26 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
                   <span className="text-red-700 font-semibold">Total Tax Liability:</span>
                   <span className="text-red-700 font-bold">{formatCurrency(result.totalTax)}</span>
                 </div>
+                {result.whtCreditApplied > 0 && (
+                  <>
+                    <div className="flex justify-between text-sm mt-1">
+                      <span className="text-gray-600">Less WHT credit notes applied:</span>
+                      <span className="text-green-600">-{formatCurrency(result.whtCreditApplied)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm font-semibold">
+                      <span className="text-red-700">Tax Payable:</span>
+                      <span className="text-red-700">{formatCurrency(result.taxPayable)}</span>
+                    </div>
+                  </>
+                )}
+                {result.whtCreditCarriedForward > 0 && (
+                  <div className="flex justify-between text-xs text-gray-600 mt-1">
+                    <span>Unused WHT credit carried forward:</span>
+                    <span>{formatCurrency(result.whtCreditCarriedForward)}</span>
+                  </div>
+                )}
                 {(() => {
+                  // WHT credits settle the tax rather than reduce it, so they stay out of the breakdown
                   const breakdownSum = result.taxBreakdown.reduce((sum, item) => sum + item.amount, 0);
                   const isReconciled = Math.abs(breakdownSum - result.totalTax) < 1;
                   return isReconciled ? (
@@ -1395,9 +2048,14 @@ const CompanyTaxCalculator: React.FC<CompanyTaxCalculatorProps> = ({
                 <span className="font-medium">{result.effectiveRate.toFixed(2)}%</span>
               </div>
             </div>
+
+            {isAuthenticated && result.taxPayable > 0 && <InstalmentTracker taxYear={taxYear} estimate={result} />}
         </div>
       )}
 
+      {/* Capital gains on land, buildings, vehicles and other assets */}
+      <CapitalGainsCalculator taxpayer="company" taxYear={taxYear} companySize={result?.companySize} />
+
       {showFieldGuide && <CompanyFieldGuide onClose={() => setShowFieldGuide(false)} />}
     </div>
   );
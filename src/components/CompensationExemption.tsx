@@ -1,29 +1,32 @@
-import React, { useState, useEffect } from 'react';
-import { formatCurrency, calculateProgressiveTax } from '../utils/taxCalculations';
-import { COMPENSATION_EXEMPTION } from '../utils/taxRecommendations';
-
-export interface CompensationData {
-  totalCompensation: number;
-  yearsOfService: number;
-}
-
-export interface CompensationResult {
-  totalCompensation: number;
-  exemptPortion: number;
-  taxablePortion: number;
-  estimatedTax: number;
-  yearsOfService: number;
-}
+import React, { useState, useMemo } from 'react';
+import {
+  formatCurrency,
+  calculateCompensationTax,
+  COMPENSATION_PAYMENT_TYPES,
+  CompensationPaymentType,
+  PersonalTaxInput,
+} from '../utils/taxCalculations';
+import { getTaxRuleSet } from '../utils/taxRules';
 
 interface CompensationExemptionProps {
-  onCalculate?: (result: CompensationResult) => void;
+  taxYear: number;
+  otherIncome: PersonalTaxInput | null; // inputs behind the current personal result
 }
 
-const CompensationExemption: React.FC<CompensationExemptionProps> = ({ onCalculate }) => {
+const PAYMENT_HINTS: Record<CompensationPaymentType, string> = {
+  gratuity: 'Terminal gratuity paid by the employer on leaving.',
+  exGratia: 'Severance, redundancy pay or any other "golden handshake".',
+  pensionLumpSum: 'Lump sum withdrawn from your retirement savings account — exempt.',
+  noticePay: 'Salary paid instead of working your notice — taxed as employment income.',
+};
+
+const CompensationExemption: React.FC<CompensationExemptionProps> = ({ taxYear, otherIncome }) => {
   const [isExpanded, setIsExpanded] = useState(false);
-  const [totalCompensation, setTotalCompensation] = useState<string>('');
+  const [payments, setPayments] = useState<Record<CompensationPaymentType, string>>({
+    gratuity: '', exGratia: '', pensionLumpSum: '', noticePay: '',
+  });
   const [yearsOfService, setYearsOfService] = useState<string>('');
-  const [result, setResult] = useState<CompensationResult | null>(null);
+  const rules = getTaxRuleSet(taxYear).personal.compensation;
 
   const parseNumber = (value: string): number => {
     const cleaned = value.replace(/,/g, '');
@@ -40,10 +43,10 @@ const CompensationExemption: React.FC<CompensationExemptionProps> = ({ onCalcula
     return parts.join('.');
   };
 
-  const handleCompensationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handlePaymentChange = (type: CompensationPaymentType) => (e: React.ChangeEvent<HTMLInputElement>) => {
     const raw = e.target.value.replace(/,/g, '');
     if (raw === '' || /^\d*\.?\d*$/.test(raw)) {
-      setTotalCompensation(formatInputValue(raw));
+      setPayments((prev) => ({ ...prev, [type]: formatInputValue(raw) }));
     }
   };
 
@@ -52,34 +55,18 @@ const CompensationExemption: React.FC<CompensationExemptionProps> = ({ onCalcula
     setYearsOfService(raw);
   };
 
-  useEffect(() => {
-    const compensation = parseNumber(totalCompensation);
-    const years = parseInt(yearsOfService) || 0;
-
-    if (compensation > 0) {
-      // NTA 2025: First ₦50M is exempt
-      const exemptPortion = Math.min(compensation, COMPENSATION_EXEMPTION.threshold);
-      const taxablePortion = Math.max(0, compensation - COMPENSATION_EXEMPTION.threshold);
-
-      // Calculate tax on taxable portion using progressive rates
-      const { totalTax } = calculateProgressiveTax(taxablePortion);
-
-      const calculatedResult: CompensationResult = {
-        totalCompensation: compensation,
-        exemptPortion,
-        taxablePortion,
-        estimatedTax: totalTax,
-        yearsOfService: years,
-      };
-
-      setResult(calculatedResult);
-      if (onCalculate) {
-        onCalculate(calculatedResult);
-      }
-    } else {
-      setResult(null);
-    }
-  }, [totalCompensation, yearsOfService, onCalculate]);
+  const result = useMemo(() => {
+    const amounts = Object.fromEntries(
+      COMPENSATION_PAYMENT_TYPES.map((t) => [t.id, parseNumber(payments[t.id])])
+    ) as Record<CompensationPaymentType, number>;
+    if (!Object.values(amounts).some((amount) => amount > 0)) return null;
+    return calculateCompensationTax({
+      taxYear,
+      payments: amounts,
+      yearsOfService: parseInt(yearsOfService, 10) || undefined,
+      otherIncome,
+    });
+  }, [taxYear, payments, yearsOfService, otherIncome]);
 
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden">
@@ -93,7 +80,7 @@ const CompensationExemption: React.FC<CompensationExemptionProps> = ({ onCalcula
           </svg>
           <div>
             <h3 className="font-semibold text-gray-800">Compensation for Loss of Office</h3>
-            <p className="text-xs text-gray-500">NTA 2025: Up to {formatCurrency(COMPENSATION_EXEMPTION.threshold)} tax-exempt</p>
+            <p className="text-xs text-gray-500">{taxYear}: Up to {formatCurrency(rules.exemption)} tax-exempt</p>
           </div>
         </div>
         <svg
@@ -115,11 +102,15 @@ const CompensationExemption: React.FC<CompensationExemptionProps> = ({ onCalcula
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
               <div className="text-sm text-blue-700">
-                <p className="font-medium">NTA 2025 Compensation Rules:</p>
+                <p className="font-medium">{taxYear} Compensation Rules:</p>
                 <ul className="mt-1 list-disc list-inside text-xs">
-                  <li>Exemption threshold increased from {formatCurrency(10000000)} to {formatCurrency(COMPENSATION_EXEMPTION.threshold)}</li>
-                  <li>Amount up to {formatCurrency(COMPENSATION_EXEMPTION.threshold)} is completely tax-exempt</li>
-                  <li>Only the excess above {formatCurrency(COMPENSATION_EXEMPTION.threshold)} is taxable</li>
+                  <li>Gratuity and ex-gratia payments up to {formatCurrency(rules.exemption)} together are tax-exempt</li>
+                  <li>
+                    The excess is {rules.excessTaxedAs === 'income'
+                      ? 'added to your other income for the year and taxed at your top rates'
+                      : 'charged to capital gains tax'}
+                  </li>
+                  <li>A pension lump sum is exempt; pay in lieu of notice is taxed in full as salary</li>
                 </ul>
               </div>
             </div>
@@ -127,21 +118,21 @@ const CompensationExemption: React.FC<CompensationExemptionProps> = ({ onCalcula
 
           {/* Input Fields */}
           <div className="mt-4 space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Total Compensation Received (₦)
-              </label>
-              <input
-                type="text"
-                value={totalCompensation}
-                onChange={handleCompensationChange}
-                placeholder="Enter total severance/compensation amount"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                The lump-sum payment you received when you lost your job — e.g. severance pay, redundancy pay, or a "golden handshake." Include all such payments.
-              </p>
-            </div>
+            {COMPENSATION_PAYMENT_TYPES.map((t) => (
+              <div key={t.id}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t.name} (₦)
+                </label>
+                <input
+                  type="text"
+                  value={payments[t.id]}
+                  onChange={handlePaymentChange(t.id)}
+                  placeholder="0"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">{PAYMENT_HINTS[t.id]}</p>
+              </div>
+            ))}
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -155,7 +146,7 @@ const CompensationExemption: React.FC<CompensationExemptionProps> = ({ onCalcula
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               />
               <p className="text-xs text-gray-500 mt-1">
-                For record purposes only - does not affect calculation
+                Shows the compensation for each year of service; the exemption itself is a single amount.
               </p>
             </div>
           </div>
@@ -166,15 +157,26 @@ const CompensationExemption: React.FC<CompensationExemptionProps> = ({ onCalcula
               <h4 className="font-semibold text-gray-800 mb-3">Calculation Breakdown</h4>
 
               <div className="space-y-2">
-                <div className="flex justify-between py-1">
-                  <span className="text-gray-600">Total Compensation:</span>
+                {result.payments.map((payment) => (
+                  <div key={payment.type} className="flex justify-between py-1">
+                    <span className="text-gray-600">
+                      {payment.name}
+                      <span className="text-xs text-gray-400 ml-1">
+                        ({payment.treatment === 'compensation' ? 'compensation' : payment.treatment === 'exempt' ? 'exempt' : 'taxed as salary'})
+                      </span>
+                    </span>
+                    <span className="font-medium">{formatCurrency(payment.amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between py-1 border-t border-gray-200 pt-2">
+                  <span className="text-gray-600">Total Payout:</span>
                   <span className="font-medium">{formatCurrency(result.totalCompensation)}</span>
                 </div>
 
-                {result.yearsOfService > 0 && (
+                {result.compensationPerYearOfService !== null && (
                   <div className="flex justify-between py-1">
-                    <span className="text-gray-600">Years of Service:</span>
-                    <span className="font-medium">{result.yearsOfService} years</span>
+                    <span className="text-gray-600">Compensation per Year ({result.yearsOfService} years):</span>
+                    <span className="font-medium">{formatCurrency(result.compensationPerYearOfService)}</span>
                   </div>
                 )}
 
@@ -190,13 +192,23 @@ const CompensationExemption: React.FC<CompensationExemptionProps> = ({ onCalcula
                       <span className="text-yellow-700 font-bold">{formatCurrency(result.taxablePortion)}</span>
                     </div>
 
+                    {result.otherTaxableIncome > 0 && (
+                      <div className="flex justify-between py-1 text-sm">
+                        <span className="text-gray-600">Tax on other income for {taxYear}:</span>
+                        <span className="font-medium">{formatCurrency(result.taxWithoutPayout)}</span>
+                      </div>
+                    )}
+
                     <div className="flex justify-between py-2 bg-red-50 px-3 rounded-lg">
-                      <span className="text-red-700 font-semibold">Estimated Tax on Excess:</span>
-                      <span className="text-red-700 font-bold">{formatCurrency(result.estimatedTax)}</span>
+                      <span className="text-red-700 font-semibold">Additional Tax from Payout:</span>
+                      <span className="text-red-700 font-bold">{formatCurrency(result.tax)}</span>
                     </div>
 
                     <p className="text-xs text-gray-500 mt-2">
-                      Tax is calculated using progressive personal income tax bands on the taxable portion.
+                      {result.otherTaxableIncome > 0
+                        ? `Stacked on your taxable income of ${formatCurrency(result.otherTaxableIncome)} from the calculator above, so it is taxed at your top rates. On its own it would bear ${formatCurrency(result.standaloneTax)}.`
+                        : 'Enter your income in the calculator above to stack the payout on it; this figure assumes no other income for the year.'}
+                      {result.excessTaxedAs === 'capitalGain' && result.compensationExcess > 0 && ' The compensation excess is charged to capital gains tax, not stacked.'}
                     </p>
                   </>
                 ) : (
@@ -206,23 +218,12 @@ const CompensationExemption: React.FC<CompensationExemptionProps> = ({ onCalcula
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
                       <p className="text-sm text-green-700 font-medium">
-                        Your entire compensation is tax-exempt under NTA 2025!
+                        Your entire payout is tax-exempt for {taxYear}!
                       </p>
                     </div>
                   </div>
                 )}
               </div>
-
-              {/* Tax Savings Callout */}
-              {result.exemptPortion > 0 && (
-                <div className="mt-4 p-3 bg-primary-50 rounded-lg border border-primary-100">
-                  <p className="text-sm text-primary-700">
-                    <span className="font-medium">NTA 2025 Benefit:</span> Under the old threshold of {formatCurrency(10000000)},
-                    you would have paid more tax. The new {formatCurrency(COMPENSATION_EXEMPTION.threshold)} threshold
-                    provides significant tax relief.
-                  </p>
-                </div>
-              )}
             </div>
           )}
         </div>
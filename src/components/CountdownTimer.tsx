@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { getCountdown, LODGEMENT_DATE, nextDeadline } from '../utils/taxCalculations';
+import PenaltyCalculator from './PenaltyCalculator';
 
 const CountdownTimer: React.FC = () => {
   const [countdown, setCountdown] = useState(getCountdown());
+  const [showPenalties, setShowPenalties] = useState(false);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -36,6 +38,19 @@ const CountdownTimer: React.FC = () => {
         <p className="text-center text-amber-700 text-sm mt-1">
           Next filing deadline: <strong>{formatDate(nextFilingDeadline)}</strong> (for {nextYear - 1} tax year)
         </p>
+        <div className="text-center mt-2">
+          <button
+            onClick={() => setShowPenalties(!showPenalties)}
+            className="text-sm font-medium text-amber-800 underline hover:text-amber-900"
+          >
+            {showPenalties ? 'Hide late filing costs' : 'Missed it? See what filing late will cost'}
+          </button>
+        </div>
+        {showPenalties && (
+          <div className="mt-3">
+            <PenaltyCalculator defaultTaxType="PIT" defaultDueDate={LODGEMENT_DATE} />
+          </div>
+        )}
       </div>
     );
   }
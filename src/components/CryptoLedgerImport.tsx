@@ -0,0 +1,120 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { formatCurrency } from '../utils/taxCalculations';
+import { FxRate } from '../utils/fx';
+import {
+  calculateCryptoGains,
+  COST_MATCHING_METHODS,
+  CostMatchingMethod,
+  CRYPTO_CSV_COLUMNS,
+  CryptoGainsResult,
+  CryptoTrade,
+  cryptoGainsScheduleCsv,
+  parseCryptoTradesCsv,
+} from '../utils/cryptoLedger';
+
+interface CryptoLedgerImportProps {
+  taxYear: number;
+  fxRates: FxRate[];
+  onChange: (gains: CryptoGainsResult) => void; // only once a ledger is imported
+}
+
+const CryptoLedgerImport: React.FC<CryptoLedgerImportProps> = ({ taxYear, fxRates, onChange }) => {
+  const [trades, setTrades] = useState<CryptoTrade[]>([]);
+  const [method, setMethod] = useState<CostMatchingMethod>('fifo');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const gains = useMemo(
+    () => (trades.length > 0 ? calculateCryptoGains(trades, taxYear, method, fxRates) : null),
+    [trades, taxYear, method, fxRates]
+  );
+
+  useEffect(() => {
+    if (gains) onChange(gains);
+  }, [gains, onChange]);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { trades: imported, errors } = parseCryptoTradesCsv(await file.text());
+    setImportErrors(errors);
+    setTrades(imported);
+  };
+
+  const downloadSchedule = () => {
+    if (!gains) return;
+    const blob = new Blob([cryptoGainsScheduleCsv(gains)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `wittytax_digital_asset_gains_${taxYear}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const issues = [...importErrors, ...(gains?.issues ?? [])];
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200">
+      <div className="flex items-center gap-3 flex-wrap">
+        <label className="px-3 py-1.5 rounded-lg text-xs font-medium text-primary-700 border border-primary-300 cursor-pointer hover:bg-primary-50 bg-white">
+          Import trade history CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleFileUpload} className="hidden" />
+        </label>
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as CostMatchingMethod)}
+          className="px-2 py-1.5 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        >
+          {COST_MATCHING_METHODS.map((m) => (
+            <option key={m.id} value={m.id}>{m.name}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Columns: {CRYPTO_CSV_COLUMNS.join(', ')}. Type is buy, sell, fee or transfer (quantity negative when moved out). Include earlier years' trades so each sale is matched to its cost; the year's net gain fills the profit above.
+      </p>
+
+      {issues.length > 0 && (
+        <ul className="text-xs text-red-600 mt-2 list-disc list-inside">
+          {issues.slice(0, 10).map((issue) => <li key={issue}>{issue}</li>)}
+          {issues.length > 10 && <li>…and {issues.length - 10} more</li>}
+        </ul>
+      )}
+
+      {gains && (
+        <div className="mt-2 text-xs space-y-1">
+          <div className="flex justify-between text-gray-600">
+            <span>{gains.disposals.length} disposal{gains.disposals.length === 1 ? '' : 's'} in {taxYear} — proceeds</span>
+            <span>{formatCurrency(gains.totalProceeds)}</span>
+          </div>
+          <div className="flex justify-between text-gray-600">
+            <span>Matched cost</span>
+            <span>-{formatCurrency(gains.totalCost)}</span>
+          </div>
+          <div className="flex justify-between font-medium text-gray-800">
+            <span>Net {gains.netGain < 0 ? 'loss' : 'gain'}</span>
+            <span>{formatCurrency(gains.netGain)}</span>
+          </div>
+          {gains.netGain < 0 && (
+            <p className="text-amber-600">A net loss gives no digital asset profit and is not set against other income.</p>
+          )}
+          {gains.holdings.length > 0 && (
+            <p className="text-gray-500">
+              Held at 31 Dec {taxYear}: {gains.holdings.map((h) => `${h.quantity} ${h.asset} (cost ${formatCurrency(h.cost)})`).join(', ')}
+            </p>
+          )}
+          <button
+            onClick={downloadSchedule}
+            className="text-primary-600 hover:text-primary-700 font-medium"
+          >
+            Download gains schedule
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CryptoLedgerImport;
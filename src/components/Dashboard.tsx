@@ -12,6 +12,8 @@ import CashFlowRecommendations from './CashFlowRecommendations';
 import AdminPanel from './AdminPanel';
 import ChangePassword from './ChangePassword';
 import ForecastingEngine from './ForecastingEngine';
+import PayrollManager from './PayrollManager';
+import ScenarioComparison from './ScenarioComparison';
 
 interface DashboardProps {
   onClose: () => void;
@@ -40,7 +42,7 @@ const PremiumLock: React.FC<{ featureName: string }> = ({ featureName }) => {
 
 const Dashboard: React.FC<DashboardProps> = ({ onClose, currentTaxType }) => {
   const { user, documents, taxHistory, logout, addDocument, refreshData, isPremium, isAdmin } = useAuth();
-  const [activeTab, setActiveTab] = useState<'overview' | 'financials' | 'businessHealth' | 'recommendations' | 'forecast' | 'settings' | 'admin'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'financials' | 'businessHealth' | 'payroll' | 'recommendations' | 'scenarios' | 'forecast' | 'settings' | 'admin'>('overview');
 
   // Refresh data every time the dashboard opens
   useEffect(() => {
@@ -203,7 +205,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onClose, currentTaxType }) => {
             {/* Divider */}
             <div className="w-px h-6 bg-white/20 self-center" />
 
-            {/* Group 2: Premium features (Financials, Business Health, Forecast) */}
+            {/* Group 2: Premium features (Financials, Business Health, Payroll, Forecast) */}
             <div className="flex gap-1">
               <button
                 onClick={() => setActiveTab('financials')}
@@ -231,6 +233,19 @@ const Dashboard: React.FC<DashboardProps> = ({ onClose, currentTaxType }) => {
                 )}
                 Business Health
               </button>
+              <button
+                onClick={() => setActiveTab('payroll')}
+                className={`px-4 py-2 rounded-t-lg text-sm font-medium transition-colors flex items-center gap-1.5 ${
+                  activeTab === 'payroll' ? 'bg-white text-primary-700' : 'bg-white/10 text-white hover:bg-white/20'
+                }`}
+              >
+                {!isPremium && (
+                  <svg className="w-3.5 h-3.5 text-yellow-300" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
+                  </svg>
+                )}
+                Payroll
+              </button>
               <button
                 onClick={() => setActiveTab('forecast')}
                 className={`px-4 py-2 rounded-t-lg text-sm font-medium transition-colors flex items-center gap-1.5 ${
@@ -249,7 +264,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onClose, currentTaxType }) => {
             {/* Divider */}
             <div className="w-px h-6 bg-white/20 self-center" />
 
-            {/* Group 3: Tax Savings */}
+            {/* Group 3: Tax Savings & Scenarios */}
             <div className="flex gap-1">
               <button
                 onClick={() => setActiveTab('recommendations')}
@@ -259,6 +274,14 @@ const Dashboard: React.FC<DashboardProps> = ({ onClose, currentTaxType }) => {
               >
                 Tax Savings
               </button>
+              <button
+                onClick={() => setActiveTab('scenarios')}
+                className={`px-4 py-2 rounded-t-lg text-sm font-medium transition-colors ${
+                  activeTab === 'scenarios' ? 'bg-white text-primary-700' : 'bg-white/10 text-white hover:bg-white/20'
+                }`}
+              >
+                Scenarios
+              </button>
             </div>
 
             {/* Settings tab */}
@@ -406,6 +429,14 @@ const Dashboard: React.FC<DashboardProps> = ({ onClose, currentTaxType }) => {
               : <PremiumLock featureName="Business Health Dashboard" />
           )}
 
+          {/* Payroll Tab — Premium only */}
+          {activeTab === 'payroll' && (
+            isPremium ? <PayrollManager /> : <PremiumLock featureName="Payroll" />
+          )}
+
+          {/* Scenarios Tab */}
+          {activeTab === 'scenarios' && <ScenarioComparison />}
+
           {/* Tax Recommendations Tab */}
           {activeTab === 'recommendations' && (
             <div className="space-y-6">
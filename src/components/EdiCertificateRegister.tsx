@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiRequest } from '../context/AuthContext';
+import { formatCurrency } from '../utils/taxCalculations';
+import { EdiCertificate, EdiCreditEntry, ediCreditEarned, ediExpiryYear } from '../utils/ediCredits';
+import { EdiCreditRule } from '../utils/taxRules';
+
+interface EdiCertificateRegisterProps {
+  taxYear: number;
+  rule: EdiCreditRule;
+  claimed: EdiCreditEntry[]; // closing ledger of the latest earlier-year calculation
+  // Called with the register while "apply credits" is on, or null
+  onApply: (certificates: EdiCertificate[] | null) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const parseNumber = (value: string): number => {
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+const formatInputValue = (value: string): string => {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts[0]) {
+    parts[0] = parseInt(parts[0], 10).toLocaleString('en-NG');
+  }
+  return parts.join('.');
+};
+
+const EdiCertificateRegister: React.FC<EdiCertificateRegisterProps> = ({ taxYear, rule, claimed, onApply }) => {
+  const [certificates, setCertificates] = useState<EdiCertificate[]>([]);
+  const [applyCredits, setApplyCredits] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({ certificateNumber: '', approvalDate: '' });
+  const [qce, setQce] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    (async () => {
+      const response = await apiRequest<{ certificates: EdiCertificate[] }>('/edi-certificates');
+      if (response.success && response.data) setCertificates(response.data.certificates);
+    })();
+  }, []);
+
+  useEffect(() => {
+    onApply(applyCredits && certificates.length > 0 ? certificates : null);
+  }, [applyCredits, certificates, onApply]);
+
+  useEffect(() => () => onApply(null), [onApply]);
+
+  const save = useCallback(async (certificate: EdiCertificate) => {
+    setError(null);
+    const response = await apiRequest<{ certificate: EdiCertificate }>('/edi-certificates', {
+      method: 'POST',
+      body: JSON.stringify(certificate),
+    });
+    if (response.success && response.data) {
+      const saved = response.data.certificate;
+      setCertificates((prev) => [...prev.filter((c) => c.id !== saved.id), saved]
+        .sort((a, b) => a.approvalDate.localeCompare(b.approvalDate)));
+      return true;
+    }
+    setError(response.error || 'Failed to save EDI certificate');
+    return false;
+  }, []);
+
+  const handleAdd = async () => {
+    if (await save({ ...form, expenditure: [] })) setForm({ certificateNumber: '', approvalDate: '' });
+  };
+
+  // Records (or replaces) the QCE for the selected tax year
+  const handleSetQce = async (certificate: EdiCertificate) => {
+    const amount = parseNumber(qce[certificate.id!] ?? '');
+    const expenditure = [...certificate.expenditure.filter((e) => e.taxYear !== taxYear), { taxYear, amount }];
+    if (await save({ ...certificate, expenditure })) setQce({ ...qce, [certificate.id!]: '' });
+  };
+
+  const handleRemove = useCallback(async (id: string) => {
+    const response = await apiRequest('/edi-certificates', {
+      method: 'DELETE',
+      body: JSON.stringify({ id }),
+    });
+    if (response.success) setCertificates((prev) => prev.filter((c) => c.id !== id));
+  }, []);
+
+  return (
+    <div className="mt-3 p-4 bg-white rounded-lg border border-green-200">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-800">EDI Certificates</h3>
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={applyCredits}
+            onChange={(e) => setApplyCredits(e.target.checked)}
+            className="rounded text-primary-600"
+          />
+          Apply credits for {taxYear}
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Each year's QCE earns {rule.annualRate * 100}% a year until the certificate expires {rule.maxYears} years after approval, up to {rule.maxTotalRate * 100}% in total. Credit the tax can't absorb carries forward; it lapses when the certificate expires.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <input
+          type="text"
+          value={form.certificateNumber}
+          onChange={(e) => setForm({ ...form, certificateNumber: e.target.value })}
+          placeholder="Certificate number"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={form.approvalDate}
+          onChange={(e) => setForm({ ...form, approvalDate: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <button
+        onClick={handleAdd}
+        disabled={!form.certificateNumber.trim() || !form.approvalDate}
+        className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+      >
+        Add certificate
+      </button>
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+      {certificates.map((certificate) => {
+        const expiryYear = ediExpiryYear(certificate.approvalDate, rule);
+        const earned = ediCreditEarned(certificate, taxYear, rule);
+        const claimedSoFar = claimed.find((e) => e.certificateNumber === certificate.certificateNumber)?.claimed ?? 0;
+        const thisYear = certificate.expenditure.find((e) => e.taxYear === taxYear);
+        return (
+          <div key={certificate.id} className="mt-3 pt-2 border-t border-gray-200 text-xs space-y-1">
+            <div className="flex items-center justify-between">
+              <span>
+                <span className="font-medium text-gray-800">{certificate.certificateNumber}</span>
+                <span className="text-gray-500 ml-2">
+                  approved {certificate.approvalDate.slice(0, 10)} · {taxYear > expiryYear ? `expired end of ${expiryYear}` : `in force to end of ${expiryYear}`}
+                </span>
+              </span>
+              <button onClick={() => certificate.id && handleRemove(certificate.id)} className="text-red-500 hover:text-red-700">
+                Remove
+              </button>
+            </div>
+            <div className="flex justify-between text-gray-600">
+              <span>QCE recorded: {certificate.expenditure.map((e) => `${e.taxYear} ${formatCurrency(e.amount)}`).join(', ') || 'none'}</span>
+            </div>
+            <div className="flex justify-between text-gray-600">
+              <span>Credit earned to {taxYear}: {formatCurrency(earned)} · claimed before {taxYear}: {formatCurrency(claimedSoFar)}</span>
+              <span className="font-medium text-green-700">Remaining {formatCurrency(Math.max(0, earned - claimedSoFar))}</span>
+            </div>
+            {taxYear <= expiryYear && (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={qce[certificate.id!] ?? ''}
+                  onChange={(e) => setQce({ ...qce, [certificate.id!]: formatInputValue(e.target.value) })}
+                  placeholder={thisYear ? `${taxYear} QCE: ${formatCurrency(thisYear.amount)}` : `${taxYear} QCE (₦)`}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => handleSetQce(certificate)}
+                  disabled={!qce[certificate.id!]}
+                  className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300 whitespace-nowrap"
+                >
+                  Record QCE
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EdiCertificateRegister;
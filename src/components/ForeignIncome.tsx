@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { formatCurrency, generateId } from '../utils/taxCalculations';
+import { TAX_TREATIES } from '../utils/taxTreaties';
+import {
+  FOREIGN_INCOME_TYPES,
+  ForeignIncomeLine,
+  ForeignIncomeType,
+  ForeignTaxCreditResult,
+} from '../utils/foreignTaxCredit';
+import { CURRENCIES, CurrencyCode, FxRate, convertToNaira, describeFxRate, yearEndDate } from '../utils/fx';
+
+interface ForeignIncomeProps {
+  taxYear: number;
+  fxRates: FxRate[];
+  onChange: (lines: ForeignIncomeLine[]) => void; // in naira at the year-end rate
+  credit: ForeignTaxCreditResult | null; // from the latest result, for per-line workings
+}
+
+// Lines as entered, in their own currency
+type EnteredLine = Omit<ForeignIncomeLine, 'fx'> & { id: string; currency: CurrencyCode };
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const parseNumber = (value: string): number => {
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+const formatInputValue = (value: string): string => {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts[0]) {
+    parts[0] = parseInt(parts[0], 10).toLocaleString('en-NG');
+  }
+  return parts.join('.');
+};
+
+const RELIEF_LABELS = {
+  treaty: 'treaty relief',
+  commonwealth: 'Commonwealth relief (half the Nigerian tax)',
+  none: 'no relief',
+};
+
+const emptyForm = { country: 'GB', incomeType: 'business' as ForeignIncomeType, currency: 'NGN' as CurrencyCode, amount: '', foreignTaxPaid: '' };
+
+const ForeignIncome: React.FC<ForeignIncomeProps> = ({ taxYear, fxRates, onChange, credit }) => {
+  const [lines, setLines] = useState<EnteredLine[]>([]);
+  const [form, setForm] = useState(emptyForm);
+
+  // Annual income converts at the year-end rate; lines without one are left out
+  const converted = useMemo(() => lines.map((line) => {
+    const fx = convertToNaira(fxRates, line.amount, line.currency, yearEndDate(taxYear), `Foreign income (${line.country})`);
+    return { line, fx };
+  }), [lines, fxRates, taxYear]);
+
+  useEffect(() => {
+    onChange(converted.flatMap(({ line, fx }): ForeignIncomeLine[] => {
+      if (!fx) return [];
+      const { currency, ...rest } = line;
+      return currency === 'NGN'
+        ? [rest]
+        : [{ ...rest, amount: fx.naira, foreignTaxPaid: line.foreignTaxPaid * fx.rate, fx }];
+    }));
+  }, [converted, onChange]);
+
+  const handleAdd = () => {
+    setLines([
+      ...lines,
+      {
+        id: generateId(),
+        country: form.country,
+        incomeType: form.incomeType,
+        currency: form.currency,
+        amount: parseNumber(form.amount),
+        foreignTaxPaid: parseNumber(form.foreignTaxPaid),
+      },
+    ]);
+    setForm({ ...emptyForm, country: form.country, incomeType: form.incomeType, currency: form.currency });
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">Foreign Income</label>
+      <p className="text-xs text-gray-500 mb-2">
+        Income earned abroad and the foreign tax already paid on it, converted to naira at the year-end rate. Tax paid abroad is credited up to the Nigerian tax on the same income.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <select value={form.country} onChange={(e) => setForm({ ...form, country: e.target.value })} className={inputClass}>
+          {TAX_TREATIES.map((t) => (
+            <option key={t.code} value={t.code}>{t.country}</option>
+          ))}
+          <option value="OTHER">Other country (no treaty)</option>
+        </select>
+        <select
+          value={form.incomeType}
+          onChange={(e) => setForm({ ...form, incomeType: e.target.value as ForeignIncomeType })}
+          className={inputClass}
+        >
+          {FOREIGN_INCOME_TYPES.map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <select
+          value={form.currency}
+          onChange={(e) => setForm({ ...form, currency: e.target.value as CurrencyCode })}
+          className={`${inputClass} col-span-2`}
+        >
+          {CURRENCIES.map((c) => (
+            <option key={c.code} value={c.code}>{c.code} — {c.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={form.amount}
+          onChange={(e) => setForm({ ...form, amount: formatInputValue(e.target.value) })}
+          placeholder={`Gross income (${form.currency})`}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={form.foreignTaxPaid}
+          onChange={(e) => setForm({ ...form, foreignTaxPaid: formatInputValue(e.target.value) })}
+          placeholder={`Foreign tax paid (${form.currency})`}
+          className={inputClass}
+        />
+      </div>
+      <button
+        onClick={handleAdd}
+        disabled={parseNumber(form.amount) <= 0}
+        className="mt-2 px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+      >
+        Add foreign income
+      </button>
+
+      {lines.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {converted.map(({ line, fx }) => {
+            const workings = credit?.lines.find((c) => c.line.id === line.id);
+            const symbol = CURRENCIES.find((c) => c.code === line.currency)?.symbol;
+            return (
+              <div key={line.id} className="text-xs py-1 border-t border-gray-200">
+                <div className="flex justify-between">
+                  <span className="text-gray-800">
+                    {workings?.country ?? line.country} · {FOREIGN_INCOME_TYPES.find((t) => t.id === line.incomeType)?.name}
+                  </span>
+                  <span className="flex items-center gap-3">
+                    <span>
+                      {line.currency === 'NGN'
+                        ? formatCurrency(line.amount)
+                        : `${symbol}${line.amount.toLocaleString('en-NG')}${fx ? ` = ${formatCurrency(fx.naira)}` : ''}`}
+                    </span>
+                    <button
+                      onClick={() => setLines(lines.filter((l) => l.id !== line.id))}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </span>
+                </div>
+                {line.currency !== 'NGN' && (
+                  <div className={fx ? 'text-gray-500' : 'text-amber-600'}>
+                    {fx ? describeFxRate(fx) : `No ${line.currency} rate on or before 31 Dec ${taxYear} — add one under exchange rates`}
+                  </div>
+                )}
+                {workings && (
+                  <div className="text-gray-500">
+                    Foreign tax {formatCurrency(workings.line.foreignTaxPaid)}, Nigerian tax {formatCurrency(workings.nigerianTaxAttributable)} —
+                    credit <span className="text-green-600">{formatCurrency(workings.credit)}</span> ({RELIEF_LABELS[workings.relief]})
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ForeignIncome;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import {
+  CURRENCIES,
+  CurrencyCode,
+  FxRate,
+  FxConversion,
+  describeFxRate,
+  isCurrencyCode,
+  parseFxRatesCsv,
+  upsertFxRate,
+} from '../utils/fx';
+
+// The rate table lives in localStorage so it survives between visits
+export const FX_STORAGE_KEY = 'fx_rates';
+
+export function loadFxRates(): FxRate[] {
+  try {
+    const stored = localStorage.getItem(FX_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((r) => isCurrencyCode(r?.currency) && typeof r.date === 'string' && r.rate > 0)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveFxRates(rates: FxRate[]): void {
+  localStorage.setItem(FX_STORAGE_KEY, JSON.stringify(rates));
+}
+
+interface FxRateTableProps {
+  rates: FxRate[];
+  onChange: (rates: FxRate[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const FOREIGN_CURRENCIES = CURRENCIES.filter((c) => c.code !== 'NGN');
+
+const FxRateTable: React.FC<FxRateTableProps> = ({ rates, onChange }) => {
+  const [form, setForm] = useState({ currency: 'USD' as CurrencyCode, date: '', rate: '' });
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const update = (next: FxRate[]) => {
+    saveFxRates(next);
+    onChange(next);
+  };
+
+  const rate = parseFloat(form.rate.replace(/,/g, ''));
+
+  const handleAdd = () => {
+    update(upsertFxRate(rates, { currency: form.currency, date: form.date, rate }));
+    setForm({ ...form, rate: '' });
+    setMessage(null);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rates: imported, errors } = parseFxRatesCsv(await file.text());
+    setImportErrors(errors);
+    update(imported.reduce(upsertFxRate, rates));
+    setMessage(`Imported ${imported.length} rate${imported.length === 1 ? '' : 's'}`);
+  };
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+      <p className="text-xs text-gray-500 mb-2">
+        Naira per unit of currency. Amounts are converted at the latest rate on or before the transaction date, or the year-end rate for annual figures. Rates are kept in this browser.
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        <select
+          value={form.currency}
+          onChange={(e) => setForm({ ...form, currency: e.target.value as CurrencyCode })}
+          className={inputClass}
+        >
+          {FOREIGN_CURRENCIES.map((c) => (
+            <option key={c.code} value={c.code}>{c.code}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={form.date}
+          onChange={(e) => setForm({ ...form, date: e.target.value })}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={form.rate}
+          onChange={(e) => setForm({ ...form, rate: e.target.value.replace(/[^0-9.,]/g, '') })}
+          placeholder="₦ per unit"
+          className={inputClass}
+        />
+      </div>
+      <div className="flex items-center gap-3 mt-2">
+        <button
+          onClick={handleAdd}
+          disabled={!form.date || !(rate > 0)}
+          className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+        >
+          Add rate
+        </button>
+        <label className="px-3 py-1.5 rounded-lg text-xs font-medium text-primary-700 border border-primary-300 cursor-pointer hover:bg-primary-50">
+          Import CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleFileUpload} className="hidden" />
+        </label>
+        <span className="text-xs text-gray-400">Columns: currency, date (YYYY-MM-DD), rate</span>
+      </div>
+
+      {message && <p className="text-xs text-green-600 mt-2">{message}</p>}
+      {importErrors.length > 0 && (
+        <ul className="text-xs text-red-600 mt-2 list-disc list-inside">
+          {importErrors.slice(0, 10).map((error) => <li key={error}>{error}</li>)}
+          {importErrors.length > 10 && <li>…and {importErrors.length - 10} more</li>}
+        </ul>
+      )}
+
+      {rates.length > 0 && (
+        <div className="mt-3 max-h-48 overflow-y-auto">
+          {rates.map((r) => (
+            <div key={`${r.currency}-${r.date}`} className="flex justify-between text-xs py-1 border-t border-gray-200">
+              <span className="text-gray-800">{describeFxRate({ ...r, rateDate: r.date })}</span>
+              <button
+                onClick={() => update(rates.filter((x) => x !== r))}
+                className="text-red-500 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Rates used for a result's foreign currency inputs
+export const FxConversionList: React.FC<{ conversions: FxConversion[] }> = ({ conversions }) => (
+  conversions.length > 0 ? (
+    <div className="mt-2 p-3 bg-gray-50 rounded-lg border border-gray-200 text-xs space-y-1">
+      <div className="font-medium text-gray-700">Exchange rates used</div>
+      {conversions.map((c, i) => (
+        <div key={i} className="flex justify-between text-gray-600">
+          <span>{c.label}: {c.currency} {c.amount.toLocaleString('en-NG')}</span>
+          <span>{describeFxRate(c)}</span>
+        </div>
+      ))}
+    </div>
+  ) : null
+);
+
+export default FxRateTable;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { formatCurrency, generateId } from '../utils/taxCalculations';
+import { INCOME_SOURCE_TYPES, IncomeSource, IncomeSourceResult, IncomeSourceType } from '../utils/incomeSources';
+
+interface IncomeSourcesProps {
+  onChange: (sources: IncomeSource[]) => void;
+  results: IncomeSourceResult[] | null; // from the latest result, for per-source workings
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const parseNumber = (value: string): number => {
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+const formatInputValue = (value: string): string => {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts[0]) {
+    parts[0] = parseInt(parts[0], 10).toLocaleString('en-NG');
+  }
+  return parts.join('.');
+};
+
+const emptyForm = { type: 'rent' as IncomeSourceType, description: '', grossAmount: '', expenses: '', whtDeducted: '', finalWht: true };
+
+const IncomeSources: React.FC<IncomeSourcesProps> = ({ onChange, results }) => {
+  const [sources, setSources] = useState<IncomeSource[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const formType = INCOME_SOURCE_TYPES.find((t) => t.id === form.type)!;
+
+  useEffect(() => {
+    onChange(sources);
+  }, [sources, onChange]);
+
+  const handleAdd = () => {
+    setSources([
+      ...sources,
+      {
+        id: generateId(),
+        type: form.type,
+        description: form.description.trim(),
+        grossAmount: parseNumber(form.grossAmount),
+        expenses: formType.hasExpenses ? parseNumber(form.expenses) : 0,
+        whtDeducted: parseNumber(form.whtDeducted),
+        ...(formType.finalWhtOption && { finalWht: form.finalWht }),
+      },
+    ]);
+    setForm({ ...emptyForm, type: form.type });
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">Other Income Sources</label>
+      <p className="text-xs text-gray-500 mb-2">
+        Rent, interest, dividends and sole-trader profit, each with its own allowable expenses and the WHT already deducted. WHT deducted is credited against the tax payable; where it is the final tax on dividends or interest, that income is not taxed again on the bands.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={form.type}
+          onChange={(e) => setForm({ ...form, type: e.target.value as IncomeSourceType })}
+          className={inputClass}
+        >
+          {INCOME_SOURCE_TYPES.map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder={form.type === 'rent' ? 'Property' : form.type === 'business' ? 'Business name' : 'Payer'}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={form.grossAmount}
+          onChange={(e) => setForm({ ...form, grossAmount: formatInputValue(e.target.value) })}
+          placeholder="Gross income (₦)"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={form.whtDeducted}
+          onChange={(e) => setForm({ ...form, whtDeducted: formatInputValue(e.target.value) })}
+          placeholder="WHT deducted (₦)"
+          className={inputClass}
+        />
+        {formType.hasExpenses && (
+          <input
+            type="text"
+            value={form.expenses}
+            onChange={(e) => setForm({ ...form, expenses: formatInputValue(e.target.value) })}
+            placeholder="Allowable expenses (₦)"
+            className={`${inputClass} col-span-2`}
+          />
+        )}
+        {formType.finalWhtOption && (
+          <label className="col-span-2 flex items-center gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.finalWht}
+              onChange={(e) => setForm({ ...form, finalWht: e.target.checked })}
+              className="rounded text-primary-600"
+            />
+            WHT deducted is the final tax on this income
+          </label>
+        )}
+      </div>
+      <button
+        onClick={handleAdd}
+        disabled={parseNumber(form.grossAmount) <= 0}
+        className="mt-2 px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+      >
+        Add income source
+      </button>
+
+      {sources.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {sources.map((source) => {
+            const assessed = results?.find((r) => r.source.id === source.id);
+            return (
+              <div key={source.id} className="text-xs py-1 border-t border-gray-200">
+                <div className="flex justify-between">
+                  <span className="text-gray-800">
+                    {INCOME_SOURCE_TYPES.find((t) => t.id === source.type)?.name}{source.description && ` · ${source.description}`}
+                  </span>
+                  <span className="flex items-center gap-3">
+                    <span>{formatCurrency(source.grossAmount)}</span>
+                    <button
+                      onClick={() => setSources(sources.filter((s) => s.id !== source.id))}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </span>
+                </div>
+                {assessed && (
+                  <div className="text-gray-500">
+                    {assessed.expensesAllowed > 0 && `Expenses ${formatCurrency(assessed.expensesAllowed)}, profit ${formatCurrency(assessed.profit)} — `}
+                    {assessed.finalWht
+                      ? `final WHT ${formatCurrency(assessed.tax)}`
+                      : `taxed on the bands, tax ${formatCurrency(assessed.tax)}`}
+                    {source.whtDeducted > 0 && `, WHT deducted ${formatCurrency(source.whtDeducted)}`}
+                    {assessed.lossNotRelieved > 0 && (
+                      <span className="text-amber-600"> · loss of {formatCurrency(assessed.lossNotRelieved)} is not set against other income</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncomeSources;
@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { apiRequest, useAuth } from '../context/AuthContext';
+import { CompanyTaxResult, formatCurrency } from '../utils/taxCalculations';
+import { InstalmentSchedule, MAX_INSTALMENTS, summariseInstalments } from '../utils/instalments';
+
+interface InstalmentTrackerProps {
+  taxYear: number;
+  estimate: CompanyTaxResult | null;
+}
+
+interface SavedSchedule {
+  id: string;
+  taxYear: number;
+  schedule: InstalmentSchedule;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const InstalmentTracker: React.FC<InstalmentTrackerProps> = ({ taxYear, estimate }) => {
+  const { taxHistory } = useAuth();
+  const [saved, setSaved] = useState<SavedSchedule | null>(null);
+  const [yearEnd, setYearEnd] = useState(`${taxYear}-12-31`);
+  const [count, setCount] = useState(MAX_INSTALMENTS);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setYearEnd(`${taxYear}-12-31`);
+  }, [taxYear]);
+
+  // Saving a computation for the year rebalances the schedule on the server,
+  // so fetch again whenever a new one lands in the history
+  const latestSavedId = useMemo(
+    () => taxHistory.find((calc) => calc.type === 'company' && (calc.taxYear ?? calc.result?.taxYear) === taxYear)?.id,
+    [taxHistory, taxYear]
+  );
+
+  useEffect(() => {
+    (async () => {
+      const response = await apiRequest<{ schedules: SavedSchedule[] }>('/instalments');
+      if (response.success && response.data) {
+        setSaved(response.data.schedules.find((s) => s.taxYear === taxYear) ?? null);
+      }
+    })();
+  }, [taxYear, latestSavedId]);
+
+  const handleCreate = useCallback(async () => {
+    if (!estimate) return;
+    setError(null);
+    const response = await apiRequest<{ schedule: SavedSchedule }>('/instalments', {
+      method: 'POST',
+      body: JSON.stringify({ taxYear, yearEnd, estimatedTax: estimate.taxPayable, count }),
+    });
+    if (response.success && response.data) {
+      setSaved(response.data.schedule);
+    } else {
+      setError(response.error || 'Failed to create schedule');
+    }
+  }, [estimate, taxYear, yearEnd, count]);
+
+  const handlePayment = useCallback(async (number: number, paidDate: string | null) => {
+    if (!saved) return;
+    setError(null);
+    const response = await apiRequest<{ schedule: SavedSchedule }>('/instalments', {
+      method: 'PATCH',
+      body: JSON.stringify({ id: saved.id, number, paidDate }),
+    });
+    if (response.success && response.data) {
+      setSaved(response.data.schedule);
+    } else {
+      setError(response.error || 'Failed to update instalment');
+    }
+  }, [saved]);
+
+  const handleDelete = useCallback(async () => {
+    if (!saved) return;
+    const response = await apiRequest('/instalments', {
+      method: 'DELETE',
+      body: JSON.stringify({ id: saved.id }),
+    });
+    if (response.success) setSaved(null);
+  }, [saved]);
+
+  const summary = saved ? summariseInstalments(saved.schedule, today()) : null;
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <h3 className="text-sm font-semibold text-gray-800 mb-1">CIT Instalments</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Pay the {taxYear} tax in up to {MAX_INSTALMENTS} monthly instalments, the last due with the return six months after your year end.
+      </p>
+
+      {!saved && (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <label className="text-xs text-gray-600">
+              Accounting year end
+              <input type="date" value={yearEnd} onChange={(e) => setYearEnd(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Instalments
+              <select value={count} onChange={(e) => setCount(parseInt(e.target.value, 10))} className={inputClass}>
+                {Array.from({ length: MAX_INSTALMENTS }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={!estimate || !yearEnd}
+            className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+          >
+            Create schedule from this estimate{estimate ? ` (${formatCurrency(estimate.taxPayable)})` : ''}
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+      {saved && summary && (
+        <div className="space-y-1">
+          {saved.schedule.instalments.map((instalment) => (
+            <div key={instalment.number} className="flex items-center justify-between text-xs py-1 border-t border-gray-200">
+              <span>
+                <span className="text-gray-800">Instalment {instalment.number}</span>
+                <span className={`ml-2 ${summary.overdue.includes(instalment) ? 'text-red-600' : 'text-gray-500'}`}>
+                  due {instalment.dueDate}
+                </span>
+              </span>
+              <span className="flex items-center gap-3">
+                <span>{formatCurrency(instalment.paidDate ? instalment.paidAmount : instalment.amount)}</span>
+                {instalment.paidDate ? (
+                  <button onClick={() => handlePayment(instalment.number, null)} className="text-green-600 hover:text-green-800">
+                    Paid {instalment.paidDate} ✓
+                  </button>
+                ) : (
+                  <button onClick={() => handlePayment(instalment.number, today())} className="text-primary-600 hover:text-primary-800">
+                    Mark paid
+                  </button>
+                )}
+              </span>
+            </div>
+          ))}
+          <div className="pt-2 border-t border-gray-200 text-xs space-y-1">
+            <div className="flex justify-between">
+              <span className="text-gray-600">
+                {saved.schedule.finalTax !== null ? 'Final tax payable' : 'Estimated tax payable'}:
+              </span>
+              <span className="font-medium">{formatCurrency(summary.taxDue)}</span>
+            </div>
+            {saved.schedule.finalTax !== null && saved.schedule.finalTax !== saved.schedule.estimatedTax && (
+              <div className="flex justify-between text-gray-500">
+                <span>Original estimate:</span>
+                <span>{formatCurrency(saved.schedule.estimatedTax)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-600">Paid so far:</span>
+              <span className="font-medium">{formatCurrency(summary.totalPaid)}</span>
+            </div>
+            <div className="flex justify-between font-medium text-gray-800">
+              <span>{summary.overpayment > 0 ? 'Overpaid:' : 'Balance to pay:'}</span>
+              <span className={summary.overpayment > 0 ? 'text-green-600' : ''}>
+                {formatCurrency(summary.overpayment > 0 ? summary.overpayment : summary.balance)}
+              </span>
+            </div>
+          </div>
+          <button onClick={handleDelete} className="text-xs text-red-500 hover:text-red-700 pt-1">
+            Delete schedule
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InstalmentTracker;
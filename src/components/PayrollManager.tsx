@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiRequest } from '../context/AuthContext';
+import { formatCurrency } from '../utils/taxCalculations';
+import { currentTaxYear, getSupportedTaxYears, getTaxRuleSet } from '../utils/taxRules';
+import {
+  parseEmployeeCsv,
+  PayrollEmployee,
+  PayrollImportError,
+  PayrollRun,
+  PAYROLL_CSV_COLUMNS,
+  PAYROLL_MONTHS,
+} from '../utils/payroll';
+import PayrollSchedule from './PayrollSchedule';
+
+type PayrollMode = 'run' | 'schedule';
+
+const CSV_TEMPLATE = `${PAYROLL_CSV_COLUMNS.join(',')}\nAda Obi,EMP001,500000,1200000,yes,no,0,,\n`;
+
+const PayrollManager: React.FC = () => {
+  const [mode, setMode] = useState<PayrollMode>('run');
+  const [employees, setEmployees] = useState<PayrollEmployee[]>([]);
+  const [importErrors, setImportErrors] = useState<PayrollImportError[]>([]);
+  const [replaceRegister, setReplaceRegister] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [taxYear, setTaxYear] = useState<number>(currentTaxYear());
+  const [month, setMonth] = useState<number>(new Date().getMonth() + 1);
+  const [run, setRun] = useState<PayrollRun | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const fetchEmployees = useCallback(async () => {
+    const response = await apiRequest<{ employees: PayrollEmployee[] }>('/payroll/employees');
+    if (response.success && response.data) {
+      setEmployees(response.data.employees);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEmployees();
+  }, [fetchEmployees]);
+
+  const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    const csv = await file.text();
+
+    // Check the file locally first so row problems show before anything is saved
+    const { employees: parsed, errors } = parseEmployeeCsv(csv);
+    setImportErrors(errors);
+    if (errors.length) return;
+
+    setIsUploading(true);
+    const response = await apiRequest<{ imported: number; employees: PayrollEmployee[] }>('/payroll/employees/import', {
+      method: 'POST',
+      body: JSON.stringify({ csv, replace: replaceRegister }),
+    });
+    setIsUploading(false);
+
+    if (response.success && response.data) {
+      setEmployees(response.data.employees);
+      setRun(null);
+      setMessage({ type: 'success', text: `Imported ${parsed.length} employee${parsed.length === 1 ? '' : 's'}.` });
+    } else {
+      setMessage({ type: 'error', text: response.error || 'Import failed' });
+    }
+  }, [replaceRegister]);
+
+  const handleRemove = useCallback(async (id: string) => {
+    const response = await apiRequest('/payroll/employees', {
+      method: 'DELETE',
+      body: JSON.stringify({ id }),
+    });
+    if (response.success) {
+      setEmployees((prev) => prev.filter((emp) => emp.id !== id));
+      setRun(null);
+    }
+  }, []);
+
+  const handleRun = useCallback(async () => {
+    setIsRunning(true);
+    setMessage(null);
+    const response = await apiRequest<{ run: PayrollRun }>('/payroll/run', {
+      method: 'POST',
+      body: JSON.stringify({ taxYear, month }),
+    });
+    setIsRunning(false);
+    if (response.success && response.data) {
+      setRun(response.data.run);
+    } else {
+      setMessage({ type: 'error', text: response.error || 'Payroll run failed' });
+    }
+  }, [taxYear, month]);
+
+  const downloadTemplate = () => {
+    const blob = new Blob([CSV_TEMPLATE], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'wittytax_payroll_template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Mode Toggle */}
+      <div className="flex gap-1 p-1 bg-gray-100 rounded-lg w-fit">
+        <button
+          onClick={() => setMode('run')}
+          className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+            mode === 'run' ? 'bg-white shadow text-primary-700' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          Payroll Run
+        </button>
+        <button
+          onClick={() => setMode('schedule')}
+          className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+            mode === 'schedule' ? 'bg-white shadow text-primary-700' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          Single Employee Schedule
+        </button>
+      </div>
+
+      {mode === 'schedule' && <PayrollSchedule />}
+
+      {mode === 'run' && (
+        <div className="space-y-6">
+          {/* Upload */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <div className="flex items-start justify-between gap-4 flex-wrap">
+              <div>
+                <h3 className="text-base font-semibold text-gray-800">Employee Register</h3>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Upload a CSV with columns: {PAYROLL_CSV_COLUMNS.join(', ')}. Only name and monthly_gross are required.
+                </p>
+              </div>
+              <button onClick={downloadTemplate} className="text-xs text-primary-600 hover:text-primary-700 font-medium">
+                Download template
+              </button>
+            </div>
+
+            <div className="flex items-center gap-4 mt-4 flex-wrap">
+              <label className={`px-4 py-2 rounded-lg text-sm font-medium text-white cursor-pointer ${isUploading ? 'bg-gray-400' : 'bg-primary-600 hover:bg-primary-700'}`}>
+                {isUploading ? 'Uploading...' : 'Upload CSV'}
+                <input type="file" accept=".csv,text/csv" onChange={handleFileUpload} disabled={isUploading} className="hidden" />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={replaceRegister} onChange={(e) => setReplaceRegister(e.target.checked)} className="rounded text-primary-600" />
+                Replace existing register
+              </label>
+            </div>
+
+            {importErrors.length > 0 && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <div className="text-sm font-medium text-red-700 mb-1">Nothing was imported — fix these rows and upload again:</div>
+                <ul className="text-xs text-red-600 space-y-0.5">
+                  {importErrors.map((err) => (
+                    <li key={err.line}>Line {err.line}: {err.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {message && (
+              <div className={`mt-4 p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-red-50 text-red-700 border border-red-200'}`}>
+                {message.text}
+              </div>
+            )}
+
+            {employees.length > 0 ? (
+              <div className="mt-4 overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Name</th>
+                      <th className="px-3 py-2 text-left">Staff ID</th>
+                      <th className="px-3 py-2 text-right">Monthly Gross</th>
+                      <th className="px-3 py-2 text-right">Annual Rent</th>
+                      <th className="px-3 py-2 text-center">Pension</th>
+                      <th className="px-3 py-2 text-center">NHF</th>
+                      <th className="px-3 py-2 text-right">Vol. Pension</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {employees.map((emp) => (
+                      <tr key={emp.id} className="border-t border-gray-100">
+                        <td className="px-3 py-2">{emp.name}</td>
+                        <td className="px-3 py-2 text-gray-500">{emp.staffId || '—'}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(emp.monthlyGross)}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(emp.annualRent)}</td>
+                        <td className="px-3 py-2 text-center">{emp.applyPension ? 'Yes' : 'No'}</td>
+                        <td className="px-3 py-2 text-center">{emp.applyNHF ? 'Yes' : 'No'}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(emp.monthlyVoluntaryPension)}</td>
+                        <td className="px-3 py-2 text-right">
+                          <button onClick={() => emp.id && handleRemove(emp.id)} className="text-red-500 hover:text-red-700">
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="mt-4 text-center py-6 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+                <p className="text-sm text-gray-600">No employees on the register yet.</p>
+                <p className="text-xs text-gray-400 mt-1">Upload a CSV of your staff to run payroll.</p>
+              </div>
+            )}
+          </div>
+
+          {/* Run */}
+          {employees.length > 0 && (
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="flex items-end gap-4 flex-wrap">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Tax Year</label>
+                  <select
+                    value={taxYear}
+                    onChange={(e) => setTaxYear(parseInt(e.target.value, 10))}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    {getSupportedTaxYears().map((year) => (
+                      <option key={year} value={year}>{year} — {getTaxRuleSet(year).name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Pay Month</label>
+                  <select
+                    value={month}
+                    onChange={(e) => setMonth(parseInt(e.target.value, 10))}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    {PAYROLL_MONTHS.map((label, i) => (
+                      <option key={label} value={i + 1}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  onClick={handleRun}
+                  disabled={isRunning}
+                  className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors text-sm font-medium disabled:bg-gray-400"
+                >
+                  {isRunning ? 'Running...' : `Run payroll for ${employees.length} employee${employees.length === 1 ? '' : 's'}`}
+                </button>
+              </div>
+
+              {run && (
+                <div className="mt-4 overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50 text-gray-600">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Employee</th>
+                        <th className="px-3 py-2 text-right">Gross Pay</th>
+                        <th className="px-3 py-2 text-right">Pension</th>
+                        <th className="px-3 py-2 text-right">NHF</th>
+                        <th className="px-3 py-2 text-right">Vol. Pension</th>
+                        <th className="px-3 py-2 text-right">PAYE</th>
+                        <th className="px-3 py-2 text-right">Net Pay</th>
+                        <th className="px-3 py-2 text-right">PAYE YTD</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {run.lines.map((line, i) => (
+                        <tr key={line.employeeId ?? i} className={`border-t border-gray-100 ${line.employed ? '' : 'text-gray-400'}`}>
+                          <td className="px-3 py-2">
+                            {line.name}
+                            {!line.employed && <span className="ml-1 text-[10px]">(not on payroll this month)</span>}
+                          </td>
+                          <td className="px-3 py-2 text-right">{formatCurrency(line.grossPay)}</td>
+                          <td className="px-3 py-2 text-right">{formatCurrency(line.pension)}</td>
+                          <td className="px-3 py-2 text-right">{formatCurrency(line.nhf)}</td>
+                          <td className="px-3 py-2 text-right">{formatCurrency(line.voluntaryPension)}</td>
+                          <td className="px-3 py-2 text-right text-red-600 font-medium">{formatCurrency(line.paye)}</td>
+                          <td className="px-3 py-2 text-right font-medium">{formatCurrency(line.netPay)}</td>
+                          <td className="px-3 py-2 text-right text-gray-500">{formatCurrency(line.ytdPaye)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot className="bg-gray-50 font-semibold text-gray-700">
+                      <tr className="border-t border-gray-200">
+                        <td className="px-3 py-2">Total — {PAYROLL_MONTHS[run.month - 1]} {run.taxYear}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(run.totals.grossPay)}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(run.totals.pension)}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(run.totals.nhf)}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(run.totals.voluntaryPension)}</td>
+                        <td className="px-3 py-2 text-right text-red-600">{formatCurrency(run.totals.paye)}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(run.totals.netPay)}</td>
+                        <td className="px-3 py-2" />
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayrollManager;
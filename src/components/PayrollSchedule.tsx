@@ -0,0 +1,274 @@
+import React, { useState, useMemo } from 'react';
+import { formatCurrency } from '../utils/taxCalculations';
+import { currentTaxYear, getSupportedTaxYears, getTaxRuleSet } from '../utils/taxRules';
+import { calculatePayrollSchedule, PAYROLL_MONTHS, PayrollBonus, SalaryChange } from '../utils/payroll';
+
+const parseNumber = (value: string): number => {
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+const formatInputValue = (value: string): string => {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts[0]) {
+    parts[0] = parseInt(parts[0], 10).toLocaleString('en-NG');
+  }
+  return parts.join('.');
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const MonthSelect: React.FC<{ value: number; onChange: (month: number) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(parseInt(e.target.value, 10))} className={inputClass}>
+    {PAYROLL_MONTHS.map((label, i) => (
+      <option key={label} value={i + 1}>{label}</option>
+    ))}
+  </select>
+);
+
+const PayrollSchedule: React.FC = () => {
+  const [taxYear, setTaxYear] = useState<number>(currentTaxYear());
+  const [monthlyGross, setMonthlyGross] = useState('');
+  const [annualRent, setAnnualRent] = useState('');
+  const [monthlyVoluntaryPension, setMonthlyVoluntaryPension] = useState('');
+  const [applyPension, setApplyPension] = useState(true);
+  const [applyNHF, setApplyNHF] = useState(false);
+  const [startMonth, setStartMonth] = useState(1);
+  const [endMonth, setEndMonth] = useState(12);
+  const [salaryChanges, setSalaryChanges] = useState<{ fromMonth: number; monthlyGross: string }[]>([]);
+  const [bonuses, setBonuses] = useState<{ month: number; amount: string }[]>([]);
+
+  const { schedule, error } = useMemo(() => {
+    if (parseNumber(monthlyGross) <= 0) return { schedule: null, error: null };
+    try {
+      return {
+        schedule: calculatePayrollSchedule({
+          taxYear,
+          monthlyGross: parseNumber(monthlyGross),
+          applyPension,
+          applyNHF,
+          annualRent: parseNumber(annualRent),
+          monthlyVoluntaryPension: parseNumber(monthlyVoluntaryPension),
+          startMonth,
+          endMonth,
+          salaryChanges: salaryChanges.map<SalaryChange>((c) => ({ fromMonth: c.fromMonth, monthlyGross: parseNumber(c.monthlyGross) })),
+          bonuses: bonuses.map<PayrollBonus>((b) => ({ month: b.month, amount: parseNumber(b.amount) })),
+        }),
+        error: null,
+      };
+    } catch (err) {
+      return { schedule: null, error: err instanceof Error ? err.message : 'Invalid payroll input' };
+    }
+  }, [taxYear, monthlyGross, annualRent, monthlyVoluntaryPension, applyPension, applyNHF, startMonth, endMonth, salaryChanges, bonuses]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-base font-semibold text-gray-800">Monthly PAYE Schedule</h3>
+        <p className="text-xs text-gray-500 mt-0.5">
+          PAYE is computed cumulatively: each month's deduction is the tax on year-to-date pay less what has already been deducted,
+          so pay rises, bonuses and mid-year joiners are corrected automatically.
+        </p>
+      </div>
+
+      {/* Employee inputs */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Tax Year</label>
+            <select value={taxYear} onChange={(e) => setTaxYear(parseInt(e.target.value, 10))} className={inputClass}>
+              {getSupportedTaxYears().map((year) => (
+                <option key={year} value={year}>{year} — {getTaxRuleSet(year).name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Monthly Gross Pay (₦)</label>
+            <input type="text" value={monthlyGross} onChange={(e) => setMonthlyGross(formatInputValue(e.target.value))} placeholder="e.g., 500,000" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Annual Rent (₦)</label>
+            <input type="text" value={annualRent} onChange={(e) => setAnnualRent(formatInputValue(e.target.value))} placeholder="0" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Monthly Voluntary Pension (₦)</label>
+            <input type="text" value={monthlyVoluntaryPension} onChange={(e) => setMonthlyVoluntaryPension(formatInputValue(e.target.value))} placeholder="0" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">First Month on Payroll</label>
+            <MonthSelect value={startMonth} onChange={setStartMonth} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Last Month on Payroll</label>
+            <MonthSelect value={endMonth} onChange={setEndMonth} />
+          </div>
+        </div>
+
+        <div className="flex gap-6">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={applyPension} onChange={(e) => setApplyPension(e.target.checked)} className="rounded text-primary-600" />
+            Pension ({getTaxRuleSet(taxYear).personal.pensionRate * 100}%)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={applyNHF} onChange={(e) => setApplyNHF(e.target.checked)} className="rounded text-primary-600" />
+            NHF ({getTaxRuleSet(taxYear).personal.nhfRate * 100}%)
+          </label>
+        </div>
+
+        {/* Salary changes */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium text-gray-700">Salary Changes</span>
+            <button
+              onClick={() => setSalaryChanges((prev) => [...prev, { fromMonth: 7, monthlyGross: '' }])}
+              className="text-xs text-primary-600 hover:text-primary-700 font-medium"
+            >
+              + Add change
+            </button>
+          </div>
+          {salaryChanges.map((change, i) => (
+            <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 mb-2">
+              <MonthSelect
+                value={change.fromMonth}
+                onChange={(month) => setSalaryChanges((prev) => prev.map((c, j) => (j === i ? { ...c, fromMonth: month } : c)))}
+              />
+              <input
+                type="text"
+                value={change.monthlyGross}
+                onChange={(e) => setSalaryChanges((prev) => prev.map((c, j) => (j === i ? { ...c, monthlyGross: formatInputValue(e.target.value) } : c)))}
+                placeholder="New monthly gross"
+                className={inputClass}
+              />
+              <button onClick={() => setSalaryChanges((prev) => prev.filter((_, j) => j !== i))} className="px-2 text-red-500 hover:text-red-700 text-sm">
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Bonuses */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium text-gray-700">Bonuses</span>
+            <button
+              onClick={() => setBonuses((prev) => [...prev, { month: 12, amount: '' }])}
+              className="text-xs text-primary-600 hover:text-primary-700 font-medium"
+            >
+              + Add bonus
+            </button>
+          </div>
+          {bonuses.map((bonus, i) => (
+            <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 mb-2">
+              <MonthSelect
+                value={bonus.month}
+                onChange={(month) => setBonuses((prev) => prev.map((b, j) => (j === i ? { ...b, month } : b)))}
+              />
+              <input
+                type="text"
+                value={bonus.amount}
+                onChange={(e) => setBonuses((prev) => prev.map((b, j) => (j === i ? { ...b, amount: formatInputValue(e.target.value) } : b)))}
+                placeholder="Bonus amount"
+                className={inputClass}
+              />
+              <button onClick={() => setBonuses((prev) => prev.filter((_, j) => j !== i))} className="px-2 text-red-500 hover:text-red-700 text-sm">
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {schedule && (
+        <>
+          {/* Summary */}
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="bg-red-50 rounded-lg p-4 border border-red-100">
+              <div className="text-red-600 text-sm font-medium">PAYE Deducted</div>
+              <div className="text-2xl font-bold text-red-800 mt-1">{formatCurrency(schedule.totals.paye)}</div>
+              <div className="text-xs text-red-600 mt-1">Sum of the monthly deductions</div>
+            </div>
+            <div className="bg-primary-50 rounded-lg p-4 border border-primary-100">
+              <div className="text-primary-600 text-sm font-medium">Annual Liability</div>
+              <div className="text-2xl font-bold text-primary-800 mt-1">{formatCurrency(schedule.annualLiability)}</div>
+              <div className="text-xs text-primary-600 mt-1">Tax on {formatCurrency(schedule.totals.grossPay)} for the year</div>
+            </div>
+            <div className={`rounded-lg p-4 border ${Math.abs(schedule.reconciliationDifference) < 1 ? 'bg-green-50 border-green-100' : 'bg-amber-50 border-amber-100'}`}>
+              <div className={`text-sm font-medium ${Math.abs(schedule.reconciliationDifference) < 1 ? 'text-green-600' : 'text-amber-600'}`}>Reconciliation</div>
+              <div className={`text-2xl font-bold mt-1 ${Math.abs(schedule.reconciliationDifference) < 1 ? 'text-green-800' : 'text-amber-800'}`}>
+                {Math.abs(schedule.reconciliationDifference) < 1
+                  ? 'Balanced'
+                  : formatCurrency(Math.abs(schedule.reconciliationDifference))}
+              </div>
+              <div className={`text-xs mt-1 ${Math.abs(schedule.reconciliationDifference) < 1 ? 'text-green-600' : 'text-amber-600'}`}>
+                {Math.abs(schedule.reconciliationDifference) < 1
+                  ? 'PAYE deducted equals the annual liability'
+                  : schedule.reconciliationDifference < 0
+                  ? 'Over-deducted — refundable on the annual return'
+                  : 'Under-deducted — payable on the annual return'}
+              </div>
+            </div>
+          </div>
+
+          {/* Month-by-month schedule */}
+          <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="px-3 py-2 text-left">Month</th>
+                  <th className="px-3 py-2 text-right">Gross Pay</th>
+                  <th className="px-3 py-2 text-right">Pension</th>
+                  <th className="px-3 py-2 text-right">NHF</th>
+                  <th className="px-3 py-2 text-right">Vol. Pension</th>
+                  <th className="px-3 py-2 text-right">YTD Gross</th>
+                  <th className="px-3 py-2 text-right">YTD Tax</th>
+                  <th className="px-3 py-2 text-right">PAYE</th>
+                  <th className="px-3 py-2 text-right">Net Pay</th>
+                </tr>
+              </thead>
+              <tbody>
+                {schedule.months.map((m) => (
+                  <tr key={m.month} className={`border-t border-gray-100 ${m.employed ? '' : 'text-gray-400'}`}>
+                    <td className="px-3 py-2">
+                      {m.label}
+                      {m.bonus > 0 && <span className="ml-1 text-[10px] text-purple-600">+bonus</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(m.grossPay)}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(m.pension)}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(m.nhf)}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(m.voluntaryPension)}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(m.cumulativeGross)}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(m.cumulativeTax)}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${m.paye < 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {m.paye < 0 ? `-${formatCurrency(-m.paye)}` : formatCurrency(m.paye)}
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium">{formatCurrency(m.netPay)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-semibold text-gray-700">
+                <tr className="border-t border-gray-200">
+                  <td className="px-3 py-2">Total</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(schedule.totals.grossPay)}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(schedule.totals.pension)}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(schedule.totals.nhf)}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(schedule.totals.voluntaryPension)}</td>
+                  <td className="px-3 py-2" />
+                  <td className="px-3 py-2" />
+                  <td className="px-3 py-2 text-right text-red-600">{formatCurrency(schedule.totals.paye)}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(schedule.totals.netPay)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PayrollSchedule;
@@ -0,0 +1,121 @@
+import React, { useState, useMemo } from 'react';
+import { formatCurrency } from '../utils/taxCalculations';
+import { PenaltyTaxType } from '../utils/taxRules';
+import { PENALTY_TAX_TYPES, calculateLatePenalty } from '../utils/penalties';
+
+interface PenaltyCalculatorProps {
+  defaultTaxType?: PenaltyTaxType;
+  defaultDueDate?: Date;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const parseNumber = (value: string): number => {
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+const formatInputValue = (value: string): string => {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts[0]) {
+    parts[0] = parseInt(parts[0], 10).toLocaleString('en-NG');
+  }
+  return parts.join('.');
+};
+
+// Local calendar date as YYYY-MM-DD for a date input
+const toInputDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const PenaltyCalculator: React.FC<PenaltyCalculatorProps> = ({ defaultTaxType = 'PIT', defaultDueDate }) => {
+  const [taxType, setTaxType] = useState<PenaltyTaxType>(defaultTaxType);
+  const [dueDate, setDueDate] = useState(defaultDueDate ? toInputDate(defaultDueDate) : '');
+  const [filingDate, setFilingDate] = useState('');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const { result, error } = useMemo(() => {
+    if (!dueDate) return { result: null, error: null };
+    try {
+      return {
+        result: calculateLatePenalty({
+          taxType,
+          dueDate,
+          filingDate: filingDate || null,
+          paymentDate: paymentDate || null,
+          amount: parseNumber(amount),
+          asOf: toInputDate(new Date()),
+        }),
+        error: null,
+      };
+    } catch (e) {
+      return { result: null, error: e instanceof RangeError ? e.message : 'Unable to calculate penalties' };
+    }
+  }, [taxType, dueDate, filingDate, paymentDate, amount]);
+
+  return (
+    <div className="p-4 bg-white rounded-lg border border-gray-200 text-left">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600">
+          Tax
+          <select value={taxType} onChange={(e) => setTaxType(e.target.value as PenaltyTaxType)} className={inputClass}>
+            {PENALTY_TAX_TYPES.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Tax due (₦)
+          <input
+            type="text"
+            value={amount}
+            onChange={(e) => setAmount(formatInputValue(e.target.value))}
+            placeholder="0"
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Due date
+          <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-600">
+          Filed on (blank if not yet)
+          <input type="date" value={filingDate} onChange={(e) => setFilingDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-600 col-span-2">
+          Paid on (blank if not yet)
+          <input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+      {result && (
+        <div className="mt-4 space-y-2 text-sm">
+          {result.lines.length === 0 ? (
+            <p className="text-green-700">No penalties — filed and paid on time.</p>
+          ) : (
+            result.lines.map((line) => (
+              <div key={line.label} className="flex justify-between">
+                <span className="text-gray-600">{line.label}:</span>
+                <span className="font-medium">{formatCurrency(line.amount)}</span>
+              </div>
+            ))
+          )}
+          <div className="flex justify-between py-2 bg-red-50 px-3 rounded-lg">
+            <span className="text-red-700 font-semibold">Total penalties and interest:</span>
+            <span className="text-red-700 font-bold">{formatCurrency(result.total)}</span>
+          </div>
+          {(!result.filed || !result.paid) && result.total > 0 && (
+            <p className="text-xs text-gray-500">
+              Costed to today. Penalties and interest keep building until you {!result.filed ? 'file' : 'pay'}.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PenaltyCalculator;
@@ -4,21 +4,41 @@ import { Chart as ChartJS, ArcElement, Tooltip, Legend } from 'chart.js';
 import { jsPDF } from 'jspdf';
 import {
   calculatePersonalTax,
+  calculateGrossFromNet,
   PersonalTaxInput,
   PersonalTaxResult,
   Deduction,
   formatCurrency,
   generateId,
-  MAX_RENT_RELIEF,
-  RENT_RELIEF_RATE,
   VOLUNTARY_PENSION_MAX_MONTHLY_RATE,
 } from '../utils/taxCalculations';
+import { currentTaxYear, getSupportedTaxYears, getTaxRuleSet } from '../utils/taxRules';
 import { generateTaxRecommendations, RecommendationInput } from '../utils/taxRecommendations';
 import DocumentUpload from './DocumentUpload';
 import TaxRecommendations from './TaxRecommendations';
 import PersonalTaxResults from './PersonalTaxResults';
 import ShareTransferExemption from './ShareTransferExemption';
+import ShareDisposalRegister from './ShareDisposalRegister';
 import CompensationExemption from './CompensationExemption';
+import CapitalGainsCalculator from './CapitalGainsCalculator';
+import ResidencyTest, { ResidencyDetails } from './ResidencyTest';
+import ForeignIncome from './ForeignIncome';
+import IncomeSources from './IncomeSources';
+import CryptoLedgerImport from './CryptoLedgerImport';
+import { CryptoGainsResult } from '../utils/cryptoLedger';
+import { IncomeSource } from '../utils/incomeSources';
+import { ForeignIncomeLine } from '../utils/foreignTaxCredit';
+import FxRateTable, { loadFxRates } from './FxRateTable';
+import {
+  CURRENCIES,
+  CurrencyCode,
+  FxConversion,
+  FxRate,
+  convertToNaira,
+  describeFxRate,
+  yearEndDate,
+} from '../utils/fx';
+import { formatMoney } from '../utils/money';
 import { useAuth } from '../context/AuthContext';
 
 ChartJS.register(ArcElement, Tooltip, Legend);
@@ -38,7 +58,11 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
   initialAnnualRent = '',
   onLoginClick,
 }) => {
+  const [taxYear, setTaxYear] = useState<number>(currentTaxYear());
   const [annualIncome, setAnnualIncome] = useState<string>(initialAnnualIncome);
+  // 'net' works backwards from a target take-home to the gross income needed
+  const [incomeMode, setIncomeMode] = useState<'gross' | 'net'>('gross');
+  const [targetNetIncome, setTargetNetIncome] = useState<string>('');
   const [applyPension, setApplyPension] = useState<boolean>(initialApplyPension);
   const [monthlyVoluntaryPension, setMonthlyVoluntaryPension] = useState<string>('');
   const [pensionFundInvestmentIncome, setPensionFundInvestmentIncome] = useState<string>('');
@@ -47,6 +71,13 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
   const [annualRent, setAnnualRent] = useState<string>(initialAnnualRent);
   const [ownsDigitalAsset, setOwnsDigitalAsset] = useState<boolean>(false);
   const [digitalAssetProfit, setDigitalAssetProfit] = useState<string>('');
+  const [digitalAssetCurrency, setDigitalAssetCurrency] = useState<CurrencyCode>('NGN');
+  const [fxRates, setFxRates] = useState<FxRate[]>(loadFxRates);
+  const [showFxRates, setShowFxRates] = useState<boolean>(false);
+  // Residency test inputs while the expatriate option is on
+  const [residencyDetails, setResidencyDetails] = useState<ResidencyDetails | null>(null);
+  const [foreignIncome, setForeignIncome] = useState<ForeignIncomeLine[]>([]);
+  const [incomeSources, setIncomeSources] = useState<IncomeSource[]>([]);
   const [additionalDeductions, setAdditionalDeductions] = useState<Deduction[]>([]);
   const [newDeductionDesc, setNewDeductionDesc] = useState<string>('');
   const [newDeductionAmount, setNewDeductionAmount] = useState<string>('');
@@ -72,17 +103,21 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
     return parts.join('.');
   };
 
+  // Gross income the deduction hints are based on — solved from the target
+  // net income in net mode
+  const grossIncome = incomeMode === 'net' ? (result?.grossIncome ?? 0) : parseNumber(annualIncome);
+
   // Generate recommendations based on current inputs
   const recommendations = useMemo(() => {
     const input: RecommendationInput = {
-      annualIncome: parseNumber(annualIncome),
+      annualIncome: grossIncome,
       applyPension,
       applyNHF,
       annualRent: parseNumber(annualRent),
       taxResult: result,
     };
     return generateTaxRecommendations(input);
-  }, [annualIncome, applyPension, applyNHF, annualRent, result]);
+  }, [grossIncome, applyPension, applyNHF, annualRent, result]);
 
   // Handle applying recommendations
   const handleApplyRecommendation = useCallback((actionType: string) => {
@@ -108,6 +143,13 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
     }
   };
 
+  const handleTargetNetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const raw = e.target.value.replace(/,/g, '');
+    if (raw === '' || /^\d*\.?\d*$/.test(raw)) {
+      setTargetNetIncome(formatInputValue(raw));
+    }
+  };
+
   const handleRentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const raw = e.target.value.replace(/,/g, '');
     if (raw === '' || /^\d*\.?\d*$/.test(raw)) {
@@ -122,6 +164,12 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
     }
   };
 
+  // Gains from an imported trade history are already in naira
+  const handleCryptoGains = useCallback((gains: CryptoGainsResult) => {
+    setDigitalAssetCurrency('NGN');
+    setDigitalAssetProfit(gains.profit > 0 ? gains.profit.toLocaleString('en-NG', { maximumFractionDigits: 2 }) : '');
+  }, []);
+
   const handleAddDeduction = () => {
     if (newDeductionDesc.trim() && parseNumber(newDeductionAmount) > 0) {
       setAdditionalDeductions([
@@ -157,8 +205,18 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
     }
   }, [isAuthenticated, addDocument]);
 
+  // Annual profit in another currency converts at the year-end rate
+  const digitalAssetFx = useMemo(
+    () => convertToNaira(fxRates, parseNumber(digitalAssetProfit), digitalAssetCurrency, yearEndDate(taxYear), 'Digital asset profit'),
+    [fxRates, digitalAssetProfit, digitalAssetCurrency, taxYear]
+  );
+
+  // Inputs behind the current result — the server recomputes from these when saving
+  const [resultInput, setResultInput] = useState<PersonalTaxInput | null>(null);
+
   const calculateTax = useCallback(() => {
     const input: PersonalTaxInput = {
+      taxYear,
       annualIncome: parseNumber(annualIncome),
       applyPension,
       applyNHF,
@@ -168,16 +226,30 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
       voluntaryPensionContribution: parseNumber(monthlyVoluntaryPension) * 12,
       pensionFundInvestmentIncome: parseNumber(pensionFundInvestmentIncome),
       retirementWithdrawalIncome: parseNumber(retirementWithdrawalIncome),
-      digitalAssetProfit: ownsDigitalAsset ? parseNumber(digitalAssetProfit) : 0,
+      digitalAssetProfit: ownsDigitalAsset ? digitalAssetFx?.naira ?? 0 : 0,
+      ...residencyDetails,
+      foreignIncome,
+      fxConversions: [
+        ...(ownsDigitalAsset && digitalAssetFx && digitalAssetCurrency !== 'NGN' ? [digitalAssetFx] : []),
+        ...foreignIncome.flatMap((line): FxConversion[] => (line.fx ? [line.fx] : [])),
+      ],
+      incomeSources,
     };
 
-    if (input.annualIncome > 0) {
+    if (incomeMode === 'net') {
+      const targetNet = parseNumber(targetNetIncome);
+      const solved = targetNet > 0 ? calculateGrossFromNet({ ...input, targetNetIncome: targetNet }) : null;
+      setResultInput(solved && { ...input, annualIncome: solved.grossIncome });
+      setResult(solved?.result ?? null);
+    } else if (input.annualIncome > 0 || incomeSources.length > 0) {
       const taxResult = calculatePersonalTax(input);
+      setResultInput(input);
       setResult(taxResult);
     } else {
+      setResultInput(null);
       setResult(null);
     }
-  }, [annualIncome, applyPension, applyNHF, annualRent, additionalDeductions, ocrDeductions, monthlyVoluntaryPension, pensionFundInvestmentIncome, retirementWithdrawalIncome, ownsDigitalAsset, digitalAssetProfit]);
+  }, [taxYear, incomeMode, targetNetIncome, annualIncome, applyPension, applyNHF, annualRent, additionalDeductions, ocrDeductions, monthlyVoluntaryPension, pensionFundInvestmentIncome, retirementWithdrawalIncome, ownsDigitalAsset, digitalAssetFx, digitalAssetCurrency, residencyDetails, foreignIncome, incomeSources]);
 
   useEffect(() => {
     calculateTax();
@@ -187,17 +259,18 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
   // so it appears in the Dashboard Overview without requiring a PDF download.
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   useEffect(() => {
-    if (!isAuthenticated || !result || result.grossIncome <= 0) return;
+    const input = resultInput;
+    if (!isAuthenticated || !result || result.grossIncome <= 0 || !input) return;
 
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     saveTimeoutRef.current = setTimeout(() => {
-      saveTaxCalculation('personal', result);
+      saveTaxCalculation('personal', input);
     }, 1500);
 
     return () => {
       if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     };
-  }, [result, isAuthenticated, saveTaxCalculation]);
+  }, [result, resultInput, isAuthenticated, saveTaxCalculation]);
 
   // Tax calculation is saved to history only when the user downloads the PDF report
 
@@ -237,8 +310,12 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
     },
   };
 
+  const ruleSet = getTaxRuleSet(taxYear);
+  const rentReliefRule = ruleSet.personal.rentRelief;
   const rentReliefInfo = parseNumber(annualRent) > 0
-    ? `(20% of rent = ${formatCurrency(parseNumber(annualRent) * RENT_RELIEF_RATE)}, capped at ${formatCurrency(MAX_RENT_RELIEF)})`
+    ? rentReliefRule
+      ? `(${rentReliefRule.rate * 100}% of rent = ${formatCurrency(parseNumber(annualRent) * rentReliefRule.rate)}, capped at ${formatCurrency(rentReliefRule.cap)})`
+      : `(No rent relief under ${ruleSet.name} — the consolidated relief allowance applies instead)`
     : '';
 
   // Generate PDF Report
@@ -277,7 +354,7 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
     doc.text('WittyTax', MARGIN_LEFT, 25);
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
-    doc.text('Personal Income Tax Report - NTA 2025', MARGIN_LEFT, 35);
+    doc.text(`Personal Income Tax Report - ${result.taxYear} Tax Year (${getTaxRuleSet(result.taxYear).name})`, MARGIN_LEFT, 35);
 
     // Date
     doc.setFontSize(10);
@@ -294,16 +371,47 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
 
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
-    doc.text('Gross Annual Income:', MARGIN_LEFT, yPos);
+    if (result.residency) {
+      doc.text(`Residency: ${result.isResident ? 'Resident (worldwide income)' : 'Non-resident (Nigeria-sourced income only)'}`, MARGIN_LEFT, yPos);
+      yPos += 8;
+    }
+    doc.text(result.isResident === false ? 'Nigeria-sourced Income:' : 'Gross Annual Income:', MARGIN_LEFT, yPos);
     doc.text(formatAmount(result.grossIncome), AMOUNT_X, yPos, { align: 'right' });
     yPos += 8;
 
+    if (result.foreignIncomeExcluded > 0) {
+      doc.text('Foreign employment income (not taxed):', MARGIN_LEFT, yPos);
+      doc.text(formatAmount(result.foreignIncomeExcluded), AMOUNT_X, yPos, { align: 'right' });
+      yPos += 8;
+    }
+
     if (result.digitalAssetProfit > 0) {
       doc.text('Digital Asset Profit:', MARGIN_LEFT, yPos);
       doc.text(`+${formatAmount(result.digitalAssetProfit)}`, AMOUNT_X, yPos, { align: 'right' });
       yPos += 8;
     }
 
+    // Other income sources, each after its own expenses
+    result.incomeSources.forEach((line) => {
+      checkNewPage(20);
+      doc.text(`${line.name}${line.source.description ? ` (${line.source.description})` : ''}:`, MARGIN_LEFT, yPos);
+      doc.text(`+${formatAmount(line.profit)}`, AMOUNT_X, yPos, { align: 'right' });
+      yPos += 6;
+      doc.setFontSize(8);
+      doc.setTextColor(100, 100, 100);
+      const details = [
+        `Gross ${formatAmount(line.source.grossAmount)}`,
+        line.expensesAllowed > 0 ? `expenses ${formatAmount(line.expensesAllowed)}` : null,
+        line.finalWht ? `final WHT ${formatAmount(line.tax)}` : `tax on the bands ${formatAmount(line.tax)}`,
+        line.source.whtDeducted > 0 ? `WHT deducted ${formatAmount(line.source.whtDeducted)}` : null,
+        line.lossNotRelieved > 0 ? `loss ${formatAmount(line.lossNotRelieved)} not set against other income` : null,
+      ].filter(Boolean).join(', ');
+      doc.text(details, INDENT_X, yPos);
+      doc.setFontSize(10);
+      doc.setTextColor(0, 0, 0);
+      yPos += 7;
+    });
+
     // Deductions Section
     yPos += 5;
     doc.setFontSize(14);
@@ -338,6 +446,12 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
       yPos += 7;
     }
 
+    if (result.consolidatedRelief > 0) {
+      doc.text('Consolidated Relief Allowance (PITA s.33):', INDENT_X, yPos);
+      doc.text(`-${formatAmount(result.consolidatedRelief)}`, AMOUNT_X, yPos, { align: 'right' });
+      yPos += 7;
+    }
+
     if (result.additionalDeductionsTotal > 0) {
       doc.text('Additional Deductions:', INDENT_X, yPos);
       doc.text(`-${formatAmount(result.additionalDeductionsTotal)}`, AMOUNT_X, yPos, { align: 'right' });
@@ -428,6 +542,18 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
     doc.text(formatAmount(result.totalTax), AMOUNT_X, yPos + 5, { align: 'right' });
     yPos += 20;
 
+    if (result.whtCreditApplied > 0) {
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(0, 0, 0);
+      doc.text('Less WHT deducted at source:', INDENT_X, yPos);
+      doc.text(`-${formatAmount(result.whtCreditApplied)}`, AMOUNT_X, yPos, { align: 'right' });
+      yPos += 7;
+      doc.setFont('helvetica', 'bold');
+      doc.text('Tax Payable:', INDENT_X, yPos);
+      doc.text(formatAmount(result.taxPayable), AMOUNT_X, yPos, { align: 'right' });
+      yPos += 13;
+    }
+
     // Net Income Box
     doc.setFillColor(219, 234, 254);
     doc.rect(MARGIN_LEFT, yPos - 5, pageWidth - MARGIN_LEFT - MARGIN_RIGHT, 15, 'F');
@@ -442,6 +568,46 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
     doc.text(`Effective Tax Rate: ${result.effectiveRate.toFixed(2)}%`, MARGIN_LEFT, yPos);
     yPos += 20;
 
+    // Exchange rates used for foreign currency inputs
+    if (result.fxConversions.length > 0) {
+      checkNewPage(15 + result.fxConversions.length * 7);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Exchange Rates Used', MARGIN_LEFT, yPos);
+      yPos += 8;
+      doc.setFont('helvetica', 'normal');
+      result.fxConversions.forEach((c) => {
+        doc.text(`${c.label}: ${c.currency} ${c.amount.toLocaleString('en-NG')}`, MARGIN_LEFT, yPos);
+        doc.text(describeFxRate(c).replace('₦', 'N'), AMOUNT_X, yPos, { align: 'right' });
+        yPos += 7;
+      });
+    }
+
+    // Workings: each step with its formula, any cap applied and the law cited
+    if (result.workings.length > 0) {
+      checkNewPage(40);
+      doc.setFontSize(12);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Workings', MARGIN_LEFT, yPos);
+      yPos += 8;
+      doc.setFontSize(9);
+      result.workings.forEach((step, index) => {
+        const details = [step.input, step.formula, step.cap, step.reference]
+          .filter((line): line is string => !!line)
+          .flatMap((line) => doc.splitTextToSize(line.replace(/₦/g, 'N'), AMOUNT_X - INDENT_X));
+        checkNewPage(8 + details.length * 5);
+        doc.setFont('helvetica', 'bold');
+        doc.text(`${index + 1}. ${step.label}`, MARGIN_LEFT, yPos);
+        const value = typeof step.value === 'number' ? formatMoney(step.value) : step.value;
+        doc.text(value.replace('₦', 'N'), AMOUNT_X, yPos, { align: 'right' });
+        yPos += 5;
+        doc.setFont('helvetica', 'normal');
+        doc.text(details, INDENT_X, yPos);
+        yPos += details.length * 5 + 3;
+      });
+      doc.setFontSize(10);
+      yPos += 5;
+    }
+
     // Tax Optimization Recommendations & Reduction Strategies
     doc.addPage();
     yPos = 20;
@@ -617,23 +783,89 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
       <div className={`bg-white rounded-lg shadow-md p-6 ${result ? 'lg:col-span-3' : 'lg:col-span-5'}`}>
         <h2 className="text-xl font-semibold text-gray-800 mb-4">Income & Deductions</h2>
 
-        {/* Annual Income */}
+        {/* Tax Year */}
         <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1.5">
-            Annual Income (₦)
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Tax Year
           </label>
-          <input
-            type="text"
-            value={annualIncome}
-            onChange={handleIncomeChange}
-            placeholder="Enter annual income"
+          <select
+            value={taxYear}
+            onChange={(e) => setTaxYear(parseInt(e.target.value, 10))}
             className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          />
+          >
+            {getSupportedTaxYears().map((year) => (
+              <option key={year} value={year}>
+                {year} — {getTaxRuleSet(year).name}
+              </option>
+            ))}
+          </select>
           <p className="text-xs text-gray-500 mt-1">
-            Your total gross pay for the year before any tax or deductions — e.g. salary, bonuses, and allowances added together.
+            The year the income was earned. Earlier years are computed under the rules in force at the time.
           </p>
         </div>
 
+        {/* Gross / net mode */}
+        <div className="mb-4 flex bg-gray-100 rounded-lg p-1">
+          {([
+            { id: 'gross', label: 'Start from gross pay' },
+            { id: 'net', label: 'Work backwards from net pay' },
+          ] as const).map((mode) => (
+            <button
+              key={mode.id}
+              onClick={() => setIncomeMode(mode.id)}
+              className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                incomeMode === mode.id ? 'bg-white text-primary-700 shadow-sm' : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Annual Income */}
+        {incomeMode === 'gross' ? (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1.5">
+              Annual Income (₦)
+            </label>
+            <input
+              type="text"
+              value={annualIncome}
+              onChange={handleIncomeChange}
+              placeholder="Enter annual income"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Your total gross pay for the year before any tax or deductions — e.g. salary, bonuses, and allowances added together.
+            </p>
+          </div>
+        ) : (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Target Annual Net Income (₦)
+            </label>
+            <input
+              type="text"
+              value={targetNetIncome}
+              onChange={handleTargetNetChange}
+              placeholder="Enter the take-home pay you want"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              The net income you want after tax and the deductions below. We work out the gross income an offer needs to reach it.
+            </p>
+            {result && (
+              <div className="mt-2 p-3 bg-primary-50 rounded-lg border border-primary-100 flex justify-between items-center">
+                <span className="text-sm text-gray-700">Required gross income</span>
+                <span className="text-right">
+                  <span className="block text-sm font-bold text-primary-700">{formatCurrency(result.grossIncome)}</span>
+                  <span className="block text-xs text-gray-500">{formatCurrency(result.grossIncome / 12)}/month</span>
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Pension & NHF Checkboxes */}
         <div className="mb-4 space-y-2">
           <label className="flex items-center space-x-3 cursor-pointer">
@@ -649,9 +881,9 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
             <span className="text-sm text-gray-700">
               Apply 8% Pension Deduction
               <span className="block text-xs text-gray-500 font-normal">The standard 8% of your income paid into your retirement savings account (RSA); this amount is deducted before tax is calculated.</span>
-              {applyPension && annualIncome && (
+              {applyPension && grossIncome > 0 && (
                 <span className="text-primary-600 ml-2">
-                  ({formatCurrency(parseNumber(annualIncome) * 0.08)})
+                  ({formatCurrency(grossIncome * 0.08)})
                 </span>
               )}
             </span>
@@ -680,7 +912,7 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
               />
               {(() => {
                 const monthly = parseNumber(monthlyVoluntaryPension);
-                const monthlySalary = parseNumber(annualIncome) / 12;
+                const monthlySalary = grossIncome / 12;
                 const cap = monthlySalary * VOLUNTARY_PENSION_MAX_MONTHLY_RATE;
                 const annualVC = monthly * 12;
                 if (monthly > 0 && cap > 0) {
@@ -718,9 +950,9 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
             <span className="text-sm text-gray-700">
               Apply 2.5% NHF Deduction
               <span className="block text-xs text-gray-500 font-normal">National Housing Fund — a mandatory 2.5% of your income that goes toward a scheme that can help you access affordable home loans.</span>
-              {applyNHF && annualIncome && (
+              {applyNHF && grossIncome > 0 && (
                 <span className="text-primary-600 ml-2">
-                  ({formatCurrency(parseNumber(annualIncome) * 0.025)})
+                  ({formatCurrency(grossIncome * 0.025)})
                 </span>
               )}
             </span>
@@ -830,22 +1062,58 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
           {ownsDigitalAsset && (
             <div className="ml-7 mt-2 p-3 bg-blue-50 rounded-lg border border-blue-100">
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Digital Asset Profit (₦)
+                Digital Asset Profit ({digitalAssetCurrency})
               </label>
               <p className="text-xs text-gray-500 mb-1">
                 Net profit from cryptocurrency or other virtual asset activity this year — added to your taxable income and taxed at the applicable progressive rate.
               </p>
-              <input
-                type="text"
-                value={digitalAssetProfit}
-                onChange={handleDigitalAssetProfitChange}
-                placeholder="Enter profit earned from digital/virtual assets"
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
-              />
+              <div className="flex gap-2">
+                <select
+                  value={digitalAssetCurrency}
+                  onChange={(e) => setDigitalAssetCurrency(e.target.value as CurrencyCode)}
+                  className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                >
+                  {CURRENCIES.map((c) => (
+                    <option key={c.code} value={c.code}>{c.code}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={digitalAssetProfit}
+                  onChange={handleDigitalAssetProfitChange}
+                  placeholder="Enter profit earned from digital/virtual assets"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                />
+              </div>
+              {digitalAssetCurrency !== 'NGN' && digitalAssetProfit && (
+                <p className={`text-xs mt-1 ${digitalAssetFx ? 'text-gray-600' : 'text-amber-600'}`}>
+                  {digitalAssetFx
+                    ? `${formatCurrency(digitalAssetFx.naira)} at ${describeFxRate(digitalAssetFx)}`
+                    : `No ${digitalAssetCurrency} rate on or before 31 Dec ${taxYear} — add one under exchange rates`}
+                </p>
+              )}
+              <CryptoLedgerImport taxYear={taxYear} fxRates={fxRates} onChange={handleCryptoGains} />
             </div>
           )}
         </div>
 
+        <ResidencyTest taxYear={taxYear} onChange={setResidencyDetails} />
+
+        <ForeignIncome taxYear={taxYear} fxRates={fxRates} onChange={setForeignIncome} credit={result?.foreignTaxCredit ?? null} />
+
+        <IncomeSources onChange={setIncomeSources} results={result?.incomeSources ?? null} />
+
+        {/* Exchange rates for foreign currency inputs */}
+        <div className="mb-4">
+          <button
+            onClick={() => setShowFxRates(!showFxRates)}
+            className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+          >
+            {showFxRates ? 'Hide' : 'Manage'} exchange rates ({fxRates.length})
+          </button>
+          {showFxRates && <div className="mt-2"><FxRateTable rates={fxRates} onChange={setFxRates} /></div>}
+        </div>
+
         {/* Additional Deductions */}
         <div className="mb-4">
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1038,11 +1306,15 @@ const PersonalTaxCalculator: React.FC<PersonalTaxCalculatorProps> = ({
         </div>
       )}
 
+      {/* Capital gains on land, buildings, vehicles and other assets */}
+      <CapitalGainsCalculator taxpayer="individual" taxYear={taxYear} otherTaxableIncome={result?.taxableIncome ?? 0} />
+
       {/* NTA 2025 Exemption Sections */}
       <div className="space-y-4">
         <h3 className="text-lg font-semibold text-gray-800">NTA 2025 Special Exemptions</h3>
-        <ShareTransferExemption />
-        <CompensationExemption />
+        {/* Signed-in users keep a register so the year's disposals share one exemption */}
+        {isAuthenticated ? <ShareDisposalRegister taxYear={taxYear} /> : <ShareTransferExemption />}
+        <CompensationExemption taxYear={taxYear} otherIncome={result ? resultInput : null} />
       </div>
     </div>
   );
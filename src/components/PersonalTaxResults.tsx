@@ -1,5 +1,8 @@
 import React from 'react';
 import { PersonalTaxResult, formatCurrency } from '../utils/taxCalculations';
+import { getTaxRuleSetById } from '../utils/taxRules';
+import { FxConversionList } from './FxRateTable';
+import WorkingsPanel from './WorkingsPanel';
 
 interface PersonalTaxResultsProps {
   result: PersonalTaxResult;
@@ -10,7 +13,12 @@ interface PersonalTaxResultsProps {
 const PersonalTaxResults: React.FC<PersonalTaxResultsProps> = ({ result, isAuthenticated, onDownloadPDF }) => (
   <div className="bg-white rounded-lg shadow-md p-6">
     <div className="flex items-center justify-between mb-4">
-      <h2 className="text-xl font-semibold text-gray-800">Tax Calculation Results</h2>
+      <div>
+        <h2 className="text-xl font-semibold text-gray-800">Tax Calculation Results</h2>
+        <p className="text-xs text-gray-500">
+          {result.taxYear} tax year — {getTaxRuleSetById(result.ruleSetId)?.name}
+        </p>
+      </div>
       {isAuthenticated && (
         <button
           onClick={onDownloadPDF}
@@ -25,11 +33,38 @@ const PersonalTaxResults: React.FC<PersonalTaxResultsProps> = ({ result, isAuthe
     </div>
 
     <div className="space-y-3">
+      {result.residency && (
+        <div className={`p-3 rounded-lg text-xs ${result.isResident ? 'bg-blue-50 text-blue-700' : 'bg-amber-50 text-amber-800'}`}>
+          <div className="font-semibold mb-1">
+            {result.isResident ? 'Resident — taxed on worldwide income' : 'Non-resident — taxed on Nigeria-sourced income only'}
+          </div>
+          <ul className="list-disc pl-4 space-y-0.5">
+            {result.residency.reasons.map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="flex justify-between py-2 border-b border-gray-200">
-        <span className="text-gray-600">Gross Income:</span>
+        <span className="text-gray-600">{result.isResident === false ? 'Nigeria-sourced Income:' : 'Gross Income:'}</span>
         <span className="font-medium">{formatCurrency(result.grossIncome)}</span>
       </div>
 
+      {result.foreignIncomeExcluded > 0 && (
+        <div className="flex justify-between py-1 text-sm">
+          <span className="text-gray-500 pl-4">Foreign employment income (not taxed in Nigeria):</span>
+          <span className="text-gray-500">{formatCurrency(result.foreignIncomeExcluded)}</span>
+        </div>
+      )}
+
+      {result.finalWhtTax > 0 && (
+        <div className="flex justify-between py-2 border-b border-gray-200">
+          <span className="text-gray-600">Income taxed by final WHT:</span>
+          <span className="font-medium">+{formatCurrency(result.finalWhtIncome.reduce((sum, line) => sum + line.income, 0))}</span>
+        </div>
+      )}
+
       {result.digitalAssetProfit > 0 && (
         <div className="flex justify-between py-2 border-b border-gray-200">
           <span className="text-gray-600">Digital Asset Profit:</span>
@@ -37,6 +72,21 @@ const PersonalTaxResults: React.FC<PersonalTaxResultsProps> = ({ result, isAuthe
         </div>
       )}
 
+      {result.incomeSources.map((line) => (
+        <div key={line.source.id} className="py-2 border-b border-gray-200">
+          <div className="flex justify-between">
+            <span className="text-gray-600">{line.name}{line.source.description && ` (${line.source.description})`}:</span>
+            <span className="font-medium">+{formatCurrency(line.profit)}</span>
+          </div>
+          <div className="text-xs text-gray-500 pl-4">
+            {line.expensesAllowed > 0 && `Gross ${formatCurrency(line.source.grossAmount)} less expenses ${formatCurrency(line.expensesAllowed)} · `}
+            {line.finalWht ? `Final WHT ${formatCurrency(line.tax)}` : `Tax on the bands ${formatCurrency(line.tax)}`}
+            {line.source.whtDeducted > 0 && ` · WHT deducted ${formatCurrency(line.source.whtDeducted)}`}
+            {line.lossNotRelieved > 0 && ` · loss of ${formatCurrency(line.lossNotRelieved)} not set against other income`}
+          </div>
+        </div>
+      ))}
+
       <div className="text-sm font-medium text-gray-700 mt-4">Deductions:</div>
 
       {result.pensionDeduction > 0 && (
@@ -63,6 +113,12 @@ const PersonalTaxResults: React.FC<PersonalTaxResultsProps> = ({ result, isAuthe
           <span className="text-red-500">-{formatCurrency(result.rentRelief)}</span>
         </div>
       )}
+      {result.consolidatedRelief > 0 && (
+        <div className="flex justify-between py-1 text-sm">
+          <span className="text-gray-500 pl-4">Consolidated Relief Allowance (PITA s.33):</span>
+          <span className="text-red-500">-{formatCurrency(result.consolidatedRelief)}</span>
+        </div>
+      )}
       {result.additionalDeductionsTotal > 0 && (
         <div className="flex justify-between py-1 text-sm">
           <span className="text-gray-500 pl-4">Additional Deductions:</span>
@@ -86,6 +142,8 @@ const PersonalTaxResults: React.FC<PersonalTaxResultsProps> = ({ result, isAuthe
         <span className="font-medium">{formatCurrency(result.taxableIncome)}</span>
       </div>
 
+      <FxConversionList conversions={result.fxConversions} />
+
       {result.taxBreakdown.length > 0 && (
         <div className="mt-4">
           <div className="text-sm font-medium text-gray-700 mb-2">Tax Breakdown by Band:</div>
@@ -98,6 +156,8 @@ const PersonalTaxResults: React.FC<PersonalTaxResultsProps> = ({ result, isAuthe
         </div>
       )}
 
+      <WorkingsPanel workings={result.workings} />
+
       {/* Tax-Exempt Pension Income — Benefits 2 & 3 */}
       {result.totalExemptPensionIncome > 0 && (
         <div className="mt-4 p-3 bg-green-50 rounded-lg border border-green-200">
@@ -126,6 +186,19 @@ const PersonalTaxResults: React.FC<PersonalTaxResultsProps> = ({ result, isAuthe
         <span className="text-red-700 font-bold">{formatCurrency(result.totalTax)}</span>
       </div>
 
+      {result.whtCreditApplied > 0 && (
+        <div className="px-3">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Less WHT deducted at source:</span>
+            <span className="text-green-600">-{formatCurrency(result.whtCreditApplied)}</span>
+          </div>
+          <div className="flex justify-between text-sm font-semibold">
+            <span className="text-red-700">Tax Payable:</span>
+            <span className="text-red-700">{formatCurrency(result.taxPayable)}</span>
+          </div>
+        </div>
+      )}
+
       <div className="flex justify-between py-2 bg-primary-50 px-3 rounded-lg">
         <span className="text-primary-700 font-semibold">Net Income:</span>
         <span className="text-primary-700 font-bold">{formatCurrency(result.netIncome)}</span>
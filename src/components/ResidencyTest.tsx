@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { FinalWhtIncomeType, getTaxRuleSet } from '../utils/taxRules';
+import {
+  EMPLOYMENT_LOCATIONS,
+  EmploymentLocation,
+  FINAL_WHT_INCOME_TYPES,
+  ResidencyInput,
+  determineResidency,
+} from '../utils/residency';
+import { PersonalTaxInput } from '../utils/taxCalculations';
+
+export type ResidencyDetails = Pick<PersonalTaxInput, 'residency' | 'directorsFees' | 'finalWhtIncome'>;
+
+interface ResidencyTestProps {
+  taxYear: number;
+  // Called with the residency inputs while the test is switched on, or null
+  onChange: (details: ResidencyDetails | null) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const parseNumber = (value: string): number => {
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+const formatInputValue = (value: string): string => {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts[0]) {
+    parts[0] = parseInt(parts[0], 10).toLocaleString('en-NG');
+  }
+  return parts.join('.');
+};
+
+const emptyIncome: Record<FinalWhtIncomeType, string> = {
+  directorsFees: '',
+  dividends: '',
+  interest: '',
+  royalties: '',
+  rent: '',
+};
+
+const ResidencyTest: React.FC<ResidencyTestProps> = ({ taxYear, onChange }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [daysPresent, setDaysPresent] = useState('');
+  const [hasPlaceOfAbode, setHasPlaceOfAbode] = useState(false);
+  const [employmentLocation, setEmploymentLocation] = useState<EmploymentLocation>('nigeria');
+  const [daysWorkedInNigeria, setDaysWorkedInNigeria] = useState('');
+  const [paidByForeignEmployer, setPaidByForeignEmployer] = useState(false);
+  const [income, setIncome] = useState(emptyIncome);
+
+  const residency = useMemo<ResidencyInput>(() => ({
+    daysPresent: parseInt(daysPresent, 10) || 0,
+    hasPlaceOfAbode,
+    employmentLocation,
+    daysWorkedInNigeria: daysWorkedInNigeria ? parseInt(daysWorkedInNigeria, 10) : undefined,
+    paidByForeignEmployer,
+  }), [daysPresent, hasPlaceOfAbode, employmentLocation, daysWorkedInNigeria, paidByForeignEmployer]);
+  const status = determineResidency(residency, getTaxRuleSet(taxYear).personal.residency);
+
+  useEffect(() => {
+    if (!enabled) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      residency,
+      directorsFees: parseNumber(income.directorsFees),
+      finalWhtIncome: { royalties: parseNumber(income.royalties) },
+    });
+  }, [enabled, residency, income, onChange]);
+
+  useEffect(() => () => onChange(null), [onChange]);
+
+  // Royalties here are the final-WHT income of a non-resident; a resident's
+  // directors' fees are taxed with their salary. Rent, interest and dividends
+  // are entered as income sources, which apply the final WHT themselves.
+  const incomeTypes = FINAL_WHT_INCOME_TYPES.filter(
+    (t) => t.id === 'directorsFees' || (!status.isResident && t.id === 'royalties')
+  );
+
+  return (
+    <div className="mb-4">
+      <label className="flex items-center space-x-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+        />
+        <span className="text-sm text-gray-700">
+          Expatriate or may be non-resident
+          <span className="block text-xs text-gray-500 font-normal">
+            Test residency from days in Nigeria, a place of abode and where you work. Non-residents are only taxed on Nigeria-sourced income.
+          </span>
+        </span>
+      </label>
+
+      {enabled && (
+        <div className="ml-7 mt-2 p-3 bg-blue-50 rounded-lg border border-blue-100 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              Days in Nigeria (12 months)
+              <input
+                type="number"
+                min={0}
+                max={366}
+                value={daysPresent}
+                onChange={(e) => setDaysPresent(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Where you work
+              <select
+                value={employmentLocation}
+                onChange={(e) => setEmploymentLocation(e.target.value as EmploymentLocation)}
+                className={inputClass}
+              >
+                {EMPLOYMENT_LOCATIONS.map((l) => (
+                  <option key={l.id} value={l.id}>{l.name}</option>
+                ))}
+              </select>
+            </label>
+            {employmentLocation === 'both' && (
+              <label className="text-xs text-gray-600">
+                Days worked in Nigeria
+                <input
+                  type="number"
+                  min={0}
+                  max={366}
+                  value={daysWorkedInNigeria}
+                  onChange={(e) => setDaysWorkedInNigeria(e.target.value)}
+                  placeholder="Defaults to days in Nigeria"
+                  className={inputClass}
+                />
+              </label>
+            )}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            <input type="checkbox" checked={hasPlaceOfAbode} onChange={(e) => setHasPlaceOfAbode(e.target.checked)} className="rounded text-primary-600" />
+            Permanent place of abode available in Nigeria
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            <input type="checkbox" checked={paidByForeignEmployer} onChange={(e) => setPaidByForeignEmployer(e.target.checked)} className="rounded text-primary-600" />
+            Salary paid and borne by an employer outside Nigeria
+          </label>
+
+          <p className={`text-xs font-medium ${status.isResident ? 'text-blue-700' : 'text-amber-700'}`}>
+            {status.isResident ? 'Resident — worldwide income is taxable' : 'Non-resident — Nigeria-sourced income only'}
+          </p>
+
+          <div className="grid grid-cols-2 gap-2">
+            {incomeTypes.map((t) => (
+              <label key={t.id} className="text-xs text-gray-600">
+                {t.name} (₦)
+                <input
+                  type="text"
+                  value={income[t.id]}
+                  onChange={(e) => setIncome({ ...income, [t.id]: formatInputValue(e.target.value) })}
+                  placeholder="0"
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+          {!status.isResident && (
+            <p className="text-xs text-gray-500">
+              Enter rent, interest and dividends under other income sources — they are taxed there by final WHT.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResidencyTest;
@@ -0,0 +1,352 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { apiRequest } from '../context/AuthContext';
+import { CompanyTaxInput, PersonalTaxInput, formatCurrency, generateId } from '../utils/taxCalculations';
+import { currentTaxYear, getSupportedTaxYears } from '../utils/taxRules';
+import { BUSINESS_TYPES } from '../utils/businessTypes';
+import {
+  compareScenarios,
+  ComparisonRow,
+  MAX_SCENARIOS,
+  Scenario,
+  ScenarioKind,
+  ScenarioSet,
+} from '../utils/scenarios';
+
+const inputClass = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const defaultPersonalInput = (): PersonalTaxInput => ({
+  taxYear: currentTaxYear(),
+  annualIncome: 12000000,
+  applyPension: true,
+  applyNHF: false,
+  annualRent: 0,
+  additionalDeductions: [],
+  ocrDeductions: 0,
+  voluntaryPensionContribution: 0,
+});
+
+const defaultCompanyInput = (): CompanyTaxInput => ({
+  taxYear: currentTaxYear(),
+  annualTurnover: 250000000,
+  fixedAssets: 0,
+  assessableProfit: 50000000,
+  isProfessionalService: false,
+  isNonResident: false,
+  capitalAllowances: 0,
+  otherDeductions: [],
+  assetDisposalProceeds: 0,
+  assetTaxWrittenDownValue: 0,
+  isLargeCompany: false,
+  isMNE: false,
+  businessSector: 'general',
+  isTaxHolidayActive: false,
+  qualifyingCapitalExpenditure: 0,
+});
+
+// Whole-naira amount field that keeps its value as a number
+const AmountField: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({ label, value, onChange }) => (
+  <label className="block text-xs text-gray-600">
+    {label}
+    <input
+      type="text"
+      value={value ? value.toLocaleString('en-NG') : ''}
+      onChange={(e) => {
+        const raw = e.target.value.replace(/,/g, '');
+        if (raw === '' || /^\d*$/.test(raw)) onChange(raw === '' ? 0 : parseInt(raw, 10));
+      }}
+      placeholder="0"
+      className={`${inputClass} mt-0.5`}
+    />
+  </label>
+);
+
+const ToggleField: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, checked, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-gray-700">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="w-3.5 h-3.5 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+    />
+    {label}
+  </label>
+);
+
+interface SavedScenarioSet {
+  id: string;
+  name: string;
+  kind: ScenarioKind;
+  scenarios: Scenario<PersonalTaxInput>[] | Scenario<CompanyTaxInput>[];
+  updatedAt: string;
+}
+
+const formatDifference = (difference: number | null, isRate = false) => {
+  if (difference === null || Math.abs(difference) < 0.005) return null;
+  const text = isRate ? `${Math.abs(difference).toFixed(2)}%` : formatCurrency(Math.abs(difference));
+  return `${difference > 0 ? '+' : '-'}${text}`;
+};
+
+const ScenarioComparison: React.FC = () => {
+  const [kind, setKind] = useState<ScenarioKind>('personal');
+  const [personalScenarios, setPersonalScenarios] = useState<Scenario<PersonalTaxInput>[]>([
+    { id: generateId(), name: 'Baseline', input: defaultPersonalInput() },
+    { id: generateId(), name: 'With voluntary pension', input: { ...defaultPersonalInput(), voluntaryPensionContribution: 1200000 } },
+  ]);
+  const [companyScenarios, setCompanyScenarios] = useState<Scenario<CompanyTaxInput>[]>([
+    { id: generateId(), name: 'Baseline', input: defaultCompanyInput() },
+    { id: generateId(), name: 'Professional services', input: { ...defaultCompanyInput(), isProfessionalService: true } },
+  ]);
+  const [setId, setSetId] = useState<string | undefined>(undefined);
+  const [setName, setSetName] = useState('');
+  const [savedSets, setSavedSets] = useState<SavedScenarioSet[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchSavedSets = useCallback(async () => {
+    const response = await apiRequest<{ scenarioSets: SavedScenarioSet[] }>('/scenarios');
+    if (response.success && response.data) setSavedSets(response.data.scenarioSets);
+  }, []);
+
+  useEffect(() => {
+    fetchSavedSets();
+  }, [fetchSavedSets]);
+
+  const scenarioSet = useMemo<ScenarioSet>(() => (kind === 'personal'
+    ? { id: setId, name: setName, kind, scenarios: personalScenarios }
+    : { id: setId, name: setName, kind, scenarios: companyScenarios }
+  ), [kind, setId, setName, personalScenarios, companyScenarios]);
+
+  const comparison = useMemo(() => {
+    try {
+      return compareScenarios(scenarioSet);
+    } catch {
+      return null;
+    }
+  }, [scenarioSet]);
+
+  const scenarioCount = scenarioSet.scenarios.length;
+
+  const updatePersonal = (id: string, patch: Partial<PersonalTaxInput>) =>
+    setPersonalScenarios((prev) => prev.map((s) => (s.id === id ? { ...s, input: { ...s.input, ...patch } } : s)));
+  const updateCompany = (id: string, patch: Partial<CompanyTaxInput>) =>
+    setCompanyScenarios((prev) => prev.map((s) => (s.id === id ? { ...s, input: { ...s.input, ...patch } } : s)));
+
+  const renameScenario = (id: string, name: string) => {
+    if (kind === 'personal') setPersonalScenarios((prev) => prev.map((s) => (s.id === id ? { ...s, name } : s)));
+    else setCompanyScenarios((prev) => prev.map((s) => (s.id === id ? { ...s, name } : s)));
+  };
+
+  // New scenarios start as a copy of the last one so only the difference needs entering
+  const addScenario = () => {
+    if (kind === 'personal') {
+      setPersonalScenarios((prev) => [...prev, { id: generateId(), name: `Scenario ${prev.length + 1}`, input: { ...prev[prev.length - 1].input } }]);
+    } else {
+      setCompanyScenarios((prev) => [...prev, { id: generateId(), name: `Scenario ${prev.length + 1}`, input: { ...prev[prev.length - 1].input } }]);
+    }
+  };
+
+  const removeScenario = (id: string) => {
+    if (kind === 'personal') setPersonalScenarios((prev) => prev.filter((s) => s.id !== id));
+    else setCompanyScenarios((prev) => prev.filter((s) => s.id !== id));
+  };
+
+  const handleSave = useCallback(async () => {
+    setMessage(null);
+    const response = await apiRequest<{ scenarioSet: SavedScenarioSet }>('/scenarios', {
+      method: 'POST',
+      body: JSON.stringify(scenarioSet),
+    });
+    if (response.success && response.data) {
+      setSetId(response.data.scenarioSet.id);
+      setMessage({ type: 'success', text: `Saved "${response.data.scenarioSet.name}"` });
+      fetchSavedSets();
+    } else {
+      setMessage({ type: 'error', text: response.error || 'Failed to save scenario set' });
+    }
+  }, [scenarioSet, fetchSavedSets]);
+
+  const handleLoad = (saved: SavedScenarioSet) => {
+    setKind(saved.kind);
+    setSetId(saved.id);
+    setSetName(saved.name);
+    if (saved.kind === 'personal') setPersonalScenarios(saved.scenarios as Scenario<PersonalTaxInput>[]);
+    else setCompanyScenarios(saved.scenarios as Scenario<CompanyTaxInput>[]);
+    setMessage(null);
+  };
+
+  const handleDelete = useCallback(async (id: string) => {
+    const response = await apiRequest('/scenarios', {
+      method: 'DELETE',
+      body: JSON.stringify({ id }),
+    });
+    if (response.success) {
+      setSavedSets((prev) => prev.filter((s) => s.id !== id));
+      if (setId === id) setSetId(undefined);
+    }
+  }, [setId]);
+
+  const renderRow = (row: ComparisonRow, options: { bold?: boolean; isRate?: boolean } = {}) => (
+    <tr key={row.label} className={`border-t border-gray-100 ${options.bold ? 'font-semibold text-gray-800' : 'text-gray-700'}`}>
+      <td className="py-2 pr-3">{row.label}</td>
+      {row.values.map((value, i) => {
+        const difference = formatDifference(row.differences[i], options.isRate);
+        return (
+          <td key={i} className="py-2 px-2 text-right whitespace-nowrap">
+            <div>{value === null ? '—' : options.isRate ? `${value.toFixed(2)}%` : formatCurrency(value)}</div>
+            {difference && (
+              <div className={`text-xs ${(row.differences[i] ?? 0) > 0 ? 'text-red-600' : 'text-green-600'}`}>{difference}</div>
+            )}
+          </td>
+        );
+      })}
+    </tr>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">Scenario Comparison</h2>
+            <p className="text-sm text-gray-500">Compare variants side by side — differences are shown against the first scenario.</p>
+          </div>
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {(['personal', 'company'] as const).map((k) => (
+              <button
+                key={k}
+                onClick={() => { setKind(k); setSetId(undefined); }}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  kind === k ? 'bg-white text-primary-700 shadow-sm' : 'text-gray-600 hover:text-gray-800'
+                }`}
+              >
+                {k === 'personal' ? 'Personal' : 'Company'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Scenario inputs */}
+        <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${scenarioCount}, minmax(180px, 1fr))` }}>
+          {kind === 'personal' && personalScenarios.map((scenario) => (
+            <div key={scenario.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+              <div className="flex items-center gap-2">
+                <input type="text" value={scenario.name} onChange={(e) => renameScenario(scenario.id, e.target.value)} className={`${inputClass} font-medium`} />
+                {scenarioCount > 1 && (
+                  <button onClick={() => removeScenario(scenario.id)} className="text-gray-400 hover:text-red-500 text-lg leading-none" title="Remove scenario">×</button>
+                )}
+              </div>
+              <select value={scenario.input.taxYear} onChange={(e) => updatePersonal(scenario.id, { taxYear: parseInt(e.target.value, 10) })} className={inputClass}>
+                {getSupportedTaxYears().map((year) => <option key={year} value={year}>{year}</option>)}
+              </select>
+              <AmountField label="Annual income (₦)" value={scenario.input.annualIncome} onChange={(v) => updatePersonal(scenario.id, { annualIncome: v })} />
+              <AmountField label="Annual rent (₦)" value={scenario.input.annualRent} onChange={(v) => updatePersonal(scenario.id, { annualRent: v })} />
+              <AmountField label="Voluntary pension / yr (₦)" value={scenario.input.voluntaryPensionContribution ?? 0} onChange={(v) => updatePersonal(scenario.id, { voluntaryPensionContribution: v })} />
+              <ToggleField label="8% pension" checked={scenario.input.applyPension} onChange={(v) => updatePersonal(scenario.id, { applyPension: v })} />
+              <ToggleField label="2.5% NHF" checked={scenario.input.applyNHF} onChange={(v) => updatePersonal(scenario.id, { applyNHF: v })} />
+            </div>
+          ))}
+
+          {kind === 'company' && companyScenarios.map((scenario) => (
+            <div key={scenario.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+              <div className="flex items-center gap-2">
+                <input type="text" value={scenario.name} onChange={(e) => renameScenario(scenario.id, e.target.value)} className={`${inputClass} font-medium`} />
+                {scenarioCount > 1 && (
+                  <button onClick={() => removeScenario(scenario.id)} className="text-gray-400 hover:text-red-500 text-lg leading-none" title="Remove scenario">×</button>
+                )}
+              </div>
+              <select value={scenario.input.taxYear} onChange={(e) => updateCompany(scenario.id, { taxYear: parseInt(e.target.value, 10) })} className={inputClass}>
+                {getSupportedTaxYears().map((year) => <option key={year} value={year}>{year}</option>)}
+              </select>
+              <select value={scenario.input.businessSector} onChange={(e) => updateCompany(scenario.id, { businessSector: e.target.value })} className={inputClass}>
+                {BUSINESS_TYPES.map((bt) => <option key={bt.id} value={bt.id}>{bt.name}</option>)}
+              </select>
+              <AmountField label="Turnover (₦)" value={scenario.input.annualTurnover} onChange={(v) => updateCompany(scenario.id, { annualTurnover: v })} />
+              <AmountField label="Fixed assets (₦)" value={scenario.input.fixedAssets} onChange={(v) => updateCompany(scenario.id, { fixedAssets: v })} />
+              <AmountField label="Assessable profit (₦)" value={scenario.input.assessableProfit} onChange={(v) => updateCompany(scenario.id, { assessableProfit: v })} />
+              <AmountField label="Capital allowances (₦)" value={scenario.input.capitalAllowances} onChange={(v) => updateCompany(scenario.id, { capitalAllowances: v })} />
+              <AmountField label="Qualifying capex (₦)" value={scenario.input.qualifyingCapitalExpenditure ?? 0} onChange={(v) => updateCompany(scenario.id, { qualifyingCapitalExpenditure: v })} />
+              <ToggleField label="Professional services" checked={scenario.input.isProfessionalService} onChange={(v) => updateCompany(scenario.id, { isProfessionalService: v })} />
+              <ToggleField label="Tax holiday active" checked={scenario.input.isTaxHolidayActive ?? false} onChange={(v) => updateCompany(scenario.id, { isTaxHolidayActive: v })} />
+              <ToggleField label="Non-resident" checked={scenario.input.isNonResident} onChange={(v) => updateCompany(scenario.id, { isNonResident: v })} />
+              <ToggleField label="Large company / MNE" checked={scenario.input.isLargeCompany} onChange={(v) => updateCompany(scenario.id, { isLargeCompany: v })} />
+            </div>
+          ))}
+        </div>
+
+        {scenarioCount < MAX_SCENARIOS && (
+          <button onClick={addScenario} className="mt-3 text-sm text-primary-600 hover:text-primary-700 font-medium">
+            + Add scenario
+          </button>
+        )}
+      </div>
+
+      {/* Line-by-line comparison */}
+      {comparison && (
+        <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">Comparison</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-600">
+                <th className="py-2 pr-3 text-left font-medium">Line</th>
+                {comparison.outcomes.map((o, i) => (
+                  <th key={i} className="py-2 px-2 text-right font-medium">{o.name || `Scenario ${i + 1}`}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.breakdown.map((row) => renderRow(row))}
+              {renderRow(comparison.totalTax, { bold: true })}
+              {renderRow(comparison.net, { bold: true })}
+              {renderRow(comparison.effectiveRate, { isRate: true })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Save / load */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-3">Saved Scenario Sets</h3>
+        <div className="flex gap-2 mb-3">
+          <input
+            type="text"
+            value={setName}
+            onChange={(e) => setSetName(e.target.value)}
+            placeholder="Name this scenario set"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!setName.trim()}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg text-sm font-medium hover:bg-primary-700 disabled:bg-gray-300"
+          >
+            {setId ? 'Update' : 'Save'}
+          </button>
+        </div>
+        {message && (
+          <p className={`text-sm mb-3 ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+        )}
+        {savedSets.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved scenario sets yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {savedSets.map((saved) => (
+              <li key={saved.id} className="py-2 flex items-center justify-between text-sm">
+                <span>
+                  <span className="font-medium text-gray-800">{saved.name}</span>
+                  <span className="text-gray-500 ml-2">
+                    {saved.kind === 'personal' ? 'Personal' : 'Company'} · {saved.scenarios.length} scenarios
+                  </span>
+                </span>
+                <span className="flex gap-3">
+                  <button onClick={() => handleLoad(saved)} className="text-primary-600 hover:text-primary-700">Load</button>
+                  <button onClick={() => handleDelete(saved.id)} className="text-red-500 hover:text-red-700">Delete</button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioComparison;
@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { apiRequest } from '../context/AuthContext';
+import { formatCurrency } from '../utils/taxCalculations';
+import { calculateShareDisposals, REINVESTMENT_WINDOW_MONTHS, ShareDisposal } from '../utils/shareDisposals';
+
+interface ShareDisposalRegisterProps {
+  taxYear: number;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const parseNumber = (value: string): number => {
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+const formatInputValue = (value: string): string => {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts[0]) {
+    parts[0] = parseInt(parts[0], 10).toLocaleString('en-NG');
+  }
+  return parts.join('.');
+};
+
+const emptyDisposal = { company: '', disposalDate: '', proceeds: '', costBasis: '' };
+const emptyReinvestment = { company: '', date: '', amount: '' };
+
+const ShareDisposalRegister: React.FC<ShareDisposalRegisterProps> = ({ taxYear }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [disposals, setDisposals] = useState<ShareDisposal[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyDisposal);
+  const [reinvestingId, setReinvestingId] = useState<string | null>(null);
+  const [reinvestment, setReinvestment] = useState(emptyReinvestment);
+
+  useEffect(() => {
+    (async () => {
+      const response = await apiRequest<{ disposals: ShareDisposal[] }>('/share-disposals');
+      if (response.success && response.data) setDisposals(response.data.disposals);
+    })();
+  }, []);
+
+  const year = useMemo(() => calculateShareDisposals(disposals, taxYear), [disposals, taxYear]);
+
+  const save = useCallback(async (disposal: ShareDisposal) => {
+    setError(null);
+    const response = await apiRequest<{ disposal: ShareDisposal }>('/share-disposals', {
+      method: 'POST',
+      body: JSON.stringify(disposal),
+    });
+    if (response.success && response.data) {
+      const saved = response.data.disposal;
+      setDisposals((prev) => [...prev.filter((d) => d.id !== saved.id), saved]
+        .sort((a, b) => a.disposalDate.localeCompare(b.disposalDate)));
+      return true;
+    }
+    setError(response.error || 'Failed to save share disposal');
+    return false;
+  }, []);
+
+  const handleAdd = async () => {
+    const saved = await save({
+      company: form.company.trim(),
+      disposalDate: form.disposalDate,
+      proceeds: parseNumber(form.proceeds),
+      costBasis: parseNumber(form.costBasis),
+      reinvestments: [],
+    });
+    if (saved) setForm(emptyDisposal);
+  };
+
+  const handleAddReinvestment = async (disposal: ShareDisposal) => {
+    const saved = await save({
+      ...disposal,
+      reinvestments: [
+        ...disposal.reinvestments,
+        { company: reinvestment.company.trim(), date: reinvestment.date, amount: parseNumber(reinvestment.amount) },
+      ],
+    });
+    if (saved) {
+      setReinvestment(emptyReinvestment);
+      setReinvestingId(null);
+    }
+  };
+
+  const handleRemove = useCallback(async (id: string) => {
+    const response = await apiRequest('/share-disposals', {
+      method: 'DELETE',
+      body: JSON.stringify({ id }),
+    });
+    if (response.success) setDisposals((prev) => prev.filter((d) => d.id !== id));
+  }, []);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 flex items-center justify-between text-left hover:bg-gray-50 transition-colors"
+      >
+        <div className="flex items-center">
+          <svg className="w-5 h-5 text-primary-600 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+          </svg>
+          <div>
+            <h3 className="font-semibold text-gray-800">Share Disposals</h3>
+            <p className="text-xs text-gray-500">
+              {year.lines.length > 0
+                ? `${year.lines.length} disposal${year.lines.length === 1 ? '' : 's'} in ${taxYear} — CGT ${formatCurrency(year.tax)}`
+                : year.maxExemptGain === null
+                  ? `${taxYear}: gains exempt while proceeds stay within ${formatCurrency(year.exemptionThreshold)}`
+                  : `${taxYear}: up to ${formatCurrency(year.maxExemptGain)} of the year's gains exempt`}
+            </p>
+          </div>
+        </div>
+        <svg
+          className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div className="px-6 pb-6 border-t border-gray-100">
+          <p className="mt-4 text-xs text-gray-500">
+            Record every share sale. The exemption is given once for the tax year: proceeds of all the year's disposals together must not exceed {formatCurrency(year.exemptionThreshold)}, and {year.maxExemptGain === null ? 'the whole' : `up to ${formatCurrency(year.maxExemptGain)}`} of the year's gains is exempt. Proceeds reinvested in qualifying shares within {REINVESTMENT_WINDOW_MONTHS} months of a sale relieve that sale's remaining gain.
+          </p>
+
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            <input
+              type="text"
+              value={form.company}
+              onChange={(e) => setForm({ ...form, company: e.target.value })}
+              placeholder="Shares sold (company)"
+              className={inputClass}
+            />
+            <input
+              type="date"
+              value={form.disposalDate}
+              onChange={(e) => setForm({ ...form, disposalDate: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={form.proceeds}
+              onChange={(e) => setForm({ ...form, proceeds: formatInputValue(e.target.value) })}
+              placeholder="Disposal proceeds (₦)"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={form.costBasis}
+              onChange={(e) => setForm({ ...form, costBasis: formatInputValue(e.target.value) })}
+              placeholder="Cost of the shares (₦)"
+              className={inputClass}
+            />
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={!form.company.trim() || !form.disposalDate || parseNumber(form.proceeds) <= 0}
+            className="mt-2 px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+          >
+            Record disposal
+          </button>
+
+          {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+          {year.lines.map((line) => {
+            const { disposal } = line;
+            return (
+              <div key={disposal.id} className="mt-3 pt-2 border-t border-gray-200 text-xs space-y-1">
+                <div className="flex justify-between">
+                  <span>
+                    <span className="font-medium text-gray-800">{disposal.company}</span>
+                    <span className="text-gray-500 ml-2">{disposal.disposalDate}</span>
+                  </span>
+                  <button onClick={() => disposal.id && handleRemove(disposal.id)} className="text-red-500 hover:text-red-700">
+                    Remove
+                  </button>
+                </div>
+                <div className="flex justify-between text-gray-600">
+                  <span>Proceeds {formatCurrency(disposal.proceeds)} less cost {formatCurrency(disposal.costBasis)}</span>
+                  <span className={line.gain < 0 ? 'text-red-600' : ''}>{line.gain < 0 ? 'Loss' : 'Gain'} {formatCurrency(Math.abs(line.gain))}</span>
+                </div>
+                {disposal.reinvestments.map((r, i) => (
+                  <div key={i} className="flex justify-between text-gray-500 pl-3">
+                    <span>Reinvested in {r.company} on {r.date}{r.date > line.reinvestmentDeadline && ' — after the deadline'}</span>
+                    <span className="flex items-center gap-3">
+                      {formatCurrency(r.amount)}
+                      <button
+                        onClick={() => save({ ...disposal, reinvestments: disposal.reinvestments.filter((_, j) => j !== i) })}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        Remove
+                      </button>
+                    </span>
+                  </div>
+                ))}
+                {line.stillToReinvest > 0 && (
+                  <p className="text-amber-700">
+                    Reinvest up to {formatCurrency(line.stillToReinvest)} more by {line.reinvestmentDeadline} to relieve the rest of this gain.
+                  </p>
+                )}
+                {line.gain > 0 && (reinvestingId === disposal.id ? (
+                  <div className="grid grid-cols-4 gap-2">
+                    <input
+                      type="text"
+                      value={reinvestment.company}
+                      onChange={(e) => setReinvestment({ ...reinvestment, company: e.target.value })}
+                      placeholder="Shares bought"
+                      className={inputClass}
+                    />
+                    <input
+                      type="date"
+                      value={reinvestment.date}
+                      min={disposal.disposalDate}
+                      onChange={(e) => setReinvestment({ ...reinvestment, date: e.target.value })}
+                      className={inputClass}
+                    />
+                    <input
+                      type="text"
+                      value={reinvestment.amount}
+                      onChange={(e) => setReinvestment({ ...reinvestment, amount: formatInputValue(e.target.value) })}
+                      placeholder="Amount (₦)"
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => handleAddReinvestment(disposal)}
+                      disabled={!reinvestment.company.trim() || !reinvestment.date || parseNumber(reinvestment.amount) <= 0}
+                      className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+                    >
+                      Add
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => { setReinvestingId(disposal.id ?? null); setReinvestment(emptyReinvestment); }}
+                    className="text-primary-600 hover:text-primary-700 font-medium"
+                  >
+                    Record reinvestment
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+
+          {year.lines.length > 0 && (
+            <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-2 text-sm">
+              <h4 className="font-semibold text-gray-800">{taxYear} Share Disposals</h4>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Total Proceeds:</span>
+                <span className="font-medium">{formatCurrency(year.totalProceeds)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Gains{year.lossesOffset > 0 && ' less losses'}:</span>
+                <span className="font-medium">{formatCurrency(year.netGain)}</span>
+              </div>
+              {year.totalLosses > year.lossesOffset && (
+                <p className="text-xs text-gray-500">Losses of {formatCurrency(year.totalLosses - year.lossesOffset)} are not set against gains under this year's rules.</p>
+              )}
+              <div className="flex justify-between">
+                <span className="text-gray-600">Exemption Status:</span>
+                <span className={`font-medium ${year.isEligibleForExemption ? 'text-green-600' : 'text-red-600'}`}>
+                  {year.isEligibleForExemption ? 'Eligible' : 'Not Eligible'}
+                </span>
+              </div>
+              {year.exemptAmount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Exempt Gain:</span>
+                  <span className="font-medium text-green-600">-{formatCurrency(year.exemptAmount)}</span>
+                </div>
+              )}
+              {year.reinvestmentRelief > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Reinvestment Relief:</span>
+                  <span className="font-medium text-green-600">-{formatCurrency(year.reinvestmentRelief)}</span>
+                </div>
+              )}
+              <div className="flex justify-between py-2 bg-yellow-50 px-3 rounded-lg">
+                <span className="text-yellow-700 font-semibold">Taxable Gain:</span>
+                <span className="text-yellow-700 font-bold">{formatCurrency(year.taxableGain)}</span>
+              </div>
+              <div className="flex justify-between py-2 bg-red-50 px-3 rounded-lg">
+                <span className="text-red-700 font-semibold">CGT ({year.rate * 100}%):</span>
+                <span className="text-red-700 font-bold">{formatCurrency(year.tax)}</span>
+              </div>
+              {year.warning && (
+                <p className="p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">{year.warning}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShareDisposalRegister;
@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiRequest } from '../context/AuthContext';
+import { BusinessSector } from '../utils/businessTypes';
+import { getTaxHolidayTerm, TaxHoliday, taxHolidayStatus } from '../utils/taxHolidays';
+
+interface TaxHolidayRegisterProps {
+  sector: BusinessSector;
+  taxYear: number;
+  onChange: (holidays: TaxHoliday[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const TaxHolidayRegister: React.FC<TaxHolidayRegisterProps> = ({ sector, taxYear, onChange }) => {
+  const term = getTaxHolidayTerm(sector);
+  const [holidays, setHolidays] = useState<TaxHoliday[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({ approvalReference: '', startDate: '', initialYears: term?.initialYears ?? 3 });
+
+  useEffect(() => {
+    (async () => {
+      const response = await apiRequest<{ holidays: TaxHoliday[] }>('/tax-holidays');
+      if (response.success && response.data) setHolidays(response.data.holidays);
+    })();
+  }, []);
+
+  useEffect(() => {
+    onChange(holidays);
+  }, [holidays, onChange]);
+
+  useEffect(() => {
+    setForm((prev) => ({ ...prev, initialYears: term?.initialYears ?? prev.initialYears }));
+  }, [term?.initialYears]);
+
+  const save = useCallback(async (holiday: TaxHoliday) => {
+    setError(null);
+    const response = await apiRequest<{ holiday: TaxHoliday }>('/tax-holidays', {
+      method: 'POST',
+      body: JSON.stringify(holiday),
+    });
+    if (response.success && response.data) {
+      const saved = response.data.holiday;
+      setHolidays((prev) => [...prev.filter((h) => h.id !== saved.id), saved]
+        .sort((a, b) => a.startDate.localeCompare(b.startDate)));
+      return true;
+    }
+    setError(response.error || 'Failed to save tax holiday');
+    return false;
+  }, []);
+
+  const handleAdd = async () => {
+    if (await save({ ...form, sector, extensionConditionsMet: false })) {
+      setForm({ ...form, approvalReference: '', startDate: '' });
+    }
+  };
+
+  const handleRemove = useCallback(async (id: string) => {
+    const response = await apiRequest('/tax-holidays', {
+      method: 'DELETE',
+      body: JSON.stringify({ id }),
+    });
+    if (response.success) setHolidays((prev) => prev.filter((h) => h.id !== id));
+  }, []);
+
+  if (!term) return null;
+
+  const sectorHolidays = holidays.filter((h) => h.sector === sector);
+
+  return (
+    <div className="p-4 bg-white rounded-lg border border-green-200">
+      <h3 className="text-sm font-semibold text-gray-800 mb-1">Tax Holiday</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Record your approval and the holiday is applied to the part of each tax year it covers.
+        Initial term {term.initialYears} years{term.extension && `, extendable by ${term.extension.years} years if: ${term.extension.condition}`}.
+      </p>
+
+      {sectorHolidays.length === 0 && (
+        <>
+          <div className="grid grid-cols-3 gap-2 mb-2">
+            <input
+              type="text"
+              value={form.approvalReference}
+              onChange={(e) => setForm({ ...form, approvalReference: e.target.value })}
+              placeholder="Approval reference"
+              className={inputClass}
+            />
+            <input
+              type="date"
+              value={form.startDate}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min={1}
+              max={term.initialYears}
+              value={form.initialYears}
+              onChange={(e) => setForm({ ...form, initialYears: Math.min(term.initialYears, parseInt(e.target.value, 10) || 1) })}
+              title="Initial term in years"
+              className={inputClass}
+            />
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={!form.approvalReference.trim() || !form.startDate}
+            className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+          >
+            Register holiday
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+      {sectorHolidays.map((holiday) => {
+        const status = taxHolidayStatus(holiday, taxYear);
+        return (
+          <div key={holiday.id} className="mt-2 text-xs space-y-1">
+            <div className="flex items-center justify-between">
+              <span>
+                <span className="font-medium text-gray-800">{holiday.approvalReference}</span>
+                <span className="text-gray-500 ml-2">{holiday.startDate} to {status.endDate}{status.extended && ' (extended)'}</span>
+              </span>
+              <button onClick={() => holiday.id && handleRemove(holiday.id)} className="text-red-500 hover:text-red-700">
+                Remove
+              </button>
+            </div>
+            <div className={status.applies ? 'text-green-700' : 'text-gray-500'}>
+              {status.applies
+                ? `Applies to ${status.share < 1 ? `${Math.round(status.share * 100)}% of ` : ''}${taxYear}`
+                : `Does not cover ${taxYear}`}
+            </div>
+            {term.extension && (
+              <label className="flex items-center gap-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={holiday.extensionConditionsMet}
+                  onChange={(e) => save({ ...holiday, extensionConditionsMet: e.target.checked })}
+                  className="rounded text-green-600"
+                />
+                Extension condition met: {term.extension.condition}
+              </label>
+            )}
+            {status.warning && (
+              <p className="p-2 bg-amber-50 border border-amber-200 rounded text-amber-800">{status.warning}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TaxHolidayRegister;
@@ -1,5 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { formatCurrency } from '../utils/taxCalculations';
+import { formatMoney } from '../utils/money';
 import {
   VAT_RATE, VAT_REGISTRATION_THRESHOLD, VAT_SUPPLY_TYPES,
   WHT_PAYMENT_TYPES,
@@ -132,7 +133,7 @@ export const VATTab: React.FC = () => {
                     />
                   </td>
                   <td className="px-4 py-2 text-right font-medium text-gray-700">
-                    {formatCurrency(vat)}
+                    {formatMoney(vat)}
                   </td>
                   <td className="px-1 py-2">
                     <button
@@ -169,22 +170,22 @@ export const VATTab: React.FC = () => {
       <div className="grid md:grid-cols-4 gap-3">
         <div className="bg-green-50 border border-green-200 rounded-xl p-4">
           <p className="text-xs text-green-600 font-medium mb-1">Output VAT (on Sales)</p>
-          <p className="text-xl font-bold text-green-800">{formatCurrency(result.outputVAT)}</p>
+          <p className="text-xl font-bold text-green-800">{formatMoney(result.outputVAT)}</p>
           <p className="text-xs text-green-600 mt-1">From {formatCurrency(result.standardRatedSales)} std-rated sales</p>
         </div>
         <div className="bg-orange-50 border border-orange-200 rounded-xl p-4">
           <p className="text-xs text-orange-600 font-medium mb-1">Input VAT (on Purchases)</p>
-          <p className="text-xl font-bold text-orange-800">{formatCurrency(result.inputVAT)}</p>
+          <p className="text-xl font-bold text-orange-800">{formatMoney(result.inputVAT)}</p>
           <p className="text-xs text-orange-600 mt-1">Recoverable input VAT</p>
         </div>
         <div className={`rounded-xl p-4 border ${result.netVATPayable > 0 ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
           <p className={`text-xs font-medium mb-1 ${result.netVATPayable > 0 ? 'text-red-600' : 'text-gray-500'}`}>Net VAT Payable</p>
-          <p className={`text-xl font-bold ${result.netVATPayable > 0 ? 'text-red-800' : 'text-gray-400'}`}>{formatCurrency(result.netVATPayable)}</p>
+          <p className={`text-xl font-bold ${result.netVATPayable > 0 ? 'text-red-800' : 'text-gray-400'}`}>{formatMoney(result.netVATPayable)}</p>
           <p className={`text-xs mt-1 ${result.netVATPayable > 0 ? 'text-red-600' : 'text-gray-400'}`}>Due to FIRS by 21st</p>
         </div>
         <div className={`rounded-xl p-4 border ${result.netVATRefundable > 0 ? 'bg-blue-50 border-blue-200' : 'bg-gray-50 border-gray-200'}`}>
           <p className={`text-xs font-medium mb-1 ${result.netVATRefundable > 0 ? 'text-blue-600' : 'text-gray-500'}`}>VAT Refundable</p>
-          <p className={`text-xl font-bold ${result.netVATRefundable > 0 ? 'text-blue-800' : 'text-gray-400'}`}>{formatCurrency(result.netVATRefundable)}</p>
+          <p className={`text-xl font-bold ${result.netVATRefundable > 0 ? 'text-blue-800' : 'text-gray-400'}`}>{formatMoney(result.netVATRefundable)}</p>
           <p className={`text-xs mt-1 ${result.netVATRefundable > 0 ? 'text-blue-600' : 'text-gray-400'}`}>Claimable from FIRS</p>
         </div>
       </div>
@@ -286,7 +287,7 @@ export const WHTTab: React.FC = () => {
         </div>
         <div className="bg-red-50 border border-red-200 rounded-xl p-4">
           <p className="text-xs text-red-600 font-medium mb-1">Total WHT to Remit</p>
-          <p className="text-xl font-bold text-red-800">{formatCurrency(summary.totalWHT)}</p>
+          <p className="text-xl font-bold text-red-800">{formatMoney(summary.totalWHT)}</p>
           <p className="text-xs text-red-600 mt-1">Remit to FIRS within 30 days</p>
         </div>
         <div className="bg-green-50 border border-green-200 rounded-xl p-4">
@@ -370,10 +371,10 @@ export const WHTTab: React.FC = () => {
                     </span>
                   </td>
                   <td className="px-4 py-2 text-right font-medium text-red-700">
-                    {formatCurrency(line.whtAmount)}
+                    {formatMoney(line.whtAmount)}
                   </td>
                   <td className="px-4 py-2 text-right font-semibold text-gray-800">
-                    {formatCurrency(line.netPayable)}
+                    {formatMoney(line.netPayable)}
                   </td>
                   <td className="px-1 py-2">
                     <button
@@ -391,10 +392,10 @@ export const WHTTab: React.FC = () => {
               <tfoot>
                 <tr className="bg-gray-50 font-semibold text-sm border-t border-gray-200">
                   <td className="px-4 py-3" colSpan={3}>Totals</td>
-                  <td className="px-4 py-3 text-right">{formatCurrency(summary.totalGross)}</td>
+                  <td className="px-4 py-3 text-right">{formatMoney(summary.totalGross)}</td>
                   <td />
-                  <td className="px-4 py-3 text-right text-red-700">{formatCurrency(summary.totalWHT)}</td>
-                  <td className="px-4 py-3 text-right text-gray-800">{formatCurrency(summary.totalNet)}</td>
+                  <td className="px-4 py-3 text-right text-red-700">{formatMoney(summary.totalWHT)}</td>
+                  <td className="px-4 py-3 text-right text-gray-800">{formatMoney(summary.totalNet)}</td>
                   <td />
                 </tr>
               </tfoot>
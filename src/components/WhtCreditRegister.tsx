@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiRequest } from '../context/AuthContext';
+import { formatCurrency } from '../utils/taxCalculations';
+import { WhtCreditNote } from '../utils/whtCredits';
+
+interface WhtCreditRegisterProps {
+  // Called with the register while "apply credits" is on, or null
+  onApply: (notes: WhtCreditNote[] | null) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const parseNumber = (value: string): number => {
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+};
+
+const formatInputValue = (value: string): string => {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts[0]) {
+    parts[0] = parseInt(parts[0], 10).toLocaleString('en-NG');
+  }
+  return parts.join('.');
+};
+
+const WhtCreditRegister: React.FC<WhtCreditRegisterProps> = ({ onApply }) => {
+  const [notes, setNotes] = useState<WhtCreditNote[]>([]);
+  const [applyCredits, setApplyCredits] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({ payerName: '', creditNoteNumber: '', amount: '', date: '' });
+
+  useEffect(() => {
+    (async () => {
+      const response = await apiRequest<{ creditNotes: WhtCreditNote[] }>('/wht-credits');
+      if (response.success && response.data) setNotes(response.data.creditNotes);
+    })();
+  }, []);
+
+  useEffect(() => {
+    onApply(applyCredits && notes.length > 0 ? notes : null);
+  }, [applyCredits, notes, onApply]);
+
+  useEffect(() => () => onApply(null), [onApply]);
+
+  const handleAdd = useCallback(async () => {
+    setError(null);
+    const response = await apiRequest<{ creditNote: WhtCreditNote }>('/wht-credits', {
+      method: 'POST',
+      body: JSON.stringify({ ...form, amount: parseNumber(form.amount) }),
+    });
+    if (response.success && response.data) {
+      setNotes((prev) => [...prev, response.data!.creditNote].sort((a, b) => a.date.localeCompare(b.date)));
+      setForm({ payerName: '', creditNoteNumber: '', amount: '', date: '' });
+    } else {
+      setError(response.error || 'Failed to add credit note');
+    }
+  }, [form]);
+
+  const handleRemove = useCallback(async (id: string) => {
+    const response = await apiRequest('/wht-credits', {
+      method: 'DELETE',
+      body: JSON.stringify({ id }),
+    });
+    if (response.success) setNotes((prev) => prev.filter((n) => n.id !== id));
+  }, []);
+
+  const total = notes.reduce((sum, n) => sum + n.amount, 0);
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-800">WHT Credit Notes</h3>
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={applyCredits}
+            onChange={(e) => setApplyCredits(e.target.checked)}
+            className="rounded text-primary-600"
+          />
+          Apply against CIT
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Withholding tax your customers deducted from payments. Credit notes dated up to the year end are set off against the income tax due; unused credit carries forward.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <input
+          type="text"
+          value={form.payerName}
+          onChange={(e) => setForm({ ...form, payerName: e.target.value })}
+          placeholder="Payer (customer)"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={form.creditNoteNumber}
+          onChange={(e) => setForm({ ...form, creditNoteNumber: e.target.value })}
+          placeholder="Credit note number"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={form.amount}
+          onChange={(e) => setForm({ ...form, amount: formatInputValue(e.target.value) })}
+          placeholder="WHT amount (₦)"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={form.date}
+          onChange={(e) => setForm({ ...form, date: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <button
+        onClick={handleAdd}
+        disabled={!form.payerName.trim() || !form.creditNoteNumber.trim() || parseNumber(form.amount) <= 0 || !form.date}
+        className="px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 disabled:bg-gray-300"
+      >
+        Add credit note
+      </button>
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+      {notes.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {notes.map((note) => (
+            <div key={note.id} className="flex items-center justify-between text-xs py-1 border-t border-gray-200">
+              <span>
+                <span className="text-gray-800">{note.creditNoteNumber}</span>
+                <span className="text-gray-500 ml-2">{note.payerName} · {note.date.slice(0, 10)}</span>
+              </span>
+              <span className="flex items-center gap-3">
+                <span>{formatCurrency(note.amount)}</span>
+                <button onClick={() => note.id && handleRemove(note.id)} className="text-red-500 hover:text-red-700">
+                  Remove
+                </button>
+              </span>
+            </div>
+          ))}
+          <div className="flex justify-between text-xs font-medium text-gray-800 pt-1 border-t border-gray-200">
+            <span>Total credit notes:</span>
+            <span>{formatCurrency(total)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WhtCreditRegister;
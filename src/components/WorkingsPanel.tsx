@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { formatMoney } from '../utils/money';
+import { WorkingStep } from '../utils/workings';
+
+interface WorkingsPanelProps {
+  workings: WorkingStep[];
+}
+
+// Collapsible audit trail: each step's inputs, formula, result, cap and the law cited
+const WorkingsPanel: React.FC<WorkingsPanelProps> = ({ workings }) => {
+  const [showWorkings, setShowWorkings] = useState(false);
+
+  if (workings.length === 0) return null;
+
+  return (
+    <div className="mt-4 border border-gray-200 rounded-lg overflow-hidden">
+      <button
+        onClick={() => setShowWorkings(!showWorkings)}
+        className="w-full px-4 py-3 flex items-center justify-between bg-gray-50 hover:bg-gray-100 transition-colors"
+      >
+        <span className="text-sm font-semibold text-gray-800">Show workings</span>
+        <svg
+          className={`w-5 h-5 text-gray-600 transition-transform ${showWorkings ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {showWorkings && (
+        <ol className="px-4 py-3 bg-white space-y-3 text-xs">
+          {workings.map((step, index) => (
+            <li key={index} className="border-b border-gray-100 pb-2 last:border-0">
+              <div className="flex justify-between font-medium text-gray-800">
+                <span>{index + 1}. {step.label}</span>
+                <span>{typeof step.value === 'number' ? formatMoney(step.value) : step.value}</span>
+              </div>
+              <div className="text-gray-600 mt-1">{step.input}</div>
+              <div className="text-gray-500 font-mono">{step.formula}</div>
+              {step.cap && <div className="text-amber-700">{step.cap}</div>}
+              <div className="text-gray-400 italic">{step.reference}</div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default WorkingsPanel;
@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
+import { CurrencyCode } from '../utils/fx';
+import { CompanyCalculationRequest, PersonalTaxInput } from '../utils/taxCalculations';
 
 // User interface
 export interface User {
@@ -25,13 +27,19 @@ export interface TaxCalculation {
   id: string;
   type: 'personal' | 'company';
   date: Date;
+  taxYear?: number;
+  ruleSetId?: string;
+  input?: any; // what the server computed the result from
   result: any;
 }
 
 export interface Revenue {
   id: string;
   description: string;
-  amount: number;
+  amount: number; // in naira
+  currency?: CurrencyCode; // NGN when omitted
+  originalAmount?: number; // in currency
+  fxRate?: number; // naira per unit on the transaction date
   category: string;
   date: Date;
   reference?: string;
@@ -42,7 +50,10 @@ export interface Revenue {
 export interface Expense {
   id: string;
   description: string;
-  amount: number;
+  amount: number; // in naira
+  currency?: CurrencyCode; // NGN when omitted
+  originalAmount?: number; // in currency
+  fxRate?: number; // naira per unit on the transaction date
   category: string;
   date: Date;
   reference?: string;
@@ -51,6 +62,11 @@ export interface Expense {
 }
 
 // Auth context interface
+interface SaveTaxCalculation {
+  (type: 'personal', input: PersonalTaxInput): void;
+  (type: 'company', input: CompanyCalculationRequest): void;
+}
+
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
@@ -68,7 +84,7 @@ interface AuthContextType {
   logout: () => void;
   addDocument: (doc: Omit<StoredDocument, 'id' | 'uploadDate'>) => void;
   removeDocument: (id: string) => void;
-  saveTaxCalculation: (type: 'personal' | 'company', result: any) => void;
+  saveTaxCalculation: SaveTaxCalculation;
   removeCalculation: (id: string) => Promise<void>;
   addRevenue: (entry: Omit<Revenue, 'id' | 'createdAt'>) => Promise<void>;
   removeRevenue: (id: string) => Promise<void>;
@@ -83,7 +99,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const API_BASE = process.env.REACT_APP_API_URL || '/api';
 
 // Helper function to make API requests
-async function apiRequest<T>(
+export async function apiRequest<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<{ success: boolean; data?: T; error?: string }> {
@@ -104,7 +120,10 @@ async function apiRequest<T>(
     const data = await response.json();
 
     if (!response.ok) {
-      return { success: false, error: data.error || 'Request failed' };
+      return {
+        success: false,
+        error: data.error || data.errors?.map((e: { message: string }) => e.message).join('; ') || 'Request failed',
+      };
     }
 
     return { success: true, data };
@@ -210,6 +229,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           id: calc.id,
           type: calc.type,
           date: new Date(calc.createdAt),
+          taxYear: calc.taxYear ?? undefined,
+          ruleSetId: calc.ruleSetId ?? undefined,
+          input: calc.input ?? undefined,
           result: calc.result,
         }))
       );
@@ -444,10 +466,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, []);
 
-  const saveTaxCalculation = useCallback(async (type: 'personal' | 'company', result: any) => {
-    const response = await apiRequest<{ calculation: any }>('/calculations', {
+  // Sends the inputs; the server recomputes the result and saves both
+  const saveTaxCalculation = useCallback<SaveTaxCalculation>(async (
+    type: 'personal' | 'company',
+    input: PersonalTaxInput | CompanyCalculationRequest,
+  ) => {
+    const response = await apiRequest<{ calculation: any }>(`/calculations/${type}`, {
       method: 'POST',
-      body: JSON.stringify({ type, result }),
+      body: JSON.stringify({ input }),
     });
 
     if (response.success && response.data) {
@@ -455,6 +481,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         id: response.data.calculation.id,
         type: response.data.calculation.type,
         date: new Date(response.data.calculation.createdAt),
+        taxYear: response.data.calculation.taxYear ?? undefined,
+        ruleSetId: response.data.calculation.ruleSetId ?? undefined,
+        input: response.data.calculation.input,
         result: response.data.calculation.result,
       };
       setTaxHistory((prev) => [newCalc, ...prev].slice(0, 10));
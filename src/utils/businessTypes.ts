@@ -1,5 +1,7 @@
 // NTA 2025 Business Types and Tax Incentives
 
+import type { AssetClass } from './capitalAllowances';
+
 export type BusinessSector =
   | 'general'
   | 'agriculture'
@@ -29,8 +31,59 @@ export interface TaxIncentive {
   description: string;
   requirements?: string[];
   qceThreshold?: number; // Qualifying Capital Expenditure threshold
+  // Accelerated initial allowance applied by the capital allowance engine
+  capitalAllowance?: {
+    assetClasses: AssetClass[];
+    initialRate: number;
+  };
+  // Tax holiday term used by the holiday tracker (see taxHolidays.ts)
+  holiday?: TaxHolidayTerm;
+  // Eligibility and effect applied by the company calculation (see incentives.ts)
+  rule?: IncentiveRule;
+}
+
+export interface TaxHolidayTerm {
+  initialYears: number;
+  extension: {
+    years: number;
+    condition: string; // what the company must meet for the extended term
+  } | null;
+}
+
+// Amounts a company enters to claim a deduction or credit incentive
+export type IncentiveClaimField =
+  | 'greenInvestment'
+  | 'researchExpenditure'
+  | 'localManufacturingCosts'
+  | 'gasInfrastructureInvestment';
+
+export type IncentiveEffect =
+  | { kind: 'smallCompany' } // the 0% tier the company size test gives
+  | { kind: 'holiday' } // CIT and levy exempt for the part of the year the registered holiday covers
+  | { kind: 'exemption' } // CIT and levy exempt for the whole year
+  | { kind: 'ediCredit' } // EDI certificate credits (see ediCredits.ts)
+  | { kind: 'capitalAllowance' } // initial allowance given by the capital allowance engine
+  | { kind: 'deduction'; claim: IncentiveClaimField; rate: number } // rate × claim deducted from profit, on top of any ordinary deduction
+  | { kind: 'credit'; claim: IncentiveClaimField; rate: number } // rate × claim set off against the tax
+  | { kind: 'outside'; note: string }; // relief given outside the income tax computation
+
+// Checks against the company's inputs — every check given must hold
+export interface IncentiveEligibility {
+  smallCompany?: boolean;
+  holidayApproved?: boolean; // a registered holiday covers part of the tax year
+  ediRegime?: boolean; // the rule set for the year has EDI credits
+  inFreeZone?: boolean;
+  minExportShare?: number; // exports as a share of turnover
 }
 
+export interface IncentiveRule {
+  eligibility: IncentiveEligibility;
+  effect: IncentiveEffect;
+}
+
+const SMALL_COMPANY_RULE: IncentiveRule = { eligibility: { smallCompany: true }, effect: { kind: 'smallCompany' } };
+const EDI_CREDIT_RULE: IncentiveRule = { eligibility: { ediRegime: true }, effect: { kind: 'ediCredit' } };
+
 // Economic Development Incentive (EDI) - Replaces Pioneer Status
 export const EDI_INFO = {
   name: 'Economic Development Incentive (EDI)',
@@ -53,6 +106,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '0% CIT',
         description: 'Companies with turnover ≤₦100M and fixed assets <₦250M pay no corporate income tax and are exempt from 4% Development Levy',
         requirements: ['Annual turnover not exceeding ₦100 million', 'Fixed assets below ₦250 million', 'Not a professional service provider'],
+        rule: SMALL_COMPANY_RULE,
       },
     ],
     ediEligible: false,
@@ -69,6 +123,11 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '100% exemption',
         description: 'Complete income tax exemption for the first 5 years. Extendable to 10 years if 100% of profits are reinvested in expansion.',
         requirements: ['Engaged in agricultural business (crop production, livestock, aquaculture)', 'New company or new agricultural venture', 'For extension: reinvest 100% of profits into expansion'],
+        holiday: {
+          initialYears: 5,
+          extension: { years: 5, condition: '100% of profits reinvested in expansion' },
+        },
+        rule: { eligibility: { smallCompany: false, holidayApproved: true }, effect: { kind: 'holiday' } },
       },
       {
         name: 'Agribusiness Small Company Relief',
@@ -76,6 +135,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '0% CIT',
         description: 'Agribusinesses with turnover ≤₦100M are exempt from Companies Income Tax (same threshold as general small company exemption)',
         requirements: ['Annual turnover not exceeding ₦100 million', 'Engaged in agricultural activities'],
+        rule: SMALL_COMPANY_RULE,
       },
       {
         name: 'Withholding Tax Exemption',
@@ -83,6 +143,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '0% WHT',
         description: 'Agricultural businesses exempt from WHT deductions on their income, improving cash flow',
         requirements: ['Registered agricultural business', 'Income from agricultural activities'],
+        rule: { eligibility: {}, effect: { kind: 'outside', note: 'No WHT is deducted from agricultural income, so there are no WHT credits to set off' } },
       },
       {
         name: 'VAT Zero-Rating',
@@ -90,6 +151,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '0% VAT (input recoverable)',
         description: 'Basic food items are zero-rated under NTA 2025, allowing recovery of input VAT on agricultural supplies',
         requirements: ['Production of basic food items', 'Proper VAT registration and documentation'],
+        rule: { eligibility: {}, effect: { kind: 'outside', note: 'Applies to VAT returns, not income tax' } },
       },
       {
         name: 'EDI Tax Credit',
@@ -99,6 +161,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         description: 'Additional 5% annual tax credit on qualifying capital expenditure for agro-processing (total 25% over 5 years)',
         requirements: ['Minimum qualifying capital expenditure', 'Investment in processing facilities'],
         qceThreshold: 100000000,
+        rule: EDI_CREDIT_RULE,
       },
     ],
     ediEligible: true,
@@ -116,6 +179,8 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '100% exemption',
         description: 'New mining companies exempt from tax for the first 3 years',
         requirements: ['New company engaged in mining of solid minerals', 'Valid mining license'],
+        holiday: { initialYears: 3, extension: null },
+        rule: { eligibility: { smallCompany: false, holidayApproved: true }, effect: { kind: 'holiday' } },
       },
       {
         name: 'EDI Tax Credit',
@@ -125,6 +190,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         description: 'Tax credit on capital expenditure for mineral processing facilities',
         requirements: ['Processing of specified minerals', 'Meeting QCE thresholds'],
         qceThreshold: 500000000,
+        rule: EDI_CREDIT_RULE,
       },
     ],
     ediEligible: true,
@@ -143,6 +209,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         description: 'Annual tax credit of 5% on qualifying capital expenditure for up to 5 years (total 25%)',
         requirements: ['Investment in manufacturing facilities', 'Meeting sector-specific QCE thresholds', 'Local value addition'],
         qceThreshold: 200000000,
+        rule: EDI_CREDIT_RULE,
       },
       {
         name: 'Accelerated Capital Allowances',
@@ -150,6 +217,11 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '95% first year',
         description: 'Claim up to 95% of plant and machinery cost in the first year',
         requirements: ['Investment in manufacturing equipment', 'Proper documentation'],
+        capitalAllowance: {
+          assetClasses: ['plant_machinery'],
+          initialRate: 0.95,
+        },
+        rule: { eligibility: {}, effect: { kind: 'capitalAllowance' } },
       },
     ],
     ediEligible: true,
@@ -168,6 +240,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         description: 'Newly added to EDI priority sectors under NTA 2025',
         requirements: ['Investment in renewable energy production', 'Manufacturing of renewable energy equipment'],
         qceThreshold: 150000000,
+        rule: EDI_CREDIT_RULE,
       },
       {
         name: 'Green Investment Allowance',
@@ -175,6 +248,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '100% deduction',
         description: 'Full deduction of investment in qualifying green energy assets',
         requirements: ['Certified renewable energy project', 'Environmental compliance'],
+        rule: { eligibility: {}, effect: { kind: 'deduction', claim: 'greenInvestment', rate: 1 } },
       },
     ],
     ediEligible: true,
@@ -192,6 +266,11 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '100% exemption',
         description: 'Tax-free period of up to 5 years, with possible extension',
         requirements: ['Engaged in gas utilization (downstream)', 'NNPC/DPR approval'],
+        holiday: {
+          initialYears: 5,
+          extension: { years: 5, condition: 'Extension approved by the Minister' },
+        },
+        rule: { eligibility: { smallCompany: false, holidayApproved: true }, effect: { kind: 'holiday' } },
       },
       {
         name: 'Investment Tax Credit',
@@ -199,6 +278,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '15%',
         description: 'Tax credit on qualifying gas infrastructure investment',
         requirements: ['Investment in gas processing/distribution infrastructure'],
+        rule: { eligibility: { smallCompany: false }, effect: { kind: 'credit', claim: 'gasInfrastructureInvestment', rate: 0.15 } },
       },
     ],
     ediEligible: false,
@@ -215,6 +295,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '100% exemption',
         description: 'Complete tax exemption for companies in EPZ/FTZ exporting at least 75% of production',
         requirements: ['Located in registered EPZ or FTZ', 'Export at least 75% of goods/services'],
+        rule: { eligibility: { smallCompany: false, inFreeZone: true, minExportShare: 0.75 }, effect: { kind: 'exemption' } },
       },
       {
         name: 'Export Tax Holiday',
@@ -223,6 +304,8 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '100% exemption',
         description: '100% export-oriented companies outside EPZ may enjoy 3-year tax holiday',
         requirements: ['100% of output for export', 'Not located in EPZ/FTZ', 'Meet specific export criteria'],
+        holiday: { initialYears: 3, extension: null },
+        rule: { eligibility: { smallCompany: false, holidayApproved: true, inFreeZone: false, minExportShare: 1 }, effect: { kind: 'holiday' } },
       },
       {
         name: 'Export Expansion Grant',
@@ -230,6 +313,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: 'Up to 30% of export value',
         description: 'Cash grant based on export performance',
         requirements: ['Registered exporter', 'Qualifying export products'],
+        rule: { eligibility: {}, effect: { kind: 'outside', note: 'Cash grant paid on export performance, not a tax relief' } },
       },
     ],
     ediEligible: false,
@@ -245,6 +329,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '120%',
         description: 'Claim 120% of qualifying R&D expenses',
         requirements: ['Qualifying R&D activities', 'Proper documentation of R&D spend'],
+        rule: { eligibility: {}, effect: { kind: 'deduction', claim: 'researchExpenditure', rate: 0.2 } },
       },
       {
         name: 'Tech Startup Exemption',
@@ -252,6 +337,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '0% for small companies',
         description: 'Small tech companies (turnover ≤₦100M) exempt from CIT and 4% Development Levy',
         requirements: ['Small company classification', 'Not a professional service provider'],
+        rule: SMALL_COMPANY_RULE,
       },
     ],
     ediEligible: false,
@@ -270,6 +356,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         description: 'Tax credit for pharmaceutical manufacturing facilities',
         requirements: ['Pharmaceutical manufacturing license', 'Minimum capital investment'],
         qceThreshold: 100000000,
+        rule: EDI_CREDIT_RULE,
       },
       {
         name: 'Local Drug Manufacturing Incentive',
@@ -277,6 +364,7 @@ export const BUSINESS_TYPES: BusinessTypeInfo[] = [
         rate: '150%',
         description: 'Enhanced deduction for local drug production costs',
         requirements: ['NAFDAC registration', 'Local manufacturing'],
+        rule: { eligibility: {}, effect: { kind: 'deduction', claim: 'localManufacturingCosts', rate: 0.5 } },
       },
     ],
     ediEligible: true,
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Router } from 'express';
+import jwt from 'jsonwebtoken';
+
+const mockCreate = jest.fn(async ({ data }: { data: object }) => ({ id: 'calc-1', ...data }));
+jest.mock('../../server/db', () => ({
+  prisma: {
+    taxCalculation: { create: (args: { data: object }) => mockCreate(args) },
+  },
+}));
+
+// The router reads JWT_SECRET when it loads. It is required rather than
+// imported so the app's type-check stays out of the server's Prisma types.
+let calculationsRoutes: Router;
+beforeAll(() => {
+  process.env.JWT_SECRET = 'calculations-route-test';
+  calculationsRoutes = jest.requireActual<{ default: Router }>('../../server/routes/calculations').default;
+});
+
+function post(path: string, body: object): Promise<{ status: number; body: any }> {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/calculations', calculationsRoutes);
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  const payload = JSON.stringify(body);
+  const token = jwt.sign({ userId: 'user-1' }, process.env.JWT_SECRET!);
+
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      port,
+      path,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload), Authorization: `Bearer ${token}` },
+    }, (res) => {
+      let text = '';
+      res.on('data', (chunk) => { text += chunk; });
+      res.on('end', () => {
+        server.close();
+        resolve({ status: res.statusCode ?? 0, body: JSON.parse(text) });
+      });
+    });
+    req.on('error', (error) => {
+      server.close();
+      reject(error);
+    });
+    req.end(payload);
+  });
+}
+
+const personalInput = {
+  taxYear: 2026, annualIncome: 5000000, applyPension: false, applyNHF: false,
+  annualRent: 0, additionalDeductions: [], ocrDeductions: 0,
+};
+
+describe('POST /api/calculations/personal', () => {
+  beforeEach(() => mockCreate.mockClear());
+
+  it('refuses an amount sent as a string instead of saving a miscalculated result', async () => {
+    const res = await post('/api/calculations/personal', { input: { ...personalInput, annualIncome: '5000000' } });
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([{ field: 'annualIncome', message: 'annualIncome must be a number' }]);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('saves the result computed from numeric inputs', async () => {
+    const res = await post('/api/calculations/personal', { input: personalInput });
+    expect(res.status).toBe(201);
+    expect(res.body.calculation.result.grossIncome).toBe(5000000);
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,78 @@
+import { calculateAssetRegisterYear, calculateAssetSchedule, getAllowanceRates } from './capitalAllowances';
+import { calculateCompanyTax } from './taxCalculations';
+
+describe('calculateAssetSchedule', () => {
+  const plant = { description: 'Generator', assetClass: 'plant_machinery' as const, cost: 1000000, acquisitionDate: '2024-03-01' };
+
+  it('gives the initial allowance and annual allowances on the residue', () => {
+    const schedule = calculateAssetSchedule(plant, 2027);
+    expect(schedule.map((y) => y.initialAllowance)).toEqual([500000, 0, 0, 0]);
+    expect(schedule.map((y) => y.annualAllowance)).toEqual([125000, 125000, 125000, 124990]);
+    // ₦10 is retained while the asset is still in use
+    expect(schedule[3].closingTWDV).toBe(10);
+  });
+
+  it('applies the accelerated initial allowance for manufacturing plant', () => {
+    expect(getAllowanceRates('plant_machinery', 'manufacturing')).toMatchObject({ initialRate: 0.95, accelerated: true });
+    expect(getAllowanceRates('motor_vehicle', 'manufacturing').accelerated).toBe(false);
+    expect(calculateAssetSchedule(plant, 2024, 'manufacturing')[0].initialAllowance).toBe(950000);
+  });
+
+  it('gives a balancing allowance when sold below its written-down value', () => {
+    const schedule = calculateAssetSchedule({ ...plant, disposalDate: '2025-06-30', disposalProceeds: 200000 }, 2026);
+    expect(schedule).toHaveLength(2);
+    expect(schedule[1]).toMatchObject({ openingTWDV: 375000, annualAllowance: 0, balancingAllowance: 175000, balancingCharge: 0, closingTWDV: 0 });
+  });
+
+  it('gives a balancing charge when sold above its written-down value', () => {
+    const schedule = calculateAssetSchedule({ ...plant, disposalDate: '2025-06-30', disposalProceeds: 500000 }, 2025);
+    expect(schedule[1]).toMatchObject({ balancingAllowance: 0, balancingCharge: 125000 });
+  });
+
+  it('caps the balancing charge at cost and leaves the excess as a chargeable gain', () => {
+    const asset = { ...plant, disposalDate: '2025-06-30', disposalProceeds: 1300000 };
+    expect(calculateAssetSchedule(asset, 2025)[1]).toMatchObject({ balancingCharge: 625000, chargeableGain: 300000 });
+    const year = calculateAssetRegisterYear([asset], 2025);
+    expect(year.chargeableGains).toBe(300000);
+    expect(year.disposalProceeds).toBe(1000000);
+  });
+});
+
+describe('calculateAssetRegisterYear', () => {
+  const register = [
+    { description: 'Generator', assetClass: 'plant_machinery' as const, cost: 1000000, acquisitionDate: '2024-03-01' },
+    { description: 'Van', assetClass: 'motor_vehicle' as const, cost: 4000000, acquisitionDate: '2024-01-15', disposalDate: '2025-09-01', disposalProceeds: 2000000 },
+    { description: 'Desks', assetClass: 'furniture_fittings' as const, cost: 800000, acquisitionDate: '2025-02-01' },
+  ];
+
+  it('totals the year and passes only gains through as disposals', () => {
+    const year = calculateAssetRegisterYear(register, 2025);
+    expect(year.initialAllowances).toBe(200000);
+    expect(year.annualAllowances).toBe(125000 + 120000);
+    // Van TWDV 1.5M sold for 2M
+    expect(year.balancingCharges).toBe(500000);
+    expect(year.capitalAllowances).toBe(445000);
+    expect(year.disposalProceeds).toBe(2000000);
+    expect(year.disposalTWDV).toBe(1500000);
+  });
+
+  it('feeds calculateCompanyTax so the balancing charge is taxed', () => {
+    const year = calculateAssetRegisterYear(register, 2025);
+    const result = calculateCompanyTax({
+      taxYear: 2025,
+      annualTurnover: 200000000,
+      fixedAssets: 0,
+      assessableProfit: 10000000,
+      isProfessionalService: false,
+      isNonResident: false,
+      isLargeCompany: false,
+      isMNE: false,
+      capitalAllowances: year.capitalAllowances,
+      otherDeductions: [],
+      assetDisposalProceeds: year.disposalProceeds,
+      assetTaxWrittenDownValue: year.disposalTWDV,
+    });
+    expect(result.assetDisposalGain).toBe(500000);
+    expect(result.capitalAllowances).toBe(445000);
+  });
+});
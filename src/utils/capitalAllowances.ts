@@ -0,0 +1,201 @@
+// Fixed asset register and capital allowance engine
+// Each asset earns an initial allowance in its acquisition year and annual
+// allowances on the residue (cost less initial allowance) until its tax
+// written-down value (TWDV) is exhausted, with ₦10 retained while it is still
+// in use. On disposal the proceeds are compared with the TWDV: a shortfall is
+// a balancing allowance, an excess a balancing charge. The charge only claws
+// back allowances given, so it stops at cost; proceeds above cost are a
+// chargeable gain.
+
+import { BUSINESS_TYPES, BusinessSector } from './businessTypes';
+
+export type AssetClass =
+  | 'building_industrial'
+  | 'building_other'
+  | 'plant_machinery'
+  | 'agricultural_plant'
+  | 'motor_vehicle'
+  | 'public_transport'
+  | 'furniture_fittings'
+  | 'research_development';
+
+export interface AssetClassInfo {
+  id: AssetClass;
+  name: string;
+  initialRate: number;
+  annualRate: number;
+}
+
+// Initial and annual allowance rates by qualifying expenditure class
+// (CITA Second Schedule)
+export const ASSET_CLASSES: AssetClassInfo[] = [
+  { id: 'building_industrial', name: 'Industrial Building', initialRate: 0.15, annualRate: 0.10 },
+  { id: 'building_other', name: 'Non-Industrial Building', initialRate: 0.15, annualRate: 0.10 },
+  { id: 'plant_machinery', name: 'Plant & Machinery', initialRate: 0.50, annualRate: 0.25 },
+  { id: 'agricultural_plant', name: 'Plant (Agricultural Production)', initialRate: 0.95, annualRate: 0 },
+  { id: 'motor_vehicle', name: 'Motor Vehicle', initialRate: 0.50, annualRate: 0.25 },
+  { id: 'public_transport', name: 'Motor Vehicle (Public Transportation)', initialRate: 0.95, annualRate: 0 },
+  { id: 'furniture_fittings', name: 'Furniture & Fittings', initialRate: 0.25, annualRate: 0.20 },
+  { id: 'research_development', name: 'Research & Development', initialRate: 0.95, annualRate: 0 },
+];
+
+// Kept in the books while an asset is still in use
+const RETENTION_VALUE = 10;
+
+export interface FixedAsset {
+  id?: string;
+  description: string;
+  assetClass: AssetClass;
+  cost: number;
+  acquisitionDate: string; // ISO date
+  disposalDate?: string | null;
+  disposalProceeds?: number | null;
+}
+
+export interface AssetAllowanceYear {
+  taxYear: number;
+  openingTWDV: number;
+  initialAllowance: number;
+  annualAllowance: number;
+  balancingAllowance: number;
+  balancingCharge: number; // at most cost less TWDV
+  chargeableGain: number; // proceeds above cost
+  disposalProceeds: number;
+  closingTWDV: number;
+}
+
+export interface AssetRegisterYear {
+  taxYear: number;
+  assets: { asset: FixedAsset; year: AssetAllowanceYear }[];
+  initialAllowances: number;
+  annualAllowances: number;
+  balancingAllowances: number;
+  balancingCharges: number;
+  chargeableGains: number; // proceeds above cost, outside the balancing charge
+  // Figures to pass to calculateCompanyTax
+  capitalAllowances: number; // initial + annual + balancing allowances
+  disposalProceeds: number; // disposals at a gain only, up to cost
+  disposalTWDV: number; // TWDV of those disposals
+  closingTWDV: number;
+}
+
+export function getAssetClass(id: AssetClass): AssetClassInfo {
+  const info = ASSET_CLASSES.find((c) => c.id === id);
+  if (!info) throw new RangeError(`Unknown asset class: ${id}`);
+  return info;
+}
+
+// Allowance rates for an asset class, including any accelerated initial
+// allowance the sector's incentives in BUSINESS_TYPES grant for that class
+export function getAllowanceRates(
+  assetClass: AssetClass,
+  sector: BusinessSector = 'general'
+): { initialRate: number; annualRate: number; accelerated: boolean } {
+  const info = getAssetClass(assetClass);
+  const business = BUSINESS_TYPES.find((bt) => bt.id === sector);
+  const accelerated = business?.taxIncentives.find(
+    (incentive) => incentive.capitalAllowance?.assetClasses.includes(assetClass)
+  )?.capitalAllowance;
+  if (accelerated && accelerated.initialRate > info.initialRate) {
+    return { initialRate: accelerated.initialRate, annualRate: info.annualRate, accelerated: true };
+  }
+  return { initialRate: info.initialRate, annualRate: info.annualRate, accelerated: false };
+}
+
+const yearOf = (date: string) => new Date(date).getFullYear();
+
+// Year-by-year allowances for one asset from acquisition to `toYear`
+export function calculateAssetSchedule(
+  asset: FixedAsset,
+  toYear: number,
+  sector: BusinessSector = 'general'
+): AssetAllowanceYear[] {
+  const { initialRate, annualRate } = getAllowanceRates(asset.assetClass, sector);
+  const acquisitionYear = yearOf(asset.acquisitionDate);
+  const disposalYear = asset.disposalDate ? yearOf(asset.disposalDate) : null;
+  if (disposalYear !== null && disposalYear < acquisitionYear) {
+    throw new RangeError(`${asset.description}: disposal date is before the acquisition date`);
+  }
+
+  const schedule: AssetAllowanceYear[] = [];
+  let twdv = asset.cost;
+  const residue = asset.cost * (1 - initialRate);
+
+  for (let taxYear = acquisitionYear; taxYear <= toYear; taxYear++) {
+    const openingTWDV = taxYear === acquisitionYear ? 0 : twdv;
+    const row: AssetAllowanceYear = {
+      taxYear,
+      openingTWDV,
+      initialAllowance: 0,
+      annualAllowance: 0,
+      balancingAllowance: 0,
+      balancingCharge: 0,
+      chargeableGain: 0,
+      disposalProceeds: 0,
+      closingTWDV: 0,
+    };
+
+    if (disposalYear === taxYear) {
+      // No initial/annual allowance in the year of disposal; an asset bought
+      // and sold in the same year is compared against its cost
+      const proceeds = asset.disposalProceeds ?? 0;
+      row.openingTWDV = twdv;
+      row.disposalProceeds = proceeds;
+      if (proceeds < twdv) row.balancingAllowance = twdv - proceeds;
+      else row.balancingCharge = Math.min(proceeds, asset.cost) - twdv;
+      row.chargeableGain = Math.max(0, proceeds - asset.cost);
+      twdv = 0;
+      row.closingTWDV = 0;
+      schedule.push(row);
+      break;
+    }
+
+    if (taxYear === acquisitionYear) {
+      row.initialAllowance = Math.min(asset.cost * initialRate, Math.max(0, twdv - RETENTION_VALUE));
+      twdv -= row.initialAllowance;
+    }
+    row.annualAllowance = Math.min(residue * annualRate, Math.max(0, twdv - RETENTION_VALUE));
+    twdv -= row.annualAllowance;
+    row.closingTWDV = twdv;
+    schedule.push(row);
+  }
+
+  return schedule;
+}
+
+// Register totals for one tax year, ready to feed calculateCompanyTax
+export function calculateAssetRegisterYear(
+  assets: FixedAsset[],
+  taxYear: number,
+  sector: BusinessSector = 'general'
+): AssetRegisterYear {
+  const rows: AssetRegisterYear['assets'] = [];
+  for (const asset of assets) {
+    const year = calculateAssetSchedule(asset, taxYear, sector).find((y) => y.taxYear === taxYear);
+    if (year) rows.push({ asset, year });
+  }
+
+  const sum = (pick: (y: AssetAllowanceYear) => number) => rows.reduce((total, r) => total + pick(r.year), 0);
+  const initialAllowances = sum((y) => y.initialAllowance);
+  const annualAllowances = sum((y) => y.annualAllowance);
+  const balancingAllowances = sum((y) => y.balancingAllowance);
+  const balancingCharges = sum((y) => y.balancingCharge);
+  const chargeableGains = sum((y) => y.chargeableGain);
+  // Disposals at a loss are already in balancing allowances; only gains are
+  // passed through as proceeds/TWDV so they aren't netted against each other
+  const gains = rows.filter((r) => r.year.disposalProceeds > 0 && r.year.balancingCharge > 0);
+
+  return {
+    taxYear,
+    assets: rows,
+    initialAllowances,
+    annualAllowances,
+    balancingAllowances,
+    balancingCharges,
+    chargeableGains,
+    capitalAllowances: initialAllowances + annualAllowances + balancingAllowances,
+    disposalProceeds: gains.reduce((total, r) => total + Math.min(r.year.disposalProceeds, r.asset.cost), 0),
+    disposalTWDV: gains.reduce((total, r) => total + r.year.openingTWDV, 0),
+    closingTWDV: sum((y) => y.closingTWDV),
+  };
+}
@@ -0,0 +1,49 @@
+import { calculateCapitalGainsTax } from './capitalGains';
+import { calculateProgressiveTax } from './taxCalculations';
+import { NTA_2025_RULES } from './taxRules';
+
+const land = { description: 'Plot in Lekki', assetType: 'land' as const, proceeds: 60000000, acquisitionCost: 30000000, improvementCost: 5000000, disposalCosts: 1000000 };
+const house = { description: 'Family home', assetType: 'building' as const, proceeds: 90000000, acquisitionCost: 40000000, exemption: 'principal_residence' as const };
+const van = { description: 'Delivery van', assetType: 'vehicle' as const, proceeds: 4000000, acquisitionCost: 10000000 };
+
+describe('calculateCapitalGainsTax', () => {
+  it('deducts acquisition, improvement and disposal costs', () => {
+    const result = calculateCapitalGainsTax({ taxYear: 2025, taxpayer: 'individual', disposals: [land] });
+    expect(result.disposals[0].allowableCost).toBe(36000000);
+    expect(result.chargeableGains).toBe(24000000);
+    expect(result.tax).toBe(2400000); // 10% CGT
+  });
+
+  it('exempts a principal private residence for individuals only', () => {
+    const individual = calculateCapitalGainsTax({ taxYear: 2025, taxpayer: 'individual', disposals: [land, house] });
+    expect(individual.exemptGains).toBe(50000000);
+    expect(individual.chargeableGains).toBe(24000000);
+
+    const company = calculateCapitalGainsTax({ taxYear: 2025, taxpayer: 'company', disposals: [house] });
+    expect(company.disposals[0].exemptionApplied).toBeNull();
+    expect(company.disposals[0].exemptionRefused).toMatch(/individuals/);
+    expect(company.chargeableGains).toBe(50000000);
+  });
+
+  it('only relieves capital losses where the rule set allows it', () => {
+    const cgta = calculateCapitalGainsTax({ taxYear: 2025, taxpayer: 'company', disposals: [land, van] });
+    expect(cgta.totalLosses).toBe(6000000);
+    expect(cgta.lossesOffset).toBe(0);
+    expect(cgta.chargeableGains).toBe(24000000);
+
+    const nta = calculateCapitalGainsTax({ taxYear: 2026, taxpayer: 'company', disposals: [land, van], companySize: 'big' });
+    expect(nta.lossesOffset).toBe(6000000);
+    expect(nta.chargeableGains).toBe(18000000);
+    expect(nta.tax).toBeCloseTo(18000000 * 0.30, 2);
+  });
+
+  it('stacks gains on other income under NTA 2025 and exempts small companies', () => {
+    const bands = NTA_2025_RULES.personal.bands;
+    const result = calculateCapitalGainsTax({ taxYear: 2026, taxpayer: 'individual', disposals: [land], otherTaxableIncome: 10000000 });
+    const expected = calculateProgressiveTax(34000000, bands).totalTax - calculateProgressiveTax(10000000, bands).totalTax;
+    expect(result.tax).toBeCloseTo(expected, 2);
+
+    const small = calculateCapitalGainsTax({ taxYear: 2026, taxpayer: 'company', disposals: [land], companySize: 'small' });
+    expect(small.tax).toBe(0);
+  });
+});
@@ -0,0 +1,169 @@
+// Capital gains on land, buildings, vehicles and other chargeable assets
+// Each disposal's gain is proceeds less allowable costs (acquisition,
+// improvement and disposal costs). Exempt disposals drop out, the remaining
+// gains for the tax year are aggregated, and tax is charged under the rule
+// set's capital gains rules. Share disposals use calculateShareTransferTax.
+
+import { CompanySize, getTaxRuleSet, currentTaxYear } from './taxRules';
+import { calculateProgressiveTax } from './taxCalculations';
+import { roundMoney, subtractMoney } from './money';
+
+export type Taxpayer = 'individual' | 'company';
+
+export type ChargeableAssetType = 'land' | 'building' | 'vehicle' | 'other';
+
+export const CHARGEABLE_ASSET_TYPES: { id: ChargeableAssetType; name: string }[] = [
+  { id: 'land', name: 'Land' },
+  { id: 'building', name: 'Building' },
+  { id: 'vehicle', name: 'Motor Vehicle' },
+  { id: 'other', name: 'Other Asset' },
+];
+
+export type CgtExemption = 'principal_residence' | 'private_vehicle' | 'personal_chattel';
+
+export const CGT_EXEMPTIONS: { id: CgtExemption; name: string; assetTypes: ChargeableAssetType[] }[] = [
+  { id: 'principal_residence', name: 'Principal private residence', assetTypes: ['land', 'building'] },
+  { id: 'private_vehicle', name: 'Private motor vehicle', assetTypes: ['vehicle'] },
+  { id: 'personal_chattel', name: 'Personal chattel', assetTypes: ['other'] },
+];
+
+export interface AssetDisposal {
+  id?: string;
+  description: string;
+  assetType: ChargeableAssetType;
+  proceeds: number;
+  acquisitionCost: number;
+  improvementCost?: number;
+  disposalCosts?: number; // agent, legal and valuation fees on the sale
+  exemption?: CgtExemption | null;
+}
+
+export interface DisposalGain {
+  disposal: AssetDisposal;
+  allowableCost: number;
+  gain: number; // negative for a loss
+  exemptGain: number;
+  chargeableGain: number;
+  loss: number;
+  exemptionApplied: CgtExemption | null;
+  exemptionRefused: string | null; // why a claimed exemption doesn't apply
+}
+
+export interface CapitalGainsInput {
+  taxYear?: number;
+  taxpayer: Taxpayer;
+  disposals: AssetDisposal[];
+  // Gains taxed as income are stacked on top of the individual's other
+  // taxable income for the year
+  otherTaxableIncome?: number;
+  companySize?: CompanySize;
+}
+
+export interface CapitalGainsResult {
+  taxYear: number;
+  ruleSetId: string;
+  taxpayer: Taxpayer;
+  disposals: DisposalGain[];
+  totalProceeds: number;
+  totalGains: number;
+  totalLosses: number;
+  exemptGains: number;
+  lossesOffset: number;
+  chargeableGains: number; // after exemptions and any loss offset
+  tax: number;
+  rateDescription: string;
+  effectiveRate: number; // tax as a % of chargeable gains
+}
+
+// Why a claimed exemption can't be given, or null if it can
+function exemptionRefusal(
+  disposal: AssetDisposal,
+  taxpayer: Taxpayer,
+  chattelThreshold: number
+): string | null {
+  const exemption = CGT_EXEMPTIONS.find((e) => e.id === disposal.exemption);
+  if (!exemption) return null;
+  if (taxpayer === 'company') return `${exemption.name} exemption is only available to individuals`;
+  if (!exemption.assetTypes.includes(disposal.assetType)) {
+    return `${exemption.name} exemption does not apply to this type of asset`;
+  }
+  if (exemption.id === 'personal_chattel' && disposal.proceeds > chattelThreshold) {
+    return `Chattels are only exempt when sold for ₦${chattelThreshold.toLocaleString('en-NG')} or less`;
+  }
+  return null;
+}
+
+export function calculateDisposalGain(
+  disposal: AssetDisposal,
+  taxpayer: Taxpayer,
+  chattelThreshold: number
+): DisposalGain {
+  const allowableCost = disposal.acquisitionCost + (disposal.improvementCost ?? 0) + (disposal.disposalCosts ?? 0);
+  const gain = disposal.proceeds - allowableCost;
+  const exemptionRefused = disposal.exemption ? exemptionRefusal(disposal, taxpayer, chattelThreshold) : null;
+  const exemptionApplied = disposal.exemption && !exemptionRefused ? disposal.exemption : null;
+  const exemptGain = exemptionApplied ? Math.max(0, gain) : 0;
+
+  return {
+    disposal,
+    allowableCost,
+    gain,
+    exemptGain,
+    chargeableGain: exemptionApplied ? 0 : Math.max(0, gain),
+    // A loss on an exempt asset isn't allowable either
+    loss: exemptionApplied ? 0 : Math.max(0, -gain),
+    exemptionApplied,
+    exemptionRefused,
+  };
+}
+
+export function calculateCapitalGainsTax(input: CapitalGainsInput): CapitalGainsResult {
+  const { taxYear = currentTaxYear(), taxpayer, disposals, otherTaxableIncome = 0, companySize = 'big' } = input;
+  const ruleSet = getTaxRuleSet(taxYear);
+  const rules = ruleSet.capitalGains;
+
+  const gains = disposals.map((d) => calculateDisposalGain(d, taxpayer, rules.chattelExemptionThreshold));
+  const sum = (pick: (g: DisposalGain) => number) => gains.reduce((total, g) => total + pick(g), 0);
+  const totalGains = sum((g) => g.chargeableGain);
+  const totalLosses = sum((g) => g.loss);
+  const lossesOffset = rules.lossesOffsetGains ? Math.min(totalLosses, totalGains) : 0;
+  const chargeableGains = totalGains - lossesOffset;
+
+  let tax: number;
+  let rateDescription: string;
+  if (rules.rate !== null) {
+    tax = roundMoney(chargeableGains * rules.rate, 'CGT');
+    rateDescription = `Capital Gains Tax at ${rules.rate * 100}%`;
+  } else if (taxpayer === 'individual') {
+    // Incremental tax from stacking the gains on the year's other income
+    const bands = ruleSet.personal.bands;
+    const base = Math.max(0, otherTaxableIncome);
+    tax = subtractMoney(calculateProgressiveTax(base + chargeableGains, bands).totalTax, calculateProgressiveTax(base, bands).totalTax);
+    rateDescription = 'Taxed as income at personal income tax rates';
+  } else {
+    const company = ruleSet.company;
+    const rate = companySize === 'small'
+      ? company.small.rate
+      : companySize === 'medium' && company.medium ? company.medium.rate : company.big.rate;
+    tax = roundMoney(chargeableGains * rate, 'CIT');
+    rateDescription = companySize === 'small'
+      ? 'Small company — exempt'
+      : `Taxed as profits at the ${rate * 100}% companies income tax rate`;
+  }
+
+  return {
+    taxYear,
+    ruleSetId: ruleSet.id,
+    taxpayer,
+    disposals: gains,
+    totalProceeds: disposals.reduce((total, d) => total + d.proceeds, 0),
+    totalGains,
+    totalLosses,
+    exemptGains: sum((g) => g.exemptGain),
+    lossesOffset,
+    chargeableGains,
+    tax,
+    rateDescription,
+    effectiveRate: chargeableGains > 0 ? (tax / chargeableGains) * 100 : 0,
+  };
+}
@@ -0,0 +1,109 @@
+import { calculateCryptoGains, cryptoGainsScheduleCsv, parseCryptoTradesCsv } from './cryptoLedger';
+import { FxRate } from './fx';
+
+const rates: FxRate[] = [{ currency: 'USD', date: '2025-01-01', rate: 1500 }];
+
+const CSV = `Date,Type,Asset,Quantity,Amount,Currency,Fee
+2026-03-01,buy,BTC,1,1000000,NGN,0
+2025-06-01,buy,BTC,1,500000,NGN,0
+2026-05-01,sell,BTC,1,2000000,NGN,10000
+`;
+
+describe('parseCryptoTradesCsv', () => {
+  it('reads trades and reports bad rows by line', () => {
+    const { trades, errors } = parseCryptoTradesCsv(`${CSV}2026-06-01,swap,ETH,1,,,\n2026-06-02,sell,ETH,-1,100,,\n`);
+    expect(trades).toHaveLength(3);
+    expect(trades[0]).toMatchObject({ date: '2026-03-01', type: 'buy', asset: 'BTC', currency: 'NGN', fee: 0 });
+    expect(errors).toEqual([
+      'Line 5: type must be one of buy, sell, fee, transfer',
+      'Line 6: quantity must be positive; only transfers are signed',
+    ]);
+  });
+});
+
+describe('calculateCryptoGains', () => {
+  const { trades } = parseCryptoTradesCsv(CSV);
+
+  it('matches the earliest purchase first under FIFO, in date order', () => {
+    const result = calculateCryptoGains(trades, 2026, 'fifo', rates);
+    expect(result.disposals).toHaveLength(1);
+    expect(result.disposals[0]).toMatchObject({ proceeds: 1990000, cost: 500000, gain: 1490000 });
+    expect(result.profit).toBe(1490000);
+    expect(result.holdings).toEqual([{ asset: 'BTC', quantity: 1, cost: 1000000 }]);
+  });
+
+  it('gives a different gain under LIFO and average cost', () => {
+    expect(calculateCryptoGains(trades, 2026, 'lifo', rates).netGain).toBe(990000);
+    expect(calculateCryptoGains(trades, 2026, 'average', rates).netGain).toBe(1240000);
+    // the sale falls outside 2025, which has no disposals
+    expect(calculateCryptoGains(trades, 2025, 'fifo', rates).disposals).toHaveLength(0);
+  });
+
+  it('converts foreign amounts at the trade date rate and treats fees and transfers', () => {
+    const { trades: usd } = parseCryptoTradesCsv(`date,type,asset,quantity,amount,currency
+2026-01-10,buy,ETH,2,1000,USD
+2026-02-01,transfer,ETH,-1,,
+2026-03-01,fee,ETH,0.5,,
+2026-04-01,transfer,SOL,3,,
+`);
+    const result = calculateCryptoGains(usd, 2026, 'fifo', rates);
+    // the ETH moved out is still the holder's; the fee disposes of ₦375k for nothing
+    expect(result.disposals).toEqual([
+      expect.objectContaining({ type: 'fee', quantity: 0.5, proceeds: 0, cost: 375000, gain: -375000 }),
+    ]);
+    expect(result.profit).toBe(0);
+    expect(result.holdings).toEqual([
+      { asset: 'ETH', quantity: 1.5, cost: 1125000 },
+      { asset: 'SOL', quantity: 3, cost: 0 },
+    ]);
+  });
+
+  it('keeps the cost of an asset moved between the holder\'s wallets', () => {
+    const { trades: moved } = parseCryptoTradesCsv(`date,type,asset,quantity,amount,currency
+2026-01-10,buy,BTC,1,1000000,NGN
+2026-02-01,transfer,BTC,1,,
+2026-02-01,transfer,BTC,-1,,
+2026-03-01,sell,BTC,1,1500000,NGN
+`);
+    const result = calculateCryptoGains(moved, 2026, 'fifo', rates);
+    expect(result.issues).toEqual([]);
+    expect(result.disposals[0]).toMatchObject({ proceeds: 1500000, cost: 1000000, gain: 500000 });
+    expect(result.holdings).toEqual([]);
+  });
+
+  it('sells an asset transferred in earlier the same day at its carried cost', () => {
+    const { trades: arrived } = parseCryptoTradesCsv(`date,type,asset,quantity,amount,currency
+2026-02-01,transfer,BTC,1,50000000,NGN
+2026-02-01,sell,BTC,1,60000000,NGN
+`);
+    const result = calculateCryptoGains(arrived, 2026, 'fifo', rates);
+    expect(result.issues).toEqual([]);
+    expect(result.disposals[0]).toMatchObject({ proceeds: 60000000, cost: 50000000, gain: 10000000 });
+    expect(result.holdings).toEqual([]);
+  });
+
+  it('reports sales beyond the holding and trades without a rate', () => {
+    const { trades: bad } = parseCryptoTradesCsv(`date,type,asset,quantity,amount,currency
+2026-01-10,buy,ETH,1,100,GBP
+2026-02-01,sell,BTC,1,500000,NGN
+`);
+    const result = calculateCryptoGains(bad, 2026, 'fifo', rates);
+    expect(result.issues).toEqual([
+      'Line 2: no GBP rate on or before 2026-01-10 — add one under exchange rates',
+      'Line 3: 1 BTC more than was held — the excess is given no cost',
+    ]);
+    expect(result.netGain).toBe(500000);
+  });
+
+  it('writes a schedule with a row per disposal and the totals', () => {
+    const csv = cryptoGainsScheduleCsv(calculateCryptoGains(trades, 2026, 'fifo', rates));
+    expect(csv.split('\n')).toEqual([
+      '"Digital asset gains schedule — tax year 2026 (First in, first out)"',
+      'date,type,asset,quantity,proceeds_ngn,cost_ngn,gain_ngn',
+      '2026-05-01,sell,BTC,1,1990000,500000,1490000',
+      'Total,,,,1990000,500000,1490000',
+      'Digital asset profit,,,,,,1490000',
+      '',
+    ]);
+  });
+});
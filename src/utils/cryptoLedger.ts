@@ -0,0 +1,258 @@
+// Digital asset gains from an exchange trade history
+// Trades are imported from a CSV of buy, sell, fee and transfer rows. Every
+// trade up to the end of the tax year is replayed in date order against a
+// cost pool per asset, matched first-in-first-out, last-in-first-out or at
+// the weighted average cost. A sell realises proceeds less the matched cost;
+// an asset paid away as a fee is a disposal for nothing, so its cost is a
+// loss. Transfers move an asset between the holder's own wallets, which share
+// one pool, so a transfer out and the transfer in that receives it leave the
+// pool as it was; a transfer in with no transfer out before it brings new
+// holdings in at the cost given (nil if none). Amounts in another currency are
+// converted at the rate on the trade date. The year's net gain is the
+// digital asset profit the tax calculators charge.
+
+import { parseCsvAmount, parseCsvRecords } from './csv';
+import { CurrencyCode, FxRate, findFxRate, isCurrencyCode } from './fx';
+import { roundKobo, subtractMoney, sumMoney } from './money';
+
+export type CryptoTradeType = 'buy' | 'sell' | 'fee' | 'transfer';
+
+export type CostMatchingMethod = 'fifo' | 'lifo' | 'average';
+
+export const COST_MATCHING_METHODS: { id: CostMatchingMethod; name: string }[] = [
+  { id: 'fifo', name: 'First in, first out' },
+  { id: 'lifo', name: 'Last in, first out' },
+  { id: 'average', name: 'Weighted average cost' },
+];
+
+export interface CryptoTrade {
+  line: number; // CSV line, for messages
+  date: string; // YYYY-MM-DD
+  type: CryptoTradeType;
+  asset: string;
+  quantity: number; // signed for transfers: positive in, negative out
+  amount: number; // cost of a buy or transfer in, proceeds of a sell, in currency
+  currency: CurrencyCode;
+  fee: number; // trading fee in currency, added to cost or taken from proceeds
+}
+
+export interface CryptoDisposal {
+  line: number;
+  date: string;
+  type: 'sell' | 'fee';
+  asset: string;
+  quantity: number;
+  proceeds: number; // naira, after the trading fee
+  cost: number; // naira, matched from the pool
+  gain: number; // negative for a loss
+}
+
+export interface CryptoHolding {
+  asset: string;
+  quantity: number;
+  cost: number;
+}
+
+export interface CryptoGainsResult {
+  taxYear: number;
+  method: CostMatchingMethod;
+  disposals: CryptoDisposal[]; // in the tax year
+  totalProceeds: number;
+  totalCost: number;
+  netGain: number; // gains less losses, negative for a net loss
+  profit: number; // net gain not below zero — the digital asset profit
+  holdings: CryptoHolding[]; // at the end of the tax year
+  issues: string[]; // trades that could not be matched or converted
+}
+
+// Expected CSV columns (header names are case/spacing-insensitive). Only
+// date, type, asset and quantity are required; currency defaults to NGN.
+export const CRYPTO_CSV_COLUMNS = ['date', 'type', 'asset', 'quantity', 'amount', 'currency', 'fee'];
+
+const TRADE_TYPES: CryptoTradeType[] = ['buy', 'sell', 'fee', 'transfer'];
+
+// Quantities below this are dust left by float arithmetic
+const DUST = 1e-12;
+
+// CSV import. Good rows are returned even when others fail so a long history
+// isn't rejected for one typo.
+export function parseCryptoTradesCsv(text: string): { trades: CryptoTrade[]; errors: string[] } {
+  const trades: CryptoTrade[] = [];
+  const errors: string[] = [];
+  for (const { line, values } of parseCsvRecords(text)) {
+    const rowErrors: string[] = [];
+    const date = values.date ?? '';
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) rowErrors.push('date must be YYYY-MM-DD');
+    const type = (values.type ?? '').toLowerCase() as CryptoTradeType;
+    if (!TRADE_TYPES.includes(type)) rowErrors.push(`type must be one of ${TRADE_TYPES.join(', ')}`);
+    const asset = (values.asset ?? '').toUpperCase();
+    if (!asset) rowErrors.push('asset is required');
+
+    const quantity = Number((values.quantity ?? '').replace(/[,\s]/g, ''));
+    if (!values.quantity || !isFinite(quantity) || quantity === 0) {
+      rowErrors.push('quantity must be a non-zero number');
+    } else if (type !== 'transfer' && quantity < 0) {
+      rowErrors.push('quantity must be positive; only transfers are signed');
+    }
+    const amount = parseCsvAmount(values.amount);
+    if (amount === null || amount < 0) rowErrors.push('amount must be a valid amount');
+    const fee = parseCsvAmount(values.fee);
+    if (fee === null || fee < 0) rowErrors.push('fee must be a valid amount');
+    const currency = (values.currency || 'NGN').toUpperCase();
+    if (!isCurrencyCode(currency)) rowErrors.push(`unsupported currency ${currency}`);
+
+    if (rowErrors.length) {
+      errors.push(`Line ${line}: ${rowErrors.join('; ')}`);
+      continue;
+    }
+    trades.push({ line, date, type, asset, quantity, amount: amount!, currency: currency as CurrencyCode, fee: fee! });
+  }
+  return { trades, errors };
+}
+
+interface Lot {
+  quantity: number;
+  cost: number;
+}
+
+// Take a quantity out of the pool by the matching method; returns the cost
+// matched and any quantity the pool could not cover
+function takeFromPool(lots: Lot[], quantity: number, method: CostMatchingMethod): { cost: number; shortfall: number } {
+  let remaining = quantity;
+  let cost = 0;
+  while (remaining > DUST && lots.length > 0) {
+    const lot = method === 'lifo' ? lots[lots.length - 1] : lots[0];
+    const taken = Math.min(lot.quantity, remaining);
+    const lotCost = (lot.cost * taken) / lot.quantity;
+    cost += lotCost;
+    lot.cost -= lotCost;
+    lot.quantity -= taken;
+    remaining -= taken;
+    if (lot.quantity <= DUST) {
+      if (method === 'lifo') lots.pop();
+      else lots.shift();
+    }
+  }
+  return { cost: roundKobo(cost), shortfall: remaining > DUST ? remaining : 0 };
+}
+
+function addToPool(lots: Lot[], quantity: number, cost: number, method: CostMatchingMethod): void {
+  if (method === 'average' && lots.length > 0) {
+    lots[0].quantity += quantity;
+    lots[0].cost += cost;
+  } else {
+    lots.push({ quantity, cost });
+  }
+}
+
+// Replay the trades to the end of the tax year and realise the year's gains
+export function calculateCryptoGains(
+  trades: CryptoTrade[],
+  taxYear: number,
+  method: CostMatchingMethod,
+  fxRates: FxRate[],
+): CryptoGainsResult {
+  const yearStart = `${taxYear}-01-01`;
+  const yearEnd = `${taxYear}-12-31`;
+  const pools = new Map<string, Lot[]>();
+  // Quantity transferred out and not yet received, per asset
+  const inTransit = new Map<string, number>();
+  const disposals: CryptoDisposal[] = [];
+  const issues: string[] = [];
+
+  // Exchanges often export newest first; the sort keeps file order within a
+  // day, except that the day's transfers out come first so a transfer in
+  // meets them. A transfer out leaves the pool as it is, so moving it ahead
+  // of the day's sells changes nothing they match against.
+  const departureRank = (t: CryptoTrade) => (t.type === 'transfer' && t.quantity < 0 ? 0 : 1);
+  const ordered = trades
+    .filter((t) => t.date <= yearEnd)
+    .sort((a, b) => a.date.localeCompare(b.date) || departureRank(a) - departureRank(b));
+
+  for (const trade of ordered) {
+    const rate = findFxRate(fxRates, trade.currency, trade.date);
+    if (!rate) {
+      issues.push(`Line ${trade.line}: no ${trade.currency} rate on or before ${trade.date} — add one under exchange rates`);
+      continue;
+    }
+    const naira = (amount: number) => roundKobo(amount * rate.rate);
+    const lots = pools.get(trade.asset) ?? [];
+    pools.set(trade.asset, lots);
+
+    if (trade.type === 'buy') {
+      addToPool(lots, trade.quantity, naira(trade.amount + trade.fee), method);
+      continue;
+    }
+
+    if (trade.type === 'transfer') {
+      const pending = inTransit.get(trade.asset) ?? 0;
+      if (trade.quantity < 0) {
+        inTransit.set(trade.asset, pending - trade.quantity);
+        continue;
+      }
+      const received = Math.min(pending, trade.quantity);
+      inTransit.set(trade.asset, pending - received);
+      const arriving = trade.quantity - received;
+      if (arriving > DUST) {
+        addToPool(lots, arriving, naira(((trade.amount + trade.fee) * arriving) / trade.quantity), method);
+      }
+      continue;
+    }
+
+    const quantity = Math.abs(trade.quantity);
+    const { cost, shortfall } = takeFromPool(lots, quantity, method);
+    if (shortfall > 0) {
+      issues.push(`Line ${trade.line}: ${shortfall} ${trade.asset} more than was held — the excess is given no cost`);
+    }
+    if (trade.date < yearStart) continue;
+
+    const proceeds = trade.type === 'sell' ? subtractMoney(naira(trade.amount), naira(trade.fee)) : 0;
+    disposals.push({
+      line: trade.line,
+      date: trade.date,
+      type: trade.type,
+      asset: trade.asset,
+      quantity,
+      proceeds,
+      cost,
+      gain: subtractMoney(proceeds, cost),
+    });
+  }
+
+  const netGain = sumMoney(disposals.map((d) => d.gain));
+  return {
+    taxYear,
+    method,
+    disposals,
+    totalProceeds: sumMoney(disposals.map((d) => d.proceeds)),
+    totalCost: sumMoney(disposals.map((d) => d.cost)),
+    netGain,
+    profit: Math.max(0, netGain),
+    holdings: Array.from(pools.entries())
+      .map(([asset, lots]) => ({
+        asset,
+        quantity: lots.reduce((sum, lot) => sum + lot.quantity, 0),
+        cost: roundKobo(lots.reduce((sum, lot) => sum + lot.cost, 0)),
+      }))
+      .filter((holding) => holding.quantity > DUST),
+    issues,
+  };
+}
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The gains schedule as a CSV: one row per disposal, then the year's totals
+export function cryptoGainsScheduleCsv(result: CryptoGainsResult): string {
+  const method = COST_MATCHING_METHODS.find((m) => m.id === result.method)!.name;
+  const rows: (string | number)[][] = [
+    [`Digital asset gains schedule — tax year ${result.taxYear} (${method})`],
+    ['date', 'type', 'asset', 'quantity', 'proceeds_ngn', 'cost_ngn', 'gain_ngn'],
+    ...result.disposals.map((d) => [d.date, d.type, d.asset, d.quantity, d.proceeds, d.cost, d.gain]),
+    ['Total', '', '', '', result.totalProceeds, result.totalCost, result.netGain],
+    ['Digital asset profit', '', '', '', '', '', result.profit],
+  ];
+  return `${rows.map((row) => row.map(csvField).join(',')).join('\n')}\n`;
+}
@@ -0,0 +1,76 @@
+// Minimal RFC 4180 CSV reader shared by the bulk importers (client preview and
+// server import). Handles quoted fields, escaped quotes ("") and CRLF.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+// Header names are normalised to snake_case so "Monthly Gross" and
+// "monthly_gross" both map to the same key
+export function normaliseHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+// Parse a CSV with a header row into one record per data row, keyed by the
+// normalised header. `line` is the 1-based line number for error messages.
+export function parseCsvRecords(text: string): { line: number; values: Record<string, string> }[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const keys = header.map(normaliseHeader);
+  return rows.map((cells, i) => ({
+    line: i + 2,
+    values: Object.fromEntries(keys.map((key, j) => [key, (cells[j] ?? '').trim()])),
+  }));
+}
+
+// Amounts as typed in spreadsheets: "₦1,250,000.50", "1250000" or blank
+export function parseCsvAmount(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return 0;
+  const num = Number(value.replace(/[₦,\s]/g, ''));
+  return isFinite(num) ? num : null;
+}
+
+export function parseCsvBoolean(value: string | undefined, fallback: boolean): boolean | null {
+  if (value === undefined || value.trim() === '') return fallback;
+  const v = value.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1'].includes(v)) return true;
+  if (['no', 'n', 'false', '0'].includes(v)) return false;
+  return null;
+}
@@ -0,0 +1,115 @@
+// Economic Development Incentive (EDI) credits
+// An EDI certificate approves a company's qualifying capital expenditure (QCE)
+// in a priority sector. Each year's QCE earns a credit of 5% a year, from the
+// year it is incurred until the certificate expires five years after
+// approval, and never more than 25% of the expenditure in total. Credits are
+// set off against the year's tax; what can't be used is carried forward, and
+// anything still unclaimed when the certificate expires lapses.
+
+import { roundMoney, subtractMoney, sumMoney } from './money';
+import { EdiCreditRule } from './taxRules';
+
+export interface EdiExpenditure {
+  taxYear: number; // year the QCE was incurred
+  amount: number;
+}
+
+export interface EdiCertificate {
+  id?: string;
+  certificateNumber: string;
+  approvalDate: string; // ISO date the certificate was granted
+  expenditure: EdiExpenditure[];
+}
+
+// A certificate with the credit already claimed against earlier years
+export interface EdiCreditEntry {
+  certificateNumber: string;
+  approvalDate: string;
+  expenditure: EdiExpenditure[];
+  claimed: number;
+}
+
+export interface EdiCreditResult {
+  creditEarned: number; // new credit for the year on certificates in force
+  creditAvailable: number; // earned to date and not yet claimed
+  creditApplied: number;
+  creditCarriedForward: number;
+  creditLapsed: number; // unclaimed when a certificate expired at the last year end
+  ledger: EdiCreditEntry[]; // closing ledger to carry to the next year
+}
+
+const yearOf = (date: string) => new Date(date).getFullYear();
+
+export function ediExpiryYear(approvalDate: string, rule: EdiCreditRule): number {
+  return yearOf(approvalDate) + rule.maxYears - 1;
+}
+
+// Credit a certificate has earned up to and including the year. QCE outside
+// the certificate's life earns nothing.
+export function ediCreditEarned(entry: Pick<EdiCreditEntry, 'approvalDate' | 'expenditure'>, throughYear: number, rule: EdiCreditRule): number {
+  const approvalYear = yearOf(entry.approvalDate);
+  const lastYear = Math.min(throughYear, ediExpiryYear(entry.approvalDate, rule));
+  return sumMoney(
+    entry.expenditure
+      .filter((qce) => qce.taxYear >= approvalYear && qce.taxYear <= lastYear)
+      .map((qce) => roundMoney(
+        Math.min(qce.amount * rule.annualRate * (lastYear - qce.taxYear + 1), qce.amount * rule.maxTotalRate),
+        'credit'
+      ))
+  );
+}
+
+// Opening ledger for a year from the certificate register, with the credit
+// claimed so far taken from the closing ledger of a saved earlier computation
+export function buildEdiCreditLedger(certificates: EdiCertificate[], carried: EdiCreditEntry[] = []): EdiCreditEntry[] {
+  return certificates.map((certificate) => ({
+    certificateNumber: certificate.certificateNumber,
+    approvalDate: certificate.approvalDate,
+    expenditure: certificate.expenditure,
+    claimed: carried.find((e) => e.certificateNumber === certificate.certificateNumber)?.claimed ?? 0,
+  }));
+}
+
+export function applyEdiCredits(
+  openingLedger: EdiCreditEntry[],
+  taxYear: number,
+  liability: number,
+  rule: EdiCreditRule
+): EdiCreditResult {
+  let capacity = Math.max(0, liability);
+  const earned: number[] = [];
+  const available: number[] = [];
+  const applied: number[] = [];
+  const lapsed: number[] = [];
+
+  // Oldest certificates first, as they expire first
+  const ledger = [...openingLedger]
+    .sort((a, b) => a.approvalDate.localeCompare(b.approvalDate))
+    .map((entry) => {
+      const expiryYear = ediExpiryYear(entry.approvalDate, rule);
+      const unclaimed = Math.max(0, subtractMoney(ediCreditEarned(entry, taxYear, rule), entry.claimed));
+      if (taxYear < yearOf(entry.approvalDate)) return { ...entry };
+      if (taxYear > expiryYear) {
+        if (taxYear === expiryYear + 1) lapsed.push(unclaimed);
+        return { ...entry };
+      }
+
+      earned.push(subtractMoney(ediCreditEarned(entry, taxYear, rule), ediCreditEarned(entry, taxYear - 1, rule)));
+      available.push(unclaimed);
+      const used = Math.min(unclaimed, capacity);
+      capacity = subtractMoney(capacity, used);
+      applied.push(used);
+      return { ...entry, claimed: sumMoney([entry.claimed, used]) };
+    });
+
+  const creditAvailable = sumMoney(available);
+  const creditApplied = sumMoney(applied);
+  return {
+    creditEarned: sumMoney(earned),
+    creditAvailable,
+    creditApplied,
+    creditCarriedForward: subtractMoney(creditAvailable, creditApplied),
+    creditLapsed: sumMoney(lapsed),
+    ledger,
+  };
+}
@@ -0,0 +1,67 @@
+import { calculateForeignTaxCredit } from './foreignTaxCredit';
+import { calculateCompanyTax, calculatePersonalTax } from './taxCalculations';
+
+describe('calculateForeignTaxCredit', () => {
+  it('credits the lesser of foreign tax and Nigerian tax attributable', () => {
+    const result = calculateForeignTaxCredit([
+      { id: 'a', country: 'GB', incomeType: 'business', amount: 10000000, foreignTaxPaid: 2000000 },
+      { id: 'b', country: 'GB', incomeType: 'business', amount: 10000000, foreignTaxPaid: 500000 },
+    ], 0.15);
+    expect(result.lines[0].credit).toBe(1500000);
+    expect(result.lines[1].credit).toBe(500000);
+    expect(result.credit).toBe(2000000);
+  });
+
+  it('limits treaty withholding to the treaty rate and Commonwealth relief to half', () => {
+    const result = calculateForeignTaxCredit([
+      { country: 'ZA', incomeType: 'dividends', amount: 1000000, foreignTaxPaid: 200000 },
+      { country: 'GH', incomeType: 'business', amount: 1000000, foreignTaxPaid: 300000 },
+      { country: 'US', incomeType: 'business', amount: 1000000, foreignTaxPaid: 300000 },
+    ], 0.30);
+    expect(result.lines[0].creditableForeignTax).toBe(75000);
+    expect(result.lines[0].credit).toBe(75000);
+    expect(result.lines[1].relief).toBe('commonwealth');
+    expect(result.lines[1].credit).toBe(150000);
+    expect(result.lines[2].relief).toBe('none');
+    expect(result.lines[2].credit).toBe(0);
+  });
+});
+
+describe('foreign income in the calculators', () => {
+  it('taxes a resident\'s foreign income and credits the foreign tax in the breakdown', () => {
+    const base = { taxYear: 2026, annualIncome: 20000000, applyPension: false, applyNHF: false, annualRent: 0, additionalDeductions: [], ocrDeductions: 0 };
+    const result = calculatePersonalTax({
+      ...base,
+      foreignIncome: [{ country: 'GB', incomeType: 'employment', amount: 10000000, foreignTaxPaid: 5000000 }],
+    });
+    const withoutCredit = calculatePersonalTax({ ...base, annualIncome: 30000000 });
+    const averageRate = withoutCredit.totalTax / withoutCredit.taxableIncome;
+
+    expect(result.foreignIncome).toBe(10000000);
+    // Credits are rounded down to the kobo
+    expect(result.foreignTaxCredit!.credit).toBe(Math.floor(10000000 * averageRate * 100) / 100);
+    expect(result.totalTax).toBeCloseTo(withoutCredit.totalTax - result.foreignTaxCredit!.credit, 2);
+    expect(result.taxBreakdown.reduce((sum, b) => sum + b.tax, 0)).toBeCloseTo(result.totalTax, 2);
+  });
+
+  it('sets the credit against CIT at the company rate', () => {
+    const result = calculateCompanyTax({
+      taxYear: 2026,
+      annualTurnover: 500000000,
+      fixedAssets: 0,
+      assessableProfit: 100000000,
+      isProfessionalService: false,
+      isNonResident: false,
+      capitalAllowances: 0,
+      otherDeductions: [],
+      assetDisposalProceeds: 0,
+      assetTaxWrittenDownValue: 0,
+      isLargeCompany: false,
+      isMNE: false,
+      foreignIncome: [{ country: 'FR', incomeType: 'business', amount: 20000000, foreignTaxPaid: 8000000 }],
+    });
+    expect(result.taxableProfit).toBe(120000000);
+    expect(result.foreignTaxCredit!.credit).toBe(6000000); // 30% of ₦20M
+    expect(result.taxBreakdown.reduce((sum, b) => sum + b.amount, 0)).toBeCloseTo(result.totalTax, 2);
+  });
+});
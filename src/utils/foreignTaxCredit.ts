@@ -0,0 +1,79 @@
+// Foreign tax credit
+// Foreign income of a Nigerian resident is taxed here as well, so the foreign
+// tax paid on it is credited against the Nigerian tax — never more than the
+// Nigerian tax attributable to that income (its amount at the taxpayer's
+// Nigerian rate), and within the limits of any treaty with the source country.
+
+import { getTaxTreaty, ReliefBasis, TreatyIncomeType } from './taxTreaties';
+import { FxConversion } from './fx';
+import { roundMoney, sumMoney } from './money';
+
+export type ForeignIncomeType = 'employment' | 'business' | TreatyIncomeType | 'other';
+
+export const FOREIGN_INCOME_TYPES: { id: ForeignIncomeType; name: string }[] = [
+  { id: 'employment', name: 'Employment' },
+  { id: 'business', name: 'Business / consulting' },
+  { id: 'dividends', name: 'Dividends' },
+  { id: 'interest', name: 'Interest' },
+  { id: 'royalties', name: 'Royalties' },
+  { id: 'other', name: 'Other' },
+];
+
+export interface ForeignIncomeLine {
+  id?: string;
+  country: string; // ISO code, see TAX_TREATIES
+  incomeType: ForeignIncomeType;
+  amount: number; // gross, in naira
+  foreignTaxPaid: number; // in naira
+  fx?: FxConversion; // set when entered in another currency
+}
+
+export interface ForeignTaxCreditLine {
+  line: ForeignIncomeLine;
+  country: string;
+  relief: ReliefBasis;
+  creditableForeignTax: number; // foreign tax within the treaty rate
+  nigerianTaxAttributable: number;
+  credit: number;
+}
+
+export interface ForeignTaxCreditResult {
+  foreignIncome: number;
+  foreignTaxPaid: number;
+  credit: number;
+  lines: ForeignTaxCreditLine[];
+}
+
+export function totalForeignIncome(lines: ForeignIncomeLine[]): number {
+  return sumMoney(lines.map((line) => Math.max(0, line.amount)));
+}
+
+// nigerianRate is the rate the foreign income bears here — the average PIT
+// rate for individuals, the CIT rate for companies
+export function calculateForeignTaxCredit(lines: ForeignIncomeLine[], nigerianRate: number): ForeignTaxCreditResult {
+  const credits = lines.map((line): ForeignTaxCreditLine => {
+    const treaty = getTaxTreaty(line.country);
+    const amount = Math.max(0, line.amount);
+    const paid = Math.max(0, line.foreignTaxPaid);
+    const treatyRate = line.incomeType in treaty.withholdingRates
+      ? treaty.withholdingRates[line.incomeType as TreatyIncomeType]
+      : undefined;
+    const creditableForeignTax = treatyRate !== undefined ? Math.min(paid, amount * treatyRate) : paid;
+    const nigerianTaxAttributable = roundMoney(amount * Math.max(0, nigerianRate), 'credit');
+    return {
+      line,
+      country: treaty.country,
+      relief: treaty.relief,
+      creditableForeignTax,
+      nigerianTaxAttributable,
+      credit: roundMoney(Math.min(creditableForeignTax, nigerianTaxAttributable * treaty.creditLimit), 'credit'),
+    };
+  });
+
+  return {
+    foreignIncome: totalForeignIncome(lines),
+    foreignTaxPaid: sumMoney(lines.map((line) => Math.max(0, line.foreignTaxPaid))),
+    credit: sumMoney(credits.map((c) => c.credit)),
+    lines: credits,
+  };
+}
@@ -0,0 +1,53 @@
+import { FxRate, convertCurrency, convertToNaira, findFxRate, parseFxRatesCsv, toLedgerAmount, upsertFxRate } from './fx';
+
+const rates: FxRate[] = [
+  { currency: 'USD', date: '2026-01-01', rate: 1500 },
+  { currency: 'USD', date: '2026-12-31', rate: 1600 },
+  { currency: 'EUR', date: '2026-12-31', rate: 1750 },
+];
+
+describe('findFxRate', () => {
+  it('uses the latest rate on or before the date', () => {
+    expect(findFxRate(rates, 'USD', '2026-06-30')!.rate).toBe(1500);
+    expect(findFxRate(rates, 'USD', '2027-03-01')!.rate).toBe(1600);
+    expect(findFxRate(rates, 'USD', '2025-12-31')).toBeNull();
+    expect(findFxRate(rates, 'NGN', '2020-01-01')!.rate).toBe(1);
+  });
+
+  it('replaces a rate for the same currency and date', () => {
+    const updated = upsertFxRate(rates, { currency: 'USD', date: '2026-12-31', rate: 1650 });
+    expect(updated).toHaveLength(3);
+    expect(findFxRate(updated, 'USD', '2026-12-31')!.rate).toBe(1650);
+  });
+});
+
+describe('conversion', () => {
+  it('converts to naira and records the rate used', () => {
+    expect(convertToNaira(rates, 1000, 'USD', '2026-12-31', 'Digital asset profit')).toEqual({
+      label: 'Digital asset profit', currency: 'USD', amount: 1000, naira: 1600000, rate: 1600, rateDate: '2026-12-31',
+    });
+    expect(convertToNaira(rates, 1000, 'GBP', '2026-12-31')).toBeNull();
+  });
+
+  it('crosses through naira for the EUR MNE threshold', () => {
+    expect(convertCurrency(rates, 875000000, 'USD', 'EUR', '2026-12-31')).toBeCloseTo(800000000, 2);
+  });
+
+  it('keeps the original amount and rate on ledger entries', () => {
+    expect(toLedgerAmount(rates, 200, 'USD', new Date('2026-03-15'))).toEqual({
+      amount: 300000, currency: 'USD', originalAmount: 200, fxRate: 1500,
+    });
+    expect(toLedgerAmount(rates, 5000, 'NGN', '2026-03-15')).toEqual({ amount: 5000, currency: 'NGN' });
+  });
+});
+
+describe('parseFxRatesCsv', () => {
+  it('imports good rows and reports bad ones', () => {
+    const { rates: imported, errors } = parseFxRatesCsv(
+      'Currency,Date,Rate\nusd,2026-12-31,"1,600.25"\nXYZ,2026-12-31,10\nEUR,31/12/2026,1750\nGBP,2026-12-31,0\n'
+    );
+    expect(imported).toEqual([{ currency: 'USD', date: '2026-12-31', rate: 1600.25 }]);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/^Line 3/);
+  });
+});
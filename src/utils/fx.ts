@@ -0,0 +1,132 @@
+// Foreign currency amounts and the exchange rate table
+// Every figure the tax engines see is in naira. Amounts entered in another
+// currency are converted at the rate in force on the transaction date, or at
+// the year-end rate for annual figures, using the latest rate on or before
+// that date. Rates are entered by hand or imported from a CSV of
+// currency,date,rate rows and kept in the browser (see FxRateTable).
+
+import { parseCsvRecords } from './csv';
+
+export type CurrencyCode = 'NGN' | 'USD' | 'EUR' | 'GBP' | 'CAD' | 'CNY' | 'ZAR' | 'GHS' | 'AED';
+
+export const CURRENCIES: { code: CurrencyCode; name: string; symbol: string }[] = [
+  { code: 'NGN', name: 'Nigerian naira', symbol: '₦' },
+  { code: 'USD', name: 'US dollar', symbol: '$' },
+  { code: 'EUR', name: 'Euro', symbol: '€' },
+  { code: 'GBP', name: 'Pound sterling', symbol: '£' },
+  { code: 'CAD', name: 'Canadian dollar', symbol: 'C$' },
+  { code: 'CNY', name: 'Chinese yuan', symbol: '¥' },
+  { code: 'ZAR', name: 'South African rand', symbol: 'R' },
+  { code: 'GHS', name: 'Ghanaian cedi', symbol: 'GH₵' },
+  { code: 'AED', name: 'UAE dirham', symbol: 'AED ' },
+];
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  CURRENCIES.some((c) => c.code === value);
+
+export interface FxRate {
+  currency: CurrencyCode;
+  date: string; // YYYY-MM-DD the rate applies from
+  rate: number; // naira per unit of currency
+}
+
+// A converted amount, kept on results so reports can show the rate used
+export interface FxConversion {
+  label: string;
+  currency: CurrencyCode;
+  amount: number; // in currency
+  naira: number;
+  rate: number;
+  rateDate: string;
+}
+
+// Adds or replaces the rate for a currency and date, newest first
+export function upsertFxRate(rates: FxRate[], rate: FxRate): FxRate[] {
+  return [...rates.filter((r) => r.currency !== rate.currency || r.date !== rate.date), rate]
+    .sort((a, b) => b.date.localeCompare(a.date) || a.currency.localeCompare(b.currency));
+}
+
+export const yearEndDate = (taxYear: number): string => `${taxYear}-12-31`;
+
+const toDateKey = (date: string | Date): string =>
+  typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+
+// The latest rate on or before the date. Naira always converts at 1.
+export function findFxRate(rates: FxRate[], currency: CurrencyCode, date: string | Date): FxRate | null {
+  const key = toDateKey(date);
+  if (currency === 'NGN') return { currency, date: key, rate: 1 };
+  return rates
+    .filter((r) => r.currency === currency && r.date <= key)
+    .reduce<FxRate | null>((latest, r) => (!latest || r.date > latest.date ? r : latest), null);
+}
+
+// Null when there is no rate for the currency on or before the date
+export function convertToNaira(
+  rates: FxRate[],
+  amount: number,
+  currency: CurrencyCode,
+  date: string | Date,
+  label = '',
+): FxConversion | null {
+  const rate = findFxRate(rates, currency, date);
+  if (!rate) return null;
+  return { label, currency, amount, naira: amount * rate.rate, rate: rate.rate, rateDate: rate.date };
+}
+
+// Cross rate through naira, e.g. a group's USD turnover against a EUR threshold
+export function convertCurrency(
+  rates: FxRate[],
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: string | Date,
+): number | null {
+  const fromRate = findFxRate(rates, from, date);
+  const toRate = findFxRate(rates, to, date);
+  if (!fromRate || !toRate) return null;
+  return (amount * fromRate.rate) / toRate.rate;
+}
+
+// Amount fields for a revenue or expense entry, converted at the rate on the
+// transaction date. The server recomputes amount from originalAmount × fxRate.
+export function toLedgerAmount(
+  rates: FxRate[],
+  amount: number,
+  currency: CurrencyCode,
+  date: string | Date,
+): { amount: number; currency: CurrencyCode; originalAmount?: number; fxRate?: number } | null {
+  if (currency === 'NGN') return { amount, currency };
+  const conversion = convertToNaira(rates, amount, currency, date);
+  return conversion && { amount: conversion.naira, currency, originalAmount: amount, fxRate: conversion.rate };
+}
+
+// "USD 1 = ₦1,520.50 (31 Dec 2026)"
+export function describeFxRate(conversion: Pick<FxConversion, 'currency' | 'rate' | 'rateDate'>): string {
+  const date = new Date(`${conversion.rateDate}T00:00:00Z`).toLocaleDateString('en-GB', {
+    day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC',
+  });
+  const rate = conversion.rate.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 4 });
+  return `${conversion.currency} 1 = ₦${rate} (${date})`;
+}
+
+// CSV import: currency,date,rate with a header row. Good rows are returned
+// even when others fail so a long history isn't rejected for one typo.
+export function parseFxRatesCsv(text: string): { rates: FxRate[]; errors: string[] } {
+  const rates: FxRate[] = [];
+  const errors: string[] = [];
+  for (const { line, values } of parseCsvRecords(text)) {
+    const currency = values.currency?.toUpperCase();
+    const date = values.date ?? '';
+    const rate = Number((values.rate ?? '').replace(/[₦,\s]/g, ''));
+    if (!isCurrencyCode(currency) || currency === 'NGN') {
+      errors.push(`Line ${line}: unknown currency "${values.currency ?? ''}"`);
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      errors.push(`Line ${line}: date must be YYYY-MM-DD`);
+    } else if (!(rate > 0)) {
+      errors.push(`Line ${line}: rate must be a positive number of naira`);
+    } else {
+      rates.push({ currency, date, rate });
+    }
+  }
+  return { rates, errors };
+}
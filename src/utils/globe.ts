@@ -0,0 +1,102 @@
+// Pillar Two GloBE top-up for large companies and MNE subsidiaries
+// GloBE income is the accounting profit before tax with the Model Rules
+// adjustments; adjusted covered taxes are the income taxes charged on it. If
+// covered taxes fall below the minimum rate of GloBE income, the shortfall
+// percentage is charged on the excess profit — GloBE income less the
+// substance-based income exclusion for payroll and tangible assets.
+
+export interface GloBEAdjustments {
+  profitBeforeTax?: number; // accounting profit; defaults to the profit the engine taxes
+  excludedDividends?: number; // dividends on qualifying shareholdings
+  excludedEquityGains?: number; // gains on qualifying shareholdings (losses as negative)
+  policyDisallowedExpenses?: number; // bribes, fines and penalties added back
+  otherIncomeAdjustments?: number;
+  deferredTaxAdjustment?: number; // deferred tax recast at the minimum rate
+  otherCoveredTaxAdjustments?: number;
+  eligiblePayrollCosts?: number;
+  eligibleTangibleAssets?: number; // carrying value of property, plant and equipment
+}
+
+export interface GloBEResult {
+  minimumRate: number;
+  profitBeforeTax: number;
+  incomeAdjustments: number;
+  globeIncome: number;
+  currentCoveredTaxes: number;
+  coveredTaxAdjustments: number;
+  adjustedCoveredTaxes: number;
+  effectiveRate: number; // adjusted covered taxes / GloBE income
+  topUpPercentage: number;
+  payrollCarveOutRate: number;
+  payrollCarveOut: number;
+  tangibleAssetCarveOutRate: number;
+  tangibleAssetCarveOut: number;
+  substanceBasedIncomeExclusion: number;
+  excessProfit: number;
+  topUpTax: number;
+}
+
+// Model Rules Article 9.2 transitional carve-out rates by the calendar year
+// the fiscal year starts in; 5% each from 2033
+const SBIE_TRANSITION: Record<number, { payroll: number; tangibleAssets: number }> = {
+  2023: { payroll: 0.100, tangibleAssets: 0.080 },
+  2024: { payroll: 0.098, tangibleAssets: 0.078 },
+  2025: { payroll: 0.096, tangibleAssets: 0.076 },
+  2026: { payroll: 0.094, tangibleAssets: 0.074 },
+  2027: { payroll: 0.092, tangibleAssets: 0.072 },
+  2028: { payroll: 0.090, tangibleAssets: 0.070 },
+  2029: { payroll: 0.082, tangibleAssets: 0.066 },
+  2030: { payroll: 0.074, tangibleAssets: 0.062 },
+  2031: { payroll: 0.066, tangibleAssets: 0.058 },
+  2032: { payroll: 0.058, tangibleAssets: 0.054 },
+};
+
+export function sbieRates(taxYear: number): { payroll: number; tangibleAssets: number } {
+  if (taxYear < 2023) return SBIE_TRANSITION[2023];
+  return SBIE_TRANSITION[taxYear] ?? { payroll: 0.05, tangibleAssets: 0.05 };
+}
+
+export function calculateGloBETopUp(
+  adjustments: GloBEAdjustments,
+  base: { taxYear: number; profit: number; coveredTaxes: number; minimumRate: number }
+): GloBEResult {
+  const profitBeforeTax = adjustments.profitBeforeTax ?? base.profit;
+  const incomeAdjustments =
+    (adjustments.policyDisallowedExpenses ?? 0) +
+    (adjustments.otherIncomeAdjustments ?? 0) -
+    (adjustments.excludedDividends ?? 0) -
+    (adjustments.excludedEquityGains ?? 0);
+  const globeIncome = profitBeforeTax + incomeAdjustments;
+
+  const coveredTaxAdjustments = (adjustments.deferredTaxAdjustment ?? 0) + (adjustments.otherCoveredTaxAdjustments ?? 0);
+  const adjustedCoveredTaxes = base.coveredTaxes + coveredTaxAdjustments;
+
+  // No top-up for a GloBE loss
+  const effectiveRate = globeIncome > 0 ? adjustedCoveredTaxes / globeIncome : 0;
+  const topUpPercentage = globeIncome > 0 ? Math.max(0, base.minimumRate - effectiveRate) : 0;
+
+  const rates = sbieRates(base.taxYear);
+  const payrollCarveOut = Math.max(0, adjustments.eligiblePayrollCosts ?? 0) * rates.payroll;
+  const tangibleAssetCarveOut = Math.max(0, adjustments.eligibleTangibleAssets ?? 0) * rates.tangibleAssets;
+  const substanceBasedIncomeExclusion = payrollCarveOut + tangibleAssetCarveOut;
+  const excessProfit = Math.max(0, globeIncome - substanceBasedIncomeExclusion);
+
+  return {
+    minimumRate: base.minimumRate,
+    profitBeforeTax,
+    incomeAdjustments,
+    globeIncome,
+    currentCoveredTaxes: base.coveredTaxes,
+    coveredTaxAdjustments,
+    adjustedCoveredTaxes,
+    effectiveRate,
+    topUpPercentage,
+    payrollCarveOutRate: rates.payroll,
+    payrollCarveOut,
+    tangibleAssetCarveOutRate: rates.tangibleAssets,
+    tangibleAssetCarveOut,
+    substanceBasedIncomeExclusion,
+    excessProfit,
+    topUpTax: topUpPercentage * excessProfit,
+  };
+}
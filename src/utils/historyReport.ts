@@ -1,6 +1,7 @@
 import { jsPDF } from 'jspdf';
 import { TaxCalculation } from '../context/AuthContext';
 import { formatCurrency } from './taxCalculations';
+import { getTaxRuleSetById } from './taxRules';
 
 const MARGIN_LEFT = 20;
 const MARGIN_RIGHT = 20;
@@ -85,7 +86,14 @@ export function downloadTaxCalculationPDF(calc: TaxCalculation): void {
   doc.text('WittyTax', MARGIN_LEFT, 20);
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  doc.text(`${isPersonal ? 'Personal' : 'Company'} Income Tax Report — NTA 2025`, MARGIN_LEFT, 27);
+  // Older saved calculations predate the rule registry and were all NTA 2025
+  const ruleSetName = getTaxRuleSetById(calc.ruleSetId ?? r.ruleSetId ?? 'nta-2025')?.name ?? 'Nigeria Tax Act 2025';
+  const taxYearLabel = calc.taxYear ?? r.taxYear;
+  doc.text(
+    `${isPersonal ? 'Personal' : 'Company'} Income Tax Report — ${taxYearLabel ? `${taxYearLabel} · ` : ''}${ruleSetName}`,
+    MARGIN_LEFT,
+    27
+  );
   doc.text(`Calculated: ${calc.date.toLocaleDateString('en-NG', { dateStyle: 'medium' })}`, amountX, 27, { align: 'right' });
   doc.setTextColor(...GRAY_700);
   yPos = 46;
@@ -103,13 +111,13 @@ export function downloadTaxCalculationPDF(calc: TaxCalculation): void {
     row('Assessable Profit', formatCurrency(r.assessableProfit || 0));
     row('Total Deductions', `-${formatCurrency(r.totalDeductions || 0)}`);
     row('Taxable Profit', formatCurrency(r.taxableProfit || 0), { bold: true });
-    row('Company Classification', r.companySize === 'small' ? 'Small' : r.companySize === 'large' ? 'Large' : 'Big');
+    row('Company Classification', r.companySize === 'small' ? 'Small' : r.companySize === 'medium' ? 'Medium' : r.companySize === 'large' ? 'Large' : 'Big');
   }
 
   yPos += 6;
 
   // Pie chart — matches the in-app "Tax vs Net Income/Profit" chart colors
-  const isBigOrLarge = r.companySize === 'big' || r.companySize === 'large';
+  const isBigOrLarge = r.companySize === 'big' || r.companySize === 'medium' || r.companySize === 'large';
   const slices: PieSlice[] = isPersonal
     ? [
         { label: 'Tax Liability', value: r.totalTax || 0, color: '#ef4444' },
@@ -118,7 +126,7 @@ export function downloadTaxCalculationPDF(calc: TaxCalculation): void {
     : isBigOrLarge
     ? [
         { label: 'Corporate Tax', value: r.corporateTax || 0, color: '#ef4444' },
-        { label: 'Development Levy', value: r.developmentLevy || 0, color: '#f97316' },
+        { label: r.levyName || 'Development Levy', value: r.developmentLevy || 0, color: '#f97316' },
         { label: 'Net Profit', value: r.netProfit || 0, color: '#22c55e' },
       ]
     : [
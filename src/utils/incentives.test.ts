@@ -0,0 +1,84 @@
+import { calculateCompanyTax, CompanyTaxInput } from './taxCalculations';
+
+const baseInput: CompanyTaxInput = {
+  taxYear: 2026,
+  annualTurnover: 200000000,
+  fixedAssets: 0,
+  assessableProfit: 10000000,
+  isProfessionalService: false,
+  isNonResident: false,
+  capitalAllowances: 0,
+  otherDeductions: [],
+  assetDisposalProceeds: 0,
+  assetTaxWrittenDownValue: 0,
+  isLargeCompany: false,
+  isMNE: false,
+};
+
+const outcome = (result: ReturnType<typeof calculateCompanyTax>, name: string) =>
+  result.incentives.find((incentive) => incentive.name === name)!;
+
+describe('sector incentives in the company computation', () => {
+  it('exempts a free zone company that exports enough of its turnover', () => {
+    const result = calculateCompanyTax({ ...baseInput, businessSector: 'export_oriented', inFreeZone: true, exportShare: 0.8 });
+    expect(result.taxHolidaySavings).toBe(3400000); // ₦3M CIT + ₦400k levy
+    expect(result.totalTax).toBe(0);
+    expect(outcome(result, 'EPZ/FTZ Tax Exemption')).toMatchObject({ eligible: true, amount: 3400000 });
+    expect(outcome(result, 'Export Tax Holiday').note).toBe('Not available to companies in an EPZ or FTZ');
+  });
+
+  it('lists the requirement a company does not meet', () => {
+    const result = calculateCompanyTax({ ...baseInput, businessSector: 'export_oriented', inFreeZone: true, exportShare: 0.5 });
+    expect(result.taxHolidaySavings).toBe(0);
+    expect(outcome(result, 'EPZ/FTZ Tax Exemption')).toMatchObject({
+      eligible: false,
+      note: 'Exports must be at least 75% of turnover',
+    });
+  });
+
+  it('adds the enhanced part of a deduction incentive to the deductions', () => {
+    const result = calculateCompanyTax({
+      ...baseInput,
+      businessSector: 'technology',
+      incentiveClaims: { researchExpenditure: 5000000 },
+    });
+    expect(result.incentiveDeductions).toBe(1000000); // the extra 20% of ₦5M
+    expect(result.taxableProfit).toBe(9000000);
+    expect(result.workings.some((step) => step.topic === 'incentiveDeduction')).toBe(true);
+  });
+
+  it('caps an investment credit at the tax remaining', () => {
+    const result = calculateCompanyTax({
+      ...baseInput,
+      businessSector: 'gas_utilization',
+      incentiveClaims: { gasInfrastructureInvestment: 100000000 },
+    });
+    expect(result.incentiveCredits).toBe(3400000);
+    expect(result.totalTax).toBe(0);
+    expect(result.taxBreakdown.reduce((sum, item) => sum + item.amount, 0)).toBeCloseTo(result.totalTax);
+  });
+
+  it('gives no EDI credit below the sector\'s minimum qualifying capital expenditure', () => {
+    const result = calculateCompanyTax({
+      ...baseInput,
+      businessSector: 'manufacturing',
+      qualifyingCapitalExpenditure: 199999999.99,
+    });
+    expect(result.ediCredit).toBe(0);
+    expect(outcome(result, 'EDI Tax Credit')).toMatchObject({
+      eligible: false,
+      note: 'Qualifying capital expenditure must be at least ₦200,000,000.00',
+    });
+  });
+
+  it('leaves EDI credits out of the years before NTA 2025', () => {
+    const result = calculateCompanyTax({
+      ...baseInput,
+      taxYear: 2025,
+      businessSector: 'manufacturing',
+      qualifyingCapitalExpenditure: 10000000,
+    });
+    expect(result.ediCredit).toBe(0);
+    expect(outcome(result, 'EDI Tax Credit').eligible).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+// Sector incentives
+// Each incentive in BUSINESS_TYPES carries a rule: the checks it needs against
+// the company's inputs and its effect on the computation. The company
+// calculation checks every incentive of the sector, applies those the company
+// qualifies for, and lists each one in the result with the amount it gave or
+// the requirement that was not met.
+
+import { getBusinessTypeById, BusinessSector, IncentiveClaimField, IncentiveEffect, TaxIncentive } from './businessTypes';
+import type { CompanySize } from './taxRules';
+import { formatMoney } from './money';
+
+export type IncentiveClaims = Partial<Record<IncentiveClaimField, number>>;
+
+export const INCENTIVE_CLAIM_LABELS: Record<IncentiveClaimField, string> = {
+  greenInvestment: 'Investment in certified green energy assets',
+  researchExpenditure: 'Qualifying R&D expenditure',
+  localManufacturingCosts: 'Local drug manufacturing costs',
+  gasInfrastructureInvestment: 'Gas infrastructure investment',
+};
+
+// Company facts the eligibility checks read
+export interface IncentiveFacts {
+  companySize: CompanySize;
+  ediRegime: boolean;
+  qualifyingCapitalExpenditure: number; // under EDI certificates, plus QCE entered for the year
+  holidayShare: number; // share of the year a registered holiday covers, 0 when none
+  exportShare: number;
+  inFreeZone: boolean;
+  claims: IncentiveClaims;
+}
+
+export interface IncentiveOutcome {
+  name: string;
+  type: TaxIncentive['type'];
+  effect: IncentiveEffect['kind'];
+  eligible: boolean;
+  amount: number; // deduction granted for deductions, tax saved otherwise
+  note: string | null; // the requirement not met, or how a relief outside the computation applies
+}
+
+// Incentives of the sector that the calculation can apply
+export function sectorIncentives(sector: string): TaxIncentive[] {
+  return getBusinessTypeById(sector as BusinessSector)?.taxIncentives.filter((incentive) => incentive.rule) ?? [];
+}
+
+// The first requirement the company does not meet, or null when it qualifies
+export function incentiveShortfall(incentive: TaxIncentive, facts: IncentiveFacts): string | null {
+  if (!incentive.rule) return 'Not modelled in the calculation';
+  const { eligibility, effect } = incentive.rule;
+
+  if (eligibility.smallCompany === true && facts.companySize !== 'small') {
+    return 'Only for small companies';
+  }
+  if (eligibility.smallCompany === false && facts.companySize === 'small') {
+    return 'Small companies already pay no CIT or levy';
+  }
+  if (eligibility.ediRegime && !facts.ediRegime) {
+    return 'EDI credits are available from the NTA 2025 tax years';
+  }
+  if (incentive.qceThreshold !== undefined && facts.qualifyingCapitalExpenditure < incentive.qceThreshold) {
+    return `Qualifying capital expenditure must be at least ${formatMoney(incentive.qceThreshold)}`;
+  }
+  if (eligibility.inFreeZone === true && !facts.inFreeZone) {
+    return 'Only for companies in an EPZ or FTZ';
+  }
+  if (eligibility.inFreeZone === false && facts.inFreeZone) {
+    return 'Not available to companies in an EPZ or FTZ';
+  }
+  if (eligibility.minExportShare !== undefined && facts.exportShare < eligibility.minExportShare) {
+    return `Exports must be at least ${Math.round(eligibility.minExportShare * 100)}% of turnover`;
+  }
+  if (eligibility.holidayApproved && facts.holidayShare <= 0) {
+    return 'No registered tax holiday covers this tax year';
+  }
+  if ((effect.kind === 'deduction' || effect.kind === 'credit') && !((facts.claims[effect.claim] ?? 0) > 0)) {
+    return `No ${INCENTIVE_CLAIM_LABELS[effect.claim].toLowerCase()} claimed`;
+  }
+  return null;
+}
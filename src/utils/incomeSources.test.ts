@@ -0,0 +1,82 @@
+import { calculatePersonalTax, PersonalTaxInput } from './taxCalculations';
+import { IncomeSource } from './incomeSources';
+
+const baseInput: PersonalTaxInput = {
+  taxYear: 2026,
+  annualIncome: 5000000,
+  applyPension: false,
+  applyNHF: false,
+  annualRent: 0,
+  additionalDeductions: [],
+  ocrDeductions: 0,
+};
+
+const source = (fields: Partial<IncomeSource> & Pick<IncomeSource, 'type'>): IncomeSource => ({
+  id: fields.type,
+  description: '',
+  grossAmount: 0,
+  expenses: 0,
+  whtDeducted: 0,
+  ...fields,
+});
+
+describe('personal income sources', () => {
+  it('adds rental profit after its expenses and settles tax with the WHT deducted', () => {
+    const result = calculatePersonalTax({
+      ...baseInput,
+      incomeSources: [source({ type: 'rent', grossAmount: 3000000, expenses: 500000, whtDeducted: 300000 })],
+    });
+    expect(result.incomeSourcesTaxable).toBe(2500000);
+    expect(result.taxableIncome).toBe(7500000);
+    expect(result.whtCreditApplied).toBe(300000);
+    expect(result.taxPayable).toBeCloseTo(result.totalTax - 300000, 2);
+    // salary 5M of 7.5M, so rent bears a third of the tax on the bands
+    expect(result.incomeSources[0].tax).toBeCloseTo(result.totalTax / 3, 2);
+  });
+
+  it('charges final WHT on dividends instead of the bands', () => {
+    const withDividends = calculatePersonalTax({
+      ...baseInput,
+      incomeSources: [source({ type: 'dividends', grossAmount: 1000000, whtDeducted: 100000, finalWht: true })],
+    });
+    const salaryOnly = calculatePersonalTax(baseInput);
+    expect(withDividends.taxableIncome).toBe(salaryOnly.taxableIncome);
+    expect(withDividends.totalTax).toBe(salaryOnly.totalTax + 100000);
+    expect(withDividends.taxPayable).toBe(salaryOnly.totalTax);
+  });
+
+  it('does not set a business loss against salary', () => {
+    const result = calculatePersonalTax({
+      ...baseInput,
+      incomeSources: [source({ type: 'business', grossAmount: 2000000, expenses: 2600000 })],
+    });
+    expect(result.incomeSources[0]).toMatchObject({ profit: 0, lossNotRelieved: 600000 });
+    expect(result.taxableIncome).toBe(5000000);
+  });
+
+  it('ignores expenses entered against interest', () => {
+    const result = calculatePersonalTax({
+      ...baseInput,
+      incomeSources: [source({ type: 'interest', grossAmount: 400000, expenses: 100000 })],
+    });
+    expect(result.incomeSourcesTaxable).toBe(400000);
+  });
+
+  it('taxes a non-resident\'s rent by final WHT', () => {
+    const result = calculatePersonalTax({
+      ...baseInput,
+      residency: { daysPresent: 30, hasPlaceOfAbode: false, employmentLocation: 'abroad' },
+      incomeSources: [source({ type: 'rent', grossAmount: 2000000 })],
+    });
+    expect(result.incomeSources[0]).toMatchObject({ finalWht: true, taxableIncome: 0, tax: 200000 });
+  });
+
+  it('rejects rent entered both as final WHT income and as an income source', () => {
+    expect(() => calculatePersonalTax({
+      ...baseInput,
+      residency: { daysPresent: 30, hasPlaceOfAbode: false, employmentLocation: 'abroad' },
+      finalWhtIncome: { rent: 2000000 },
+      incomeSources: [source({ type: 'rent', grossAmount: 2000000 })],
+    })).toThrow(/rent/);
+  });
+});
@@ -0,0 +1,77 @@
+// Personal income sources other than employment
+// Rent, interest, dividends and sole-trader business profit are each entered
+// with their own allowable expenses and the WHT already deducted from them.
+// A source's profit (income less its expenses, never below zero — a loss is
+// not set against other income) joins salary in taxable income, except
+// dividends and interest whose WHT is the final tax: they are charged at the
+// final WHT rate instead of through the bands. A non-resident's rent,
+// interest and dividends are always taxed by final WHT. WHT already deducted
+// from any source settles the tax payable.
+
+import { PersonalTaxRules } from './taxRules';
+import { roundMoney } from './money';
+
+export type IncomeSourceType = 'rent' | 'interest' | 'dividends' | 'business';
+
+export interface IncomeSource {
+  id: string;
+  type: IncomeSourceType;
+  description: string; // e.g. the property, bank or business
+  grossAmount: number;
+  expenses: number; // allowable expenses of the source — rent and business only
+  whtDeducted: number; // WHT already suffered on the income
+  finalWht?: boolean; // dividends and interest whose WHT is the final tax
+}
+
+export interface IncomeSourceResult {
+  source: IncomeSource;
+  name: string;
+  expensesAllowed: number;
+  profit: number; // gross less allowable expenses, not below zero
+  lossNotRelieved: number; // expenses above gross — not set against other income
+  finalWht: boolean;
+  taxableIncome: number; // added to taxable income, 0 when taxed by final WHT
+  finalWhtRate: number;
+  tax: number; // final WHT, or the source's share of the tax on the bands
+}
+
+export const INCOME_SOURCE_TYPES: {
+  id: IncomeSourceType;
+  name: string;
+  hasExpenses: boolean;
+  finalWhtOption: boolean; // a resident can treat the WHT as final
+}[] = [
+  { id: 'rent', name: 'Rental income', hasExpenses: true, finalWhtOption: false },
+  { id: 'interest', name: 'Interest', hasExpenses: false, finalWhtOption: true },
+  { id: 'dividends', name: 'Dividends', hasExpenses: false, finalWhtOption: true },
+  { id: 'business', name: 'Sole-trader business profit', hasExpenses: true, finalWhtOption: false },
+];
+
+// A source's profit and whether it is taxed by final WHT; the banded share
+// of tax is filled in by the personal calculation
+export function assessIncomeSource(source: IncomeSource, isResident: boolean, rules: PersonalTaxRules): IncomeSourceResult {
+  const type = INCOME_SOURCE_TYPES.find((t) => t.id === source.type)!;
+  const expensesAllowed = type.hasExpenses ? source.expenses : 0;
+  const profit = Math.max(0, source.grossAmount - expensesAllowed);
+  const lossNotRelieved = Math.max(0, expensesAllowed - source.grossAmount);
+
+  let finalWhtRate = 0;
+  if (source.type !== 'business' && !isResident) {
+    finalWhtRate = rules.residency.nonResidentWhtRates[source.type];
+  } else if ((source.type === 'dividends' || source.type === 'interest') && source.finalWht) {
+    finalWhtRate = rules.residentFinalWhtRates[source.type];
+  }
+  const finalWht = finalWhtRate > 0;
+
+  return {
+    source,
+    name: type.name,
+    expensesAllowed,
+    profit,
+    lossNotRelieved,
+    finalWht,
+    taxableIncome: finalWht ? 0 : profit,
+    finalWhtRate,
+    tax: finalWht ? roundMoney(source.grossAmount * finalWhtRate, 'WHT') : 0,
+  };
+}
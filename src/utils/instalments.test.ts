@@ -0,0 +1,57 @@
+import {
+  addMonths,
+  generateInstalmentSchedule,
+  reconcileInstalmentSchedule,
+  recordInstalmentPayment,
+  summariseInstalments,
+} from './instalments';
+
+const estimate = { taxYear: 2026, taxPayable: 10000000 };
+
+describe('addMonths', () => {
+  it('keeps month-end dates at month end', () => {
+    expect(addMonths('2025-12-31', 6)).toBe('2026-06-30');
+    expect(addMonths('2026-06-30', -1)).toBe('2026-05-31');
+    expect(addMonths('2026-03-15', 3)).toBe('2026-06-15');
+  });
+});
+
+describe('generateInstalmentSchedule', () => {
+  it('spreads the estimate over monthly instalments ending on the filing date', () => {
+    const schedule = generateInstalmentSchedule(estimate, '2025-12-31');
+    expect(schedule.filingDueDate).toBe('2026-06-30');
+    expect(schedule.instalments.map((i) => i.dueDate)).toEqual(['2026-04-30', '2026-05-31', '2026-06-30']);
+    expect(schedule.instalments.map((i) => i.amount)).toEqual([3333333.33, 3333333.33, 3333333.34]);
+  });
+
+  it('rejects more instalments than the law allows', () => {
+    expect(() => generateInstalmentSchedule(estimate, '2025-12-31', 4)).toThrow(RangeError);
+  });
+});
+
+describe('reconcileInstalmentSchedule', () => {
+  it('rebalances the unpaid instalments to the final tax', () => {
+    let schedule = generateInstalmentSchedule(estimate, '2025-12-31');
+    schedule = recordInstalmentPayment(schedule, 1, '2026-04-28', 3000000);
+    schedule = reconcileInstalmentSchedule(schedule, { taxPayable: 12000000 });
+
+    expect(schedule.finalTax).toBe(12000000);
+    expect(schedule.instalments.map((i) => i.amount)).toEqual([3333333.33, 4500000, 4500000]);
+    const summary = summariseInstalments(schedule, '2026-05-01');
+    expect(summary.balance).toBe(9000000);
+    expect(summary.nextDue?.number).toBe(2);
+  });
+
+  it('adds a balancing payment once every instalment is paid, and reports overpayments', () => {
+    let schedule = generateInstalmentSchedule(estimate, '2025-12-31', 1);
+    schedule = recordInstalmentPayment(schedule, 1, '2026-06-30');
+
+    const higher = reconcileInstalmentSchedule(schedule, { taxPayable: 11000000 });
+    expect(higher.instalments).toHaveLength(2);
+    expect(higher.instalments[1]).toMatchObject({ number: 2, amount: 1000000, dueDate: '2026-06-30' });
+
+    const lower = reconcileInstalmentSchedule(schedule, { taxPayable: 8000000 });
+    expect(lower.instalments).toHaveLength(1);
+    expect(summariseInstalments(lower, '2026-07-01').overpayment).toBe(2000000);
+  });
+});
@@ -0,0 +1,156 @@
+// Companies income tax instalments
+// A company may settle its CIT in up to three monthly instalments, the last
+// falling on the due date of the return — six months after the year end
+// (CITA s.55 and s.77). The schedule is built from an estimated computation;
+// when the final computation for the year is saved the unpaid instalments are
+// rebalanced so that payments add up to the final tax.
+
+import { CompanyTaxResult } from './taxCalculations';
+
+export const MAX_INSTALMENTS = 3;
+export const FILING_MONTHS_AFTER_YEAR_END = 6;
+
+export interface Instalment {
+  number: number;
+  dueDate: string; // ISO date
+  amount: number;
+  paidDate: string | null;
+  paidAmount: number;
+}
+
+export interface InstalmentSchedule {
+  taxYear: number;
+  yearEnd: string; // ISO date of the accounting year end
+  filingDueDate: string;
+  estimatedTax: number;
+  finalTax: number | null; // set once a final computation is saved
+  instalments: Instalment[];
+}
+
+export interface InstalmentSummary {
+  taxDue: number; // final tax when known, otherwise the estimate
+  totalPaid: number;
+  balance: number; // still to pay
+  overpayment: number;
+  nextDue: Instalment | null;
+  overdue: Instalment[];
+}
+
+const toIso = (date: Date) => date.toISOString().slice(0, 10);
+
+// Add whole months to a date, keeping month-end dates at month end
+export function addMonths(date: string, months: number): string {
+  const d = new Date(date);
+  if (isNaN(d.getTime())) throw new RangeError(`Invalid date: ${date}`);
+  const year = d.getUTCFullYear();
+  const month = d.getUTCMonth();
+  const day = d.getUTCDate();
+  const isMonthEnd = day === new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const lastDayOfTarget = new Date(Date.UTC(year, month + months + 1, 0)).getUTCDate();
+  return toIso(new Date(Date.UTC(year, month + months, isMonthEnd ? lastDayOfTarget : Math.min(day, lastDayOfTarget))));
+}
+
+// Split an amount into equal parts to the kobo, the remainder on the last part
+function splitAmount(total: number, parts: number): number[] {
+  const kobo = Math.round(Math.max(0, total) * 100);
+  const share = Math.floor(kobo / parts);
+  return Array.from({ length: parts }, (_, i) => (i === parts - 1 ? kobo - share * (parts - 1) : share) / 100);
+}
+
+export function generateInstalmentSchedule(
+  estimate: Pick<CompanyTaxResult, 'taxYear' | 'taxPayable'>,
+  yearEnd: string,
+  count = MAX_INSTALMENTS
+): InstalmentSchedule {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_INSTALMENTS) {
+    throw new RangeError(`Instalments must be between 1 and ${MAX_INSTALMENTS}`);
+  }
+  const filingDueDate = addMonths(yearEnd, FILING_MONTHS_AFTER_YEAR_END);
+  const amounts = splitAmount(estimate.taxPayable, count);
+  return {
+    taxYear: estimate.taxYear,
+    yearEnd: toIso(new Date(yearEnd)),
+    filingDueDate,
+    estimatedTax: Math.max(0, estimate.taxPayable),
+    finalTax: null,
+    instalments: amounts.map((amount, i) => ({
+      number: i + 1,
+      dueDate: addMonths(filingDueDate, i - (count - 1)),
+      amount,
+      paidDate: null,
+      paidAmount: 0,
+    })),
+  };
+}
+
+// Mark an instalment paid, or unpaid again with paidDate null
+export function recordInstalmentPayment(
+  schedule: InstalmentSchedule,
+  number: number,
+  paidDate: string | null,
+  paidAmount?: number
+): InstalmentSchedule {
+  if (!schedule.instalments.some((i) => i.number === number)) {
+    throw new RangeError(`No instalment ${number} in the schedule`);
+  }
+  return {
+    ...schedule,
+    instalments: schedule.instalments.map((i) => {
+      if (i.number !== number) return i;
+      return paidDate === null
+        ? { ...i, paidDate: null, paidAmount: 0 }
+        : { ...i, paidDate, paidAmount: Math.max(0, paidAmount ?? i.amount) };
+    }),
+  };
+}
+
+// Rebalance the unpaid instalments against the final computation. With nothing
+// left unpaid, a balancing payment falls due with the return.
+export function reconcileInstalmentSchedule(
+  schedule: InstalmentSchedule,
+  final: Pick<CompanyTaxResult, 'taxPayable'>
+): InstalmentSchedule {
+  const finalTax = Math.max(0, final.taxPayable);
+  const paid = schedule.instalments.filter((i) => i.paidDate !== null);
+  const unpaid = schedule.instalments.filter((i) => i.paidDate === null);
+  const balance = finalTax - paid.reduce((sum, i) => sum + i.paidAmount, 0);
+
+  let instalments: Instalment[];
+  if (unpaid.length > 0) {
+    const amounts = splitAmount(balance, unpaid.length);
+    instalments = [...paid, ...unpaid.map((i, n) => ({ ...i, amount: amounts[n] }))];
+  } else if (balance > 0.005) {
+    instalments = [
+      ...paid,
+      {
+        number: paid.length + 1,
+        dueDate: schedule.filingDueDate,
+        amount: Math.round(balance * 100) / 100,
+        paidDate: null,
+        paidAmount: 0,
+      },
+    ];
+  } else {
+    instalments = paid;
+  }
+
+  return {
+    ...schedule,
+    finalTax,
+    instalments: instalments.sort((a, b) => a.number - b.number),
+  };
+}
+
+export function summariseInstalments(schedule: InstalmentSchedule, asOf: string): InstalmentSummary {
+  const taxDue = schedule.finalTax ?? schedule.estimatedTax;
+  const totalPaid = schedule.instalments.reduce((sum, i) => sum + i.paidAmount, 0);
+  const unpaid = schedule.instalments.filter((i) => i.paidDate === null && i.amount > 0);
+  return {
+    taxDue,
+    totalPaid,
+    balance: Math.max(0, taxDue - totalPaid),
+    overpayment: Math.max(0, totalPaid - taxDue),
+    nextDue: unpaid.find((i) => i.dueDate >= asOf) ?? null,
+    overdue: unpaid.filter((i) => i.dueDate < asOf),
+  };
+}
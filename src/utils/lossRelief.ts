@@ -0,0 +1,75 @@
+// Company loss carry-forward ledger
+// A year whose allowable deductions exceed its profit leaves an unrelieved
+// loss. The ledger records each loss by the year it arose and relieves it,
+// oldest first, against later years' taxable profit — subject to whatever
+// time limit or annual cap the rule set for the relieving year imposes.
+
+import { LossReliefRule } from './taxRules';
+import { roundKobo, subtractMoney, sumMoney } from './money';
+
+export interface LossLedgerEntry {
+  taxYear: number; // year the loss arose
+  originalLoss: number;
+  remaining: number; // still unrelieved
+}
+
+export interface LossReliefResult {
+  lossBroughtForward: number; // unexpired losses available this year
+  lossRelieved: number;
+  lossCreated: number;
+  lossExpired: number;
+  taxableProfit: number; // after relief, never negative
+  ledger: LossLedgerEntry[]; // closing ledger to carry to the next year
+}
+
+export function totalUnrelievedLoss(ledger: LossLedgerEntry[]): number {
+  return sumMoney(ledger.map((entry) => entry.remaining));
+}
+
+export function applyLossRelief(
+  openingLedger: LossLedgerEntry[],
+  taxYear: number,
+  profitBeforeRelief: number,
+  rule: LossReliefRule
+): LossReliefResult {
+  // Only losses from earlier years can be relieved; a ledger saved for this or
+  // a later year (e.g. when recomputing a past return) is left out
+  const prior = openingLedger
+    .filter((entry) => entry.taxYear < taxYear && entry.remaining > 0)
+    .sort((a, b) => a.taxYear - b.taxYear)
+    .map((entry) => ({ ...entry }));
+
+  const isExpired = (entry: LossLedgerEntry) =>
+    rule.carryForwardYears !== null && taxYear - entry.taxYear > rule.carryForwardYears;
+  const lossExpired = totalUnrelievedLoss(prior.filter(isExpired));
+  const available = prior.filter((entry) => !isExpired(entry));
+  const lossBroughtForward = totalUnrelievedLoss(available);
+
+  let lossRelieved = 0;
+  if (profitBeforeRelief > 0) {
+    const cap = rule.maxOffsetRate !== null ? roundKobo(profitBeforeRelief * rule.maxOffsetRate) : profitBeforeRelief;
+    let capacity = Math.min(cap, lossBroughtForward);
+    for (const entry of available) {
+      if (capacity <= 0) break;
+      const used = Math.min(entry.remaining, capacity);
+      entry.remaining = subtractMoney(entry.remaining, used);
+      capacity = subtractMoney(capacity, used);
+      lossRelieved = sumMoney([lossRelieved, used]);
+    }
+  }
+
+  const lossCreated = profitBeforeRelief < 0 ? -profitBeforeRelief : 0;
+  const ledger = available.filter((entry) => entry.remaining > 0);
+  if (lossCreated > 0) {
+    ledger.push({ taxYear, originalLoss: lossCreated, remaining: lossCreated });
+  }
+
+  return {
+    lossBroughtForward,
+    lossRelieved,
+    lossCreated,
+    lossExpired,
+    taxableProfit: Math.max(0, subtractMoney(profitBeforeRelief, lossRelieved)),
+    ledger,
+  };
+}
@@ -0,0 +1,78 @@
+import { roundMoney, subtractMoney, sumMoney, toKobo } from './money';
+import { calculateCompanyTax, calculatePersonalTax } from './taxCalculations';
+import { calculateVAT, calculateWHT, extractVATAmount } from './vatWhtCalculations';
+
+describe('money helpers', () => {
+  it('rounds to the kobo by the rule for each amount', () => {
+    expect(toKobo(1.005)).toBe(101);
+    expect(toKobo(-1.005)).toBe(-101);
+    expect(roundMoney(10.019, 'PIT')).toBe(10.02);
+    expect(roundMoney(10.019, 'WHT')).toBe(10.01);
+    expect(roundMoney(10.019, 'credit')).toBe(10.01);
+  });
+
+  it('adds and subtracts without float drift', () => {
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(subtractMoney(0.3, 0.1)).toBe(0.2);
+    expect(sumMoney(Array(10).fill(0.1))).toBe(1);
+  });
+});
+
+describe('VAT and WHT in kobo', () => {
+  it('splits a VAT-inclusive amount exactly into net and VAT', () => {
+    const { excl, vat } = extractVATAmount(1000, true);
+    expect(vat).toBe(69.77);
+    expect(excl).toBe(930.23);
+    expect(sumMoney([excl, vat])).toBe(1000);
+  });
+
+  it('totals inclusive lines without drift', () => {
+    const sales = Array.from({ length: 7 }, (_, i) => ({
+      id: String(i), description: 'Sale', amount: 333.33, supplyType: 'standard' as const, isInclusive: true,
+    }));
+    const result = calculateVAT(sales, []);
+    expect(result.totalSalesInclVAT).toBe(2333.31);
+    expect(sumMoney([result.totalSalesExclVAT, result.outputVAT])).toBe(result.totalSalesInclVAT);
+  });
+
+  it('rounds WHT down and keeps gross = WHT + net', () => {
+    const summary = calculateWHT([
+      { id: 'a', description: 'Fee', grossAmount: 1234.56, paymentType: 'professional', recipientType: 'individual' },
+    ]);
+    expect(summary.totalWHT).toBe(61.72);
+    expect(sumMoney([summary.totalWHT, summary.totalNet])).toBe(summary.totalGross);
+  });
+});
+
+describe('breakdowns reconcile exactly to totals', () => {
+  it('personal tax', () => {
+    const result = calculatePersonalTax({
+      taxYear: 2026, annualIncome: 12345678.91, applyPension: true, applyNHF: true,
+      annualRent: 987654.32, additionalDeductions: [], ocrDeductions: 0,
+    });
+    expect(sumMoney(result.taxBreakdown.map((b) => b.tax))).toBe(result.totalTax);
+    expect(toKobo(result.totalTax) / 100).toBe(result.totalTax);
+  });
+
+  it('company tax with loss relief, credits and digital assets', () => {
+    const result = calculateCompanyTax({
+      taxYear: 2026,
+      annualTurnover: 987654321.99,
+      fixedAssets: 0,
+      assessableProfit: 123456789.37,
+      isProfessionalService: false,
+      isNonResident: false,
+      capitalAllowances: 1234567.89,
+      otherDeductions: [],
+      assetDisposalProceeds: 0,
+      assetTaxWrittenDownValue: 0,
+      isLargeCompany: false,
+      isMNE: false,
+      ownsDigitalAsset: true,
+      digitalAssetProfit: 3333333.33,
+      lossLedger: [{ taxYear: 2025, originalLoss: 7777777.77, remaining: 7777777.77 }],
+      foreignIncome: [{ country: 'GB', incomeType: 'business', amount: 1111111.11, foreignTaxPaid: 222222.22 }],
+    });
+    expect(sumMoney(result.taxBreakdown.map((b) => b.amount))).toBe(result.totalTax);
+  });
+});
@@ -0,0 +1,61 @@
+// Money arithmetic in integer kobo
+// Amounts stay in naira at the API surface, but every charge is rounded to
+// the kobo by the rule for its tax and every total is summed in kobo, so a
+// breakdown always adds up to its total exactly and repeated float
+// arithmetic can't drift.
+
+export type Naira = number; // whole naira and kobo, as the API surface carries them
+export type Kobo = number; // integer number of kobo
+
+export type RoundingMode = 'halfUp' | 'down'; // half away from zero / towards zero
+
+export type RoundedAmount = 'PIT' | 'CIT' | 'levy' | 'topUp' | 'CGT' | 'VAT' | 'WHT' | 'credit' | 'penalty';
+
+// Tax, penalties and interest charged are rounded half-up to the kobo. WHT is rounded down so the
+// payer never deducts more than the rate, and credits and reliefs are
+// rounded down so they never exceed the entitlement.
+export const ROUNDING_RULES: Record<RoundedAmount, RoundingMode> = {
+  PIT: 'halfUp',
+  CIT: 'halfUp',
+  levy: 'halfUp',
+  topUp: 'halfUp',
+  CGT: 'halfUp',
+  VAT: 'halfUp',
+  WHT: 'down',
+  credit: 'down',
+  penalty: 'halfUp',
+};
+
+// Trims binary noise first so 1.005 × 100 (100.49999…) rounds as 100.5
+export function toKobo(naira: Naira, mode: RoundingMode = 'halfUp'): Kobo {
+  const magnitude = Math.abs(Number((naira * 100).toPrecision(15)));
+  const rounded = mode === 'down' ? Math.floor(magnitude) : Math.floor(magnitude + 0.5);
+  return naira < 0 ? -rounded : rounded;
+}
+
+export function fromKobo(kobo: Kobo): Naira {
+  return kobo / 100;
+}
+
+export function roundKobo(naira: Naira): Naira {
+  return fromKobo(toKobo(naira));
+}
+
+// Round a naira amount to the kobo by the rule for what it is
+export function roundMoney(naira: Naira, amount: RoundedAmount): Naira {
+  return fromKobo(toKobo(naira, ROUNDING_RULES[amount]));
+}
+
+// Sum naira amounts exactly, each taken to the nearest kobo
+export function sumMoney(amounts: Naira[]): Naira {
+  return fromKobo(amounts.reduce((sum, amount) => sum + toKobo(amount), 0));
+}
+
+export function subtractMoney(a: Naira, b: Naira): Naira {
+  return fromKobo(toKobo(a) - toKobo(b));
+}
+
+// Naira and kobo, for figures that must visibly add up (VAT, WHT, workings)
+export function formatMoney(amount: Naira): string {
+  return `₦${amount.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
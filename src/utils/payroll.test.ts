@@ -0,0 +1,107 @@
+import { calculatePayrollSchedule, parseEmployeeCsv, runPayroll } from './payroll';
+import { calculatePersonalTax } from './taxCalculations';
+import { fromKobo, toKobo } from './money';
+
+describe('calculatePayrollSchedule', () => {
+  const baseInput = {
+    taxYear: 2026,
+    monthlyGross: 500000,
+    applyPension: true,
+    applyNHF: false,
+    annualRent: 1200000,
+  };
+
+  const annualTax = (annualIncome: number, extra: Partial<Parameters<typeof calculatePersonalTax>[0]> = {}) =>
+    calculatePersonalTax({
+      taxYear: 2026,
+      annualIncome,
+      applyPension: true,
+      applyNHF: false,
+      annualRent: 1200000,
+      additionalDeductions: [],
+      ocrDeductions: 0,
+      ...extra,
+    }).totalTax;
+
+  it('spreads a flat salary evenly across twelve months', () => {
+    const schedule = calculatePayrollSchedule(baseInput);
+    expect(schedule.months).toHaveLength(12);
+    const expectedMonthly = annualTax(6000000) / 12;
+    // Whole kobo each month, within a kobo of an even twelfth
+    schedule.months.forEach((m) => {
+      expect(fromKobo(toKobo(m.paye))).toBe(m.paye);
+      expect(Math.abs(m.paye - expectedMonthly)).toBeLessThanOrEqual(0.01);
+    });
+    expect(schedule.totals.paye).toBe(annualTax(6000000));
+    expect(schedule.months[0].pension).toBe(40000);
+  });
+
+  it('reconciles to the annual liability despite a pay rise and a bonus', () => {
+    const schedule = calculatePayrollSchedule({
+      ...baseInput,
+      salaryChanges: [{ fromMonth: 7, monthlyGross: 800000 }],
+      bonuses: [{ month: 12, amount: 1000000 }],
+    });
+    const annualGross = 500000 * 6 + 800000 * 6 + 1000000;
+    expect(schedule.totals.grossPay).toBe(annualGross);
+    expect(schedule.annualLiability).toBeCloseTo(annualTax(annualGross), 2);
+    expect(schedule.totals.paye).toBeCloseTo(schedule.annualLiability, 2);
+    expect(schedule.reconciliationDifference).toBeCloseTo(0, 2);
+    // The pay rise lifts PAYE from July onwards
+    expect(schedule.months[6].paye).toBeGreaterThan(schedule.months[5].paye);
+  });
+
+  it('gives a joiner the reliefs for the months before they started', () => {
+    const schedule = calculatePayrollSchedule({ ...baseInput, startMonth: 7 });
+    expect(schedule.months[0].employed).toBe(false);
+    expect(schedule.months[0].paye).toBe(0);
+    expect(schedule.totals.grossPay).toBe(3000000);
+    expect(schedule.totals.paye).toBeCloseTo(annualTax(3000000), 2);
+  });
+
+  it('reports the over-deduction for a leaver as a reconciliation difference', () => {
+    const schedule = calculatePayrollSchedule({ ...baseInput, endMonth: 6 });
+    expect(schedule.months[11].employed).toBe(false);
+    expect(schedule.totals.grossPay).toBe(3000000);
+    expect(schedule.annualLiability).toBeCloseTo(annualTax(3000000), 2);
+    expect(schedule.reconciliationDifference).toBeLessThan(0);
+  });
+
+  it('rejects a leaving month before the joining month', () => {
+    expect(() => calculatePayrollSchedule({ ...baseInput, startMonth: 8, endMonth: 3 })).toThrow(RangeError);
+  });
+});
+
+describe('parseEmployeeCsv', () => {
+  it('reads a staff CSV with flexible headers and defaults', () => {
+    const csv = 'Name,Staff ID,Monthly Gross,Annual Rent,Pension,NHF\n"Obi, Ada",E1,"₦500,000",1200000,yes,no\nTunde Bello,E2,300000,,,yes\n';
+    const { employees, errors } = parseEmployeeCsv(csv);
+    expect(errors).toHaveLength(0);
+    expect(employees).toHaveLength(2);
+    expect(employees[0]).toMatchObject({ name: 'Obi, Ada', staffId: 'E1', monthlyGross: 500000, annualRent: 1200000, applyPension: true, applyNHF: false });
+    expect(employees[1]).toMatchObject({ annualRent: 0, applyPension: true, applyNHF: true, monthlyVoluntaryPension: 0 });
+  });
+
+  it('reports invalid rows by line number', () => {
+    const { errors } = parseEmployeeCsv('name,monthly_gross,pension\nAda,abc,maybe\n');
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(2);
+    expect(errors[0].message).toContain('monthly_gross');
+    expect(errors[0].message).toContain('pension');
+  });
+});
+
+describe('runPayroll', () => {
+  it('returns each employee\'s month from their own schedule, with totals', () => {
+    const staff = [
+      { name: 'A', monthlyGross: 500000, annualRent: 0, applyPension: true, applyNHF: false, monthlyVoluntaryPension: 0 },
+      { name: 'B', monthlyGross: 900000, annualRent: 0, applyPension: true, applyNHF: true, monthlyVoluntaryPension: 0, startMonth: 5 },
+    ];
+    const run = runPayroll(staff, 2026, 3);
+    expect(run.lines[1].employed).toBe(false);
+    expect(run.lines[1].paye).toBe(0);
+    const scheduleA = calculatePayrollSchedule({ taxYear: 2026, ...staff[0] });
+    expect(run.lines[0].paye).toBeCloseTo(scheduleA.months[2].paye, 2);
+    expect(run.totals.netPay).toBeCloseTo(run.lines[0].netPay, 2);
+  });
+});
@@ -0,0 +1,367 @@
+// Monthly PAYE payroll engine
+// PAYE is computed on a cumulative basis: each month the employee's year-to-date
+// pay is taxed against year-to-date reliefs and bands (the annual figures
+// pro-rated to the months elapsed), and the month's deduction is the
+// cumulative tax less what has already been deducted. Salary changes and
+// bonuses therefore self-correct over the year, and December's cumulative
+// figure is exactly the annual liability from calculatePersonalTax.
+
+import { calculatePersonalTax } from './taxCalculations';
+import { roundKobo, subtractMoney, sumMoney } from './money';
+import { currentTaxYear, getTaxRuleSet } from './taxRules';
+import { parseCsvAmount, parseCsvBoolean, parseCsvRecords } from './csv';
+
+export const PAYROLL_MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+export interface SalaryChange {
+  fromMonth: number; // 1-12, takes effect from this month
+  monthlyGross: number;
+}
+
+export interface PayrollBonus {
+  month: number; // 1-12
+  amount: number;
+  description?: string;
+}
+
+export interface PayrollEmployeeInput {
+  taxYear?: number;
+  monthlyGross: number;
+  applyPension: boolean;
+  applyNHF: boolean;
+  annualRent: number;
+  monthlyVoluntaryPension?: number;
+  startMonth?: number; // joiner — first month on payroll (defaults to 1)
+  endMonth?: number; // leaver — last month on payroll (defaults to 12)
+  salaryChanges?: SalaryChange[];
+  bonuses?: PayrollBonus[];
+}
+
+export interface PayrollMonth {
+  month: number;
+  label: string;
+  employed: boolean;
+  basicPay: number;
+  bonus: number;
+  grossPay: number;
+  pension: number;
+  nhf: number;
+  voluntaryPension: number;
+  cumulativeGross: number;
+  cumulativeTaxableIncome: number;
+  cumulativeTax: number;
+  paye: number; // negative when earlier months were over-deducted (refund)
+  netPay: number;
+}
+
+export interface PayrollSchedule {
+  taxYear: number;
+  ruleSetId: string;
+  months: PayrollMonth[];
+  totals: {
+    grossPay: number;
+    pension: number;
+    nhf: number;
+    voluntaryPension: number;
+    paye: number;
+    netPay: number;
+  };
+  // Liability on the year's actual pay under calculatePersonalTax
+  annualLiability: number;
+  // annualLiability - PAYE deducted. Zero for anyone on payroll in December;
+  // for leavers it is the over/under-deduction settled on the annual return.
+  reconciliationDifference: number;
+}
+
+// Monthly basic pay in force for a month, after any salary changes
+function basicPayForMonth(input: PayrollEmployeeInput, month: number): number {
+  let pay = input.monthlyGross;
+  const changes = [...(input.salaryChanges ?? [])].sort((a, b) => a.fromMonth - b.fromMonth);
+  for (const change of changes) {
+    if (change.fromMonth <= month) pay = change.monthlyGross;
+  }
+  return pay;
+}
+
+function validateMonth(value: number, field: string): void {
+  if (!Number.isInteger(value) || value < 1 || value > 12) {
+    throw new RangeError(`${field} must be a month between 1 and 12`);
+  }
+}
+
+export function calculatePayrollSchedule(input: PayrollEmployeeInput): PayrollSchedule {
+  const {
+    taxYear = currentTaxYear(),
+    applyPension,
+    applyNHF,
+    annualRent,
+    monthlyVoluntaryPension = 0,
+    startMonth = 1,
+    endMonth = 12,
+    bonuses = [],
+  } = input;
+  validateMonth(startMonth, 'startMonth');
+  validateMonth(endMonth, 'endMonth');
+  if (endMonth < startMonth) {
+    throw new RangeError('endMonth cannot be before startMonth');
+  }
+  const rules = getTaxRuleSet(taxYear).personal;
+
+  const months: PayrollMonth[] = [];
+  let cumulativeGross = 0;
+  let cumulativeVC = 0;
+  let payeDeducted = 0;
+  let cumulativeTaxableIncome = 0;
+  let cumulativeTax = 0;
+
+  for (let month = 1; month <= 12; month++) {
+    const employed = month >= startMonth && month <= endMonth;
+    const basicPay = employed ? basicPayForMonth(input, month) : 0;
+    const bonus = employed
+      ? bonuses.filter((b) => b.month === month).reduce((sum, b) => sum + b.amount, 0)
+      : 0;
+    const grossPay = basicPay + bonus;
+    const voluntaryPension = employed ? monthlyVoluntaryPension : 0;
+
+    let paye = 0;
+    if (employed) {
+      cumulativeGross += grossPay;
+      cumulativeVC += voluntaryPension;
+      const ytd = calculatePersonalTax({
+        taxYear,
+        annualIncome: cumulativeGross,
+        applyPension,
+        applyNHF,
+        annualRent: (annualRent * month) / 12,
+        additionalDeductions: [],
+        ocrDeductions: 0,
+        voluntaryPensionContribution: cumulativeVC,
+        periodFraction: month / 12,
+      });
+      cumulativeTaxableIncome = ytd.taxableIncome;
+      cumulativeTax = ytd.totalTax;
+      paye = subtractMoney(cumulativeTax, payeDeducted);
+      payeDeducted = cumulativeTax;
+    }
+
+    const pension = applyPension ? roundKobo(grossPay * rules.pensionRate) : 0;
+    const nhf = applyNHF ? roundKobo(grossPay * rules.nhfRate) : 0;
+
+    months.push({
+      month,
+      label: PAYROLL_MONTHS[month - 1],
+      employed,
+      basicPay,
+      bonus,
+      grossPay,
+      pension,
+      nhf,
+      voluntaryPension,
+      cumulativeGross,
+      cumulativeTaxableIncome,
+      cumulativeTax,
+      paye,
+      netPay: sumMoney([grossPay, -pension, -nhf, -voluntaryPension, -paye]),
+    });
+  }
+
+  const sum = (key: keyof PayrollMonth) => sumMoney(months.map((m) => m[key] as number));
+  const totals = {
+    grossPay: sum('grossPay'),
+    pension: sum('pension'),
+    nhf: sum('nhf'),
+    voluntaryPension: sum('voluntaryPension'),
+    paye: sum('paye'),
+    netPay: sum('netPay'),
+  };
+
+  const annual = calculatePersonalTax({
+    taxYear,
+    annualIncome: totals.grossPay,
+    applyPension,
+    applyNHF,
+    annualRent,
+    additionalDeductions: [],
+    ocrDeductions: 0,
+    voluntaryPensionContribution: totals.voluntaryPension,
+  });
+
+  return {
+    taxYear,
+    ruleSetId: annual.ruleSetId,
+    months,
+    totals,
+    annualLiability: annual.totalTax,
+    reconciliationDifference: subtractMoney(annual.totalTax, totals.paye),
+  };
+}
+
+// ─── Bulk payroll run ──────────────────────────────────────────────────────
+
+// One employee on the register, as imported from CSV or stored server-side
+export interface PayrollEmployee {
+  id?: string;
+  name: string;
+  staffId?: string | null;
+  monthlyGross: number;
+  annualRent: number;
+  applyPension: boolean;
+  applyNHF: boolean;
+  monthlyVoluntaryPension: number;
+  startMonth?: number | null;
+  endMonth?: number | null;
+}
+
+export interface PayrollImportError {
+  line: number;
+  message: string;
+}
+
+// Expected CSV columns (header names are case/spacing-insensitive):
+// name, staff_id, monthly_gross, annual_rent, pension, nhf, voluntary_pension,
+// start_month, end_month. Only name and monthly_gross are required.
+export const PAYROLL_CSV_COLUMNS = [
+  'name', 'staff_id', 'monthly_gross', 'annual_rent', 'pension', 'nhf',
+  'voluntary_pension', 'start_month', 'end_month',
+];
+
+export function parseEmployeeCsv(text: string): { employees: PayrollEmployee[]; errors: PayrollImportError[] } {
+  const employees: PayrollEmployee[] = [];
+  const errors: PayrollImportError[] = [];
+  const records = parseCsvRecords(text);
+
+  if (records.length === 0) {
+    errors.push({ line: 1, message: 'The file has no employee rows' });
+    return { employees, errors };
+  }
+
+  for (const { line, values } of records) {
+    const rowErrors: string[] = [];
+    const name = values.name ?? '';
+    if (!name) rowErrors.push('name is required');
+
+    const monthlyGross = parseCsvAmount(values.monthly_gross);
+    if (monthlyGross === null || monthlyGross <= 0) rowErrors.push('monthly_gross must be a positive amount');
+    const annualRent = parseCsvAmount(values.annual_rent);
+    if (annualRent === null || annualRent < 0) rowErrors.push('annual_rent must be a valid amount');
+    const monthlyVoluntaryPension = parseCsvAmount(values.voluntary_pension);
+    if (monthlyVoluntaryPension === null || monthlyVoluntaryPension < 0) rowErrors.push('voluntary_pension must be a valid amount');
+
+    const applyPension = parseCsvBoolean(values.pension, true);
+    if (applyPension === null) rowErrors.push('pension must be yes or no');
+    const applyNHF = parseCsvBoolean(values.nhf, false);
+    if (applyNHF === null) rowErrors.push('nhf must be yes or no');
+
+    const month = (value: string | undefined, field: string): number | null => {
+      if (!value) return null;
+      const m = Number(value);
+      if (!Number.isInteger(m) || m < 1 || m > 12) {
+        rowErrors.push(`${field} must be a month number from 1 to 12`);
+        return null;
+      }
+      return m;
+    };
+    const startMonth = month(values.start_month, 'start_month');
+    const endMonth = month(values.end_month, 'end_month');
+    if (startMonth && endMonth && endMonth < startMonth) rowErrors.push('end_month cannot be before start_month');
+
+    if (rowErrors.length) {
+      errors.push({ line, message: `${name || 'Row'}: ${rowErrors.join('; ')}` });
+      continue;
+    }
+    employees.push({
+      name,
+      staffId: values.staff_id || null,
+      monthlyGross: monthlyGross!,
+      annualRent: annualRent!,
+      applyPension: applyPension!,
+      applyNHF: applyNHF!,
+      monthlyVoluntaryPension: monthlyVoluntaryPension!,
+      startMonth,
+      endMonth,
+    });
+  }
+
+  return { employees, errors };
+}
+
+export interface PayrollRunLine {
+  employeeId?: string;
+  name: string;
+  staffId?: string | null;
+  employed: boolean;
+  grossPay: number;
+  pension: number;
+  nhf: number;
+  voluntaryPension: number;
+  paye: number;
+  netPay: number;
+  ytdPaye: number;
+}
+
+export interface PayrollRun {
+  taxYear: number;
+  month: number;
+  lines: PayrollRunLine[];
+  totals: {
+    grossPay: number;
+    pension: number;
+    nhf: number;
+    voluntaryPension: number;
+    paye: number;
+    netPay: number;
+  };
+}
+
+// Run one month's payroll for every employee on the register. Each employee's
+// deduction comes from their own cumulative schedule, so the month's figures
+// match what calculatePayrollSchedule shows for them individually.
+export function runPayroll(employees: PayrollEmployee[], taxYear: number, month: number): PayrollRun {
+  validateMonth(month, 'month');
+  const lines = employees.map<PayrollRunLine>((employee) => {
+    const schedule = calculatePayrollSchedule({
+      taxYear,
+      monthlyGross: employee.monthlyGross,
+      applyPension: employee.applyPension,
+      applyNHF: employee.applyNHF,
+      annualRent: employee.annualRent,
+      monthlyVoluntaryPension: employee.monthlyVoluntaryPension,
+      startMonth: employee.startMonth ?? 1,
+      endMonth: employee.endMonth ?? 12,
+    });
+    const m = schedule.months[month - 1];
+    return {
+      employeeId: employee.id,
+      name: employee.name,
+      staffId: employee.staffId,
+      employed: m.employed,
+      grossPay: m.grossPay,
+      pension: m.pension,
+      nhf: m.nhf,
+      voluntaryPension: m.voluntaryPension,
+      paye: m.paye,
+      netPay: m.netPay,
+      ytdPaye: sumMoney(schedule.months.slice(0, month).map((p) => p.paye)),
+    };
+  });
+
+  const sum = (key: 'grossPay' | 'pension' | 'nhf' | 'voluntaryPension' | 'paye' | 'netPay') =>
+    sumMoney(lines.map((line) => line[key]));
+
+  return {
+    taxYear,
+    month,
+    lines,
+    totals: {
+      grossPay: sum('grossPay'),
+      pension: sum('pension'),
+      nhf: sum('nhf'),
+      voluntaryPension: sum('voluntaryPension'),
+      paye: sum('paye'),
+      netPay: sum('netPay'),
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { calculateLatePenalty, monthsLate } from './penalties';
+
+describe('monthsLate', () => {
+  it('counts a part month as a whole month', () => {
+    expect(monthsLate('2025-06-30', '2025-06-30')).toBe(0);
+    expect(monthsLate('2025-06-30', '2025-07-01')).toBe(1);
+    expect(monthsLate('2025-06-30', '2025-07-30')).toBe(1);
+    expect(monthsLate('2025-06-30', '2025-07-31')).toBe(2);
+    expect(monthsLate('2025-03-31', '2026-03-31')).toBe(12);
+  });
+});
+
+describe('calculateLatePenalty', () => {
+  it('charges CIT filing penalties per month and 10% plus interest on late payment', () => {
+    const result = calculateLatePenalty({
+      taxType: 'CIT',
+      dueDate: '2025-06-30',
+      filingDate: '2025-09-15',
+      paymentDate: '2025-09-15',
+      amount: 1000000,
+    });
+    expect(result.ruleSetId).toBe('pita-cita-fa2023');
+    expect(result.monthsLateFiling).toBe(3);
+    expect(result.lateFilingPenalty).toBe(25000 + 5000 * 2);
+    expect(result.daysLatePayment).toBe(77);
+    expect(result.latePaymentPenalty).toBe(100000);
+    // ₦58,013.6986… rounded to the kobo
+    expect(result.interest).toBe(58013.7);
+    expect(result.total).toBe(25000 + 5000 * 2 + 100000 + 58013.7);
+  });
+
+  it('charges the VAT Act late remittance penalty per annum', () => {
+    const result = calculateLatePenalty({
+      taxType: 'VAT',
+      dueDate: '2024-02-21',
+      filingDate: '2024-02-21',
+      paymentDate: '2025-02-20',
+      amount: 500000,
+    });
+    expect(result.lateFilingPenalty).toBe(0);
+    expect(result.daysLatePayment).toBe(365);
+    expect(result.latePaymentPenalty).toBeCloseTo(50000, 2);
+  });
+
+  it('uses the NTA 2025 scale for returns due from 2026 and costs unfiled returns to date', () => {
+    const result = calculateLatePenalty({
+      taxType: 'PIT',
+      dueDate: '2026-03-31',
+      amount: 0,
+      asOf: '2026-05-10',
+    });
+    expect(result.ruleSetId).toBe('nta-2025');
+    expect(result.filed).toBe(false);
+    expect(result.monthsLateFiling).toBe(2);
+    expect(result.lateFilingPenalty).toBe(150000);
+    expect(result.latePaymentPenalty).toBe(0);
+    expect(result.total).toBe(150000);
+  });
+
+  it('charges nothing when filed and paid on time', () => {
+    const result = calculateLatePenalty({
+      taxType: 'WHT',
+      dueDate: '2026-01-21',
+      filingDate: '2026-01-20',
+      paymentDate: '2026-01-21',
+      amount: 200000,
+    });
+    expect(result.total).toBe(0);
+    expect(result.lines).toHaveLength(0);
+  });
+});
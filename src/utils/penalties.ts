@@ -0,0 +1,128 @@
+// Late filing and late payment penalties
+// A return filed after its due date attracts a fixed penalty for the first
+// month (or part of a month) and a further sum for each month after that. Tax
+// paid late attracts a penalty on the unpaid amount plus simple interest for
+// each day it is outstanding. Figures come from the rule set in force on the
+// due date; a return that hasn't been filed or paid is costed as at today.
+
+import { PenaltyTaxType, getTaxRuleSet } from './taxRules';
+import { roundMoney, sumMoney } from './money';
+
+export const PENALTY_TAX_TYPES: { id: PenaltyTaxType; name: string }[] = [
+  { id: 'PIT', name: 'Personal Income Tax' },
+  { id: 'CIT', name: 'Companies Income Tax' },
+  { id: 'VAT', name: 'Value Added Tax' },
+  { id: 'WHT', name: 'Withholding Tax' },
+  { id: 'PAYE', name: 'PAYE' },
+];
+
+export interface LatePenaltyInput {
+  taxType: PenaltyTaxType;
+  dueDate: string; // ISO date the return and payment were due
+  filingDate?: string | null; // null = not filed yet
+  paymentDate?: string | null; // null = not paid yet
+  amount: number; // tax due for the period
+  asOf?: string; // date outstanding filings and payments are costed to
+}
+
+export interface PenaltyLine {
+  label: string;
+  amount: number;
+}
+
+export interface LatePenaltyResult {
+  ruleSetId: string;
+  taxType: PenaltyTaxType;
+  filed: boolean;
+  paid: boolean;
+  daysLateFiling: number;
+  monthsLateFiling: number;
+  lateFilingPenalty: number;
+  daysLatePayment: number;
+  latePaymentPenalty: number;
+  interestRate: number;
+  interest: number;
+  total: number;
+  lines: PenaltyLine[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date-only values compared in UTC so time zones can't shift a day
+const toDay = (date: string | Date): number => {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  if (isNaN(d.getTime())) throw new RangeError(`Invalid date: ${String(date)}`);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+};
+
+export function daysLate(dueDate: string, actualDate: string): number {
+  return Math.max(0, Math.round((toDay(actualDate) - toDay(dueDate)) / DAY_MS));
+}
+
+// Months in default, counting any part of a month as a whole month
+export function monthsLate(dueDate: string, actualDate: string): number {
+  if (daysLate(dueDate, actualDate) === 0) return 0;
+  const due = new Date(toDay(dueDate));
+  const actual = new Date(toDay(actualDate));
+  const whole = (actual.getUTCFullYear() - due.getUTCFullYear()) * 12 + actual.getUTCMonth() - due.getUTCMonth();
+  return actual.getUTCDate() > due.getUTCDate() ? whole + 1 : Math.max(1, whole);
+}
+
+export function calculateLatePenalty(input: LatePenaltyInput): LatePenaltyResult {
+  const { taxType, dueDate, filingDate = null, paymentDate = null, amount } = input;
+  const asOf = input.asOf ?? new Date().toISOString().slice(0, 10);
+  const ruleSet = getTaxRuleSet(new Date(toDay(dueDate)).getUTCFullYear());
+  const { interestRate, taxes } = ruleSet.penalties;
+  const rule = taxes[taxType];
+  const tax = Math.max(0, amount);
+  const lines: PenaltyLine[] = [];
+
+  const filedOn = filingDate || asOf;
+  const daysLateFiling = daysLate(dueDate, filedOn);
+  const monthsLateFiling = monthsLate(dueDate, filedOn);
+  let lateFilingPenalty = 0;
+  if (rule.lateFiling && monthsLateFiling > 0) {
+    lateFilingPenalty = rule.lateFiling.firstMonth + rule.lateFiling.subsequentMonth * (monthsLateFiling - 1);
+    lines.push({
+      label: `Late filing (${monthsLateFiling} month${monthsLateFiling === 1 ? '' : 's'})`,
+      amount: lateFilingPenalty,
+    });
+  }
+
+  const paidOn = paymentDate || asOf;
+  const daysLatePayment = tax > 0 ? daysLate(dueDate, paidOn) : 0;
+  const yearFraction = daysLatePayment / 365;
+  let latePaymentPenalty = 0;
+  let interest = 0;
+  if (daysLatePayment > 0) {
+    const { rate, perAnnum } = rule.latePayment;
+    latePaymentPenalty = roundMoney(tax * rate * (perAnnum ? yearFraction : 1), 'penalty');
+    lines.push({
+      label: `Late payment penalty (${rate * 100}%${perAnnum ? ' per annum' : ''})`,
+      amount: latePaymentPenalty,
+    });
+    if (rule.interest) {
+      interest = roundMoney(tax * interestRate * yearFraction, 'penalty');
+      lines.push({
+        label: `Interest at ${(interestRate * 100).toFixed(2)}% p.a. (${daysLatePayment} days)`,
+        amount: interest,
+      });
+    }
+  }
+
+  return {
+    ruleSetId: ruleSet.id,
+    taxType,
+    filed: !!filingDate,
+    paid: !!paymentDate,
+    daysLateFiling,
+    monthsLateFiling,
+    lateFilingPenalty,
+    daysLatePayment,
+    latePaymentPenalty,
+    interestRate,
+    interest,
+    total: sumMoney([lateFilingPenalty, latePaymentPenalty, interest]),
+    lines,
+  };
+}
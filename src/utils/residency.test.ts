@@ -0,0 +1,76 @@
+import { determineResidency } from './residency';
+import { calculatePersonalTax } from './taxCalculations';
+import { NTA_2025_RULES } from './taxRules';
+
+const rules = NTA_2025_RULES.personal.residency;
+
+const baseInput = {
+  taxYear: 2026,
+  annualIncome: 30000000,
+  applyPension: false,
+  applyNHF: false,
+  annualRent: 0,
+  additionalDeductions: [],
+  ocrDeductions: 0,
+};
+
+describe('determineResidency', () => {
+  it('treats 183 days or a place of abode as resident', () => {
+    expect(determineResidency({ daysPresent: 183, hasPlaceOfAbode: false, employmentLocation: 'nigeria' }, rules).isResident).toBe(true);
+    expect(determineResidency({ daysPresent: 20, hasPlaceOfAbode: true, employmentLocation: 'abroad' }, rules).isResident).toBe(true);
+    expect(determineResidency({ daysPresent: 182, hasPlaceOfAbode: false, employmentLocation: 'nigeria' }, rules).isResident).toBe(false);
+  });
+
+  it('sources a non-resident\'s employment income by where duties are performed', () => {
+    const split = determineResidency({ daysPresent: 100, hasPlaceOfAbode: false, employmentLocation: 'both', daysWorkedInNigeria: 73 }, rules);
+    expect(split.employmentSourceShare).toBeCloseTo(0.2, 10);
+
+    const shortVisit = determineResidency({ daysPresent: 60, hasPlaceOfAbode: false, employmentLocation: 'nigeria', paidByForeignEmployer: true }, rules);
+    expect(shortVisit.shortVisitExemption).toBe(true);
+    expect(shortVisit.employmentSourceShare).toBe(0);
+  });
+});
+
+describe('calculatePersonalTax for non-residents', () => {
+  it('is unchanged for residents without residency inputs', () => {
+    const result = calculatePersonalTax(baseInput);
+    expect(result.isResident).toBe(true);
+    expect(result.residency).toBeNull();
+    expect(result.grossIncome).toBe(30000000);
+    expect(result.finalWhtTax).toBe(0);
+  });
+
+  it('taxes only the Nigeria-sourced salary through the bands', () => {
+    const result = calculatePersonalTax({
+      ...baseInput,
+      residency: { daysPresent: 100, hasPlaceOfAbode: false, employmentLocation: 'both', daysWorkedInNigeria: 73 },
+    });
+    const nigerianOnly = calculatePersonalTax({ ...baseInput, annualIncome: 6000000 });
+    expect(result.isResident).toBe(false);
+    expect(result.grossIncome).toBeCloseTo(6000000, 2);
+    expect(result.foreignIncomeExcluded).toBeCloseTo(24000000, 2);
+    expect(result.totalTax).toBeCloseTo(nigerianOnly.totalTax, 2);
+  });
+
+  it('charges final WHT on directors\' fees and investment income', () => {
+    const result = calculatePersonalTax({
+      ...baseInput,
+      annualIncome: 0,
+      directorsFees: 5000000,
+      finalWhtIncome: { dividends: 2000000 },
+      residency: { daysPresent: 10, hasPlaceOfAbode: false, employmentLocation: 'abroad' },
+    });
+    expect(result.taxableIncome).toBe(0);
+    expect(result.finalWhtIncome.map((l) => l.type)).toEqual(['directorsFees', 'dividends']);
+    expect(result.finalWhtTax).toBeCloseTo(5000000 * 0.20 + 2000000 * 0.10, 2);
+    expect(result.totalTax).toBeCloseTo(result.finalWhtTax, 2);
+    expect(result.taxBreakdown.reduce((sum, b) => sum + b.tax, 0)).toBeCloseTo(result.totalTax, 2);
+  });
+
+  it('taxes a resident\'s directors\' fees with their salary', () => {
+    const withFees = calculatePersonalTax({ ...baseInput, directorsFees: 5000000 });
+    const combined = calculatePersonalTax({ ...baseInput, annualIncome: 35000000 });
+    expect(withFees.grossIncome).toBe(35000000);
+    expect(withFees.totalTax).toBeCloseTo(combined.totalTax, 2);
+  });
+});
@@ -0,0 +1,80 @@
+// Individual tax residency
+// An individual is resident for a year if present in Nigeria for the day
+// threshold (183 days) in the 12 months, or if they keep a permanent place of
+// abode here. Residents are taxed on their worldwide income. A non-resident is
+// taxed only on Nigeria-sourced income: employment income for duties performed
+// in Nigeria (unless the short-visit exemption applies), with directors' fees
+// and investment income taxed by final withholding tax.
+
+import { FinalWhtIncomeType, ResidencyRules } from './taxRules';
+
+export type EmploymentLocation = 'nigeria' | 'abroad' | 'both';
+
+export const EMPLOYMENT_LOCATIONS: { id: EmploymentLocation; name: string }[] = [
+  { id: 'nigeria', name: 'All duties performed in Nigeria' },
+  { id: 'abroad', name: 'All duties performed outside Nigeria' },
+  { id: 'both', name: 'Duties split between Nigeria and abroad' },
+];
+
+export const FINAL_WHT_INCOME_TYPES: { id: FinalWhtIncomeType; name: string }[] = [
+  { id: 'directorsFees', name: "Directors' fees" },
+  { id: 'dividends', name: 'Dividends' },
+  { id: 'interest', name: 'Interest' },
+  { id: 'royalties', name: 'Royalties' },
+  { id: 'rent', name: 'Rent' },
+];
+
+export interface ResidencyInput {
+  daysPresent: number; // days in Nigeria in the 12 months
+  hasPlaceOfAbode: boolean; // permanent home available for their use in Nigeria
+  employmentLocation: EmploymentLocation;
+  daysWorkedInNigeria?: number; // for split duties — defaults to daysPresent
+  paidByForeignEmployer?: boolean; // salary borne by an employer outside Nigeria
+}
+
+export interface ResidencyResult {
+  isResident: boolean;
+  reasons: string[];
+  // Share of employment income taxable in Nigeria (1 for residents)
+  employmentSourceShare: number;
+  shortVisitExemption: boolean;
+}
+
+export function determineResidency(input: ResidencyInput, rules: ResidencyRules): ResidencyResult {
+  const { daysPresent, hasPlaceOfAbode, employmentLocation, paidByForeignEmployer = false } = input;
+  const reasons: string[] = [];
+
+  if (daysPresent >= rules.daysThreshold) {
+    reasons.push(`Present in Nigeria for ${daysPresent} days (${rules.daysThreshold} or more)`);
+  }
+  if (hasPlaceOfAbode) {
+    reasons.push('Has a permanent place of abode in Nigeria');
+  }
+  const isResident = reasons.length > 0;
+
+  if (isResident) {
+    return { isResident, reasons, employmentSourceShare: 1, shortVisitExemption: false };
+  }
+
+  reasons.push(`Present for fewer than ${rules.daysThreshold} days with no place of abode — non-resident`);
+
+  // A short visit paid for from abroad doesn't make the salary Nigerian-sourced
+  const shortVisitExemption = employmentLocation !== 'abroad' && paidByForeignEmployer;
+  let employmentSourceShare: number;
+  if (employmentLocation === 'abroad') {
+    employmentSourceShare = 0;
+    reasons.push('Employment duties are performed outside Nigeria');
+  } else if (shortVisitExemption) {
+    employmentSourceShare = 0;
+    reasons.push('Short visit paid by a foreign employer — employment income exempt');
+  } else if (employmentLocation === 'both') {
+    const daysWorked = Math.max(0, input.daysWorkedInNigeria ?? daysPresent);
+    employmentSourceShare = Math.min(1, daysWorked / 365);
+    reasons.push(`Employment income apportioned to ${daysWorked} days worked in Nigeria`);
+  } else {
+    employmentSourceShare = 1;
+    reasons.push('Employment duties are performed in Nigeria');
+  }
+
+  return { isResident, reasons, employmentSourceShare, shortVisitExemption };
+}
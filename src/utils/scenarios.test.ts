@@ -0,0 +1,78 @@
+import { breakdownLabel, compareScenarios } from './scenarios';
+import { CompanyTaxInput } from './taxCalculations';
+
+const company = (overrides: Partial<CompanyTaxInput> = {}): CompanyTaxInput => ({
+  taxYear: 2026,
+  annualTurnover: 250000000,
+  fixedAssets: 0,
+  assessableProfit: 50000000,
+  isProfessionalService: false,
+  isNonResident: false,
+  capitalAllowances: 0,
+  otherDeductions: [],
+  assetDisposalProceeds: 0,
+  assetTaxWrittenDownValue: 0,
+  isLargeCompany: false,
+  isMNE: false,
+  ...overrides,
+});
+
+describe('breakdownLabel', () => {
+  it('drops the figures so the same line matches across scenarios', () => {
+    expect(breakdownLabel('Corporate Income Tax (30% of ₦10,000,000)')).toBe('Corporate Income Tax');
+    expect(breakdownLabel('  └ Includes Asset Disposal Gain: ₦500,000')).toBe('Includes Asset Disposal Gain');
+  });
+});
+
+describe('compareScenarios', () => {
+  it('diffs personal scenarios against the baseline', () => {
+    const base = { taxYear: 2026, annualIncome: 12000000, applyPension: true, applyNHF: false, annualRent: 0, additionalDeductions: [], ocrDeductions: 0 };
+    const comparison = compareScenarios({
+      name: 'VC',
+      kind: 'personal',
+      scenarios: [
+        { id: 'a', name: 'Baseline', input: base },
+        { id: 'b', name: 'With VC', input: { ...base, voluntaryPensionContribution: 1200000 } },
+      ],
+    });
+    expect(comparison.totalTax.differences[0]).toBeNull();
+    // ₦1.2M more relief, all of it in the 18% band at this income
+    expect(comparison.totalTax.differences[1]).toBeCloseTo(-1200000 * 0.18, 2);
+    expect(comparison.breakdown.every((row) => row.values.length === 2)).toBe(true);
+  });
+
+  it('compares take-home pay in PITA years, with CRA left in', () => {
+    const base = { taxYear: 2025, annualIncome: 12000000, applyPension: true, applyNHF: false, annualRent: 0, additionalDeductions: [], ocrDeductions: 0 };
+    const comparison = compareScenarios({
+      name: 'Raise',
+      kind: 'personal',
+      scenarios: [
+        { id: 'a', name: 'Baseline', input: base },
+        { id: 'b', name: 'Raise', input: { ...base, annualIncome: 13000000 } },
+      ],
+    });
+    expect(comparison.net.values[0]).toBe(9176320.17);
+    // the raise less 8% pension and the extra tax on it
+    expect(comparison.net.differences[1]).toBeCloseTo(1000000 - 80000 - comparison.totalTax.differences[1]!, 2);
+  });
+
+  it('lines up company breakdowns and leaves missing lines empty', () => {
+    const comparison = compareScenarios({
+      name: 'Holiday',
+      kind: 'company',
+      scenarios: [
+        { id: 'a', name: 'No holiday', input: company({ businessSector: 'agriculture' }) },
+        { id: 'b', name: 'Holiday', input: company({ businessSector: 'agriculture', isTaxHolidayActive: true }) },
+      ],
+    });
+    const cit = comparison.breakdown.find((row) => row.label === 'Corporate Income Tax');
+    expect(cit?.values).toEqual([15000000, 15000000]);
+    const holiday = comparison.breakdown.find((row) => row.label === 'Tax Holiday Exemption');
+    expect(holiday?.values[0]).toBeNull();
+    expect(comparison.net.differences[1]).toBeGreaterThan(0);
+  });
+
+  it('rejects an empty set', () => {
+    expect(() => compareScenarios({ name: '', kind: 'personal', scenarios: [] })).toThrow(RangeError);
+  });
+});
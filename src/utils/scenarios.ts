@@ -0,0 +1,127 @@
+// Scenario comparison
+// A scenario set keeps several variants of the same personal or company
+// calculation side by side (e.g. with and without voluntary pension, tax
+// holiday on/off). Each variant is recalculated from its own inputs and the
+// results are lined up against the first scenario, the baseline.
+
+import {
+  calculateCompanyTax,
+  calculatePersonalTax,
+  CompanyTaxInput,
+  PersonalTaxInput,
+} from './taxCalculations';
+
+export type ScenarioKind = 'personal' | 'company';
+
+export const MAX_SCENARIOS = 6;
+
+export interface Scenario<T> {
+  id: string;
+  name: string;
+  input: T;
+}
+
+export type ScenarioSet =
+  | { id?: string; name: string; kind: 'personal'; scenarios: Scenario<PersonalTaxInput>[] }
+  | { id?: string; name: string; kind: 'company'; scenarios: Scenario<CompanyTaxInput>[] };
+
+export interface ScenarioOutcome {
+  name: string;
+  totalTax: number;
+  net: number; // net income (personal) or net profit (company)
+  effectiveRate: number;
+  lines: { label: string; detail: string; amount: number }[];
+}
+
+export interface ComparisonRow {
+  label: string;
+  values: (number | null)[]; // null where the scenario has no such line
+  differences: (number | null)[]; // against the baseline, null for the baseline itself
+}
+
+export interface ScenarioComparison {
+  outcomes: ScenarioOutcome[];
+  breakdown: ComparisonRow[];
+  totalTax: ComparisonRow;
+  net: ComparisonRow;
+  effectiveRate: ComparisonRow;
+}
+
+// Breakdown descriptions carry the figures they were computed from, e.g.
+// "Corporate Income Tax (30% of ₦10,000,000)". Strip those so the same line
+// in two scenarios lines up on one row.
+export function breakdownLabel(description: string): string {
+  return description
+    .replace(/\s*\(.*\)\s*$/, '')
+    .replace(/:.*$/, '')
+    .replace(/^[\s└]+/, '')
+    .trim();
+}
+
+function personalOutcome(scenario: Scenario<PersonalTaxInput>): ScenarioOutcome {
+  const result = calculatePersonalTax(scenario.input);
+  return {
+    name: scenario.name,
+    totalTax: result.totalTax,
+    net: result.netIncome,
+    effectiveRate: result.effectiveRate,
+    lines: result.taxBreakdown.map((b) => ({ label: breakdownLabel(b.band), detail: b.band, amount: b.tax })),
+  };
+}
+
+function companyOutcome(scenario: Scenario<CompanyTaxInput>): ScenarioOutcome {
+  const result = calculateCompanyTax(scenario.input);
+  return {
+    name: scenario.name,
+    totalTax: result.totalTax,
+    net: result.netProfit,
+    effectiveRate: result.effectiveRate,
+    lines: result.taxBreakdown.map((b) => ({ label: breakdownLabel(b.description), detail: b.description, amount: b.amount })),
+  };
+}
+
+function compareRow(label: string, values: (number | null)[]): ComparisonRow {
+  const baseline = values[0];
+  return {
+    label,
+    values,
+    differences: values.map((value, i) =>
+      i === 0 || value === null ? null : value - (baseline ?? 0)
+    ),
+  };
+}
+
+export function calculateScenarioOutcomes(set: ScenarioSet): ScenarioOutcome[] {
+  return set.kind === 'personal'
+    ? set.scenarios.map(personalOutcome)
+    : set.scenarios.map(companyOutcome);
+}
+
+export function compareScenarios(set: ScenarioSet): ScenarioComparison {
+  if (set.scenarios.length === 0) throw new RangeError('A scenario set needs at least one scenario');
+  if (set.scenarios.length > MAX_SCENARIOS) {
+    throw new RangeError(`A scenario set can hold at most ${MAX_SCENARIOS} scenarios`);
+  }
+  const outcomes = calculateScenarioOutcomes(set);
+
+  // Union of breakdown lines in first-seen order; repeated labels within one
+  // scenario are summed
+  const labels: string[] = [];
+  outcomes.forEach((o) => o.lines.forEach((line) => {
+    if (!labels.includes(line.label)) labels.push(line.label);
+  }));
+  const breakdown = labels.map((label) =>
+    compareRow(label, outcomes.map((o) => {
+      const lines = o.lines.filter((line) => line.label === label);
+      return lines.length ? lines.reduce((sum, line) => sum + line.amount, 0) : null;
+    }))
+  );
+
+  return {
+    outcomes,
+    breakdown,
+    totalTax: compareRow('Total Tax', outcomes.map((o) => o.totalTax)),
+    net: compareRow(set.kind === 'personal' ? 'Net Income' : 'Net Profit', outcomes.map((o) => o.net)),
+    effectiveRate: compareRow('Effective Rate', outcomes.map((o) => o.effectiveRate)),
+  };
+}
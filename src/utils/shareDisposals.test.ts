@@ -0,0 +1,90 @@
+import { calculateShareDisposals, reinvestmentDeadline, ShareDisposal } from './shareDisposals';
+
+const disposal = (fields: Partial<ShareDisposal>): ShareDisposal => ({
+  company: 'Dangote Cement',
+  disposalDate: '2026-03-01',
+  proceeds: 0,
+  costBasis: 0,
+  reinvestments: [],
+  ...fields,
+});
+
+const today = new Date('2026-10-19T00:00:00Z');
+
+describe('calculateShareDisposals', () => {
+  it('gives the ₦10M exemption once across the year\'s tranches', () => {
+    const tranches = [1, 2, 3].map((n) =>
+      disposal({ id: String(n), disposalDate: `2026-0${n}-15`, proceeds: 40000000, costBasis: 30000000 }));
+    const year = calculateShareDisposals(tranches, 2026, today);
+    expect(year.totalProceeds).toBe(120000000);
+    expect(year.netGain).toBe(30000000);
+    expect(year.exemptAmount).toBe(10000000);
+    expect(year.taxableGain).toBe(20000000);
+    expect(year.tax).toBe(2000000);
+  });
+
+  it('loses the exemption when the year\'s proceeds together pass ₦150M', () => {
+    const tranches = [1, 2].map((n) =>
+      disposal({ disposalDate: `2026-0${n}-15`, proceeds: 100000000, costBasis: 95000000 }));
+    const year = calculateShareDisposals(tranches, 2026, today);
+    expect(year.isEligibleForExemption).toBe(false);
+    expect(year.exemptAmount).toBe(0);
+    expect(year.tax).toBe(1000000);
+    expect(year.warning).toMatch(/2 disposals in 2026/);
+  });
+
+  it('applies the year\'s own threshold and exemption before NTA 2025', () => {
+    const tranches = [1, 2, 3].map((n) =>
+      disposal({ disposalDate: `2025-0${n}-15`, proceeds: 40000000, costBasis: 30000000 }));
+    const year = calculateShareDisposals(tranches, 2025, today);
+    expect(year.exemptionThreshold).toBe(100000000);
+    expect(year.isEligibleForExemption).toBe(false); // ₦120M is over ₦100M
+    expect(year.tax).toBe(3000000);
+
+    const within = calculateShareDisposals(tranches.slice(0, 2), 2025, today);
+    expect(within.exemptAmount).toBe(20000000); // the whole gain, not capped at ₦10M
+    expect(within.tax).toBe(0);
+  });
+
+  it('relieves gains reinvested within 12 months, but not later', () => {
+    const year = calculateShareDisposals([
+      disposal({
+        disposalDate: '2025-06-30',
+        proceeds: 200000000,
+        costBasis: 150000000,
+        reinvestments: [
+          { date: '2026-06-30', amount: 30000000, company: 'MTN Nigeria' },
+          { date: '2026-07-01', amount: 20000000, company: 'Zenith Bank' },
+        ],
+      }),
+    ], 2025, today);
+    expect(year.lines[0]).toMatchObject({
+      reinvestmentDeadline: '2026-06-30',
+      qualifyingReinvestment: 30000000,
+      lateReinvestment: 20000000,
+      stillToReinvest: 0, // the window has closed
+    });
+    expect(year.reinvestmentRelief).toBe(30000000);
+    expect(year.taxableGain).toBe(20000000);
+  });
+
+  it('shows what is still to reinvest while the window is open', () => {
+    const year = calculateShareDisposals([
+      disposal({ disposalDate: '2026-09-01', proceeds: 50000000, costBasis: 20000000 }),
+      disposal({ disposalDate: '2025-09-01', proceeds: 50000000, costBasis: 20000000 }),
+    ], 2026, today);
+    expect(year.lines).toHaveLength(1);
+    expect(year.lines[0].stillToReinvest).toBe(30000000);
+    expect(reinvestmentDeadline('2026-09-01')).toBe('2027-09-01');
+  });
+
+  it('nets losses against gains under NTA 2025', () => {
+    const year = calculateShareDisposals([
+      disposal({ proceeds: 30000000, costBasis: 10000000 }),
+      disposal({ proceeds: 10000000, costBasis: 15000000 }),
+    ], 2026, today);
+    expect(year.lossesOffset).toBe(5000000);
+    expect(year.netGain).toBe(15000000);
+    expect(year.taxableGain).toBe(5000000);
+  });
+});
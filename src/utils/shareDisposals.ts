@@ -0,0 +1,136 @@
+// Share disposal register
+// The share transfer exemption is judged on the taxpayer's disposals for the
+// whole tax year, not sale by sale: proceeds of every disposal in the year
+// are added together against the year's threshold (₦150M under NTA 2025) and
+// the exempt gain is given once, so splitting a sale into tranches gains
+// nothing. Gains are netted with the year's losses where the rule set allows
+// it. Each disposal also records the proceeds reinvested in qualifying
+// shares; reinvestment made within 12 months of the disposal relieves that
+// disposal's gain, amount for amount, once the exemption has been used.
+
+import { getTaxRuleSet } from './taxRules';
+import { roundMoney, subtractMoney, sumMoney } from './money';
+
+// Months after a disposal in which reinvestment counts
+export const REINVESTMENT_WINDOW_MONTHS = 12;
+
+export interface ShareReinvestment {
+  date: string; // YYYY-MM-DD
+  amount: number;
+  company: string; // shares acquired
+}
+
+export interface ShareDisposal {
+  id?: string;
+  company: string; // shares disposed of
+  disposalDate: string; // YYYY-MM-DD
+  proceeds: number;
+  costBasis: number;
+  reinvestments: ShareReinvestment[];
+}
+
+export interface ShareDisposalLine {
+  disposal: ShareDisposal;
+  gain: number; // negative for a loss
+  reinvestmentDeadline: string;
+  qualifyingReinvestment: number; // within the window
+  lateReinvestment: number; // after the deadline — gives no relief
+  reinvestmentRelief: number; // before the year's cap
+  stillToReinvest: number; // to relieve the rest of the gain, while the window is open
+}
+
+export interface ShareDisposalYear {
+  taxYear: number;
+  lines: ShareDisposalLine[];
+  totalProceeds: number;
+  totalGains: number;
+  totalLosses: number;
+  lossesOffset: number;
+  netGain: number;
+  isEligibleForExemption: boolean;
+  exemptAmount: number;
+  reinvestmentRelief: number;
+  taxableGain: number;
+  tax: number;
+  warning: string | null;
+  // the year's rules
+  exemptionThreshold: number;
+  maxExemptGain: number | null; // null when the whole gain is exempt
+  rate: number;
+}
+
+// The last day reinvestment relieves a disposal
+export function reinvestmentDeadline(disposalDate: string): string {
+  const [year, month, day] = disposalDate.split('-').map(Number);
+  const end = new Date(Date.UTC(year, month - 1 + REINVESTMENT_WINDOW_MONTHS, day));
+  return end.toISOString().slice(0, 10);
+}
+
+function assessDisposal(disposal: ShareDisposal, today: string): ShareDisposalLine {
+  const gain = subtractMoney(disposal.proceeds, disposal.costBasis);
+  const deadline = reinvestmentDeadline(disposal.disposalDate);
+  const inWindow = (r: ShareReinvestment) => r.date >= disposal.disposalDate && r.date <= deadline;
+  const qualifyingReinvestment = sumMoney(disposal.reinvestments.filter(inWindow).map((r) => r.amount));
+  const lateReinvestment = sumMoney(disposal.reinvestments.filter((r) => !inWindow(r)).map((r) => r.amount));
+  const reinvestmentRelief = gain > 0 ? Math.min(qualifyingReinvestment, gain) : 0;
+
+  return {
+    disposal,
+    gain,
+    reinvestmentDeadline: deadline,
+    qualifyingReinvestment,
+    lateReinvestment,
+    reinvestmentRelief,
+    stillToReinvest: today <= deadline && gain > reinvestmentRelief ? subtractMoney(gain, reinvestmentRelief) : 0,
+  };
+}
+
+// The year's disposals taken together
+export function calculateShareDisposals(disposals: ShareDisposal[], taxYear: number, today: Date = new Date()): ShareDisposalYear {
+  const rules = getTaxRuleSet(taxYear).capitalGains;
+  const todayIso = today.toISOString().slice(0, 10);
+  const lines = disposals
+    .filter((d) => d.disposalDate.startsWith(`${taxYear}-`))
+    .sort((a, b) => a.disposalDate.localeCompare(b.disposalDate))
+    .map((d) => assessDisposal(d, todayIso));
+
+  const totalProceeds = sumMoney(lines.map((l) => l.disposal.proceeds));
+  const totalGains = sumMoney(lines.map((l) => Math.max(0, l.gain)));
+  const totalLosses = sumMoney(lines.map((l) => Math.max(0, -l.gain)));
+  const lossesOffset = rules.lossesOffsetGains ? Math.min(totalLosses, totalGains) : 0;
+  const netGain = subtractMoney(totalGains, lossesOffset);
+
+  const isEligibleForExemption = totalProceeds <= rules.shares.proceedsThreshold;
+  const exemptAmount = isEligibleForExemption ? Math.min(netGain, rules.shares.maxExemptGain ?? netGain) : 0;
+  const reinvestmentRelief = Math.min(
+    sumMoney(lines.map((l) => l.reinvestmentRelief)),
+    subtractMoney(netGain, exemptAmount),
+  );
+  const taxableGain = subtractMoney(subtractMoney(netGain, exemptAmount), reinvestmentRelief);
+
+  let warning: string | null = null;
+  if (!isEligibleForExemption && lines.length > 1) {
+    warning = `Proceeds of the ${lines.length} disposals in ${taxYear} total more than the exemption threshold, so none of them is exempt`;
+  } else if (!isEligibleForExemption) {
+    warning = `Proceeds in ${taxYear} are above the exemption threshold`;
+  }
+
+  return {
+    taxYear,
+    lines,
+    totalProceeds,
+    totalGains,
+    totalLosses,
+    lossesOffset,
+    netGain,
+    isEligibleForExemption,
+    exemptAmount,
+    reinvestmentRelief,
+    taxableGain,
+    tax: roundMoney(taxableGain * rules.shares.rate, 'CGT'),
+    warning,
+    exemptionThreshold: rules.shares.proceedsThreshold,
+    maxExemptGain: rules.shares.maxExemptGain,
+    rate: rules.shares.rate,
+  };
+}
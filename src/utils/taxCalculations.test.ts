@@ -2,6 +2,7 @@ import {
   calculateProgressiveTax,
   calculateRentRelief,
   calculatePersonalTax,
+  calculateGrossFromNet,
   determineCompanySize,
   calculateCompanyTax,
   calculateShareTransferTax,
@@ -15,6 +16,29 @@ import {
   SHARE_TRANSFER_EXEMPTION,
   COMPENSATION_EXEMPTION,
 } from './taxCalculations';
+import { getTaxRuleSet, PITA_CITA_FA2023_RULES, NTA_2025_RULES } from './taxRules';
+import { applyLossRelief } from './lossRelief';
+import { applyWhtCredits, buildWhtCreditLedger } from './whtCredits';
+import { applyEdiCredits, buildEdiCreditLedger, ediCreditEarned } from './ediCredits';
+import { sumMoney } from './money';
+
+// ─── Tax rule registry ──────────────────────────────────────────────────────
+
+describe('getTaxRuleSet', () => {
+  it('uses NTA 2025 from the 2026 tax year', () => {
+    expect(getTaxRuleSet(2026).id).toBe(NTA_2025_RULES.id);
+    expect(getTaxRuleSet(2030).id).toBe(NTA_2025_RULES.id);
+  });
+
+  it('uses PITA/CITA for 2023 to 2025', () => {
+    expect(getTaxRuleSet(2023).id).toBe(PITA_CITA_FA2023_RULES.id);
+    expect(getTaxRuleSet(2025).id).toBe(PITA_CITA_FA2023_RULES.id);
+  });
+
+  it('throws for years before the first registered rule set', () => {
+    expect(() => getTaxRuleSet(2019)).toThrow(RangeError);
+  });
+});
 
 // ─── calculateProgressiveTax ────────────────────────────────────────────────
 
@@ -172,7 +196,14 @@ describe('calculatePersonalTax', () => {
 
   it('calculates net income correctly', () => {
     const result = calculatePersonalTax(baseInput);
-    expect(result.netIncome).toBeCloseTo(result.grossIncome - result.totalDeductions - result.totalTax, 2);
+    expect(result.netIncome).toBeCloseTo(result.grossIncome - result.totalContributions - result.totalTax, 2);
+  });
+
+  it('takes only contributions and tax off net income, not reliefs', () => {
+    const result = calculatePersonalTax({ ...baseInput, taxYear: 2025, annualIncome: 12000000, applyPension: true, annualRent: 2400000 });
+    expect(result.totalContributions).toBe(960000);
+    expect(result.totalReliefs).toBe(result.consolidatedRelief);
+    expect(result.netIncome).toBe(9176320.17);
   });
 
   it('effective rate is 0 for zero income', () => {
@@ -185,10 +216,65 @@ describe('calculatePersonalTax', () => {
     expect(result.effectiveRate).toBeGreaterThan(0);
     expect(result.effectiveRate).toBeLessThan(25);
   });
+
+  it('records workings for the VC and rent relief caps with NTA references', () => {
+    const result = calculatePersonalTax({
+      ...baseInput,
+      taxYear: 2026,
+      annualRent: 3000000,
+      voluntaryPensionContribution: 3000000,
+    });
+    expect(result.workings.map((step) => step.topic)).toEqual(['voluntaryPension', 'rentRelief', 'bands']);
+    const [vc, rent, bands] = result.workings;
+    expect(vc.value).toBe(1666666.66);
+    expect(vc.cap).toMatch(/^Capped at/);
+    expect(rent.value).toBe(500000);
+    expect(rent.cap).toBe('Capped at ₦500,000.00');
+    expect(rent.reference).toBe(NTA_2025_RULES.references.rentRelief);
+    expect(bands.value).toBe(result.totalTax);
+  });
 });
 
 // ─── determineCompanySize ───────────────────────────────────────────────────
 
+describe('calculateGrossFromNet', () => {
+  const toggles = {
+    applyPension: true,
+    applyNHF: true,
+    annualRent: 2400000,
+    additionalDeductions: [],
+    ocrDeductions: 0,
+    voluntaryPensionContribution: 600000,
+  };
+
+  it('finds the gross income that yields the target net income', () => {
+    const { grossIncome, result } = calculateGrossFromNet({ ...toggles, taxYear: 2026, targetNetIncome: 8000000 });
+    expect(result.grossIncome).toBe(grossIncome);
+    expect(result.netIncome).toBeGreaterThanOrEqual(8000000);
+    expect(result.netIncome).toBeCloseTo(8000000, 1);
+  });
+
+  it('solves on take-home pay under PITA, where CRA is a relief rather than a cost', () => {
+    const { grossIncome, result } = calculateGrossFromNet({ ...toggles, taxYear: 2025, targetNetIncome: 8000000 });
+    expect(result.consolidatedRelief).toBeGreaterThan(0);
+    const takeHome = sumMoney([grossIncome, -result.pensionDeduction, -result.voluntaryPensionContribution, -result.nhfDeduction, -result.totalTax]);
+    expect(takeHome).toBeGreaterThanOrEqual(8000000);
+    expect(takeHome).toBeCloseTo(8000000, 1);
+  });
+
+  it('round-trips a gross salary under both rule sets', () => {
+    [2025, 2026].forEach((taxYear) => {
+      const forward = calculatePersonalTax({ ...toggles, taxYear, annualIncome: 15000000 });
+      const { grossIncome } = calculateGrossFromNet({ ...toggles, taxYear, targetNetIncome: forward.netIncome });
+      expect(grossIncome).toBeCloseTo(15000000, 1);
+    });
+  });
+
+  it('rejects a negative target', () => {
+    expect(() => calculateGrossFromNet({ ...toggles, targetNetIncome: -1 })).toThrow(RangeError);
+  });
+});
+
 describe('determineCompanySize', () => {
   it('classifies as small when turnover ≤ ₦100M and assets < ₦250M', () => {
     expect(determineCompanySize(50000000, 100000000, false)).toBe('small');
@@ -237,6 +323,34 @@ describe('calculateCompanyTax', () => {
     expect(result.totalTax).toBe(0);
   });
 
+  it('relieves losses brought forward as a separate breakdown line', () => {
+    const result = calculateCompanyTax({
+      ...baseInput,
+      annualTurnover: 200000000,
+      lossLedger: [{ taxYear: 2025, originalLoss: 4000000, remaining: 4000000 }],
+    });
+    expect(result.lossRelieved).toBe(4000000);
+    expect(result.taxableProfit).toBe(6000000);
+    expect(result.corporateTax).toBe(6000000 * 0.30);
+    expect(result.taxBreakdown.some((item) => item.description.startsWith('Loss Relief') && item.amount === -1200000)).toBe(true);
+    const breakdownSum = result.taxBreakdown.reduce((sum, item) => sum + item.amount, 0);
+    expect(breakdownSum).toBeCloseTo(result.totalTax);
+  });
+
+  it('records a loss year in the closing ledger', () => {
+    const result = calculateCompanyTax({ ...baseInput, annualTurnover: 200000000, capitalAllowances: 12000000 });
+    expect(result.taxableProfit).toBe(0);
+    expect(result.lossCreated).toBe(2000000);
+    expect(result.lossLedger).toEqual([{ taxYear: result.taxYear, originalLoss: 2000000, remaining: 2000000 }]);
+  });
+
+  it('records a negative assessable profit as a loss with no levy', () => {
+    const result = calculateCompanyTax({ ...baseInput, annualTurnover: 200000000, assessableProfit: -5000000 });
+    expect(result.developmentLevy).toBe(0);
+    expect(result.totalTax).toBe(0);
+    expect(result.lossCreated).toBe(5000000);
+  });
+
   // Big company
   it('big company pays 30% CIT on taxable profit', () => {
     const input = { ...baseInput, annualTurnover: 200000000 };
@@ -362,6 +476,63 @@ describe('calculateCompanyTax', () => {
     expect(result.totalTax).toBeGreaterThanOrEqual(10000000 * 0.15);
   });
 
+  it('GloBE top-up is charged only on profit above the substance-based income exclusion', () => {
+    const input = {
+      ...baseInput,
+      taxYear: 2026,
+      annualTurnover: 60000000000,
+      assessableProfit: 10000000,
+      businessSector: 'agriculture',
+      isTaxHolidayActive: true,
+      globe: { eligiblePayrollCosts: 20000000, eligibleTangibleAssets: 50000000 },
+    };
+    const result = calculateCompanyTax(input);
+    expect(result.globe).not.toBeNull();
+    expect(result.globe!.effectiveRate).toBe(0);
+    expect(result.globe!.topUpPercentage).toBeCloseTo(0.15, 10);
+    // 2026 transitional carve-outs: 9.4% of payroll, 7.4% of tangible assets
+    expect(result.globe!.payrollCarveOut).toBeCloseTo(1880000, 2);
+    expect(result.globe!.tangibleAssetCarveOut).toBeCloseTo(3700000, 2);
+    expect(result.globe!.excessProfit).toBeCloseTo(4420000, 2);
+    expect(result.etrTopUp).toBeCloseTo(4420000 * 0.15, 2);
+  });
+
+  it('GloBE income adjustments and covered taxes drive the jurisdictional ETR', () => {
+    const input = {
+      ...baseInput,
+      taxYear: 2026,
+      annualTurnover: 60000000000,
+      assessableProfit: 10000000,
+      globe: { profitBeforeTax: 12000000, excludedDividends: 4000000, policyDisallowedExpenses: 500000 },
+    };
+    const result = calculateCompanyTax(input);
+    expect(result.globe!.globeIncome).toBe(8500000);
+    expect(result.globe!.adjustedCoveredTaxes).toBeCloseTo(result.totalTax, 2);
+    expect(result.globe!.effectiveRate).toBeGreaterThan(0.15);
+    expect(result.etrTopUp).toBe(0);
+  });
+
+  it('GloBE workings are only computed for large companies', () => {
+    expect(calculateCompanyTax({ ...baseInput, taxYear: 2026 }).globe).toBeNull();
+  });
+
+  it('records the classification and ETR top-up in the workings', () => {
+    const result = calculateCompanyTax({
+      ...baseInput,
+      taxYear: 2026,
+      annualTurnover: 60000000000,
+      businessSector: 'agriculture',
+      isTaxHolidayActive: true,
+    });
+    const classification = result.workings.find((step) => step.topic === 'companyClassification')!;
+    expect(classification.value).toBe('large');
+    expect(classification.reference).toBe(NTA_2025_RULES.references.companyClassification);
+    expect(result.workings.find((step) => step.topic === 'taxHoliday')!.value).toBe(-result.taxHolidaySavings);
+    const topUp = result.workings.find((step) => step.topic === 'minimumETR')!;
+    expect(topUp.value).toBe(result.etrTopUp);
+    expect(result.workings.indexOf(topUp)).toBe(result.workings.length - 1);
+  });
+
   // Tax holiday
   it('tax holiday exempts CIT and development levy for qualifying sectors', () => {
     const input = {
@@ -391,12 +562,13 @@ describe('calculateCompanyTax', () => {
     const input = {
       ...baseInput,
       annualTurnover: 200000000,
+      assessableProfit: 100000000,
       businessSector: 'manufacturing',
-      qualifyingCapitalExpenditure: 10000000,
+      qualifyingCapitalExpenditure: 200000000,
     };
     const result = calculateCompanyTax(input);
-    expect(result.ediCredit).toBe(500000); // 5% of ₦10M
-    expect(result.totalTax).toBe(result.corporateTax + result.developmentLevy - 500000);
+    expect(result.ediCredit).toBe(10000000); // 5% of ₦200M
+    expect(result.totalTax).toBe(result.corporateTax + result.developmentLevy - 10000000);
   });
 
   it('EDI credit cannot exceed remaining tax liability', () => {
@@ -413,6 +585,222 @@ describe('calculateCompanyTax', () => {
   });
 });
 
+// ─── Loss carry-forward ─────────────────────────────────────────────────────
+
+describe('applyLossRelief', () => {
+  const unlimited = { carryForwardYears: null, maxOffsetRate: null };
+  const ledger = [
+    { taxYear: 2020, originalLoss: 3000000, remaining: 3000000 },
+    { taxYear: 2024, originalLoss: 5000000, remaining: 5000000 },
+  ];
+
+  it('relieves the oldest losses first and carries the rest forward', () => {
+    const result = applyLossRelief(ledger, 2026, 4000000, unlimited);
+    expect(result.lossRelieved).toBe(4000000);
+    expect(result.taxableProfit).toBe(0);
+    expect(result.ledger).toEqual([{ taxYear: 2024, originalLoss: 5000000, remaining: 4000000 }]);
+  });
+
+  it('relieves and carries forward in whole kobo', () => {
+    const result = applyLossRelief([
+      { taxYear: 2024, originalLoss: 0.1, remaining: 0.1 },
+      { taxYear: 2025, originalLoss: 0.7, remaining: 0.7 },
+    ], 2026, 0.3, unlimited);
+    expect(result.lossRelieved).toBe(0.3);
+    expect(result.ledger).toEqual([{ taxYear: 2025, originalLoss: 0.7, remaining: 0.5 }]);
+  });
+
+  it('records a new loss when deductions exceed profit', () => {
+    const result = applyLossRelief(ledger, 2026, -2000000, unlimited);
+    expect(result.lossRelieved).toBe(0);
+    expect(result.lossCreated).toBe(2000000);
+    expect(result.ledger).toHaveLength(3);
+  });
+
+  it('applies the rule set cap and expiry', () => {
+    const result = applyLossRelief(ledger, 2026, 10000000, { carryForwardYears: 4, maxOffsetRate: 0.5 });
+    expect(result.lossExpired).toBe(3000000);
+    expect(result.lossRelieved).toBe(5000000);
+    expect(result.taxableProfit).toBe(5000000);
+  });
+});
+
+// ─── EDI credits ────────────────────────────────────────────────────────────
+
+describe('EDI credits', () => {
+  const rule = NTA_2025_RULES.company.edi!;
+  const certificate = {
+    certificateNumber: 'EDI-001',
+    approvalDate: '2026-03-01',
+    expenditure: [{ taxYear: 2026, amount: 10000000 }, { taxYear: 2029, amount: 4000000 }],
+  };
+
+  it('earns 5% a year on each year\'s QCE until the certificate expires', () => {
+    expect(ediCreditEarned(certificate, 2026, rule)).toBe(500000);
+    // 2026 QCE: 5 years × 5% = 25%; 2029 QCE: 2 years before expiry in 2030
+    expect(ediCreditEarned(certificate, 2030, rule)).toBe(2500000 + 400000);
+    expect(ediCreditEarned(certificate, 2035, rule)).toBe(2900000);
+  });
+
+  it('carries unused credit forward and tracks what was claimed', () => {
+    const first = applyEdiCredits(buildEdiCreditLedger([certificate]), 2026, 200000, rule);
+    expect(first.creditApplied).toBe(200000);
+    expect(first.creditCarriedForward).toBe(300000);
+
+    const second = applyEdiCredits(buildEdiCreditLedger([certificate], first.ledger), 2027, 10000000, rule);
+    expect(second.creditEarned).toBe(500000);
+    expect(second.creditApplied).toBe(800000);
+    expect(second.ledger[0].claimed).toBe(1000000);
+  });
+
+  it('blocks claims once the certificate has expired', () => {
+    const ledger = buildEdiCreditLedger([certificate], [{ ...certificate, claimed: 2000000 }]);
+    const result = applyEdiCredits(ledger, 2031, 10000000, rule);
+    expect(result.creditApplied).toBe(0);
+    expect(result.creditLapsed).toBe(900000);
+    expect(applyEdiCredits(ledger, 2032, 10000000, rule).creditLapsed).toBe(0);
+  });
+
+  it('applies certificate credits in the company computation', () => {
+    // at the manufacturing sector's ₦200M minimum QCE
+    const sectorCertificate = { ...certificate, expenditure: [{ taxYear: 2026, amount: 200000000 }] };
+    const result = calculateCompanyTax({
+      taxYear: 2027,
+      annualTurnover: 200000000,
+      fixedAssets: 0,
+      assessableProfit: 100000000,
+      isProfessionalService: false,
+      isNonResident: false,
+      capitalAllowances: 0,
+      otherDeductions: [],
+      assetDisposalProceeds: 0,
+      assetTaxWrittenDownValue: 0,
+      isLargeCompany: false,
+      isMNE: false,
+      businessSector: 'manufacturing',
+      ediCredits: buildEdiCreditLedger([sectorCertificate], [{ ...sectorCertificate, claimed: 10000000 }]),
+    });
+    expect(result.ediCredit).toBe(10000000);
+    expect(result.ediCreditLedger).toEqual([{ ...sectorCertificate, claimed: 20000000 }]);
+    expect(result.taxBreakdown.reduce((sum, item) => sum + item.amount, 0)).toBeCloseTo(result.totalTax);
+  });
+});
+
+// ─── WHT credit notes ───────────────────────────────────────────────────────
+
+describe('WHT credit notes', () => {
+  const notes = [
+    { payerName: 'Dangote', creditNoteNumber: 'CN-1', amount: 1000000, date: '2025-05-10' },
+    { payerName: 'MTN', creditNoteNumber: 'CN-2', amount: 2000000, date: '2026-03-01' },
+    { payerName: 'Zenith', creditNoteNumber: 'CN-3', amount: 500000, date: '2027-01-15' },
+  ];
+
+  it('uses the oldest notes first and ignores notes after the year end', () => {
+    const result = applyWhtCredits(buildWhtCreditLedger(notes), 2026, 2500000);
+    expect(result.creditAvailable).toBe(3000000);
+    expect(result.creditApplied).toBe(2500000);
+    expect(result.taxPayable).toBe(0);
+    expect(result.ledger.map((e) => [e.creditNoteNumber, e.remaining])).toEqual([['CN-2', 500000], ['CN-3', 500000]]);
+  });
+
+  it('takes earlier notes from the carried-forward ledger', () => {
+    const ledger = buildWhtCreditLedger(notes, {
+      fromYear: 2025,
+      ledger: [],
+    });
+    // CN-1 was used up in 2025, so only the later notes remain
+    expect(ledger.map((e) => e.creditNoteNumber)).toEqual(['CN-2', 'CN-3']);
+  });
+
+  it('sets credits off against CIT but not the development levy', () => {
+    const result = calculateCompanyTax({
+      annualTurnover: 200000000,
+      fixedAssets: 0,
+      assessableProfit: 10000000,
+      isProfessionalService: false,
+      isNonResident: false,
+      capitalAllowances: 0,
+      otherDeductions: [],
+      assetDisposalProceeds: 0,
+      assetTaxWrittenDownValue: 0,
+      isLargeCompany: false,
+      isMNE: false,
+      taxYear: 2026,
+      whtCredits: buildWhtCreditLedger(notes),
+    });
+    // CIT ₦3M is covered; the ₦400k levy is still payable
+    expect(result.totalTax).toBe(3400000);
+    expect(result.whtCreditApplied).toBe(3000000);
+    expect(result.taxPayable).toBe(400000);
+    expect(result.whtCreditCarriedForward).toBe(500000);
+    // Credits settle the liability, so the breakdown still sums to the tax
+    const breakdownSum = result.taxBreakdown.reduce((sum, item) => sum + item.amount, 0);
+    expect(breakdownSum).toBeCloseTo(result.totalTax, 2);
+    expect(result.workings.find((step) => step.topic === 'whtCredit')?.value).toBe(400000);
+  });
+});
+
+// ─── Historic tax years ─────────────────────────────────────────────────────
+
+describe('calculations for a PITA/CITA tax year', () => {
+  it('applies the Consolidated Relief Allowance and PITA bands', () => {
+    const result = calculatePersonalTax({
+      taxYear: 2025,
+      annualIncome: 5000000,
+      applyPension: false,
+      applyNHF: false,
+      annualRent: 0,
+      additionalDeductions: [],
+      ocrDeductions: 0,
+    });
+    // CRA = higher of ₦200,000 or 1% of gross, plus 20% of gross
+    expect(result.consolidatedRelief).toBe(1200000);
+    expect(result.rentRelief).toBe(0);
+    expect(result.taxableIncome).toBe(3800000);
+    expect(result.totalTax).toBeCloseTo(
+      calculateProgressiveTax(3800000, PITA_CITA_FA2023_RULES.personal.bands).totalTax
+    );
+    expect(result.ruleSetId).toBe(PITA_CITA_FA2023_RULES.id);
+  });
+
+  it('charges the 1% minimum tax when reliefs wipe out taxable income', () => {
+    const result = calculatePersonalTax({
+      taxYear: 2024,
+      annualIncome: 250000,
+      applyPension: false,
+      applyNHF: false,
+      annualRent: 0,
+      additionalDeductions: [],
+      ocrDeductions: 0,
+    });
+    expect(result.taxableIncome).toBe(0);
+    expect(result.minimumTaxApplied).toBe(true);
+    expect(result.totalTax).toBe(2500);
+  });
+
+  it('taxes a medium company at 20% plus 3% Tertiary Education Tax', () => {
+    const result = calculateCompanyTax({
+      taxYear: 2025,
+      annualTurnover: 50000000,
+      fixedAssets: 100000000,
+      assessableProfit: 10000000,
+      isProfessionalService: false,
+      isNonResident: false,
+      capitalAllowances: 0,
+      otherDeductions: [],
+      assetDisposalProceeds: 0,
+      assetTaxWrittenDownValue: 0,
+      isLargeCompany: false,
+      isMNE: false,
+    });
+    expect(result.companySize).toBe('medium');
+    expect(result.corporateTax).toBe(2000000);
+    expect(result.levyName).toBe('Tertiary Education Tax');
+    expect(result.developmentLevy).toBe(300000);
+    expect(result.ruleSetId).toBe(PITA_CITA_FA2023_RULES.id);
+  });
+});
+
 // ─── calculateShareTransferTax ──────────────────────────────────────────────
 
 describe('calculateShareTransferTax', () => {
@@ -498,6 +886,46 @@ describe('calculateCompensationTax', () => {
     const result = calculateCompensationTax({ totalCompensation: 60000000 });
     expect(result.tax).toBeCloseTo(1590000, 0);
   });
+
+  it('stacks the taxable portion on the year\'s other income', () => {
+    const otherIncome = {
+      taxYear: 2026, annualIncome: 20000000, applyPension: false, applyNHF: false,
+      annualRent: 0, additionalDeductions: [], ocrDeductions: 0,
+    };
+    const result = calculateCompensationTax({ taxYear: 2026, totalCompensation: 60000000, otherIncome });
+    expect(result.otherTaxableIncome).toBe(20000000);
+    expect(result.standaloneTax).toBeCloseTo(1590000, 0);
+    // ₦20M–₦25M at 21% and ₦25M–₦30M at 23%, against ₦1.59M standalone
+    expect(result.tax).toBeCloseTo(2200000, 0);
+  });
+
+  it('takes no pension or NHF from the payout stacked on a salary', () => {
+    const otherIncome = {
+      taxYear: 2026, annualIncome: 10000000, applyPension: true, applyNHF: true,
+      annualRent: 0, additionalDeductions: [], ocrDeductions: 0,
+    };
+    const result = calculateCompensationTax({ taxYear: 2026, totalCompensation: 60000000, otherIncome });
+    expect(result.tax).toBe(2008499.97);
+  });
+
+  it('splits the payout: pension lump sum exempt, notice pay taxed in full', () => {
+    const result = calculateCompensationTax({
+      taxYear: 2026,
+      payments: { gratuity: 30000000, exGratia: 25000000, pensionLumpSum: 15000000, noticePay: 3000000 },
+      yearsOfService: 11,
+    });
+    expect(result.compensationExcess).toBe(5000000);
+    expect(result.exemptPortion).toBe(65000000);
+    expect(result.taxablePortion).toBe(8000000);
+    expect(result.compensationPerYearOfService).toBe(5000000);
+  });
+
+  it('charges the excess over ₦10M as a capital gain before NTA 2025', () => {
+    const result = calculateCompensationTax({ taxYear: 2025, totalCompensation: 30000000 });
+    expect(result.exemptionThreshold).toBe(10000000);
+    expect(result.excessTaxedAs).toBe('capitalGain');
+    expect(result.tax).toBe(2000000);
+  });
 });
 
 // ─── formatCurrency / formatNumber ──────────────────────────────────────────
@@ -1,14 +1,39 @@
 // Nigeria Tax Act 2025 - Tax Calculation Utilities
 
+import {
+  CompanySize,
+  CompanyTaxRules,
+  ConsolidatedReliefRule,
+  FinalWhtIncomeType,
+  PersonalTaxBand,
+  PersonalTaxRules,
+  NTA_2025_RULES,
+  currentTaxYear,
+  getTaxRuleSet,
+} from './taxRules';
+import { applyLossRelief, LossLedgerEntry } from './lossRelief';
+import { applyWhtCredits, WhtCreditEntry } from './whtCredits';
+import { applyEdiCredits, EdiCreditEntry, EdiCreditResult } from './ediCredits';
+import { assessIncomeSource, IncomeSource, IncomeSourceResult } from './incomeSources';
+import { IncentiveClaims, IncentiveFacts, IncentiveOutcome, incentiveShortfall, sectorIncentives } from './incentives';
+import { calculateGloBETopUp, GloBEAdjustments, GloBEResult } from './globe';
+import { determineResidency, FINAL_WHT_INCOME_TYPES, ResidencyInput, ResidencyResult } from './residency';
+import {
+  calculateForeignTaxCredit,
+  ForeignIncomeLine,
+  ForeignTaxCreditResult,
+  totalForeignIncome,
+} from './foreignTaxCredit';
+import { FxConversion } from './fx';
+import { formatMoney, roundKobo, roundMoney, subtractMoney, sumMoney } from './money';
+import { recordWorkings, WorkingStep } from './workings';
+
+// Rates below are the NTA 2025 figures, kept for display copy and existing
+// callers. Calculations read the rule set for the requested tax year from
+// taxRules.ts, so older (PITA/CITA) or future regimes can be computed too.
+
 // Personal Income Tax Bands (Progressive Taxation) - NTA 2025
-export const PERSONAL_TAX_BANDS = [
-  { min: 0, max: 800000, rate: 0 },
-  { min: 800001, max: 3000000, rate: 0.15 },
-  { min: 3000001, max: 12000000, rate: 0.18 },
-  { min: 12000001, max: 25000000, rate: 0.21 },
-  { min: 25000001, max: 50000000, rate: 0.23 },
-  { min: 50000001, max: Infinity, rate: 0.25 },
-];
+export const PERSONAL_TAX_BANDS = NTA_2025_RULES.personal.bands;
 
 // Company Income Tax Rates based on NTA 2025
 // Small companies: Turnover <= ₦100M AND Fixed Assets < ₦250M = 0% (exempt from CIT and 4% Development Levy)
@@ -17,38 +42,34 @@ export const PERSONAL_TAX_BANDS = [
 // Large companies (>₦50B turnover or MNEs >€750M): Subject to 15% minimum ETR
 export const COMPANY_TAX_RATES = {
   small: {
-    maxTurnover: 100000000, // ₦100 million
-    maxFixedAssets: 250000000, // ₦250 million
-    rate: 0,
+    maxTurnover: NTA_2025_RULES.company.small.maxTurnover, // ₦100 million
+    maxFixedAssets: NTA_2025_RULES.company.small.maxFixedAssets as number, // ₦250 million
+    rate: NTA_2025_RULES.company.small.rate,
   },
   big: {
-    rate: 0.30, // 30%
-    developmentLevy: 0.04, // 4% Development Levy on assessable profits (based on assessable profit only)
-  },
-  large: {
-    turnoverThreshold: 50000000000, // ₦50 billion
-    mneGlobalTurnoverThreshold: 750000000, // €750 million (in EUR)
-    minimumETR: 0.15, // 15% Effective Tax Rate (OECD Pillar II)
+    rate: NTA_2025_RULES.company.big.rate, // 30%
+    developmentLevy: NTA_2025_RULES.company.levy.rate, // 4% Development Levy on assessable profits (based on assessable profit only)
   },
+  large: NTA_2025_RULES.company.large!,
 };
 
 // Constants
-export const PENSION_DEDUCTION_RATE = 0.08; // 8%
-export const NHF_DEDUCTION_RATE = 0.025; // 2.5%
+export const PENSION_DEDUCTION_RATE = NTA_2025_RULES.personal.pensionRate; // 8%
+export const NHF_DEDUCTION_RATE = NTA_2025_RULES.personal.nhfRate; // 2.5%
 // PRA 2014 / PenCom Guidelines: max monthly VC = 1/3 of monthly salary
-export const VOLUNTARY_PENSION_MAX_MONTHLY_RATE = 1 / 3;
-export const RENT_RELIEF_RATE = 0.20; // 20% of annual rent
-export const MAX_RENT_RELIEF = 500000; // ₦500,000 cap
+export const VOLUNTARY_PENSION_MAX_MONTHLY_RATE = NTA_2025_RULES.personal.voluntaryPensionMaxMonthlyRate;
+export const RENT_RELIEF_RATE = NTA_2025_RULES.personal.rentRelief!.rate; // 20% of annual rent
+export const MAX_RENT_RELIEF = NTA_2025_RULES.personal.rentRelief!.cap; // ₦500,000 cap
 
 // NTA 2025 Exemption Constants
 export const SHARE_TRANSFER_EXEMPTION = {
-  threshold: 150000000, // ₦150M (increased from ₦100M)
-  maxExemptibleGain: 10000000, // ₦10M maximum exemptible gain
-  cgtRate: 0.10, // 10% Capital Gains Tax rate
+  threshold: NTA_2025_RULES.capitalGains.shares.proceedsThreshold, // ₦150M (increased from ₦100M)
+  maxExemptibleGain: NTA_2025_RULES.capitalGains.shares.maxExemptGain!, // ₦10M maximum exemptible gain
+  cgtRate: NTA_2025_RULES.capitalGains.shares.rate, // 10% Capital Gains Tax rate
 };
 
 export const COMPENSATION_EXEMPTION = {
-  threshold: 50000000, // ₦50M (increased from ₦10M)
+  threshold: NTA_2025_RULES.personal.compensation.exemption, // ₦50M (increased from ₦10M)
 };
 
 // Personal tax deadline: March 31 — auto-advances to next year once passed
@@ -69,6 +90,7 @@ export interface Deduction {
 }
 
 export interface PersonalTaxInput {
+  taxYear?: number;                        // selects the rule set — defaults to the current year
   annualIncome: number;
   applyPension: boolean;
   applyNHF: boolean;
@@ -79,20 +101,42 @@ export interface PersonalTaxInput {
   pensionFundInvestmentIncome?: number;    // tax-exempt fund returns — Benefit 2
   retirementWithdrawalIncome?: number;     // tax-exempt RSA withdrawals — Benefit 3
   digitalAssetProfit?: number;             // NRS virtual asset guidelines (NTA 2025) — taxed at progressive PIT rates
+  compensationIncome?: number;             // taxable part of a termination payout — on the bands, outside salary
+  periodFraction?: number;                 // share of the tax year the figures cover (cumulative PAYE) — defaults to 1
+  residency?: ResidencyInput;              // omitted = resident, taxed on worldwide income
+  directorsFees?: number;                  // taxed with salary if resident, by final WHT if not
+  // Nigeria-sourced investment income of a non-resident, taxed only by final WHT
+  finalWhtIncome?: Partial<Record<Exclude<FinalWhtIncomeType, 'directorsFees'>, number>>;
+  foreignIncome?: ForeignIncomeLine[];     // taxed on residents, with credit for foreign tax
+  fxConversions?: FxConversion[];          // foreign currency inputs already converted, for reports
+  incomeSources?: IncomeSource[];          // rent, interest, dividends and business profit
+}
+
+export interface FinalWhtLine {
+  type: FinalWhtIncomeType;
+  income: number;
+  rate: number;
+  tax: number;
 }
 
 export interface PersonalTaxResult {
+  taxYear: number;
+  ruleSetId: string;
   grossIncome: number;
   pensionDeduction: number;
   voluntaryPensionContribution: number;
   nhfDeduction: number;
   rentRelief: number;
+  consolidatedRelief: number;              // PITA CRA — zero under NTA 2025
   additionalDeductionsTotal: number;
   ocrDeductions: number;
-  totalDeductions: number;
+  totalContributions: number;              // pension, voluntary pension and NHF — paid out of income
+  totalReliefs: number;                    // rent relief, CRA and other deductions — reduce taxable income only
+  totalDeductions: number;                 // contributions plus reliefs
   digitalAssetProfit: number;
   taxableIncome: number;
   totalTax: number;
+  minimumTaxApplied: boolean;
   netIncome: number;
   effectiveRate: number;
   taxBreakdown: TaxBandBreakdown[];
@@ -100,6 +144,24 @@ export interface PersonalTaxResult {
   pensionFundInvestmentIncome: number;
   retirementWithdrawalIncome: number;
   totalExemptPensionIncome: number;
+  // Residency — non-residents are taxed on Nigeria-sourced income only
+  isResident: boolean;
+  residency: ResidencyResult | null;
+  foreignIncomeExcluded: number;
+  directorsFees: number;
+  finalWhtIncome: FinalWhtLine[];
+  finalWhtTax: number;
+  // Foreign income and double taxation relief
+  foreignIncome: number;
+  foreignTaxCredit: ForeignTaxCreditResult | null;
+  fxConversions: FxConversion[];
+  // Income sources other than employment — totalTax is the liability,
+  // taxPayable is after the WHT already deducted from them
+  incomeSources: IncomeSourceResult[];
+  incomeSourcesTaxable: number; // included in taxableIncome
+  whtCreditApplied: number;
+  taxPayable: number;
+  workings: WorkingStep[]; // ordered audit trail with statutory references
 }
 
 export interface TaxBandBreakdown {
@@ -110,6 +172,7 @@ export interface TaxBandBreakdown {
 }
 
 export interface CompanyTaxInput {
+  taxYear?: number; // selects the rule set — defaults to the current year
   annualTurnover: number;
   fixedAssets: number;
   assessableProfit: number;
@@ -126,15 +189,43 @@ export interface CompanyTaxInput {
   // Sector-specific incentives (NTA 2025 EDI)
   businessSector?: string; // Business sector for incentive eligibility
   isTaxHolidayActive?: boolean; // Whether tax holiday is currently active
+  taxHolidayShare?: number; // share of the year inside the holiday (see taxHolidays.ts) — defaults to 1
   qualifyingCapitalExpenditure?: number; // QCE for EDI credit calculation
+  exportShare?: number; // exports as a share of turnover (0–1)
+  inFreeZone?: boolean; // located in an Export Processing or Free Trade Zone
+  incentiveClaims?: IncentiveClaims; // amounts claimed under deduction and credit incentives
   // Employer pension contribution — PRA 2014 s.11 allowable business expense
   employerPensionContribution?: number;
   // NRS virtual asset guidelines (NTA 2025) — profit from digital/virtual assets
   ownsDigitalAsset?: boolean;
   digitalAssetProfit?: number;
+  // Unrelieved losses brought forward from earlier years
+  lossLedger?: LossLedgerEntry[];
+  // WHT credit notes available to set off (opening credit ledger)
+  whtCredits?: WhtCreditEntry[];
+  // EDI certificates with the credit claimed in earlier years (opening ledger)
+  ediCredits?: EdiCreditEntry[];
+  // Pillar Two GloBE figures for large companies (SBIE carve-outs, adjustments)
+  globe?: GloBEAdjustments;
+  // Foreign income not already in assessable profit, with foreign tax paid
+  foreignIncome?: ForeignIncomeLine[];
+  // Foreign currency inputs already converted to naira, carried to reports
+  fxConversions?: FxConversion[];
+}
+
+// What is sent to save a company calculation. The server builds the opening
+// ledgers and any tax holiday from its own records, so in their place it is
+// told the losses entered by hand and whether to apply the registers.
+export interface CompanyCalculationRequest
+  extends Omit<CompanyTaxInput, 'lossLedger' | 'whtCredits' | 'ediCredits' | 'isTaxHolidayActive' | 'taxHolidayShare' | 'fxConversions'> {
+  manualLosses?: { taxYear: number; amount: number }[]; // years no saved calculation covers
+  applyWhtCredits?: boolean;
+  applyEdiCredits?: boolean;
 }
 
 export interface CompanyTaxResult {
+  taxYear: number;
+  ruleSetId: string;
   annualTurnover: number;
   fixedAssets: number;
   assessableProfit: number;
@@ -144,25 +235,52 @@ export interface CompanyTaxResult {
   totalDeductions: number;
   // Asset disposal gains
   assetDisposalGain: number;
+  // Foreign income and double taxation relief against CIT
+  foreignIncome: number;
+  foreignTaxCredit: ForeignTaxCreditResult | null;
+  fxConversions: FxConversion[]; // rates used for foreign currency inputs
+  workings: WorkingStep[]; // ordered audit trail with statutory references
+  // Loss carry-forward — taxableProfit is after lossRelieved
+  lossBroughtForward: number;
+  lossRelieved: number;
+  lossCreated: number;
+  lossExpired: number;
+  lossLedger: LossLedgerEntry[]; // closing ledger carried to the next year
   // Taxable profit for CIT
   taxableProfit: number;
-  companySize: 'small' | 'big' | 'large';
+  companySize: CompanySize;
   isProfessionalService: boolean;
   isNonResident: boolean;
   isLargeCompany: boolean;
   isMNE: boolean;
   taxRate: number;
   corporateTax: number;
+  // Development Levy under NTA 2025; Tertiary Education Tax for earlier years
   developmentLevy: number;
-  // ETR top-up for large companies
+  levyName: string;
+  // ETR top-up for large companies — GloBE workings when the minimum ETR applies
   etrTopUp: number;
+  globe: GloBEResult | null;
   // Sector-specific incentives (NTA 2025 EDI)
-  taxHolidaySavings: number;
-  ediCredit: number;
+  incentives: IncentiveOutcome[]; // every incentive of the sector, applied or not
+  incentiveDeductions: number; // included in totalDeductions
+  taxHolidaySavings: number; // tax holiday or full-year exemption
+  ediCredit: number; // EDI credit set off this year
+  ediCreditEarned: number;
+  ediCreditCarriedForward: number;
+  ediCreditLapsed: number;
+  ediCreditLedger: EdiCreditEntry[]; // closing ledger to carry to the next year
+  incentiveCredits: number; // investment credits other than EDI
   totalIncentiveSavings: number;
   digitalAssetProfit: number;
   digitalAssetTax: number;
   totalTax: number;
+  // WHT credit notes — totalTax is the liability, taxPayable is after credits
+  whtCreditAvailable: number;
+  whtCreditApplied: number;
+  whtCreditCarriedForward: number;
+  whtCreditLedger: WhtCreditEntry[]; // closing ledger carried to the next year
+  taxPayable: number;
   netProfit: number;
   effectiveRate: number;
   minimumETRApplied: boolean;
@@ -173,21 +291,28 @@ export interface CompanyTaxResult {
   }[];
 }
 
+// Format a rate as a percentage label, e.g. 0.025 -> "2.5%"
+function formatRate(rate: number): string {
+  return `${parseFloat((rate * 100).toFixed(2))}%`;
+}
+
 // Calculate progressive personal income tax
-export function calculateProgressiveTax(taxableIncome: number): {
+export function calculateProgressiveTax(
+  taxableIncome: number,
+  bands: PersonalTaxBand[] = PERSONAL_TAX_BANDS
+): {
   totalTax: number;
   breakdown: TaxBandBreakdown[];
 } {
   let remainingIncome = taxableIncome;
-  let totalTax = 0;
   const breakdown: TaxBandBreakdown[] = [];
 
-  for (const band of PERSONAL_TAX_BANDS) {
+  for (const band of bands) {
     if (remainingIncome <= 0) break;
 
     const bandWidth = band.max === Infinity ? remainingIncome : band.max - band.min + 1;
     const incomeInBand = Math.min(remainingIncome, bandWidth);
-    const taxInBand = incomeInBand * band.rate;
+    const taxInBand = roundMoney(incomeInBand * band.rate, 'PIT');
 
     if (incomeInBand > 0) {
       breakdown.push({
@@ -200,22 +325,57 @@ export function calculateProgressiveTax(taxableIncome: number): {
       });
     }
 
-    totalTax += taxInBand;
     remainingIncome -= incomeInBand;
   }
 
-  return { totalTax, breakdown };
+  return { totalTax: sumMoney(breakdown.map((b) => b.tax)), breakdown };
+}
+
+// Calculate rent relief (NTA 2025: 20% of rent, capped at ₦500,000).
+// Rule sets without rent relief (PITA) return zero.
+export function calculateRentRelief(
+  annualRent: number,
+  rule: { rate: number; cap: number } | null = getTaxRuleSet(currentTaxYear()).personal.rentRelief
+): number {
+  if (!rule) return 0;
+  const relief = roundMoney(annualRent * rule.rate, 'credit');
+  return Math.min(relief, rule.cap);
 }
 
-// Calculate rent relief (20% of rent, capped at ₦500,000)
-export function calculateRentRelief(annualRent: number): number {
-  const relief = annualRent * RENT_RELIEF_RATE;
-  return Math.min(relief, MAX_RENT_RELIEF);
+// Calculate the PITA consolidated relief allowance on gross income
+// (after pension and NHF). Rule sets without CRA (NTA 2025) return zero.
+export function calculateConsolidatedRelief(
+  grossIncome: number,
+  rule: ConsolidatedReliefRule | null
+): number {
+  if (!rule || grossIncome <= 0) return 0;
+  return roundMoney(Math.max(rule.fixedAmount, grossIncome * rule.grossIncomeRate) + grossIncome * rule.additionalRate, 'credit');
+}
+
+// Pro-rate a year's personal rules to part of the year for cumulative PAYE:
+// band widths and fixed reliefs/caps shrink by the fraction, rates don't.
+// At a fraction of 1 the rules are returned unchanged.
+function prorateRules(rules: PersonalTaxRules, fraction: number): PersonalTaxRules {
+  if (fraction === 1) return rules;
+  return {
+    ...rules,
+    bands: rules.bands.map((band) => ({
+      min: (band.min - 1) * fraction + 1,
+      max: band.max * fraction,
+      rate: band.rate,
+    })),
+    rentRelief: rules.rentRelief && { ...rules.rentRelief, cap: rules.rentRelief.cap * fraction },
+    consolidatedRelief: rules.consolidatedRelief && {
+      ...rules.consolidatedRelief,
+      fixedAmount: rules.consolidatedRelief.fixedAmount * fraction,
+    },
+  };
 }
 
 // Main personal tax calculation function
 export function calculatePersonalTax(input: PersonalTaxInput): PersonalTaxResult {
   const {
+    taxYear = currentTaxYear(),
     annualIncome,
     applyPension,
     applyNHF,
@@ -226,85 +386,341 @@ export function calculatePersonalTax(input: PersonalTaxInput): PersonalTaxResult
     pensionFundInvestmentIncome = 0,
     retirementWithdrawalIncome = 0,
     digitalAssetProfit = 0,
+    compensationIncome = 0,
+    periodFraction = 1,
+    residency: residencyInput,
+    directorsFees = 0,
+    finalWhtIncome: rawFinalWhtIncome = {},
+    foreignIncome: rawForeignIncome = [],
+    fxConversions = [],
+    incomeSources: rawIncomeSources = [],
   } = input;
+  const ruleSet = getTaxRuleSet(taxYear);
+  const rules = prorateRules(ruleSet.personal, periodFraction);
+  const workings = recordWorkings(ruleSet);
+
+  // Non-residents are only charged on the Nigeria-sourced share of their
+  // salary; their directors' fees and investment income suffer final WHT
+  const residency = residencyInput ? determineResidency(residencyInput, ruleSet.personal.residency) : null;
+  const isResident = residency?.isResident ?? true;
+  const salary = isResident ? annualIncome : annualIncome * residency!.employmentSourceShare;
+  const foreignIncomeExcluded = annualIncome - salary;
+  const grossIncome = salary + (isResident ? directorsFees : 0);
+
+  // Rent, interest and dividends are entered once, as income sources, which
+  // tax a non-resident's by final WHT themselves
+  const enteredTwice = rawIncomeSources
+    .map((source) => source.type)
+    .filter((type, i, types) => types.indexOf(type) === i && type !== 'business' && (rawFinalWhtIncome[type] ?? 0) > 0);
+  if (enteredTwice.length > 0) {
+    throw new RangeError(`Enter ${enteredTwice.join(', ')} either as final WHT income or as an income source, not both`);
+  }
+
+  const finalWhtIncome: FinalWhtLine[] = [];
+  if (!isResident) {
+    const amounts: Partial<Record<FinalWhtIncomeType, number>> = { ...rawFinalWhtIncome, directorsFees };
+    for (const { id } of FINAL_WHT_INCOME_TYPES) {
+      const income = amounts[id] ?? 0;
+      if (income <= 0) continue;
+      const rate = ruleSet.personal.residency.nonResidentWhtRates[id];
+      finalWhtIncome.push({ type: id, income, rate, tax: roundMoney(income * rate, 'WHT') });
+    }
+  }
+  const finalWhtIncomeTotal = sumMoney(finalWhtIncome.map((line) => line.income));
+
+  // Only residents are taxed here on income from abroad
+  const foreignIncomeLines = isResident ? rawForeignIncome : [];
+  const foreignIncome = totalForeignIncome(foreignIncomeLines);
+  const finalWhtTax = sumMoney(finalWhtIncome.map((line) => line.tax));
+
+  // Other income sources: profit after each source's own expenses joins
+  // salary on the bands unless its WHT is the final tax
+  const incomeSources = rawIncomeSources.map((source) => assessIncomeSource(source, isResident, ruleSet.personal));
+  const incomeSourcesTaxable = sumMoney(incomeSources.map((line) => line.taxableIncome));
 
   // Calculate deductions
-  const pensionDeduction = applyPension ? annualIncome * PENSION_DEDUCTION_RATE : 0;
+  const pensionDeduction = applyPension ? roundKobo(salary * rules.pensionRate) : 0;
+  if (applyPension) {
+    workings.add('pension', 'Employee pension contribution', {
+      input: `Salary ${formatMoney(salary)}`,
+      formula: `${formatRate(rules.pensionRate)} × salary`,
+      value: pensionDeduction,
+    });
+  }
   // PRA 2014 s.4(3): VC capped at 1/3 of monthly salary (PenCom Guidelines)
-  const annualVCCap = (annualIncome / 12) * VOLUNTARY_PENSION_MAX_MONTHLY_RATE * 12;
+  const annualVCCap = roundMoney(salary * rules.voluntaryPensionMaxMonthlyRate, 'credit');
   const clampedVC = Math.min(voluntaryPensionContribution, annualVCCap);
-  const nhfDeduction = applyNHF ? annualIncome * NHF_DEDUCTION_RATE : 0;
-  const rentRelief = calculateRentRelief(annualRent);
-  const additionalDeductionsTotal = additionalDeductions.reduce(
-    (sum, d) => sum + d.amount,
-    0
-  );
-
-  // Total deductions
-  const totalDeductions =
-    pensionDeduction + clampedVC + nhfDeduction + rentRelief + additionalDeductionsTotal + ocrDeductions;
-
-  // Taxable income (cannot be negative). Digital asset profit (NRS virtual
-  // asset guidelines under NTA 2025) is added on top and taxed at the same
-  // progressive PIT rates — not a separate flat rate — so it's stacked onto
-  // the marginal bands like any other income.
-  const taxableIncome = Math.max(0, annualIncome - totalDeductions) + digitalAssetProfit;
+  if (voluntaryPensionContribution > 0) {
+    workings.add('voluntaryPension', 'Voluntary pension contribution', {
+      input: `Contribution ${formatMoney(voluntaryPensionContribution)}, salary ${formatMoney(salary)}`,
+      formula: 'lesser of contribution and ⅓ of monthly salary × 12',
+      value: clampedVC,
+      cap: clampedVC < voluntaryPensionContribution ? `Capped at ${formatMoney(annualVCCap)}` : undefined,
+    });
+  }
+  const nhfDeduction = applyNHF ? roundKobo(salary * rules.nhfRate) : 0;
+  if (applyNHF) {
+    workings.add('nhf', 'National Housing Fund contribution', {
+      input: `Salary ${formatMoney(salary)}`,
+      formula: `${formatRate(rules.nhfRate)} × salary`,
+      value: nhfDeduction,
+    });
+  }
+  const rentRelief = calculateRentRelief(annualRent, rules.rentRelief);
+  if (rules.rentRelief && annualRent > 0) {
+    workings.add('rentRelief', 'Rent relief', {
+      input: `Annual rent ${formatMoney(annualRent)}`,
+      formula: `${formatRate(rules.rentRelief.rate)} × rent, up to ${formatMoney(rules.rentRelief.cap)}`,
+      value: rentRelief,
+      cap: rentRelief === rules.rentRelief.cap ? `Capped at ${formatMoney(rules.rentRelief.cap)}` : undefined,
+    });
+  }
+  // Finance Act 2020: CRA is computed on gross income net of pension and NHF
+  const craBase = grossIncome + incomeSourcesTaxable - pensionDeduction - nhfDeduction;
+  const consolidatedRelief = calculateConsolidatedRelief(craBase, rules.consolidatedRelief);
+  if (rules.consolidatedRelief && consolidatedRelief > 0) {
+    const cra = rules.consolidatedRelief;
+    workings.add('consolidatedRelief', 'Consolidated relief allowance', {
+      input: `Gross income less pension and NHF ${formatMoney(craBase)}`,
+      formula: `higher of ${formatMoney(cra.fixedAmount)} and ${formatRate(cra.grossIncomeRate)} × income, plus ${formatRate(cra.additionalRate)} × income`,
+      value: consolidatedRelief,
+    });
+  }
+  const additionalDeductionsTotal = sumMoney(additionalDeductions.map((d) => d.amount));
+
+  // Contributions leave the pay packet; reliefs only reduce taxable income
+  const totalContributions = sumMoney([pensionDeduction, clampedVC, nhfDeduction]);
+  const totalReliefs = sumMoney([rentRelief, consolidatedRelief, additionalDeductionsTotal, ocrDeductions]);
+  const totalDeductions = sumMoney([totalContributions, totalReliefs]);
+
+  // Taxable income (cannot be negative). Reliefs come off employment and
+  // other source income. Digital asset profit (NRS virtual asset guidelines
+  // under NTA 2025) is added on top and taxed at the same progressive PIT
+  // rates — not a separate flat rate — so it's stacked onto the marginal
+  // bands like any other income.
+  const assessableIncome = sumMoney([grossIncome, incomeSourcesTaxable]);
+  const otherIncome = sumMoney([digitalAssetProfit, compensationIncome, foreignIncome]);
+  const taxableIncome = sumMoney([Math.max(0, subtractMoney(assessableIncome, totalDeductions)), otherIncome]);
 
   // Calculate tax using progressive bands
-  const { totalTax, breakdown } = calculateProgressiveTax(taxableIncome);
+  const progressive = calculateProgressiveTax(taxableIncome, rules.bands);
+  let totalTax = progressive.totalTax;
+  const breakdown = progressive.breakdown;
+  workings.add('bands', 'Income tax on the bands', {
+    input: `Gross income ${formatMoney(grossIncome)}`
+      + (incomeSourcesTaxable > 0 ? ` plus income from other sources ${formatMoney(incomeSourcesTaxable)}` : '')
+      + ` less deductions ${formatMoney(totalDeductions)}`
+      + (otherIncome > 0 ? ` plus other income ${formatMoney(otherIncome)}` : '')
+      + ` = taxable income ${formatMoney(taxableIncome)}`,
+    formula: breakdown.filter((b) => b.rate > 0).map((b) => `${b.rate}% × ${formatMoney(b.income)}`).join(' + ') || 'all income in the 0% band',
+    value: totalTax,
+  });
+
+  const bandIncome = sumMoney([assessableIncome, otherIncome]);
+
+  // PITA s.37 minimum tax: where reliefs push the computed tax below 1% of
+  // gross income, the difference is charged as a separate line
+  let minimumTaxApplied = false;
+  if (rules.minimumTaxRate !== null) {
+    const minimumTax = roundMoney(bandIncome * rules.minimumTaxRate, 'PIT');
+    if (totalTax < minimumTax) {
+      breakdown.push({
+        band: `Minimum Tax top-up (${formatRate(rules.minimumTaxRate)} of gross income)`,
+        income: bandIncome,
+        rate: rules.minimumTaxRate * 100,
+        tax: subtractMoney(minimumTax, totalTax),
+      });
+      workings.add('minimumTax', 'Minimum tax', {
+        input: `Gross income ${formatMoney(bandIncome)}, tax on bands ${formatMoney(totalTax)}`,
+        formula: `higher of tax on bands and ${formatRate(rules.minimumTaxRate)} × gross income`,
+        value: minimumTax,
+        cap: `Raised to the minimum ${formatMoney(minimumTax)}`,
+      });
+      totalTax = minimumTax;
+      minimumTaxApplied = true;
+    }
+  }
 
-  const totalIncome = annualIncome + digitalAssetProfit;
+  // Each banded source bears its share of the tax on the bands
+  for (const line of incomeSources) {
+    if (!line.finalWht && bandIncome > 0) line.tax = roundMoney(totalTax * (line.taxableIncome / bandIncome), 'PIT');
+  }
 
-  // Net income after tax
-  const netIncome = totalIncome - totalDeductions - totalTax;
+  // Foreign tax credit at the average Nigerian rate on the banded income
+  let foreignTaxCredit: ForeignTaxCreditResult | null = null;
+  if (foreignIncomeLines.length > 0) {
+    foreignTaxCredit = calculateForeignTaxCredit(foreignIncomeLines, taxableIncome > 0 ? totalTax / taxableIncome : 0);
+    if (foreignTaxCredit.credit > 0) {
+      breakdown.push({
+        band: `Foreign Tax Credit (₦${formatNumber(foreignTaxCredit.foreignTaxPaid)} foreign tax paid)`,
+        income: foreignIncome,
+        rate: 0,
+        tax: -foreignTaxCredit.credit,
+      });
+      workings.add('foreignTaxCredit', 'Foreign tax credit', {
+        input: `Foreign income ${formatMoney(foreignIncome)}, foreign tax paid ${formatMoney(foreignTaxCredit.foreignTaxPaid)}`,
+        formula: `lesser of foreign tax and foreign income × average rate ${formatRate(totalTax / taxableIncome)}, within treaty limits`,
+        value: -foreignTaxCredit.credit,
+        cap: foreignTaxCredit.credit < foreignTaxCredit.foreignTaxPaid ? `Limited to ${formatMoney(foreignTaxCredit.credit)}` : undefined,
+      });
+      totalTax = subtractMoney(totalTax, foreignTaxCredit.credit);
+    }
+  }
+
+  // Final WHT is the whole Nigerian tax on that income — shown as its own lines
+  for (const line of finalWhtIncome) {
+    const name = FINAL_WHT_INCOME_TYPES.find((t) => t.id === line.type)!.name;
+    breakdown.push({
+      band: `Final WHT on ${name} (non-resident)`,
+      income: line.income,
+      rate: line.rate * 100,
+      tax: line.tax,
+    });
+    workings.add('finalWht', `Final WHT on ${name}`, {
+      input: `${name} ${formatMoney(line.income)}`,
+      formula: `${formatRate(line.rate)} × income`,
+      value: line.tax,
+    });
+  }
+  for (const line of incomeSources.filter((l) => l.finalWht)) {
+    const label = `Final WHT on ${line.name.toLowerCase()} (${line.source.description || 'unnamed source'})`;
+    breakdown.push({ band: label, income: line.source.grossAmount, rate: line.finalWhtRate * 100, tax: line.tax });
+    workings.add('finalWht', label, {
+      input: `${line.name} ${formatMoney(line.source.grossAmount)}`,
+      formula: `${formatRate(line.finalWhtRate)} × income, the final tax`,
+      value: line.tax,
+    });
+  }
+  totalTax = sumMoney([totalTax, finalWhtTax, ...incomeSources.filter((l) => l.finalWht).map((l) => l.tax)]);
+
+  // WHT already deducted from other sources settles the liability rather
+  // than reducing it, so totalTax and the effective rate are unchanged
+  const whtSuffered = sumMoney(incomeSources.map((line) => line.source.whtDeducted));
+  const whtCreditApplied = Math.min(whtSuffered, totalTax);
+
+  const totalIncome = sumMoney([
+    bandIncome, finalWhtIncomeTotal, ...incomeSources.filter((l) => l.finalWht).map((l) => l.profit),
+  ]);
+
+  // Take-home after contributions and tax — foreign tax paid abroad comes
+  // off as well. Reliefs are not spent, so they stay in.
+  const netIncome = sumMoney([totalIncome, -totalContributions, -totalTax, -(foreignTaxCredit?.foreignTaxPaid ?? 0)]);
 
   // Effective tax rate
   const effectiveRate = totalIncome > 0 ? (totalTax / totalIncome) * 100 : 0;
 
   return {
-    grossIncome: annualIncome,
+    taxYear,
+    ruleSetId: ruleSet.id,
+    grossIncome,
     pensionDeduction,
     voluntaryPensionContribution: clampedVC,
     nhfDeduction,
     rentRelief,
+    consolidatedRelief,
     additionalDeductionsTotal,
     ocrDeductions,
+    totalContributions,
+    totalReliefs,
     totalDeductions,
     digitalAssetProfit,
     taxableIncome,
     totalTax,
+    minimumTaxApplied,
     netIncome,
     effectiveRate,
     taxBreakdown: breakdown,
     pensionFundInvestmentIncome,
     retirementWithdrawalIncome,
-    totalExemptPensionIncome: pensionFundInvestmentIncome + retirementWithdrawalIncome,
+    totalExemptPensionIncome: sumMoney([pensionFundInvestmentIncome, retirementWithdrawalIncome]),
+    isResident,
+    residency,
+    foreignIncomeExcluded,
+    directorsFees,
+    finalWhtIncome,
+    finalWhtTax,
+    foreignIncome,
+    foreignTaxCredit,
+    fxConversions,
+    incomeSources,
+    incomeSourcesTaxable,
+    whtCreditApplied,
+    taxPayable: subtractMoney(totalTax, whtCreditApplied),
+    workings: workings.steps,
   };
 }
 
-// Determine company size based on NTA 2025 criteria
+export interface NetToGrossInput extends Omit<PersonalTaxInput, 'annualIncome'> {
+  targetNetIncome: number;
+}
+
+export interface NetToGrossResult {
+  grossIncome: number;
+  result: PersonalTaxResult;
+}
+
+// Inverse of calculatePersonalTax: the annual income whose take-home pay
+// (after contributions and tax, with reliefs left in) reaches the target. It
+// solves on netIncome, which is that take-home figure. Net income rises with gross
+// income under every rule set, so a bisection converges; the answer is rounded
+// up to the kobo so the target is always met.
+export function calculateGrossFromNet(input: NetToGrossInput): NetToGrossResult {
+  const { targetNetIncome, ...rest } = input;
+  if (!(targetNetIncome >= 0) || !isFinite(targetNetIncome)) {
+    throw new RangeError(`Target net income must be a non-negative amount: ${targetNetIncome}`);
+  }
+  const netAt = (annualIncome: number) => calculatePersonalTax({ ...rest, annualIncome }).netIncome;
+
+  let low = 0;
+  let high = Math.max(targetNetIncome, 1);
+  while (netAt(high) < targetNetIncome) {
+    low = high;
+    high *= 2;
+  }
+  for (let i = 0; i < 100 && high - low > 0.001; i++) {
+    const mid = (low + high) / 2;
+    if (netAt(mid) < targetNetIncome) low = mid;
+    else high = mid;
+  }
+
+  const grossIncome = Math.ceil(high * 100) / 100;
+  return { grossIncome, result: calculatePersonalTax({ ...rest, annualIncome: grossIncome }) };
+}
+
+// Determine company size from the rule set's turnover (and, under NTA 2025,
+// fixed asset) thresholds
 export function determineCompanySize(
   turnover: number,
   fixedAssets: number,
-  isProfessionalService: boolean
-): 'small' | 'big' {
-  // Professional services are always treated as big companies (excluded from small company exemption)
-  if (isProfessionalService) return 'big';
+  isProfessionalService: boolean,
+  rules: CompanyTaxRules = getTaxRuleSet(currentTaxYear()).company
+): 'small' | 'medium' | 'big' {
+  // NTA 2025: professional services are always treated as big companies (excluded from small company exemption)
+  if (isProfessionalService && rules.professionalServicesExcludedFromSmall) return 'big';
 
-  // Small company criteria: turnover <= ₦100M AND fixed assets < ₦250M
+  // Small company criteria (NTA 2025): turnover <= ₦100M AND fixed assets < ₦250M
   if (
-    turnover <= COMPANY_TAX_RATES.small.maxTurnover &&
-    fixedAssets < COMPANY_TAX_RATES.small.maxFixedAssets
+    turnover <= rules.small.maxTurnover &&
+    (rules.small.maxFixedAssets === null || fixedAssets < rules.small.maxFixedAssets)
   ) {
     return 'small';
   }
 
+  // Medium tier (CITA, Finance Act 2019): turnover above ₦25M but below ₦100M
+  if (rules.medium && turnover <= rules.medium.maxTurnover) {
+    return 'medium';
+  }
+
   return 'big';
 }
 
-// Main company tax calculation function - NTA 2025 compliant
+// Ledger name for QCE entered without an EDI certificate record; it is not carried forward
+const UNRECORDED_QCE = 'Unrecorded QCE';
+
+// Main company tax calculation function - rates come from the rule set for the tax year
 export function calculateCompanyTax(input: CompanyTaxInput): CompanyTaxResult {
   const {
+    taxYear = currentTaxYear(),
     annualTurnover,
     fixedAssets,
     assessableProfit,
@@ -319,34 +735,115 @@ export function calculateCompanyTax(input: CompanyTaxInput): CompanyTaxResult {
     // Sector-specific incentives
     businessSector = 'general',
     isTaxHolidayActive = false,
+    taxHolidayShare = 1,
     qualifyingCapitalExpenditure = 0,
+    exportShare = 0,
+    inFreeZone = false,
+    incentiveClaims = {},
     employerPensionContribution = 0,
     ownsDigitalAsset = false,
     digitalAssetProfit: rawDigitalAssetProfit = 0,
+    lossLedger: openingLossLedger = [],
+    whtCredits: openingWhtCredits = [],
+    ediCredits: openingEdiLedger = [],
+    globe: globeAdjustments = {},
+    foreignIncome: foreignIncomeLines = [],
+    fxConversions = [],
   } = input;
+  const ruleSet = getTaxRuleSet(taxYear);
+  const rules = ruleSet.company;
+  const levy = rules.levy;
   const digitalAssetProfit = ownsDigitalAsset ? rawDigitalAssetProfit : 0;
+  const workings = recordWorkings(ruleSet);
 
   // Calculate asset disposal gain (NTA 2025: no inflation adjustment)
   // Chargeable gain = Sales proceeds - Tax written down value
   const assetDisposalGain = Math.max(0, assetDisposalProceeds - assetTaxWrittenDownValue);
 
+  // Determine company size — from turnover and assets, not profit
+  let companySize: CompanySize = determineCompanySize(annualTurnover, fixedAssets, isProfessionalService, rules);
+
+  // Check if large company (>₦50B turnover or MNE) — only regimes with a minimum ETR have this tier
+  const qualifiesAsLarge = rules.large !== null &&
+    (isLargeCompany || isMNE || annualTurnover > rules.large.turnoverThreshold);
+  if (qualifiesAsLarge && companySize !== 'small') {
+    companySize = 'large';
+  }
+  const smallTest = `turnover ≤ ${formatMoney(rules.small.maxTurnover)}`
+    + (rules.small.maxFixedAssets !== null ? ` and fixed assets < ${formatMoney(rules.small.maxFixedAssets)}` : '')
+    + (rules.professionalServicesExcludedFromSmall ? ', not professional services' : '');
+  workings.add('companyClassification', 'Company classification', {
+    input: `Turnover ${formatMoney(annualTurnover)}, fixed assets ${formatMoney(fixedAssets)}`
+      + (isProfessionalService ? ', professional services' : '')
+      + (isMNE || isLargeCompany ? ', MNE group member' : ''),
+    formula: `small if ${smallTest}`
+      + (rules.medium ? `; medium if turnover ≤ ${formatMoney(rules.medium.maxTurnover)}` : '')
+      + (rules.large ? `; large if turnover > ${formatMoney(rules.large.turnoverThreshold)} or MNE` : ''),
+    value: companySize,
+  });
+
+  // Sector incentives the company qualifies for (see incentives.ts)
+  const incentiveFacts: IncentiveFacts = {
+    companySize,
+    ediRegime: rules.edi !== null,
+    qualifyingCapitalExpenditure: sumMoney([
+      qualifyingCapitalExpenditure,
+      ...openingEdiLedger.flatMap((entry) => entry.expenditure.filter((e) => e.taxYear <= taxYear).map((e) => e.amount)),
+    ]),
+    holidayShare: isTaxHolidayActive ? Math.min(1, Math.max(0, taxHolidayShare)) : 0,
+    exportShare,
+    inFreeZone,
+    claims: incentiveClaims,
+  };
+  const incentives = sectorIncentives(businessSector).map((incentive) => {
+    const shortfall = incentiveShortfall(incentive, incentiveFacts);
+    const effect = incentive.rule!.effect;
+    const outcome: IncentiveOutcome = {
+      name: incentive.name,
+      type: incentive.type,
+      effect: effect.kind,
+      eligible: shortfall === null,
+      amount: 0,
+      note: shortfall ?? (effect.kind === 'outside' ? effect.note : null),
+    };
+    return { incentive, effect, outcome };
+  });
+  const eligibleIncentives = incentives.filter(({ outcome }) => outcome.eligible);
+
+  // Deduction incentives add rate × the amount claimed to the allowable deductions
+  for (const { incentive, effect, outcome } of eligibleIncentives) {
+    if (effect.kind !== 'deduction') continue;
+    const claimed = incentiveClaims[effect.claim] ?? 0;
+    outcome.amount = roundKobo(claimed * effect.rate);
+    workings.add('incentiveDeduction', incentive.name, {
+      input: `Amount claimed ${formatMoney(claimed)}`,
+      formula: `${formatRate(effect.rate)} × amount claimed${effect.rate < 1 ? ', on top of the ordinary deduction' : ''}`,
+      value: outcome.amount,
+    });
+  }
+  const incentiveDeductions = sumMoney(incentives.map(({ effect, outcome }) => (effect.kind === 'deduction' ? outcome.amount : 0)));
+
   // Calculate deductions (allowable expenses)
   // Employer pension contribution (PRA 2014 s.11) is a named allowable deduction
-  const otherDeductionsTotal = otherDeductions.reduce((sum, d) => sum + d.amount, 0);
-  const totalDeductions = capitalAllowances + otherDeductionsTotal + employerPensionContribution;
+  const otherDeductionsTotal = sumMoney(otherDeductions.map((d) => d.amount));
+  const totalDeductions = sumMoney([capitalAllowances, otherDeductionsTotal, employerPensionContribution, incentiveDeductions]);
 
   // Taxable profit for CIT = Assessable Profit - Allowable Deductions + Asset Disposal Gains
-  // NTA 2025: CIT (30%) is calculated on taxable profit derived from assessable profit
-  // (cannot be negative)
-  const taxableProfit = Math.max(0, assessableProfit - totalDeductions + assetDisposalGain);
-
-  // Determine company size
-  let companySize: 'small' | 'big' | 'large' = determineCompanySize(annualTurnover, fixedAssets, isProfessionalService);
-
-  // Check if large company (>₦50B turnover or MNE)
-  const qualifiesAsLarge = isLargeCompany || isMNE || annualTurnover > COMPANY_TAX_RATES.large.turnoverThreshold;
-  if (qualifiesAsLarge && companySize !== 'small') {
-    companySize = 'large';
+  // NTA 2025: CIT (30%) is calculated on taxable profit derived from assessable profit.
+  // A negative result is an unrelieved loss for the ledger; losses brought
+  // forward are relieved against a positive result.
+  const foreignIncome = totalForeignIncome(foreignIncomeLines);
+  const profitBeforeLossRelief = sumMoney([assessableProfit, -totalDeductions, assetDisposalGain, foreignIncome]);
+  const lossRelief = applyLossRelief(openingLossLedger, taxYear, profitBeforeLossRelief, rules.lossRelief);
+  const taxableProfit = lossRelief.taxableProfit;
+
+  if (lossRelief.lossRelieved > 0) {
+    workings.add('lossRelief', 'Losses brought forward relieved', {
+      input: `Profit before relief ${formatMoney(profitBeforeLossRelief)}, losses brought forward ${formatMoney(lossRelief.lossBroughtForward)}`,
+      formula: 'oldest losses first, up to the profit for the year',
+      value: lossRelief.lossRelieved,
+      cap: lossRelief.lossRelieved < lossRelief.lossBroughtForward ? `Limited to ${formatMoney(lossRelief.lossRelieved)}` : undefined,
+    });
   }
 
   // Calculate tax based on company classification
@@ -358,24 +855,52 @@ export function calculateCompanyTax(input: CompanyTaxInput): CompanyTaxResult {
   const taxBreakdown: { description: string; amount: number }[] = [];
 
   if (companySize === 'small') {
-    // Small companies are exempt from CIT and 4% Development Levy
-    taxRate = 0;
+    // Small companies are exempt from CIT (and the levy, where the rule set says so)
+    taxRate = rules.small.rate;
     corporateTax = 0;
     taxBreakdown.push({
       description: 'Corporate Income Tax (Small Company Exemption)',
       amount: 0,
     });
-    taxBreakdown.push({
-      description: 'Development Levy (Small Company Exemption)',
-      amount: 0,
+    workings.add('cit', 'Companies income tax', {
+      input: `Taxable profit ${formatMoney(taxableProfit)}`,
+      formula: 'small companies are exempt from CIT',
+      value: 0,
     });
+    if (lossRelief.lossRelieved > 0) {
+      taxBreakdown.push({
+        description: `Loss Relief (₦${formatNumber(lossRelief.lossRelieved)} losses brought forward used)`,
+        amount: 0,
+      });
+    }
   } else {
-    // Big/Large companies pay 30% CIT on taxable profit (derived from assessable profit)
-    taxRate = COMPANY_TAX_RATES.big.rate;
-    corporateTax = taxableProfit * taxRate;
-    taxBreakdown.push({
-      description: `Corporate Income Tax (30% of ₦${formatNumber(taxableProfit)})`,
-      amount: corporateTax,
+    // Medium companies pay the reduced CITA rate; big/large pay the full rate
+    // on taxable profit (derived from assessable profit)
+    taxRate = companySize === 'medium' && rules.medium ? rules.medium.rate : rules.big.rate;
+    corporateTax = roundMoney(taxableProfit * taxRate, 'CIT');
+    if (lossRelief.lossRelieved > 0) {
+      // Show CIT before relief, then the relief as its own negative line —
+      // the relief is the difference so the two lines net to the CIT charged
+      const profitBeforeRelief = taxableProfit + lossRelief.lossRelieved;
+      const taxBeforeRelief = roundMoney(profitBeforeRelief * taxRate, 'CIT');
+      taxBreakdown.push({
+        description: `Corporate Income Tax (${formatRate(taxRate)} of ₦${formatNumber(profitBeforeRelief)})`,
+        amount: taxBeforeRelief,
+      });
+      taxBreakdown.push({
+        description: `Loss Relief (₦${formatNumber(lossRelief.lossRelieved)} losses brought forward @ ${formatRate(taxRate)})`,
+        amount: subtractMoney(corporateTax, taxBeforeRelief),
+      });
+    } else {
+      taxBreakdown.push({
+        description: `Corporate Income Tax (${formatRate(taxRate)} of ₦${formatNumber(taxableProfit)})`,
+        amount: corporateTax,
+      });
+    }
+    workings.add('cit', 'Companies income tax', {
+      input: `Taxable profit ${formatMoney(taxableProfit)}`,
+      formula: `${formatRate(taxRate)} × taxable profit`,
+      value: corporateTax,
     });
 
     // Asset disposal gain breakdown (if applicable)
@@ -385,101 +910,251 @@ export function calculateCompanyTax(input: CompanyTaxInput): CompanyTaxResult {
         amount: 0, // Already included in CIT
       });
     }
+  }
 
-    // Development Levy: 4% on ASSESSABLE PROFIT only (not taxable profit)
-    // Exempt for small companies and non-resident companies
-    if (!isNonResident) {
-      developmentLevy = assessableProfit * COMPANY_TAX_RATES.big.developmentLevy;
-      taxBreakdown.push({
-        description: `Development Levy (4% of Assessable Profit ₦${formatNumber(assessableProfit)})`,
-        amount: developmentLevy,
-      });
-    } else {
-      taxBreakdown.push({
-        description: 'Development Levy (Non-resident Exemption)',
-        amount: 0,
-      });
-    }
-
+  // Development Levy / TET: charged on ASSESSABLE PROFIT only (not taxable profit)
+  // Exempt for small companies and non-resident companies where the rule set says so
+  if (companySize === 'small' && levy.exemptSmall) {
+    taxBreakdown.push({
+      description: `${levy.name} (Small Company Exemption)`,
+      amount: 0,
+    });
+    workings.add('levy', levy.name, {
+      input: 'Small company',
+      formula: 'small companies are exempt',
+      value: 0,
+    });
+  } else if (!(isNonResident && levy.exemptNonResident)) {
+    // A loss year has nothing to levy
+    developmentLevy = roundMoney(Math.max(0, assessableProfit) * levy.rate, 'levy');
+    taxBreakdown.push({
+      description: `${levy.name} (${formatRate(levy.rate)} of Assessable Profit ₦${formatNumber(assessableProfit)})`,
+      amount: developmentLevy,
+    });
+    workings.add('levy', levy.name, {
+      input: `Assessable profit ${formatMoney(assessableProfit)}`,
+      formula: `${formatRate(levy.rate)} × assessable profit`,
+      value: developmentLevy,
+    });
+  } else {
+    taxBreakdown.push({
+      description: `${levy.name} (Non-resident Exemption)`,
+      amount: 0,
+    });
+    workings.add('levy', levy.name, {
+      input: 'Non-resident company',
+      formula: 'non-resident companies are exempt',
+      value: 0,
+    });
   }
 
   // Calculate gross tax before incentives
-  const grossTax = corporateTax + developmentLevy;
+  const grossTax = sumMoney([corporateTax, developmentLevy]);
 
   // Sector-specific incentives (NTA 2025 EDI)
   let taxHolidaySavings = 0;
+  let levyExempt = 0; // the holiday's share of the levy
   let ediCredit = 0;
 
-  // Tax Holiday - 100% exemption for qualifying sectors (Agriculture, Mining, Gas, Export)
-  // Only applies if tax holiday is active (approved by NIPC)
-  const taxHolidaySectors = ['agriculture', 'mining', 'gas_utilization', 'export_oriented'];
-  if (isTaxHolidayActive && taxHolidaySectors.includes(businessSector) && companySize !== 'small') {
-    taxHolidaySavings = corporateTax + developmentLevy;
+  // Tax holiday or full-year exemption (EPZ/FTZ) — whichever exempts the most
+  // of the year; a holiday covers the share of the year inside its term
+  const exemption = eligibleIncentives
+    .filter(({ effect }) => effect.kind === 'holiday' || effect.kind === 'exemption')
+    .map((entry) => ({ ...entry, share: entry.effect.kind === 'holiday' ? incentiveFacts.holidayShare : 1 }))
+    .sort((a, b) => b.share - a.share)[0];
+  if (exemption) {
+    const { share } = exemption;
+    levyExempt = roundMoney(developmentLevy * share, 'credit');
+    taxHolidaySavings = sumMoney([roundMoney(corporateTax * share, 'credit'), levyExempt]);
+    exemption.outcome.amount = taxHolidaySavings;
+    const isHoliday = exemption.effect.kind === 'holiday';
     taxBreakdown.push({
-      description: `Tax Holiday Exemption (${businessSector.replace('_', ' ').toUpperCase()} sector)`,
+      description: isHoliday
+        ? `Tax Holiday Exemption (${businessSector.replace('_', ' ').toUpperCase()} sector`
+          + (share < 1 ? `, ${formatRate(share)} of the year)` : ')')
+        : `${exemption.incentive.name} (100% of CIT and levy)`,
       amount: -taxHolidaySavings,
     });
+    workings.add('taxHoliday', isHoliday ? 'Tax holiday exemption' : exemption.incentive.name, {
+      input: `Gross tax ${formatMoney(grossTax)}, ${businessSector.replace('_', ' ')} sector`,
+      formula: !isHoliday
+        ? `100% of CIT and levy for a free zone company exporting at least ${formatRate(exemption.incentive.rule!.eligibility.minExportShare ?? 0)} of turnover`
+        : share < 1
+          ? `${formatRate(share)} of CIT and levy — the part of the year inside the holiday`
+          : '100% of CIT and levy for an approved pioneer company',
+      value: -taxHolidaySavings,
+    });
+    for (const { outcome } of eligibleIncentives) {
+      if (outcome !== exemption.outcome && (outcome.effect === 'holiday' || outcome.effect === 'exemption')) {
+        outcome.note = `Not needed — ${exemption.incentive.name} already exempts the year`;
+      }
+    }
   }
 
-  // EDI Credit - 5% annual credit on Qualifying Capital Expenditure
-  // Only for EDI-eligible sectors: agriculture, mining, manufacturing, renewable_energy, healthcare
-  const ediEligibleSectors = ['agriculture', 'mining', 'manufacturing', 'renewable_energy', 'healthcare'];
-  if (qualifyingCapitalExpenditure > 0 && ediEligibleSectors.includes(businessSector)) {
-    ediCredit = qualifyingCapitalExpenditure * 0.05; // 5% annual credit
+  // EDI Credit - 5% a year on Qualifying Capital Expenditure under an EDI
+  // certificate, for up to 5 years and 25% in total (NTA 2025 only)
+  // Only for sectors with an EDI credit incentive
+  const ediIncentive = eligibleIncentives.find(({ effect }) => effect.kind === 'ediCredit');
+  let edi: EdiCreditResult | null = null;
+  if (rules.edi !== null && ediIncentive) {
+    // QCE entered without a certificate record is treated as a certificate
+    // approved this year, so it earns the first year's credit only
+    const ediLedger = qualifyingCapitalExpenditure > 0
+      ? [...openingEdiLedger, {
+        certificateNumber: UNRECORDED_QCE,
+        approvalDate: `${taxYear}-01-01`,
+        expenditure: [{ taxYear, amount: qualifyingCapitalExpenditure }],
+        claimed: 0,
+      }]
+      : openingEdiLedger;
     // EDI credit cannot exceed remaining tax liability after holiday
-    const remainingTax = grossTax - taxHolidaySavings;
-    ediCredit = Math.min(ediCredit, remainingTax);
+    const remainingTax = subtractMoney(grossTax, taxHolidaySavings);
+    edi = applyEdiCredits(ediLedger, taxYear, remainingTax, rules.edi);
+    ediCredit = edi.creditApplied;
+    ediIncentive.outcome.amount = ediCredit;
+    if (edi.creditAvailable > 0 || edi.creditLapsed > 0) {
+      workings.add('ediCredit', 'Economic development incentive credit', {
+        input: `Credit earned this year ${formatMoney(edi.creditEarned)}, available including brought forward ${formatMoney(edi.creditAvailable)}`,
+        formula: `${formatRate(rules.edi.annualRate)} × QCE a year while the certificate is in force, at most ${formatRate(rules.edi.maxTotalRate)} of QCE, up to the tax remaining`,
+        value: -ediCredit,
+        cap: ediCredit < edi.creditAvailable
+          ? `Limited to the remaining tax ${formatMoney(remainingTax)}; ${formatMoney(edi.creditCarriedForward)} carried forward`
+          : edi.creditLapsed > 0 ? `${formatMoney(edi.creditLapsed)} lapsed on expired certificates` : undefined,
+      });
+    }
     if (ediCredit > 0) {
       taxBreakdown.push({
-        description: `EDI Credit (5% of QCE ₦${formatNumber(qualifyingCapitalExpenditure)})`,
+        description: `EDI Credit (₦${formatNumber(edi.creditAvailable)} available on QCE)`,
         amount: -ediCredit,
       });
     }
   }
 
-  const totalIncentiveSavings = taxHolidaySavings + ediCredit;
-  const taxAfterIncentives = Math.max(0, grossTax - totalIncentiveSavings);
+  // Investment credits — rate × the amount claimed, up to the tax remaining
+  // after the exemption and EDI credit; unused credit is not carried forward
+  let incentiveCredits = 0;
+  for (const { incentive, effect, outcome } of eligibleIncentives) {
+    if (effect.kind !== 'credit') continue;
+    const claimed = incentiveClaims[effect.claim] ?? 0;
+    const earned = roundMoney(claimed * effect.rate, 'credit');
+    const remainingTax = Math.max(0, subtractMoney(grossTax, sumMoney([taxHolidaySavings, ediCredit, incentiveCredits])));
+    outcome.amount = Math.min(earned, remainingTax);
+    incentiveCredits = sumMoney([incentiveCredits, outcome.amount]);
+    workings.add('incentiveCredit', incentive.name, {
+      input: `Amount claimed ${formatMoney(claimed)}`,
+      formula: `${formatRate(effect.rate)} × amount claimed, up to the tax remaining`,
+      value: -outcome.amount,
+      cap: outcome.amount < earned ? `Limited to the remaining tax ${formatMoney(remainingTax)}` : undefined,
+    });
+    if (outcome.amount > 0) {
+      taxBreakdown.push({
+        description: `${incentive.name} (${formatRate(effect.rate)} of ₦${formatNumber(claimed)})`,
+        amount: -outcome.amount,
+      });
+    }
+  }
+
+  const totalIncentiveSavings = sumMoney([taxHolidaySavings, ediCredit, incentiveCredits]);
+  const taxAfterIncentives = Math.max(0, subtractMoney(grossTax, totalIncentiveSavings));
+
+  // Foreign tax credit at the CIT rate — set against CIT, not the levy/TET
+  let foreignTaxCredit: ForeignTaxCreditResult | null = null;
+  let foreignCreditApplied = 0;
+  if (foreignIncomeLines.length > 0) {
+    foreignTaxCredit = calculateForeignTaxCredit(foreignIncomeLines, companySize === 'small' ? 0 : taxRate);
+    const citRemaining = Math.max(0, subtractMoney(taxAfterIncentives, subtractMoney(developmentLevy, levyExempt)));
+    foreignCreditApplied = Math.min(foreignTaxCredit.credit, citRemaining);
+    workings.add('foreignTaxCredit', 'Foreign tax credit', {
+      input: `Foreign income ${formatMoney(foreignIncome)}, foreign tax paid ${formatMoney(foreignTaxCredit.foreignTaxPaid)}`,
+      formula: `lesser of foreign tax and ${formatRate(companySize === 'small' ? 0 : taxRate)} × foreign income, up to the CIT remaining`,
+      value: -foreignCreditApplied,
+      cap: foreignCreditApplied < foreignTaxCredit.foreignTaxPaid ? `Limited to ${formatMoney(foreignCreditApplied)}` : undefined,
+    });
+    if (foreignCreditApplied > 0) {
+      taxBreakdown.push({
+        description: `Foreign Tax Credit (₦${formatNumber(foreignTaxCredit.foreignTaxPaid)} foreign tax paid)`,
+        amount: -foreignCreditApplied,
+      });
+    }
+  }
+  const taxAfterCredits = subtractMoney(taxAfterIncentives, foreignCreditApplied);
+
+  // Digital Asset Tax — NRS virtual asset guidelines (NTA 2025): companies
+  // other than small companies pay their CIT rate (30% for big/large) on
+  // virtual asset profit. Small companies keep their exemption.
+  const digitalAssetTax = companySize === 'small' ? 0 : roundMoney(digitalAssetProfit * taxRate, 'CIT');
+
+  // 15% Minimum ETR for large companies (OECD Pillar II) — applied AFTER
+  // incentives. GloBE income starts from book profit (assessableProfit, not
+  // the reduced taxableProfit) and covered taxes are the taxes charged on it.
+  let globe: GloBEResult | null = null;
+  if (companySize === 'large' && rules.large && assessableProfit + digitalAssetProfit + foreignIncome > 0) {
+    globe = calculateGloBETopUp(globeAdjustments, {
+      taxYear,
+      profit: assessableProfit + digitalAssetProfit + foreignIncome,
+      coveredTaxes: taxAfterCredits + digitalAssetTax + (foreignTaxCredit?.foreignTaxPaid ?? 0),
+      minimumRate: rules.large.minimumETR,
+    });
 
-  // 15% Minimum ETR for large companies (OECD Pillar II) — applied AFTER incentives
-  // ETR base is assessableProfit (economic/book profit), not taxableProfit (reduced tax base)
-  if (companySize === 'large' && assessableProfit > 0) {
-    const currentETR = taxAfterIncentives / assessableProfit;
-    const minimumETR = COMPANY_TAX_RATES.large.minimumETR;
+    workings.add('minimumETR', 'Minimum ETR top-up tax', {
+      input: `GloBE income ${formatMoney(globe.globeIncome)}, covered taxes ${formatMoney(globe.adjustedCoveredTaxes)}, ETR ${formatRate(globe.effectiveRate)}`,
+      formula: `(${formatRate(globe.minimumRate)} − ETR) × (GloBE income − substance-based exclusion ${formatMoney(globe.substanceBasedIncomeExclusion)})`,
+      value: roundMoney(globe.topUpTax, 'topUp'),
+      cap: globe.topUpTax > 0 ? undefined : `ETR at or above ${formatRate(globe.minimumRate)}, no top-up`,
+    });
 
-    if (currentETR < minimumETR) {
-      etrTopUp = minimumETR * assessableProfit - taxAfterIncentives;
+    if (globe.topUpTax > 0) {
+      etrTopUp = roundMoney(globe.topUpTax, 'topUp');
       minimumETRApplied = true;
       taxBreakdown.push({
-        description: `ETR Top-up Tax (15% Minimum ETR - OECD Pillar II)`,
+        description: `ETR Top-up Tax (${formatRate(globe.topUpPercentage)} top-up on excess profit ₦${formatNumber(globe.excessProfit)} - OECD Pillar II)`,
         amount: etrTopUp,
       });
     }
   }
 
-  // Digital Asset Tax — NRS virtual asset guidelines (NTA 2025): companies
-  // other than small companies pay the standard 30% CIT rate on virtual
-  // asset profit. Small companies keep their exemption.
-  const digitalAssetTax = companySize === 'small' ? 0 : digitalAssetProfit * COMPANY_TAX_RATES.big.rate;
   if (digitalAssetProfit > 0) {
     taxBreakdown.push({
       description: companySize === 'small'
         ? 'Digital Asset Tax (Small Company Exemption)'
-        : `Digital Asset Tax (30% of Virtual Asset Profit ₦${formatNumber(digitalAssetProfit)})`,
+        : `Digital Asset Tax (${formatRate(taxRate)} of Virtual Asset Profit ₦${formatNumber(digitalAssetProfit)})`,
       amount: digitalAssetTax,
     });
+    workings.add('digitalAssets', 'Digital asset tax', {
+      input: `Virtual asset profit ${formatMoney(digitalAssetProfit)}`,
+      formula: companySize === 'small' ? 'small companies are exempt' : `${formatRate(taxRate)} × virtual asset profit`,
+      value: digitalAssetTax,
+    });
   }
 
   // Total tax after incentives, any ETR top-up, and digital asset tax
-  const totalTax = taxAfterIncentives + etrTopUp + digitalAssetTax;
+  const totalTax = sumMoney([taxAfterCredits, etrTopUp, digitalAssetTax]);
+
+  // WHT credit notes are tax already suffered on income, so they are set off
+  // against the income tax liability — not the development levy/TET.
+  // They settle the liability rather than reduce it, so they stay out of the
+  // breakdown (which sums to totalTax) and the effective rate is unchanged.
+  const levyPayable = subtractMoney(developmentLevy, levyExempt);
+  const whtCredit = applyWhtCredits(openingWhtCredits, taxYear, subtractMoney(totalTax, levyPayable));
+  if (whtCredit.creditApplied > 0) {
+    workings.add('whtCredit', 'Tax payable after WHT credit notes', {
+      input: `Tax ${formatMoney(totalTax)}, credit notes ${formatMoney(whtCredit.creditAvailable)} available`,
+      formula: 'tax − credit notes applied (oldest first, not against the levy)',
+      value: subtractMoney(totalTax, whtCredit.creditApplied),
+    });
+  }
 
-  // Net profit after tax (assessable profit + digital asset profit minus total tax)
-  const netProfit = assessableProfit + digitalAssetProfit - totalTax;
+  // Net profit after tax (assessable, digital asset and foreign profit minus
+  // total tax) — foreign income is received net of the foreign tax paid on it
+  const totalProfit = sumMoney([assessableProfit, digitalAssetProfit, foreignIncome]);
+  const netProfit = sumMoney([totalProfit, -totalTax, -(foreignTaxCredit?.foreignTaxPaid ?? 0)]);
 
-  // Effective tax rate — total taxable base includes digital asset profit
-  const effectiveRate =
-    (assessableProfit + digitalAssetProfit) > 0 ? (totalTax / (assessableProfit + digitalAssetProfit)) * 100 : 0;
+  // Effective tax rate — total taxable base includes digital asset and foreign profit
+  const effectiveRate = totalProfit > 0 ? (totalTax / totalProfit) * 100 : 0;
 
   return {
+    taxYear,
+    ruleSetId: ruleSet.id,
     annualTurnover,
     fixedAssets,
     assessableProfit,
@@ -488,6 +1163,14 @@ export function calculateCompanyTax(input: CompanyTaxInput): CompanyTaxResult {
     employerPensionContribution,
     totalDeductions,
     assetDisposalGain,
+    foreignIncome,
+    foreignTaxCredit,
+    fxConversions,
+    lossBroughtForward: lossRelief.lossBroughtForward,
+    lossRelieved: lossRelief.lossRelieved,
+    lossCreated: lossRelief.lossCreated,
+    lossExpired: lossRelief.lossExpired,
+    lossLedger: lossRelief.ledger,
     taxableProfit,
     companySize,
     isProfessionalService,
@@ -497,18 +1180,33 @@ export function calculateCompanyTax(input: CompanyTaxInput): CompanyTaxResult {
     taxRate: taxRate * 100,
     corporateTax,
     developmentLevy,
+    levyName: levy.name,
     etrTopUp,
+    globe,
+    incentives: incentives.map(({ outcome }) => outcome),
+    incentiveDeductions,
     taxHolidaySavings,
     ediCredit,
+    ediCreditEarned: edi?.creditEarned ?? 0,
+    ediCreditCarriedForward: edi?.creditCarriedForward ?? 0,
+    ediCreditLapsed: edi?.creditLapsed ?? 0,
+    ediCreditLedger: edi?.ledger.filter((entry) => entry.certificateNumber !== UNRECORDED_QCE) ?? openingEdiLedger,
+    incentiveCredits,
     totalIncentiveSavings,
     digitalAssetProfit,
     digitalAssetTax,
     totalTax,
+    whtCreditAvailable: whtCredit.creditAvailable,
+    whtCreditApplied: whtCredit.creditApplied,
+    whtCreditCarriedForward: whtCredit.creditCarriedForward,
+    whtCreditLedger: whtCredit.ledger,
+    taxPayable: subtractMoney(totalTax, whtCredit.creditApplied),
     netProfit,
     effectiveRate,
     minimumETRApplied,
     isTaxHolidayActive,
     taxBreakdown,
+    workings: workings.steps,
   };
 }
 
@@ -548,7 +1246,7 @@ export function calculateShareTransferTax(input: ShareTransferInput): ShareTrans
   }
 
   const taxableGain = capitalGain - exemptAmount;
-  const tax = taxableGain * SHARE_TRANSFER_EXEMPTION.cgtRate;
+  const tax = roundMoney(taxableGain * SHARE_TRANSFER_EXEMPTION.cgtRate, 'CGT');
 
   return {
     capitalGain,
@@ -559,34 +1257,113 @@ export function calculateShareTransferTax(input: ShareTransferInput): ShareTrans
   };
 }
 
-// Compensation for Loss of Office Tax Calculation - NTA 2025
+// Compensation for Loss of Office Tax Calculation
+// A payout on leaving employment is split by what each payment is. Gratuity
+// and ex-gratia payments are compensation for loss of office: exempt up to
+// the rule set's threshold, with the excess charged as a capital gain or, from
+// NTA 2025, as income. A pension lump sum from the recipient's pension scheme
+// is exempt (PRA 2014 s.10), and pay in lieu of notice is employment income,
+// taxed in full. Income is stacked on top of the recipient's other taxable
+// income for the year, so the tax shown is what the payout actually adds.
+export type CompensationPaymentType = 'gratuity' | 'exGratia' | 'pensionLumpSum' | 'noticePay';
+
+export type CompensationTreatment = 'compensation' | 'exempt' | 'employment';
+
+export const COMPENSATION_PAYMENT_TYPES: { id: CompensationPaymentType; name: string; treatment: CompensationTreatment }[] = [
+  { id: 'gratuity', name: 'Gratuity', treatment: 'compensation' },
+  { id: 'exGratia', name: 'Ex-gratia / severance', treatment: 'compensation' },
+  { id: 'pensionLumpSum', name: 'Pension lump sum', treatment: 'exempt' },
+  { id: 'noticePay', name: 'Pay in lieu of notice', treatment: 'employment' },
+];
+
 export interface CompensationInput {
-  totalCompensation: number;
+  taxYear?: number;
+  totalCompensation?: number; // a single undivided payout, taken as ex-gratia
+  payments?: Partial<Record<CompensationPaymentType, number>>;
   yearsOfService?: number;
+  otherIncome?: PersonalTaxInput | null; // the recipient's other income for the same year
+}
+
+export interface CompensationPaymentLine {
+  type: CompensationPaymentType;
+  name: string;
+  amount: number;
+  treatment: CompensationTreatment;
 }
 
 export interface CompensationResult {
+  taxYear: number;
+  ruleSetId: string;
+  payments: CompensationPaymentLine[];
   totalCompensation: number;
-  exemptPortion: number;
-  taxablePortion: number;
-  tax: number;
+  exemptionThreshold: number;
+  excessTaxedAs: 'capitalGain' | 'income';
+  exemptPortion: number; // compensation within the threshold plus the pension lump sum
+  compensationExcess: number;
+  noticePay: number;
+  taxablePortion: number; // compensation excess plus notice pay
+  yearsOfService: number | null;
+  compensationPerYearOfService: number | null;
+  otherTaxableIncome: number;
+  taxWithoutPayout: number; // on the year's other income
+  standaloneTax: number; // the taxable portion taxed as if it were the year's only income
+  tax: number; // what the payout adds to the year's tax
 }
 
 export function calculateCompensationTax(input: CompensationInput): CompensationResult {
-  const { totalCompensation } = input;
-
-  // NTA 2025: First ₦50M is exempt
-  const exemptPortion = Math.min(totalCompensation, COMPENSATION_EXEMPTION.threshold);
-  const taxablePortion = Math.max(0, totalCompensation - COMPENSATION_EXEMPTION.threshold);
-
-  // Calculate tax on taxable portion using progressive rates
-  const { totalTax } = calculateProgressiveTax(taxablePortion);
+  const { taxYear = currentTaxYear(), totalCompensation = 0, yearsOfService, otherIncome } = input;
+  const ruleSet = getTaxRuleSet(taxYear);
+  const rules = ruleSet.personal.compensation;
+  const amounts = input.payments ?? { exGratia: totalCompensation };
+
+  const payments = COMPENSATION_PAYMENT_TYPES
+    .filter((t) => (amounts[t.id] ?? 0) > 0)
+    .map((t) => ({ type: t.id, name: t.name, amount: amounts[t.id]!, treatment: t.treatment }));
+  const total = (treatment: CompensationTreatment) =>
+    sumMoney(payments.filter((p) => p.treatment === treatment).map((p) => p.amount));
+
+  const compensation = total('compensation');
+  const noticePay = total('employment');
+  const exemptWithinThreshold = Math.min(compensation, rules.exemption);
+  const compensationExcess = subtractMoney(compensation, exemptWithinThreshold);
+
+  // The year's other income, before the payout
+  const base = otherIncome ? calculatePersonalTax({ ...otherIncome, taxYear }) : null;
+  const otherTaxableIncome = base?.taxableIncome ?? 0;
+  const taxWithoutPayout = base?.totalTax ?? 0;
+
+  // The same year again with notice pay, and the excess where it is income,
+  // taxed on the bands as income outside salary: no pension or NHF comes off
+  // it and a non-resident's employment share does not scale it
+  const incomeStacked = sumMoney([noticePay, rules.excessTaxedAs === 'income' ? compensationExcess : 0]);
+  const bands = ruleSet.personal.bands;
+  const withPayout = otherIncome
+    ? calculatePersonalTax({ ...otherIncome, taxYear, compensationIncome: sumMoney([otherIncome.compensationIncome ?? 0, incomeStacked]) })
+    : null;
+  const incomeTax = withPayout
+    ? subtractMoney(withPayout.totalTax, taxWithoutPayout)
+    : calculateProgressiveTax(incomeStacked, bands).totalTax;
+  const gainsTax = rules.excessTaxedAs === 'capitalGain'
+    ? roundMoney(compensationExcess * (ruleSet.capitalGains.rate ?? 0), 'CGT')
+    : 0;
 
   return {
-    totalCompensation,
-    exemptPortion,
-    taxablePortion,
-    tax: totalTax,
+    taxYear,
+    ruleSetId: ruleSet.id,
+    payments,
+    totalCompensation: sumMoney(payments.map((p) => p.amount)),
+    exemptionThreshold: rules.exemption,
+    excessTaxedAs: rules.excessTaxedAs,
+    exemptPortion: sumMoney([exemptWithinThreshold, total('exempt')]),
+    compensationExcess,
+    noticePay,
+    taxablePortion: sumMoney([compensationExcess, noticePay]),
+    yearsOfService: yearsOfService && yearsOfService > 0 ? yearsOfService : null,
+    compensationPerYearOfService: yearsOfService && yearsOfService > 0 ? roundKobo(compensation / yearsOfService) : null,
+    otherTaxableIncome,
+    taxWithoutPayout,
+    standaloneTax: sumMoney([calculateProgressiveTax(incomeStacked, bands).totalTax, gainsTax]),
+    tax: sumMoney([incomeTax, gainsTax]),
   };
 }
 
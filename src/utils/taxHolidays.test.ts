@@ -0,0 +1,58 @@
+import { TaxHoliday, taxHolidayStatus, TAX_HOLIDAY_SECTORS } from './taxHolidays';
+import { calculateCompanyTax } from './taxCalculations';
+
+const holiday: TaxHoliday = {
+  sector: 'agriculture',
+  approvalReference: 'NIPC/2022/001',
+  startDate: '2022-07-01',
+  initialYears: 5,
+  extensionConditionsMet: false,
+};
+
+describe('taxHolidayStatus', () => {
+  it('covers whole years inside the term and part of the last year', () => {
+    expect(taxHolidayStatus(holiday, 2026, new Date('2026-01-10'))).toMatchObject({ applies: true, share: 1, endDate: '2027-06-30' });
+    const lastYear = taxHolidayStatus(holiday, 2027, new Date('2026-01-10'));
+    expect(lastYear.share).toBeCloseTo(181 / 365, 10);
+    expect(taxHolidayStatus(holiday, 2028).applies).toBe(false);
+  });
+
+  it('extends the agriculture holiday when profits are reinvested', () => {
+    const extended = taxHolidayStatus({ ...holiday, extensionConditionsMet: true }, 2030);
+    expect(extended).toMatchObject({ applies: true, extended: true, endDate: '2032-06-30', extensionAvailable: null });
+  });
+
+  it('warns before the holiday ends and offers the extension', () => {
+    const status = taxHolidayStatus(holiday, 2027, new Date('2027-03-01'));
+    expect(status.warning).toMatch(/^Tax holiday ends on 2027-06-30 \(121 days left\)/);
+    expect(status.warning).toMatch(/100% of profits reinvested/);
+  });
+
+  it('lists the sectors with a holiday', () => {
+    expect(TAX_HOLIDAY_SECTORS).toEqual(['agriculture', 'mining', 'gas_utilization', 'export_oriented']);
+  });
+});
+
+describe('tax holiday in the company computation', () => {
+  it('exempts only the share of the year inside the holiday', () => {
+    const result = calculateCompanyTax({
+      taxYear: 2026,
+      annualTurnover: 200000000,
+      fixedAssets: 0,
+      assessableProfit: 10000000,
+      isProfessionalService: false,
+      isNonResident: false,
+      capitalAllowances: 0,
+      otherDeductions: [],
+      assetDisposalProceeds: 0,
+      assetTaxWrittenDownValue: 0,
+      isLargeCompany: false,
+      isMNE: false,
+      businessSector: 'agriculture',
+      isTaxHolidayActive: true,
+      taxHolidayShare: 0.5,
+    });
+    expect(result.taxHolidaySavings).toBe(1700000); // half of ₦3M CIT + ₦400k levy
+    expect(result.totalTax).toBe(1700000);
+  });
+});
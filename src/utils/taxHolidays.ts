@@ -0,0 +1,77 @@
+// Tax holidays
+// A holiday is approved for a sector from a start date for an initial term,
+// and some sectors can extend it when a condition is met (agriculture: all
+// profits reinvested). Rather than the user saying whether it is "active", the
+// calculator works out from the register how much of the tax year falls
+// inside the holiday and warns as the end approaches. A holiday that starts
+// or ends part-way through a year exempts that share of the year's tax.
+
+import { BUSINESS_TYPES, BusinessSector, TaxHolidayTerm } from './businessTypes';
+
+export interface TaxHoliday {
+  id?: string;
+  sector: BusinessSector;
+  approvalReference: string; // e.g. the NIPC approval number
+  startDate: string; // ISO date the holiday runs from
+  initialYears: number;
+  extensionConditionsMet: boolean; // company meets the sector's extension condition
+}
+
+export interface TaxHolidayStatus {
+  applies: boolean;
+  share: number; // fraction of the tax year inside the holiday
+  endDate: string; // last day of the holiday, ISO
+  extended: boolean;
+  extensionAvailable: string | null; // the condition, when an extension could still be claimed
+  warning: string | null;
+}
+
+// Warn this many days before a holiday ends
+export const HOLIDAY_EXPIRY_WARNING_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const utcDate = (iso: string) => new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+const toIso = (date: Date) => date.toISOString().slice(0, 10);
+
+// Sectors whose incentives include a holiday, with its term
+export function getTaxHolidayTerm(sector: BusinessSector): TaxHolidayTerm | null {
+  const incentive = BUSINESS_TYPES.find((bt) => bt.id === sector)?.taxIncentives.find((i) => i.holiday);
+  return incentive?.holiday ?? null;
+}
+
+export const TAX_HOLIDAY_SECTORS: BusinessSector[] = BUSINESS_TYPES
+  .filter((bt) => getTaxHolidayTerm(bt.id) !== null)
+  .map((bt) => bt.id);
+
+// The holiday for the tax year — the portion of the year inside the term —
+// and any warning as of today
+export function taxHolidayStatus(holiday: TaxHoliday, taxYear: number, today: Date = new Date()): TaxHolidayStatus {
+  const term = getTaxHolidayTerm(holiday.sector);
+  const extended = !!term?.extension && holiday.extensionConditionsMet;
+  const years = holiday.initialYears + (extended ? term!.extension!.years : 0);
+
+  const start = utcDate(holiday.startDate);
+  const end = new Date(Date.UTC(start.getUTCFullYear() + years, start.getUTCMonth(), start.getUTCDate()) - DAY_MS);
+
+  const yearStart = Date.UTC(taxYear, 0, 1);
+  const yearEnd = Date.UTC(taxYear, 11, 31);
+  const overlap = Math.min(end.getTime(), yearEnd) - Math.max(start.getTime(), yearStart);
+  const share = term && overlap >= 0 ? Math.min(1, (overlap / DAY_MS + 1) / ((yearEnd - yearStart) / DAY_MS + 1)) : 0;
+
+  const endDate = toIso(end);
+  const daysLeft = Math.floor((end.getTime() - utcDate(toIso(today)).getTime()) / DAY_MS);
+  const extensionAvailable = term?.extension && !extended ? term.extension.condition : null;
+
+  let warning: string | null = null;
+  if (!term) {
+    warning = 'This sector has no tax holiday';
+  } else if (daysLeft >= 0 && daysLeft <= HOLIDAY_EXPIRY_WARNING_DAYS) {
+    warning = `Tax holiday ends on ${endDate} (${daysLeft} days left) — profits after that date are taxable`
+      + (extensionAvailable ? `. It can be extended by ${term.extension!.years} years if: ${extensionAvailable}` : '');
+  } else if (share > 0 && share < 1) {
+    warning = `The holiday covers ${Math.round(share * 100)}% of ${taxYear}; tax is charged on the rest of the year`;
+  }
+
+  return { applies: share > 0, share, endDate, extended, extensionAvailable, warning };
+}
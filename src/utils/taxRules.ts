@@ -0,0 +1,388 @@
+// Effective-dated tax rule sets
+// Each regime's rates, bands and thresholds live here, keyed by the first tax
+// year they apply to, so a return can be recomputed under the law in force for
+// that year (e.g. a 2024 return under PITA/CITA) instead of today's NTA 2025.
+
+export type CompanySize = 'small' | 'medium' | 'big' | 'large';
+
+export interface PersonalTaxBand {
+  min: number;
+  max: number;
+  rate: number;
+}
+
+// PITA s.33: higher of ₦200,000 or 1% of gross income, plus 20% of gross income
+export interface ConsolidatedReliefRule {
+  fixedAmount: number;
+  grossIncomeRate: number;
+  additionalRate: number;
+}
+
+export interface PersonalTaxRules {
+  bands: PersonalTaxBand[];
+  pensionRate: number;
+  nhfRate: number;
+  voluntaryPensionMaxMonthlyRate: number;
+  rentRelief: { rate: number; cap: number } | null;
+  consolidatedRelief: ConsolidatedReliefRule | null;
+  // PITA s.37: tax cannot fall below this share of gross income
+  minimumTaxRate: number | null;
+  residency: ResidencyRules;
+  // WHT that is the final tax on a resident's dividends and interest
+  residentFinalWhtRates: Record<'dividends' | 'interest', number>;
+  compensation: CompensationRules;
+}
+
+// Compensation for loss of office is exempt up to a threshold; the excess is
+// charged as a capital gain or stacked on the recipient's income for the year
+export interface CompensationRules {
+  exemption: number;
+  excessTaxedAs: 'capitalGain' | 'income';
+}
+
+export type FinalWhtIncomeType = 'directorsFees' | 'dividends' | 'interest' | 'royalties' | 'rent';
+
+// Who is resident, and the final withholding tax a non-resident suffers on
+// Nigeria-sourced income that isn't assessed through the bands
+export interface ResidencyRules {
+  daysThreshold: number; // days present in a 12-month period
+  nonResidentWhtRates: Record<FinalWhtIncomeType, number>;
+}
+
+// Relief for unrelieved trading losses brought forward. null = no limit.
+export interface LossReliefRule {
+  carryForwardYears: number | null; // years after the loss year it can still be used
+  maxOffsetRate: number | null; // share of a year's profit that losses may absorb
+}
+
+// EDI credit on qualifying capital expenditure (QCE) under an approved certificate
+export interface EdiCreditRule {
+  annualRate: number; // credit a year on each year's QCE
+  maxYears: number; // certificate life, counting the approval year
+  maxTotalRate: number; // lifetime cap as a share of QCE
+}
+
+export interface CompanyTaxRules {
+  small: {
+    maxTurnover: number;
+    maxFixedAssets: number | null; // null = no asset test
+    rate: number;
+  };
+  medium: {
+    maxTurnover: number;
+    rate: number;
+  } | null;
+  big: {
+    rate: number;
+  };
+  // Development Levy (NTA 2025) or Tertiary Education Tax (TETFund Act) —
+  // both charged on assessable profit
+  levy: {
+    name: string;
+    rate: number;
+    exemptSmall: boolean;
+    exemptNonResident: boolean;
+  };
+  professionalServicesExcludedFromSmall: boolean;
+  large: {
+    turnoverThreshold: number;
+    mneGlobalTurnoverThreshold: number; // EUR
+    minimumETR: number;
+  } | null;
+  edi: EdiCreditRule | null; // Economic Development Incentive — NTA 2025 only
+  lossRelief: LossReliefRule;
+}
+
+// Chargeable gains on disposals of land, buildings, vehicles and other assets.
+// A flat rate (Capital Gains Tax Act), or with rate null the gains are taxed
+// as income — at the PIT bands for individuals and the CIT rate for companies.
+export interface CapitalGainsRules {
+  rate: number | null;
+  chattelExemptionThreshold: number; // personal chattels sold for no more than this are exempt
+  lossesOffsetGains: boolean; // capital losses reduce other gains of the same year
+  shares: ShareDisposalRules;
+}
+
+// Disposals of shares in a tax year: exempt while the year's proceeds stay
+// within the threshold, up to the exempt gain (null for the whole gain); the
+// rest is charged at the rate
+export interface ShareDisposalRules {
+  proceedsThreshold: number;
+  maxExemptGain: number | null;
+  rate: number;
+}
+
+export type PenaltyTaxType = 'PIT' | 'CIT' | 'VAT' | 'WHT' | 'PAYE';
+
+// Administrative penalties for one tax. Late filing is a fixed sum for the
+// first month (or part) plus a sum for each further month; late payment is a
+// share of the unpaid tax, charged once or per annum, plus interest.
+export interface PenaltyRule {
+  lateFiling: { firstMonth: number; subsequentMonth: number } | null;
+  latePayment: { rate: number; perAnnum: boolean };
+  interest: boolean;
+}
+
+export interface PenaltyRules {
+  interestRate: number; // annual, simple — CBN monetary policy rate
+  taxes: Record<PenaltyTaxType, PenaltyRule>;
+}
+
+// Steps of a computation that cite the law they apply (see workings.ts)
+export type WorkingTopic =
+  | 'bands' | 'pension' | 'voluntaryPension' | 'nhf' | 'rentRelief' | 'consolidatedRelief' | 'minimumTax'
+  | 'finalWht' | 'foreignTaxCredit' | 'companyClassification' | 'cit' | 'levy' | 'lossRelief'
+  | 'taxHoliday' | 'ediCredit' | 'incentiveDeduction' | 'incentiveCredit' | 'minimumETR' | 'digitalAssets' | 'whtCredit';
+
+export interface TaxRuleSet {
+  id: string;
+  name: string;
+  legislation: string;
+  effectiveFrom: string; // ISO date the regime commenced
+  firstTaxYear: number;
+  personal: PersonalTaxRules;
+  company: CompanyTaxRules;
+  capitalGains: CapitalGainsRules;
+  penalties: PenaltyRules;
+  // Statutory reference for each step of the workings; missing topics cite
+  // the regime's legislation as a whole
+  references: Partial<Record<WorkingTopic, string>>;
+}
+
+// PITA (as amended by Finance Acts 2020–2023) and CITA with the Finance Act
+// 2019 small/medium/large tiers and 3% Tertiary Education Tax
+export const PITA_CITA_FA2023_RULES: TaxRuleSet = {
+  id: 'pita-cita-fa2023',
+  name: 'PITA / CITA (Finance Act 2023)',
+  legislation: 'Personal Income Tax Act, Companies Income Tax Act, Finance Act 2023',
+  effectiveFrom: '2023-05-28',
+  firstTaxYear: 2023,
+  personal: {
+    bands: [
+      { min: 0, max: 300000, rate: 0.07 },
+      { min: 300001, max: 600000, rate: 0.11 },
+      { min: 600001, max: 1100000, rate: 0.15 },
+      { min: 1100001, max: 1600000, rate: 0.19 },
+      { min: 1600001, max: 3200000, rate: 0.21 },
+      { min: 3200001, max: Infinity, rate: 0.24 },
+    ],
+    pensionRate: 0.08,
+    nhfRate: 0.025,
+    voluntaryPensionMaxMonthlyRate: 1 / 3,
+    rentRelief: null,
+    consolidatedRelief: {
+      fixedAmount: 200000,
+      grossIncomeRate: 0.01,
+      additionalRate: 0.20,
+    },
+    minimumTaxRate: 0.01,
+    // PITA s.2 and s.10; WHT Regulations 1997 rates, final for non-residents
+    residency: {
+      daysThreshold: 183,
+      nonResidentWhtRates: { directorsFees: 0.10, dividends: 0.10, interest: 0.10, royalties: 0.10, rent: 0.10 },
+    },
+    residentFinalWhtRates: { dividends: 0.10, interest: 0.10 },
+    // CGT Act s.36(3) as amended by FA2019
+    compensation: { exemption: 10000000, excessTaxedAs: 'capitalGain' },
+  },
+  company: {
+    small: {
+      maxTurnover: 25000000, // ₦25 million
+      maxFixedAssets: null,
+      rate: 0,
+    },
+    medium: {
+      maxTurnover: 99999999, // below ₦100 million
+      rate: 0.20,
+    },
+    big: {
+      rate: 0.30,
+    },
+    levy: {
+      name: 'Tertiary Education Tax',
+      rate: 0.03,
+      exemptSmall: true,
+      exemptNonResident: true,
+    },
+    professionalServicesExcludedFromSmall: false,
+    large: null,
+    edi: null,
+    // CITA s.31 as amended by Finance Act 2019: indefinite, uncapped carry-forward
+    lossRelief: {
+      carryForwardYears: null,
+      maxOffsetRate: null,
+    },
+  },
+  // Capital Gains Tax Act: 10% flat, no relief for capital losses
+  capitalGains: {
+    rate: 0.10,
+    chattelExemptionThreshold: 1000,
+    lossesOffsetGains: false,
+    // CGTA s.30 as amended by the Finance Act 2021
+    shares: { proceedsThreshold: 100000000, maxExemptGain: null, rate: 0.10 },
+  },
+  // CITA s.55 and s.85, PITA s.94 and s.77, VAT Act s.35 and s.19 (FA2020),
+  // PITA s.82 for PAYE; interest at the CBN MPR (FIRSEA s.32)
+  penalties: {
+    interestRate: 0.275,
+    taxes: {
+      PIT: { lateFiling: { firstMonth: 5000, subsequentMonth: 0 }, latePayment: { rate: 0.10, perAnnum: false }, interest: true },
+      CIT: { lateFiling: { firstMonth: 25000, subsequentMonth: 5000 }, latePayment: { rate: 0.10, perAnnum: false }, interest: true },
+      VAT: { lateFiling: { firstMonth: 50000, subsequentMonth: 25000 }, latePayment: { rate: 0.10, perAnnum: true }, interest: true },
+      WHT: { lateFiling: null, latePayment: { rate: 0.10, perAnnum: true }, interest: true },
+      PAYE: { lateFiling: { firstMonth: 500000, subsequentMonth: 0 }, latePayment: { rate: 0.10, perAnnum: false }, interest: true },
+    },
+  },
+  references: {
+    bands: 'PITA Sixth Schedule',
+    pension: 'PRA 2014 s.4(1), s.10(1)',
+    voluntaryPension: 'PRA 2014 s.4(3)',
+    nhf: 'NHF Act 1992 s.4',
+    consolidatedRelief: 'PITA s.33 (Finance Act 2020)',
+    minimumTax: 'PITA s.37',
+    finalWht: 'WHT Regulations 1997',
+    foreignTaxCredit: 'PITA s.39, CITA s.75',
+    companyClassification: 'CITA s.105 (Finance Act 2019)',
+    cit: 'CITA s.40',
+    levy: 'TETFund Act 2011 s.1',
+    lossRelief: 'CITA s.31',
+    taxHoliday: 'IDITRA 1971 (pioneer status)',
+  },
+};
+
+export const NTA_2025_RULES: TaxRuleSet = {
+  id: 'nta-2025',
+  name: 'Nigeria Tax Act 2025',
+  legislation: 'Nigeria Tax Act 2025',
+  effectiveFrom: '2026-01-01',
+  firstTaxYear: 2026,
+  personal: {
+    bands: [
+      { min: 0, max: 800000, rate: 0 },
+      { min: 800001, max: 3000000, rate: 0.15 },
+      { min: 3000001, max: 12000000, rate: 0.18 },
+      { min: 12000001, max: 25000000, rate: 0.21 },
+      { min: 25000001, max: 50000000, rate: 0.23 },
+      { min: 50000001, max: Infinity, rate: 0.25 },
+    ],
+    pensionRate: 0.08,
+    nhfRate: 0.025,
+    // PRA 2014 / PenCom Guidelines: max monthly VC = 1/3 of monthly salary
+    voluntaryPensionMaxMonthlyRate: 1 / 3,
+    rentRelief: {
+      rate: 0.20, // 20% of annual rent
+      cap: 500000, // ₦500,000 cap
+    },
+    consolidatedRelief: null,
+    minimumTaxRate: null,
+    // NTA 2025 resident individual test; Deduction of Tax at Source
+    // (Withholding) Regulations 2024 rates for non-residents
+    residency: {
+      daysThreshold: 183,
+      nonResidentWhtRates: { directorsFees: 0.20, dividends: 0.10, interest: 0.10, royalties: 0.10, rent: 0.10 },
+    },
+    residentFinalWhtRates: { dividends: 0.10, interest: 0.10 },
+    compensation: { exemption: 50000000, excessTaxedAs: 'income' },
+  },
+  company: {
+    small: {
+      maxTurnover: 100000000, // ₦100 million
+      maxFixedAssets: 250000000, // ₦250 million
+      rate: 0,
+    },
+    medium: null,
+    big: {
+      rate: 0.30,
+    },
+    levy: {
+      name: 'Development Levy',
+      rate: 0.04, // on assessable profits
+      exemptSmall: true,
+      exemptNonResident: true,
+    },
+    professionalServicesExcludedFromSmall: true,
+    large: {
+      turnoverThreshold: 50000000000, // ₦50 billion
+      mneGlobalTurnoverThreshold: 750000000, // €750 million (in EUR)
+      minimumETR: 0.15, // 15% Effective Tax Rate (OECD Pillar II)
+    },
+    edi: {
+      annualRate: 0.05, // 5% of QCE a year
+      maxYears: 5, // from the year the certificate is approved
+      maxTotalRate: 0.25, // at most 25% of QCE over the certificate's life
+    },
+    // Losses carry forward indefinitely against future profits of the same company
+    lossRelief: {
+      carryForwardYears: null,
+      maxOffsetRate: null,
+    },
+  },
+  // Chargeable gains are taxed as income; losses offset gains of the same year
+  capitalGains: {
+    rate: null,
+    chattelExemptionThreshold: 5000000,
+    lossesOffsetGains: true,
+    shares: { proceedsThreshold: 150000000, maxExemptGain: 10000000, rate: 0.10 },
+  },
+  // Nigeria Tax Administration Act 2025: one late filing scale for every
+  // return, 10% of unpaid tax plus interest at the CBN MPR
+  penalties: {
+    interestRate: 0.275,
+    taxes: {
+      PIT: { lateFiling: { firstMonth: 100000, subsequentMonth: 50000 }, latePayment: { rate: 0.10, perAnnum: false }, interest: true },
+      CIT: { lateFiling: { firstMonth: 100000, subsequentMonth: 50000 }, latePayment: { rate: 0.10, perAnnum: false }, interest: true },
+      VAT: { lateFiling: { firstMonth: 100000, subsequentMonth: 50000 }, latePayment: { rate: 0.10, perAnnum: false }, interest: true },
+      WHT: { lateFiling: { firstMonth: 100000, subsequentMonth: 50000 }, latePayment: { rate: 0.10, perAnnum: false }, interest: true },
+      PAYE: { lateFiling: { firstMonth: 100000, subsequentMonth: 50000 }, latePayment: { rate: 0.10, perAnnum: false }, interest: true },
+    },
+  },
+  references: {
+    bands: 'NTA 2025 Fourth Schedule',
+    pension: 'PRA 2014 s.4(1); NTA 2025 s.30(2)(a)',
+    voluntaryPension: 'PRA 2014 s.4(3); NTA 2025 s.30(2)(a)(iii)',
+    nhf: 'NHF Act 1992 s.4; NTA 2025 s.30(2)(a)',
+    rentRelief: 'NTA 2025 s.30(2)(a)(vi)',
+    finalWht: 'Deduction of Tax at Source (Withholding) Regulations 2024',
+    foreignTaxCredit: 'NTA 2025 double taxation relief; applicable treaty',
+    companyClassification: 'NTA 2025 s.202 (small company)',
+    cit: 'NTA 2025 s.56',
+    levy: 'NTA 2025 s.59',
+    lossRelief: 'NTA 2025 (losses carried forward)',
+    taxHoliday: 'NTA 2025 transitional pioneer status',
+    ediCredit: 'NTA 2025 Economic Development Incentive',
+    minimumETR: 'NTA 2025 s.57; OECD GloBE Rules',
+    digitalAssets: 'NTA 2025; NRS virtual asset guidelines',
+  },
+};
+
+// Oldest first — a tax year uses the latest rule set that has commenced by then
+export const TAX_RULE_SETS: TaxRuleSet[] = [PITA_CITA_FA2023_RULES, NTA_2025_RULES];
+
+export function currentTaxYear(): number {
+  return new Date().getFullYear();
+}
+
+export function getTaxRuleSet(taxYear: number): TaxRuleSet {
+  let match: TaxRuleSet | undefined;
+  for (const ruleSet of TAX_RULE_SETS) {
+    if (ruleSet.firstTaxYear <= taxYear) match = ruleSet;
+  }
+  if (!match) {
+    throw new RangeError(`No tax rule set covers tax year ${taxYear}`);
+  }
+  return match;
+}
+
+export function getTaxRuleSetById(id: string): TaxRuleSet | undefined {
+  return TAX_RULE_SETS.find((ruleSet) => ruleSet.id === id);
+}
+
+// Tax years the calculators offer, newest first (includes next year so a
+// future budget can be modelled once its rule set is registered)
+export function getSupportedTaxYears(): number[] {
+  const years: number[] = [];
+  for (let year = currentTaxYear() + 1; year >= TAX_RULE_SETS[0].firstTaxYear; year--) {
+    years.push(year);
+  }
+  return years;
+}
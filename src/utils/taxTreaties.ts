@@ -0,0 +1,68 @@
+// Double taxation relief available by country
+// Treaty partners give a credit for the foreign tax up to the Nigerian tax on
+// the same income, with dividends, interest and royalties creditable only up
+// to the treaty withholding rate (anything withheld above it is reclaimed from
+// the other country). Commonwealth countries without a treaty get unilateral
+// relief capped at half the Nigerian tax (PITA s.39, CITA s.75). Other
+// countries give no credit.
+
+export type ReliefBasis = 'treaty' | 'commonwealth' | 'none';
+
+export type TreatyIncomeType = 'dividends' | 'interest' | 'royalties';
+
+export interface TaxTreaty {
+  code: string; // ISO 3166-1 alpha-2
+  country: string;
+  relief: ReliefBasis;
+  // Maximum creditable withholding by income type under the treaty
+  withholdingRates: Partial<Record<TreatyIncomeType, number>>;
+  creditLimit: number; // share of the Nigerian tax attributable that can be credited
+}
+
+const treaty = (code: string, country: string, rate = 0.075): TaxTreaty => ({
+  code,
+  country,
+  relief: 'treaty',
+  withholdingRates: { dividends: rate, interest: rate, royalties: rate },
+  creditLimit: 1,
+});
+
+const commonwealth = (code: string, country: string): TaxTreaty => ({
+  code,
+  country,
+  relief: 'commonwealth',
+  withholdingRates: {},
+  creditLimit: 0.5,
+});
+
+export const TAX_TREATIES: TaxTreaty[] = [
+  treaty('BE', 'Belgium'),
+  treaty('CA', 'Canada', 0.125),
+  treaty('CN', 'China'),
+  treaty('CZ', 'Czech Republic'),
+  treaty('ES', 'Spain'),
+  treaty('FR', 'France'),
+  treaty('GB', 'United Kingdom'),
+  treaty('NL', 'Netherlands'),
+  treaty('PH', 'Philippines'),
+  treaty('PK', 'Pakistan'),
+  treaty('RO', 'Romania'),
+  treaty('SE', 'Sweden'),
+  treaty('SG', 'Singapore'),
+  treaty('SK', 'Slovakia'),
+  treaty('ZA', 'South Africa'),
+  commonwealth('AU', 'Australia'),
+  commonwealth('GH', 'Ghana'),
+  commonwealth('IN', 'India'),
+  commonwealth('KE', 'Kenya'),
+  commonwealth('MY', 'Malaysia'),
+  commonwealth('NZ', 'New Zealand'),
+  commonwealth('RW', 'Rwanda'),
+  commonwealth('SL', 'Sierra Leone'),
+];
+
+const NO_RELIEF = { relief: 'none' as const, withholdingRates: {}, creditLimit: 0 };
+
+export function getTaxTreaty(code: string): TaxTreaty {
+  return TAX_TREATIES.find((t) => t.code === code) ?? { code, country: code, ...NO_RELIEF };
+}
@@ -1,6 +1,11 @@
 // Nigeria VAT & WHT Calculation Utilities
 // VAT: Finance Act 2019 — 7.5% standard rate
 // WHT: FIRS rates for residents
+// VAT and WHT are rounded to the kobo per line (see money.ts) and totals are
+// summed in kobo, so a VAT-inclusive amount always splits exactly into its
+// net and VAT parts and the lines add up to the return totals.
+
+import { roundMoney, subtractMoney, sumMoney } from './money';
 
 // ─── VAT ─────────────────────────────────────────────────────────────────────
 
@@ -40,59 +45,50 @@ export interface VATResult {
 
 export function extractVATAmount(amount: number, inclusive: boolean): { excl: number; vat: number } {
   if (inclusive) {
-    const excl = amount / (1 + VAT_RATE);
-    return { excl, vat: amount - excl };
+    // VAT fraction of the gross (7.5/107.5); the net is the remainder
+    const vat = roundMoney((amount * VAT_RATE) / (1 + VAT_RATE), 'VAT');
+    return { excl: subtractMoney(amount, vat), vat };
   }
-  return { excl: amount, vat: amount * VAT_RATE };
+  return { excl: amount, vat: roundMoney(amount * VAT_RATE, 'VAT') };
 }
 
+interface VATSplit {
+  excl: number;
+  vat: number;
+  supplyType: VATSupplyType;
+}
+
+const splitLine = (item: VATLineItem): VATSplit => ({ ...extractVATAmount(item.amount, item.isInclusive), supplyType: item.supplyType });
+
+// Sum of a field over the lines, optionally only those of the given supply types
+const total = (lines: VATSplit[], pick: (l: VATSplit) => number, types?: VATSupplyType[]): number =>
+  sumMoney(lines.filter((l) => !types || types.includes(l.supplyType)).map(pick));
+
+// Only standard-rated lines carry VAT; zero-rated and exempt are net only
+const grossOf = (l: VATSplit): number => (l.supplyType === 'standard' ? l.excl + l.vat : l.excl);
+
 export function calculateVAT(sales: VATLineItem[], purchases: VATLineItem[]): VATResult {
-  let outputVAT = 0;
-  let totalSalesExclVAT = 0;
-  let totalSalesInclVAT = 0;
-  let standardRatedSales = 0;
-  let zeroRatedSales = 0;
-  let exemptSales = 0;
-
-  for (const s of sales) {
-    const { excl, vat } = extractVATAmount(s.amount, s.isInclusive);
-    totalSalesExclVAT += excl;
-    if (s.supplyType === 'standard') {
-      outputVAT += vat;
-      standardRatedSales += excl;
-      totalSalesInclVAT += excl + vat;
-    } else if (s.supplyType === 'zero_rated') {
-      zeroRatedSales += excl;
-      totalSalesInclVAT += excl;
-    } else {
-      exemptSales += excl;
-      totalSalesInclVAT += excl;
-    }
-  }
+  const salesLines = sales.map(splitLine);
+  const purchaseLines = purchases.map(splitLine);
 
-  let inputVAT = 0;
-  let totalPurchasesExclVAT = 0;
-  let totalPurchasesInclVAT = 0;
-  let standardRatedPurchases = 0;
-
-  for (const p of purchases) {
-    const { excl, vat } = extractVATAmount(p.amount, p.isInclusive);
-    totalPurchasesExclVAT += excl;
-    if (p.supplyType === 'standard') {
-      inputVAT += vat;
-      standardRatedPurchases += excl;
-      totalPurchasesInclVAT += excl + vat;
-    } else {
-      totalPurchasesInclVAT += excl;
-    }
-  }
+  const outputVAT = total(salesLines, (l) => l.vat, ['standard']);
+  const totalSalesExclVAT = total(salesLines, (l) => l.excl);
+  const totalSalesInclVAT = total(salesLines, grossOf);
+  const standardRatedSales = total(salesLines, (l) => l.excl, ['standard']);
+  const zeroRatedSales = total(salesLines, (l) => l.excl, ['zero_rated']);
+  const exemptSales = total(salesLines, (l) => l.excl, ['exempt']);
+
+  const inputVAT = total(purchaseLines, (l) => l.vat, ['standard']);
+  const totalPurchasesExclVAT = total(purchaseLines, (l) => l.excl);
+  const totalPurchasesInclVAT = total(purchaseLines, grossOf);
+  const standardRatedPurchases = total(purchaseLines, (l) => l.excl, ['standard']);
 
   // Partial exemption: input VAT only recoverable on taxable (standard + zero-rated) supplies
   const taxableSales = standardRatedSales + zeroRatedSales;
   const partialExemptionRatio = totalSalesExclVAT > 0 ? taxableSales / totalSalesExclVAT : 1;
-  const recoverableInputVAT = inputVAT * partialExemptionRatio;
+  const recoverableInputVAT = partialExemptionRatio === 1 ? inputVAT : roundMoney(inputVAT * partialExemptionRatio, 'credit');
 
-  const net = outputVAT - recoverableInputVAT;
+  const net = subtractMoney(outputVAT, recoverableInputVAT);
 
   return {
     outputVAT,
@@ -163,15 +159,15 @@ export function calculateWHT(items: WHTLineItem[]): WHTSummary {
     const rate = type
       ? item.recipientType === 'company' ? type.companyRate : type.individualRate
       : 0;
-    const whtAmount = item.grossAmount * rate;
-    return { ...item, rate, whtAmount, netPayable: item.grossAmount - whtAmount };
+    const whtAmount = roundMoney(item.grossAmount * rate, 'WHT');
+    return { ...item, rate, whtAmount, netPayable: subtractMoney(item.grossAmount, whtAmount) };
   });
 
   return {
     lines,
-    totalGross: lines.reduce((s, l) => s + l.grossAmount, 0),
-    totalWHT: lines.reduce((s, l) => s + l.whtAmount, 0),
-    totalNet: lines.reduce((s, l) => s + l.netPayable, 0),
+    totalGross: sumMoney(lines.map((l) => l.grossAmount)),
+    totalWHT: sumMoney(lines.map((l) => l.whtAmount)),
+    totalNet: sumMoney(lines.map((l) => l.netPayable)),
   };
 }
 
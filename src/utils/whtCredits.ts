@@ -0,0 +1,92 @@
+// Withholding tax credit notes
+// Customers deduct WHT from payments and issue a credit note for it. The notes
+// are tax already suffered: they are set off, oldest first, against the
+// company's final income tax liability, and anything left over is carried
+// forward to later years.
+
+export interface WhtCreditNote {
+  id?: string;
+  payerName: string;
+  creditNoteNumber: string;
+  amount: number;
+  date: string; // ISO date the WHT was deducted
+}
+
+export interface WhtCreditEntry {
+  payerName: string;
+  creditNoteNumber: string;
+  date: string;
+  amount: number; // face value of the note
+  remaining: number; // still unused
+}
+
+export interface WhtCreditResult {
+  creditAvailable: number; // unused credits dated up to the end of the year
+  creditApplied: number;
+  creditCarriedForward: number; // everything left on the closing ledger
+  taxPayable: number; // liability after credits
+  ledger: WhtCreditEntry[]; // closing ledger to carry to the next year
+}
+
+const yearOf = (date: string) => new Date(date).getFullYear();
+
+export function totalUnusedCredit(ledger: WhtCreditEntry[]): number {
+  return ledger.reduce((sum, entry) => sum + entry.remaining, 0);
+}
+
+// Opening ledger for a year from the register. Notes already covered by a
+// saved earlier computation take their remaining balance from its closing
+// ledger (absent there means fully used); newer notes enter at face value.
+export function buildWhtCreditLedger(
+  notes: WhtCreditNote[],
+  carried: { fromYear: number; ledger: WhtCreditEntry[] } | null = null
+): WhtCreditEntry[] {
+  const ledger: WhtCreditEntry[] = [];
+  for (const note of notes) {
+    if (carried && yearOf(note.date) <= carried.fromYear) {
+      const entry = carried.ledger.find((e) => e.creditNoteNumber === note.creditNoteNumber);
+      if (entry && entry.remaining > 0) ledger.push({ ...entry });
+      continue;
+    }
+    ledger.push({
+      payerName: note.payerName,
+      creditNoteNumber: note.creditNoteNumber,
+      date: note.date,
+      amount: note.amount,
+      remaining: note.amount,
+    });
+  }
+  return ledger;
+}
+
+export function applyWhtCredits(
+  openingLedger: WhtCreditEntry[],
+  taxYear: number,
+  liability: number
+): WhtCreditResult {
+  const ledger = openingLedger
+    .map((entry) => ({ ...entry }))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  // Notes dated after the year end can't be used against it
+  const usable = ledger.filter((entry) => yearOf(entry.date) <= taxYear && entry.remaining > 0);
+  const creditAvailable = totalUnusedCredit(usable);
+
+  let capacity = Math.max(0, liability);
+  let creditApplied = 0;
+  for (const entry of usable) {
+    if (capacity <= 0) break;
+    const used = Math.min(entry.remaining, capacity);
+    entry.remaining -= used;
+    capacity -= used;
+    creditApplied += used;
+  }
+
+  const closing = ledger.filter((entry) => entry.remaining > 0);
+  return {
+    creditAvailable,
+    creditApplied,
+    creditCarriedForward: totalUnusedCredit(closing),
+    taxPayable: Math.max(0, liability) - creditApplied,
+    ledger: closing,
+  };
+}
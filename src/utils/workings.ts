@@ -0,0 +1,28 @@
+// Workings: the audit trail behind a result
+// Each step records what went in, the formula applied, the figure it produced,
+// any cap or limit that bit, and the statutory reference from the rule set, in
+// the order the computation runs. The calculators show them under "Show
+// workings" and print them in the PDF.
+
+import { TaxRuleSet, WorkingTopic } from './taxRules';
+
+export interface WorkingStep {
+  topic: WorkingTopic;
+  label: string;
+  input: string;
+  formula: string;
+  value: number | string; // naira, or an outcome such as a classification
+  cap?: string; // set when a cap or limit changed the figure
+  reference: string;
+}
+
+export type WorkingDetail = Omit<WorkingStep, 'topic' | 'label' | 'reference'>;
+
+// Collects steps for one computation, citing the rule set's references
+export function recordWorkings(ruleSet: TaxRuleSet) {
+  const steps: WorkingStep[] = [];
+  const add = (topic: WorkingTopic, label: string, detail: WorkingDetail) => {
+    steps.push({ topic, label, ...detail, reference: ruleSet.references[topic] ?? ruleSet.legislation });
+  };
+  return { steps, add };
+}